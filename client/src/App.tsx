@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -6,8 +6,11 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { useWebSocket } from "@/hooks/use-websocket";
+import { useAuth } from "@/hooks/use-auth";
+import { canAccessPath } from "@/lib/permissions";
 
 import NotFound from "@/pages/not-found";
+import AccessDenied from "@/pages/access-denied";
 import LoginPage from "@/pages/login";
 import DashboardPage from "@/pages/dashboard";
 import BillingPage from "@/pages/billing";
@@ -40,6 +43,8 @@ import AnalyticsPage from "@/pages/analytics";
 import SalesDetailedPage from "@/pages/sales-detailed";
 import ItemPerformancePage from "@/pages/item-performance";
 import KitchenPerformancePage from "@/pages/kitchen-performance";
+import VoidReportPage from "@/pages/void-report";
+import StockTakePage from "@/pages/stock-take";
 import WastagePage from "@/pages/wastage";
 import MultiLocationPage from "@/pages/multi-location";
 import UserRolesPage from "@/pages/user-roles";
@@ -61,6 +66,13 @@ import DatabasePage from "@/pages/database";
 import DigitalMenuOrdersPage from "@/pages/digital-menu-orders";
 
 function Router() {
+  const [location] = useLocation();
+  const { user } = useAuth();
+
+  if (!canAccessPath(user, location)) {
+    return <AccessDenied />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={DashboardPage} />
@@ -77,6 +89,7 @@ function Router() {
       <Route path="/loyalty" component={LoyaltyPage} />
       <Route path="/inventory" component={InventoryPage} />
       <Route path="/inventory-history" component={InventoryHistoryPage} />
+      <Route path="/stock-take" component={StockTakePage} />
       <Route path="/purchase-orders" component={PurchaseOrdersPage} />
       <Route path="/suppliers" component={SuppliersPage} />
       <Route path="/staff" component={StaffPage} />
@@ -95,6 +108,7 @@ function Router() {
       <Route path="/sales-detailed" component={SalesDetailedPage} />
       <Route path="/item-performance" component={ItemPerformancePage} />
       <Route path="/kitchen-performance" component={KitchenPerformancePage} />
+      <Route path="/void-report" component={VoidReportPage} />
       <Route path="/wastage" component={WastagePage} />
       <Route path="/multi-location" component={MultiLocationPage} />
       <Route path="/user-roles" component={UserRolesPage} />
@@ -119,26 +133,46 @@ function Router() {
   );
 }
 
-function App() {
+function AuthenticatedApp() {
   useWebSocket();
-  
+
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
   };
 
+  return (
+    <SidebarProvider style={style as React.CSSProperties} defaultOpen={false}>
+      <div className="flex h-screen w-full">
+        <AppSidebar />
+        <main className="flex-1 overflow-hidden flex flex-col w-full">
+          <Router />
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+}
+
+function AppContent() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="h-screen flex items-center justify-center text-muted-foreground">
+        Loading...
+      </div>
+    );
+  }
+
+  return user ? <AuthenticatedApp /> : <LoginPage />;
+}
+
+function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <SidebarProvider style={style as React.CSSProperties} defaultOpen={false}>
-          <div className="flex h-screen w-full">
-            <AppSidebar />
-            <main className="flex-1 overflow-hidden flex flex-col w-full">
-              <Router />
-            </main>
-          </div>
-          <Toaster />
-        </SidebarProvider>
+        <AppContent />
+        <Toaster />
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -14,6 +14,8 @@ import { Input } from "@/components/ui/input";
 import { useSidebar } from "@/components/ui/sidebar";
 import { useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { canAccessPath } from "@/lib/permissions";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -36,6 +38,7 @@ export default function AppHeader({
 }: AppHeaderProps) {
   const [location, setLocation] = useLocation();
   const { toggleSidebar } = useSidebar();
+  const { user } = useAuth();
 
   const mainNavButtons = [
     { 
@@ -68,7 +71,7 @@ export default function AppHeader({
       path: "/invoices",
       color: "text-indigo-600 dark:text-indigo-400"
     },
-  ];
+  ].filter((button) => canAccessPath(user, button.path));
 
   return (
     <header className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800 flex-shrink-0 shadow-sm">
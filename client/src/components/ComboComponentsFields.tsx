@@ -0,0 +1,116 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { isCombo } from "@shared/combos";
+import type { ComboComponent, MenuItem } from "@shared/schema";
+
+interface ComboComponentsFieldsProps {
+  components: ComboComponent[];
+  onChange: (components: ComboComponent[]) => void;
+  menuItems: MenuItem[];
+  // The item being edited, which cannot contain itself
+  comboId?: string;
+}
+
+export default function ComboComponentsFields({ components, onChange, menuItems, comboId }: ComboComponentsFieldsProps) {
+  // Combos only nest one level deep
+  const candidates = menuItems.filter((item) => item.id !== comboId && !isCombo(item));
+  const nameOf = (menuItemId: string) => menuItems.find((item) => item.id === menuItemId)?.name ?? "Unknown item";
+
+  const update = (index: number, changes: Partial<ComboComponent>) =>
+    onChange(components.map((component, i) => (i === index ? { ...component, ...changes } : component)));
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Combo Components</Label>
+          <p className="text-sm text-muted-foreground">
+            Leave empty for a regular item. The combo price is split across components by their menu prices.
+          </p>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => onChange([...components, { menuItemId: "", quantity: 1, choices: [] }])}
+          data-testid="button-add-combo-component"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add Component
+        </Button>
+      </div>
+
+      {components.map((component, index) => (
+        <div key={index} className="border border-border rounded-md p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Select value={component.menuItemId} onValueChange={(menuItemId) => update(index, { menuItemId })}>
+              <SelectTrigger className="flex-1" data-testid={`select-combo-component-${index}`}>
+                <SelectValue placeholder="Menu item" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={1}
+              className="w-20"
+              value={component.quantity}
+              onChange={(e) => update(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+              data-testid={`input-combo-component-quantity-${index}`}
+            />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              onClick={() => onChange(components.filter((_, i) => i !== index))}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 pl-1">
+            <span className="text-xs text-muted-foreground">Can swap for:</span>
+            {component.choices.map((menuItemId) => (
+              <Badge key={menuItemId} variant="secondary" className="gap-1">
+                {nameOf(menuItemId)}
+                <button
+                  type="button"
+                  onClick={() => update(index, { choices: component.choices.filter((id) => id !== menuItemId) })}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            <Select
+              value=""
+              onValueChange={(menuItemId) => update(index, { choices: [...component.choices, menuItemId] })}
+            >
+              <SelectTrigger className="h-7 w-36 text-xs">
+                <SelectValue placeholder="Add swap" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates
+                  .filter((item) => item.id !== component.menuItemId && !component.choices.includes(item.id))
+                  .map((item) => (
+                    <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
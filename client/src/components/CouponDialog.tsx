@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { BillBreakdown } from "@shared/billing";
+import { describePromotion } from "@shared/promotions";
+import type { Coupon, Order } from "@shared/schema";
+
+export interface CouponSaved {
+  order: Order;
+  bill: BillBreakdown;
+}
+
+interface CouponDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string | null;
+  currentCode: string | null;
+  onSaved: (result: CouponSaved) => void;
+}
+
+export default function CouponDialog({ open, onOpenChange, orderId, currentCode, onSaved }: CouponDialogProps) {
+  const [code, setCode] = useState("");
+  const [checked, setChecked] = useState<{ coupon: Coupon; amount: number } | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setCode(currentCode ?? "");
+      setChecked(null);
+    }
+  }, [open, currentCode]);
+
+  const validateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/coupons/validate", { code, orderId });
+      return (await res.json()) as { coupon: Coupon; amount: number };
+    },
+    onSuccess: (result) => setChecked(result),
+    onError: (error) => {
+      setChecked(null);
+      toast({
+        title: "Coupon not valid",
+        description: apiErrorMessage(error, "Failed to check coupon"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/orders/${orderId}/coupon`, { code });
+      return (await res.json()) as CouponSaved;
+    },
+    onSuccess: (result) => {
+      onSaved(result);
+      onOpenChange(false);
+      toast({
+        title: "Coupon applied",
+        description: checked ? `₹${checked.amount.toFixed(2)} off` : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Coupon not applied",
+        description: apiErrorMessage(error, "Failed to apply coupon"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/orders/${orderId}/coupon`);
+      return (await res.json()) as CouponSaved;
+    },
+    onSuccess: (result) => {
+      onSaved(result);
+      onOpenChange(false);
+      toast({
+        title: "Coupon removed",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to remove coupon"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Apply Coupon</DialogTitle>
+          <DialogDescription>
+            One coupon per order. Usage limits are checked against the customer's phone number.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="coupon-code">Coupon Code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="coupon-code"
+                value={code}
+                onChange={(e) => {
+                  setCode(e.target.value.toUpperCase());
+                  setChecked(null);
+                }}
+                maxLength={20}
+                className="font-mono"
+                data-testid="input-coupon-code"
+              />
+              <Button
+                variant="outline"
+                onClick={() => validateMutation.mutate()}
+                disabled={!code.trim() || validateMutation.isPending}
+                data-testid="button-check-coupon"
+              >
+                {validateMutation.isPending ? "Checking..." : "Check"}
+              </Button>
+            </div>
+          </div>
+
+          {checked && (
+            <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm" data-testid="text-coupon-result">
+              <p className="font-medium text-green-800">{checked.coupon.description || describePromotion(checked.coupon)}</p>
+              <p className="text-green-700">-₹{checked.amount.toFixed(2)} on this bill</p>
+            </div>
+          )}
+
+          <div className="flex justify-between gap-2">
+            {currentCode ? (
+              <Button
+                variant="outline"
+                onClick={() => removeMutation.mutate()}
+                disabled={removeMutation.isPending}
+                data-testid="button-remove-coupon"
+              >
+                Remove Coupon
+              </Button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => applyMutation.mutate()}
+                disabled={!checked || applyMutation.isPending}
+                data-testid="button-save-coupon"
+              >
+                {applyMutation.isPending ? "Applying..." : "Apply"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { discountAmount, discountPercent, type BillBreakdown } from "@shared/billing";
+import {
+  discountReasons,
+  type AppliedDiscount,
+  type DiscountReasonCode,
+  type DiscountRequest,
+  type DiscountType,
+  type Order,
+  type OrderItem,
+} from "@shared/schema";
+
+// An order discount comes back with the order, an item discount with the line; both with the new bill
+export interface DiscountSaved {
+  order?: Order;
+  item?: OrderItem;
+  bill: BillBreakdown;
+}
+
+interface DiscountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  // PUT applies the discount, DELETE removes it
+  endpoint: string;
+  // Amount the discount is taken from, at menu prices
+  base: number;
+  current: AppliedDiscount | null;
+  onSaved: (result: DiscountSaved) => void;
+}
+
+export default function DiscountDialog({ open, onOpenChange, title, endpoint, base, current, onSaved }: DiscountDialogProps) {
+  const [type, setType] = useState<DiscountType>("percent");
+  const [value, setValue] = useState("");
+  const [reasonCode, setReasonCode] = useState<DiscountReasonCode | "">("");
+  const [note, setNote] = useState("");
+  const [managerPin, setManagerPin] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setType(current?.type ?? "percent");
+      setValue(current ? String(current.value) : "");
+      setReasonCode(current?.reasonCode ?? "");
+      setNote(current?.note ?? "");
+      setManagerPin("");
+    }
+  }, [open, current]);
+
+  const numericValue = parseFloat(value) || 0;
+  const rule = { type, value: numericValue };
+  const amount = discountAmount(rule, base);
+  const needsApproval = numericValue > 0 && discountPercent(rule, base) > (user?.maxDiscountPercent ?? 0);
+
+  const applyMutation = useMutation({
+    mutationFn: async (request: DiscountRequest) => {
+      const res = await apiRequest("PUT", endpoint, request);
+      return (await res.json()) as DiscountSaved;
+    },
+    onSuccess: (result) => {
+      onSaved(result);
+      onOpenChange(false);
+      toast({
+        title: "Discount applied",
+        description: `₹${amount.toFixed(2)} off`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Discount not applied",
+        description: apiErrorMessage(error, "Failed to apply discount"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", endpoint);
+      return (await res.json()) as DiscountSaved;
+    },
+    onSuccess: (result) => {
+      onSaved(result);
+      onOpenChange(false);
+      toast({
+        title: "Discount removed",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to remove discount"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleApply = () => {
+    if (numericValue <= 0 || !reasonCode) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a discount and choose a reason",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (needsApproval && !managerPin) {
+      toast({
+        title: "Approval required",
+        description: `Discounts above ${user?.maxDiscountPercent ?? 0}% need a manager's PIN`,
+        variant: "destructive",
+      });
+      return;
+    }
+    applyMutation.mutate({
+      type,
+      value: numericValue,
+      reasonCode,
+      note: note.trim() || null,
+      managerPin: needsApproval ? managerPin : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Applies to ₹{base.toFixed(2)}. Your limit without approval is {user?.maxDiscountPercent ?? 0}%.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(next) => setType(next as DiscountType)}>
+                <SelectTrigger data-testid="select-discount-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Percentage (%)</SelectItem>
+                  <SelectItem value="flat">Flat (₹)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-value">{type === "percent" ? "Percent" : "Amount"}</Label>
+              <Input
+                id="discount-value"
+                type="number"
+                min={0}
+                max={type === "percent" ? 100 : base}
+                step="0.01"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                data-testid="input-discount-value"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reasonCode} onValueChange={(next) => setReasonCode(next as DiscountReasonCode)}>
+              <SelectTrigger data-testid="select-discount-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(discountReasons).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="discount-note">Note (Optional)</Label>
+            <Input
+              id="discount-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={200}
+              data-testid="input-discount-note"
+            />
+          </div>
+
+          {needsApproval && (
+            <div className="space-y-2">
+              <Label htmlFor="discount-pin">Manager PIN</Label>
+              <Input
+                id="discount-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={managerPin}
+                onChange={(e) => setManagerPin(e.target.value.replace(/\D/g, ""))}
+                maxLength={6}
+                data-testid="input-discount-pin"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-between text-sm font-medium border-t pt-3">
+            <span>Discount</span>
+            <span data-testid="text-discount-preview">-₹{amount.toFixed(2)}</span>
+          </div>
+
+          <div className="flex justify-between gap-2">
+            {current ? (
+              <Button
+                variant="outline"
+                onClick={() => removeMutation.mutate()}
+                disabled={removeMutation.isPending}
+                data-testid="button-remove-discount"
+              >
+                Remove Discount
+              </Button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleApply} disabled={applyMutation.isPending} data-testid="button-apply-discount">
+                {applyMutation.isPending ? "Applying..." : "Apply"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { defaultInvoiceSeries, formatInvoiceNumber, invoiceSeriesPrefix } from "@shared/billing";
+import type { InvoiceSeriesSettings as SeriesSettings } from "@shared/schema";
+
+const monthNames = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+export default function InvoiceSeriesSettings() {
+  const [draft, setDraft] = useState<SeriesSettings>(defaultInvoiceSeries);
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<SeriesSettings>({
+    queryKey: ["/api/settings/invoice-series"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDraft(settings);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SeriesSettings) => {
+      const res = await apiRequest("PUT", "/api/settings/invoice-series", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/invoice-series"] });
+      toast({
+        title: "Success",
+        description: "Invoice numbering saved",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save invoice numbering",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const preview = formatInvoiceNumber(invoiceSeriesPrefix(draft, new Date()), 1, draft.digits);
+
+  return (
+    <div className="bg-card rounded-lg border border-card-border p-6 max-w-3xl mt-6">
+      <h3 className="text-lg font-semibold mb-2">Invoice Numbering</h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Each fiscal year and outlet has its own gap-free series. Use {"{FY}"} and {"{OUTLET}"} in the prefix.
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="invoice-prefix">Prefix</Label>
+          <Input
+            id="invoice-prefix"
+            value={draft.prefixFormat}
+            onChange={(e) => setDraft({ ...draft, prefixFormat: e.target.value })}
+            data-testid="input-invoice-prefix"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="invoice-outlet">Outlet Code</Label>
+          <Input
+            id="invoice-outlet"
+            value={draft.outletCode}
+            onChange={(e) => setDraft({ ...draft, outletCode: e.target.value.toUpperCase() })}
+            data-testid="input-invoice-outlet"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="invoice-digits">Digits</Label>
+          <Input
+            id="invoice-digits"
+            type="number"
+            min={1}
+            max={12}
+            value={draft.digits}
+            onChange={(e) => setDraft({ ...draft, digits: parseInt(e.target.value) || 1 })}
+            data-testid="input-invoice-digits"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Fiscal Year Starts</Label>
+          <Select
+            value={String(draft.fiscalYearStartMonth)}
+            onValueChange={(value) => setDraft({ ...draft, fiscalYearStartMonth: parseInt(value) })}
+          >
+            <SelectTrigger data-testid="select-fiscal-year-start">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {monthNames.map((month, index) => (
+                <SelectItem key={month} value={String(index + 1)}>{month}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center justify-between mt-6">
+        <p className="text-sm">
+          First number in the current series: <span className="font-mono font-semibold" data-testid="text-invoice-preview">{preview}</span>
+        </p>
+        <Button
+          onClick={() => saveMutation.mutate(draft)}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-invoice-series"
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Numbering"}
+        </Button>
+      </div>
+    </div>
+  );
+}
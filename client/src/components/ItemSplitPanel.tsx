@@ -0,0 +1,91 @@
+import { Button } from "@/components/ui/button";
+import type { GuestBill } from "@shared/split-bill";
+
+interface ItemSplitPanelProps {
+  items: Array<{ id: string; name: string; quantity: number; price: number }>;
+  guestCount: number;
+  // Guests each item is assigned to; several guests share an item equally
+  assignments: Record<string, number[]>;
+  onToggleGuest: (itemId: string, guest: number) => void;
+  paymentModes: string[];
+  onPaymentModeChange: (index: number, mode: string) => void;
+  // Null until every item has a guest and every guest has an item
+  guestBills: GuestBill[] | null;
+  error: string | null;
+}
+
+export default function ItemSplitPanel({
+  items,
+  guestCount,
+  assignments,
+  onToggleGuest,
+  paymentModes,
+  onPaymentModeChange,
+  guestBills,
+  error,
+}: ItemSplitPanelProps) {
+  const guests = Array.from({ length: guestCount }, (_, index) => index + 1);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-muted p-4 rounded-lg space-y-2 max-h-64 overflow-y-auto">
+        {items.map((item) => (
+          <div key={item.id} className="flex items-center justify-between gap-2" data-testid={`row-split-item-${item.id}`}>
+            <div className="text-sm min-w-0">
+              <p className="font-medium truncate">{item.quantity} × {item.name}</p>
+              <p className="text-xs text-muted-foreground">₹{(item.price * item.quantity).toFixed(2)}</p>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              {guests.map((guest) => (
+                <Button
+                  key={guest}
+                  size="sm"
+                  variant={(assignments[item.id] ?? []).includes(guest) ? "default" : "outline"}
+                  onClick={() => onToggleGuest(item.id, guest)}
+                  className="h-7 w-7 p-0 text-xs"
+                  data-testid={`button-assign-${item.id}-${guest}`}
+                >
+                  {guest}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {guests.map((guest, index) => {
+          const guestBill = guestBills?.find((entry) => entry.guest.guest === guest);
+          return (
+            <div key={guest} className="space-y-2 pb-2 border-b last:border-0">
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium">Guest {guest}</span>
+                <span className="font-semibold" data-testid={`text-guest-total-${guest}`}>
+                  {guestBill ? `₹${guestBill.bill.total.toFixed(2)}` : "—"}
+                </span>
+              </div>
+              {guestBill && guestBill.bill.taxes > 0 && (
+                <p className="text-xs text-muted-foreground">Includes ₹{guestBill.bill.taxes.toFixed(2)} tax</p>
+              )}
+              <div className="flex gap-1">
+                {["cash", "card", "upi"].map((mode) => (
+                  <Button
+                    key={mode}
+                    size="sm"
+                    variant={paymentModes[index] === mode ? "default" : "outline"}
+                    onClick={() => onPaymentModeChange(index, mode)}
+                    className="flex-1 h-7 text-xs"
+                  >
+                    {mode.toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-sm text-destructive" data-testid="text-item-split-error">{error}</p>}
+    </div>
+  );
+}
@@ -3,11 +3,17 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { useEffect, useState } from "react";
+import type { OrderItemComponent, OrderItemModifier } from "@shared/schema";
+import { courseLabel, groupByCourse, hasCourses } from "@shared/courses";
 
 interface KDSOrderItem {
   name: string;
   quantity: number;
   ready: boolean;
+  modifiers?: Pick<OrderItemModifier, "optionId" | "name">[];
+  components?: Pick<OrderItemComponent, "menuItemId" | "name" | "quantity">[];
+  seatNumber?: number | null;
+  course?: number | null;
 }
 
 interface KDSOrderCardProps {
@@ -73,20 +79,50 @@ export default function KDSOrderCard({
 
       <div className="p-3 bg-card">
         <div className="space-y-2 mb-3">
-          {items.map((item, index) => (
-            <div
-              key={index}
-              className="flex items-center justify-between py-2 border-b border-border last:border-0"
-            >
-              <div className="flex items-center gap-2">
-                <Badge variant="outline" className="font-mono">
-                  {item.quantity}x
-                </Badge>
-                <span className={cn("font-medium", item.ready && "line-through text-muted-foreground")}>
-                  {item.name}
-                </span>
-              </div>
-              {item.ready && <Check className="h-4 w-4 text-success" />}
+          {groupByCourse(items).map((group) => (
+            <div key={group.course ?? "none"}>
+              {hasCourses(items) && (
+                <p className="text-xs font-bold uppercase tracking-wide text-muted-foreground pt-1">
+                  {courseLabel(group.course)}
+                </p>
+              )}
+              {group.items.map((item, index) => (
+                <div
+                  key={index}
+                  className="flex items-center justify-between py-2 border-b border-border last:border-0"
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="font-mono">
+                        {item.quantity}x
+                      </Badge>
+                      <span className={cn("font-medium", item.ready && "line-through text-muted-foreground")}>
+                        {item.name}
+                      </span>
+                      {item.seatNumber && (
+                        <Badge variant="secondary" className="text-xs">
+                          S{item.seatNumber}
+                        </Badge>
+                      )}
+                    </div>
+                    {item.modifiers && item.modifiers.length > 0 && (
+                      <ul className="text-sm mt-1 ml-12">
+                        {item.modifiers.map((modifier) => (
+                          <li key={modifier.optionId}>+ {modifier.name}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {item.components && item.components.length > 0 && (
+                      <ul className="text-sm mt-1 ml-12">
+                        {item.components.map((component, index) => (
+                          <li key={index}>{component.quantity * item.quantity}x {component.name}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  {item.ready && <Check className="h-4 w-4 text-success" />}
+                </div>
+              ))}
             </div>
           ))}
         </div>
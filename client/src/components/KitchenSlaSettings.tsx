@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { defaultKitchenSla } from "@shared/kds";
+import type { KitchenSlaSettings as SlaSettings, KitchenSlaThreshold } from "@shared/schema";
+
+function MinutesInput({
+  id,
+  value,
+  onChange,
+}: {
+  id: string;
+  value: number;
+  onChange: (minutes: number) => void;
+}) {
+  return (
+    <Input
+      id={id}
+      type="number"
+      min={1}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className="w-24"
+      data-testid={`input-${id}`}
+    />
+  );
+}
+
+export default function KitchenSlaSettings() {
+  const [draft, setDraft] = useState<SlaSettings>(defaultKitchenSla);
+  const [newCategory, setNewCategory] = useState("");
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<SlaSettings>({
+    queryKey: ["/api/settings/kitchen-sla"],
+  });
+
+  const { data: categoriesData } = useQuery<{ categories: string[] }>({
+    queryKey: ["/api/menu/categories"],
+  });
+  const unusedCategories = (categoriesData?.categories ?? []).filter(
+    (category) => !draft.categories.some((override) => override.category === category)
+  );
+
+  useEffect(() => {
+    if (settings) {
+      setDraft(settings);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SlaSettings) => {
+      const res = await apiRequest("PUT", "/api/settings/kitchen-sla", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/kitchen-sla"] });
+      toast({
+        title: "Success",
+        description: "Ticket timing saved",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to save ticket timing"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateOverride = (category: string, threshold: Partial<KitchenSlaThreshold>) => {
+    setDraft({
+      ...draft,
+      categories: draft.categories.map((override) =>
+        override.category === category ? { ...override, ...threshold } : override
+      ),
+    });
+  };
+
+  const addOverride = () => {
+    if (!newCategory) {
+      return;
+    }
+    setDraft({
+      ...draft,
+      categories: [
+        ...draft.categories,
+        { category: newCategory, warnMinutes: draft.warnMinutes, lateMinutes: draft.lateMinutes },
+      ],
+    });
+    setNewCategory("");
+  };
+
+  const removeOverride = (category: string) => {
+    setDraft({ ...draft, categories: draft.categories.filter((override) => override.category !== category) });
+  };
+
+  const handleSave = () => {
+    const invalid = [draft, ...draft.categories].find(
+      (threshold) => threshold.warnMinutes <= 0 || threshold.lateMinutes <= threshold.warnMinutes
+    );
+    if (invalid) {
+      toast({
+        title: "Validation Error",
+        description: "Late must be more minutes than the warning, and both above zero",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-card-border p-6 max-w-3xl mt-6">
+      <h3 className="text-lg font-semibold mb-2">Ticket Timing</h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Minutes an item may wait in the kitchen before its ticket turns amber, then red, on the kitchen display.
+        Categories that take longer or shorter can have their own limits.
+      </p>
+      <div className="flex items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="sla-warn">Amber after (min)</Label>
+          <MinutesInput id="sla-warn" value={draft.warnMinutes} onChange={(warnMinutes) => setDraft({ ...draft, warnMinutes })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sla-late">Red after (min)</Label>
+          <MinutesInput id="sla-late" value={draft.lateMinutes} onChange={(lateMinutes) => setDraft({ ...draft, lateMinutes })} />
+        </div>
+      </div>
+
+      {draft.categories.length > 0 && (
+        <div className="border-t mt-6 pt-4 space-y-3">
+          <Label>Category limits</Label>
+          {draft.categories.map((override) => (
+            <div key={override.category} className="flex items-center gap-4" data-testid={`row-sla-${override.category}`}>
+              <span className="w-40 text-sm font-medium">{override.category}</span>
+              <MinutesInput
+                id={`sla-warn-${override.category}`}
+                value={override.warnMinutes}
+                onChange={(warnMinutes) => updateOverride(override.category, { warnMinutes })}
+              />
+              <MinutesInput
+                id={`sla-late-${override.category}`}
+                value={override.lateMinutes}
+                onChange={(lateMinutes) => updateOverride(override.category, { lateMinutes })}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => removeOverride(override.category)}
+                data-testid={`button-remove-sla-${override.category}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-4 mt-6">
+        {unusedCategories.length > 0 ? (
+          <div className="flex items-center gap-2">
+            <Select value={newCategory} onValueChange={setNewCategory}>
+              <SelectTrigger className="w-48" data-testid="select-sla-category">
+                <SelectValue placeholder="Choose a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {unusedCategories.map((category) => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={addOverride} disabled={!newCategory} data-testid="button-add-sla-category">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Category Limit
+            </Button>
+          </div>
+        ) : (
+          <div />
+        )}
+        <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-kitchen-sla">
+          {saveMutation.isPending ? "Saving..." : "Save Timing"}
+        </Button>
+      </div>
+    </div>
+  );
+}
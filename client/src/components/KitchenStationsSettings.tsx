@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { Plus, Edit, Trash2, Printer } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import type { KitchenStation, InsertKitchenStation } from "@shared/schema";
+
+const emptyStation: InsertKitchenStation = {
+  name: "",
+  categories: [],
+  printerName: "",
+  printerAddress: "",
+};
+
+export default function KitchenStationsSettings() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<InsertKitchenStation>(emptyStation);
+  const { toast } = useToast();
+
+  const { data: stations = [], isLoading } = useQuery<KitchenStation[]>({
+    queryKey: ["/api/kitchen-stations"],
+  });
+
+  const { data: categoriesData } = useQuery<{ categories: string[] }>({
+    queryKey: ["/api/menu/categories"],
+  });
+  const categories = categoriesData?.categories ?? [];
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertKitchenStation) => {
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/kitchen-stations/${editingId}`, data)
+        : await apiRequest("POST", "/api/kitchen-stations", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-stations"] });
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: editingId ? "Kitchen station updated successfully" : "Kitchen station added successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to save kitchen station"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/kitchen-stations/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kitchen-stations"] });
+      toast({
+        title: "Success",
+        description: "Kitchen station deleted successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to delete kitchen station"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAdd = () => {
+    setEditingId(null);
+    setDraft(emptyStation);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (station: KitchenStation) => {
+    setEditingId(station.id);
+    setDraft({
+      name: station.name,
+      categories: station.categories,
+      printerName: station.printerName ?? "",
+      printerAddress: station.printerAddress ?? "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  // A category belongs to at most one station, so another station's categories are locked here
+  const takenBy = (category: string) =>
+    stations.find((station) => station.id !== editingId && station.categories.includes(category));
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    setDraft({
+      ...draft,
+      categories: checked
+        ? [...draft.categories, category]
+        : draft.categories.filter((c) => c !== category),
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Station name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+    const taken = draft.categories.map(takenBy).filter((station): station is KitchenStation => !!station);
+    if (taken.length > 0) {
+      toast({
+        title: "Validation Error",
+        description: `${taken[0].name} already makes one of the ticked categories`,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({
+      name: draft.name.trim(),
+      categories: draft.categories,
+      printerName: draft.printerName?.trim() || null,
+      printerAddress: draft.printerAddress?.trim() || null,
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this kitchen station?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-card-border p-6 max-w-3xl">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold">Kitchen Stations</h3>
+        <Button size="sm" onClick={openAdd} data-testid="button-add-kitchen-station">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Station
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Each station gets its own KOT and kitchen display filter. A menu item goes to its own station if set, otherwise
+        to the station for its category, otherwise to the main kitchen.
+      </p>
+
+      {isLoading ? (
+        <div className="text-center py-8">Loading...</div>
+      ) : stations.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No stations - every item goes to one kitchen ticket</div>
+      ) : (
+        <div className="space-y-3">
+          {stations.map((station) => (
+            <div key={station.id} className="border border-border rounded-lg p-4" data-testid={`card-kitchen-station-${station.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <span className="font-semibold">{station.name}</span>
+                  {(station.printerName || station.printerAddress) && (
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Printer className="h-3 w-3" />
+                      {[station.printerName, station.printerAddress].filter(Boolean).join(" - ")}
+                    </p>
+                  )}
+                  {station.categories.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {station.categories.map((category) => (
+                        <Badge key={category} variant="outline">{category}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEdit(station)} data-testid={`button-edit-kitchen-station-${station.id}`}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(station.id)} data-testid={`button-delete-kitchen-station-${station.id}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Kitchen Station" : "Add Kitchen Station"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="station-name">Name</Label>
+              <Input
+                id="station-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Bar"
+                data-testid="input-station-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="station-printer-name">KOT Printer</Label>
+                <Input
+                  id="station-printer-name"
+                  value={draft.printerName ?? ""}
+                  onChange={(e) => setDraft({ ...draft, printerName: e.target.value })}
+                  placeholder="e.g. Bar Printer"
+                  data-testid="input-station-printer-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="station-printer-address">Printer Address</Label>
+                <Input
+                  id="station-printer-address"
+                  value={draft.printerAddress ?? ""}
+                  onChange={(e) => setDraft({ ...draft, printerAddress: e.target.value })}
+                  placeholder="e.g. 192.168.1.103"
+                  data-testid="input-station-printer-address"
+                />
+              </div>
+            </div>
+
+            {categories.length > 0 && (
+              <div className="border-t pt-4 space-y-3">
+                <Label>Categories made here</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {categories.map((category) => {
+                    const owner = takenBy(category);
+                    return (
+                      <div key={category} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`station-category-${category}`}
+                          checked={draft.categories.includes(category)}
+                          disabled={!!owner}
+                          onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                        />
+                        <label htmlFor={`station-category-${category}`} className="text-sm">
+                          {category}
+                          {owner && <span className="text-muted-foreground"> ({owner.name})</span>}
+                        </label>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-kitchen-station">
+                {saveMutation.isPending ? "Saving..." : "Save Station"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
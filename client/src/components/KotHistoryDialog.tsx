@@ -0,0 +1,84 @@
+import { Printer } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { KitchenStation, Kot } from "@shared/schema";
+import { stationName } from "@shared/stations";
+import { courseLabel } from "@shared/courses";
+import { formatModifiers } from "@shared/modifiers";
+
+interface KotHistoryDialogProps {
+  orderId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReprint: (kot: Kot) => void;
+}
+
+export default function KotHistoryDialog({ orderId, open, onOpenChange, onReprint }: KotHistoryDialogProps) {
+  const { data: kots = [], isLoading } = useQuery<Kot[]>({
+    queryKey: ["/api/orders", orderId, "kots"],
+    enabled: open && !!orderId,
+  });
+
+  const { data: stations = [] } = useQuery<KitchenStation[]>({
+    queryKey: ["/api/kitchen-stations"],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sent KOTs</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-6">Loading...</div>
+        ) : kots.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">Nothing has been sent to the kitchen yet</div>
+        ) : (
+          <div className="space-y-3">
+            {kots.map((kot) => (
+              <div key={kot.id} className="border border-border rounded-md p-3" data-testid={`card-kot-${kot.id}`}>
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">KOT #{kot.kotNumber}</span>
+                    {stations.length > 0 && <Badge variant="outline">{stationName(kot.stationId, stations)}</Badge>}
+                    {kot.course && <Badge variant="secondary">{courseLabel(kot.course)}</Badge>}
+                    {kot.kind === "void" && <Badge variant="destructive">Void of #{kot.voidsKotNumber}</Badge>}
+                    {kot.status === "cancelled" && <Badge variant="secondary">Cancelled</Badge>}
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => onReprint(kot)} data-testid={`button-reprint-kot-${kot.id}`}>
+                    <Printer className="h-3 w-3 mr-1" />
+                    {kot.printCount > 0 ? "Reprint" : "Print"}
+                  </Button>
+                </div>
+                <ul className="text-sm space-y-1">
+                  {kot.items.map((line) => (
+                    <li key={line.orderItemId} className={line.voided ? "line-through text-muted-foreground" : ""}>
+                      {line.quantity} × {line.name}
+                      {line.seatNumber && <span className="text-muted-foreground"> · Seat {line.seatNumber}</span>}
+                      {line.modifiers.length > 0 && (
+                        <span className="text-muted-foreground"> ({formatModifiers(line.modifiers)})</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {new Date(kot.createdAt).toLocaleTimeString()}
+                  {kot.createdByName && ` · ${kot.createdByName}`}
+                  {kot.printCount > 1 && ` · printed ${kot.printCount} times`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { describeSelectionRule, modifiersPrice, resolveModifiers } from "@shared/modifiers";
+import { resolveComboComponents } from "@shared/combos";
+import type {
+  ComboChoice,
+  MenuItem,
+  ModifierGroup,
+  ModifierSelection,
+  OrderItemComponent,
+  OrderItemModifier,
+} from "@shared/schema";
+
+interface ModifierDialogProps {
+  menuItem: MenuItem | null;
+  // The item's groups, in the order the menu lists them
+  groups: ModifierGroup[];
+  // Whole menu, for the items a combo's components can be swapped for
+  menuItems: MenuItem[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (menuItem: MenuItem, modifiers: OrderItemModifier[], components: OrderItemComponent[]) => void;
+}
+
+export default function ModifierDialog({ menuItem, groups, menuItems, onOpenChange, onConfirm }: ModifierDialogProps) {
+  const [selections, setSelections] = useState<ModifierSelection[]>([]);
+  const [swaps, setSwaps] = useState<ComboChoice[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setSelections([]);
+    setSwaps([]);
+  }, [menuItem]);
+
+  const slots = menuItem?.comboComponents ?? [];
+  const chosenFor = (index: number) =>
+    swaps.find((swap) => swap.index === index)?.menuItemId ?? slots[index]?.menuItemId;
+  const menuName = (menuItemId: string) => menuItems.find((item) => item.id === menuItemId)?.name ?? "Unknown item";
+
+  const isSelected = (groupId: string, optionId: string) =>
+    selections.some((selection) => selection.groupId === groupId && selection.optionId === optionId);
+
+  // Single-choice groups behave like radio buttons; others toggle up to their maximum
+  const toggle = (group: ModifierGroup, optionId: string) => {
+    if (isSelected(group.id, optionId)) {
+      setSelections(selections.filter((s) => !(s.groupId === group.id && s.optionId === optionId)));
+      return;
+    }
+    const inGroup = selections.filter((s) => s.groupId === group.id);
+    if (group.maxSelect === 1) {
+      setSelections([...selections.filter((s) => s.groupId !== group.id), { groupId: group.id, optionId }]);
+    } else if (inGroup.length < group.maxSelect) {
+      setSelections([...selections, { groupId: group.id, optionId }]);
+    }
+  };
+
+  const resolved = resolveModifiers(groups, selections);
+  const basePrice = menuItem ? parseFloat(menuItem.price) : 0;
+  const unitPrice = basePrice + ("modifiers" in resolved ? modifiersPrice(resolved.modifiers) : 0);
+
+  const handleAdd = () => {
+    if (!menuItem) return;
+    const combo = resolveComboComponents(menuItem, menuItems, swaps, unitPrice);
+    const error = "error" in resolved ? resolved.error : "error" in combo ? combo.error : null;
+    if (error || !("modifiers" in resolved) || !("components" in combo)) {
+      toast({
+        title: "Choose options",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+    onConfirm(menuItem, resolved.modifiers, slots.length > 0 ? combo.components : []);
+  };
+
+  return (
+    <Dialog open={!!menuItem} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{menuItem?.name}</DialogTitle>
+          <DialogDescription>₹{basePrice.toFixed(2)}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-5">
+          {slots.some((slot) => slot.choices.length === 0) && (
+            <p className="text-sm text-muted-foreground">
+              Includes{" "}
+              {slots
+                .filter((slot) => slot.choices.length === 0)
+                .map((slot) => (slot.quantity > 1 ? `${slot.quantity} × ${menuName(slot.menuItemId)}` : menuName(slot.menuItemId)))
+                .join(", ")}
+            </p>
+          )}
+          {slots.map((slot, index) =>
+            slot.choices.length === 0 ? null : (
+              <div key={index} className="space-y-2" data-testid={`combo-component-${index}`}>
+                <span className="font-medium">
+                  {slot.quantity > 1 ? `${slot.quantity} × ` : ""}Choose one
+                </span>
+                <div className="grid grid-cols-2 gap-2">
+                  {[slot.menuItemId, ...slot.choices].map((menuItemId) => (
+                    <Button
+                      key={menuItemId}
+                      type="button"
+                      variant={chosenFor(index) === menuItemId ? "default" : "outline"}
+                      className="justify-start"
+                      onClick={() => setSwaps([...swaps.filter((swap) => swap.index !== index), { index, menuItemId }])}
+                      data-testid={`button-combo-choice-${index}-${menuItemId}`}
+                    >
+                      <span className="truncate">{menuName(menuItemId)}</span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ),
+          )}
+          {groups.map((group) => (
+            <div key={group.id} className="space-y-2" data-testid={`modifier-group-${group.id}`}>
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{group.name}</span>
+                <Badge variant={group.minSelect > 0 ? "default" : "outline"}>{describeSelectionRule(group)}</Badge>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {group.options.map((option) => (
+                  <Button
+                    key={option.id}
+                    type="button"
+                    variant={isSelected(group.id, option.id) ? "default" : "outline"}
+                    className="justify-between"
+                    onClick={() => toggle(group, option.id)}
+                    data-testid={`button-modifier-${option.id}`}
+                  >
+                    <span className="truncate">{option.name}</span>
+                    {option.priceDelta !== 0 && (
+                      <span className="text-xs ml-2">
+                        {option.priceDelta > 0 ? "+" : "-"}₹{Math.abs(option.priceDelta).toFixed(2)}
+                      </span>
+                    )}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between border-t pt-3">
+            <span className="font-semibold" data-testid="text-modifier-price">₹{unitPrice.toFixed(2)}</span>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleAdd} data-testid="button-add-with-modifiers">
+                Add to Order
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,391 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Edit, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { describeSelectionRule } from "@shared/modifiers";
+import type { InventoryItem, ModifierGroup } from "@shared/schema";
+
+// Numbers stay as typed until the group is saved
+interface OptionDraft {
+  id?: string;
+  name: string;
+  priceDelta: string;
+  recipeMultiplier: string;
+  ingredients: { inventoryItemId: string; quantity: string }[];
+}
+
+interface GroupDraft {
+  name: string;
+  minSelect: string;
+  maxSelect: string;
+  options: OptionDraft[];
+}
+
+const emptyOption: OptionDraft = { name: "", priceDelta: "0", recipeMultiplier: "1", ingredients: [] };
+const emptyGroup: GroupDraft = { name: "", minSelect: "0", maxSelect: "1", options: [emptyOption] };
+
+function toDraft(group: ModifierGroup): GroupDraft {
+  return {
+    name: group.name,
+    minSelect: String(group.minSelect),
+    maxSelect: String(group.maxSelect),
+    options: group.options.map((option) => ({
+      id: option.id,
+      name: option.name,
+      priceDelta: String(option.priceDelta),
+      recipeMultiplier: String(option.recipeMultiplier),
+      ingredients: option.ingredients.map((ingredient) => ({
+        inventoryItemId: ingredient.inventoryItemId,
+        quantity: String(ingredient.quantity),
+      })),
+    })),
+  };
+}
+
+interface ModifierGroupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ModifierGroupsDialog({ open, onOpenChange }: ModifierGroupsDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<GroupDraft | null>(null);
+  const { toast } = useToast();
+
+  const { data: groups = [] } = useQuery<ModifierGroup[]>({
+    queryKey: ["/api/modifier-groups"],
+  });
+
+  const { data: inventoryItems = [] } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const res = editingId
+        ? await apiRequest("PUT", `/api/modifier-groups/${editingId}`, data)
+        : await apiRequest("POST", "/api/modifier-groups", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/modifier-groups"] });
+      setDraft(null);
+      toast({
+        title: "Success",
+        description: editingId ? "Modifier group updated" : "Modifier group created",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to save modifier group"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/modifier-groups/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/modifier-groups"] });
+      toast({
+        title: "Success",
+        description: "Modifier group deleted",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to delete modifier group"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAdd = () => {
+    setEditingId(null);
+    setDraft(emptyGroup);
+  };
+
+  const openEdit = (group: ModifierGroup) => {
+    setEditingId(group.id);
+    setDraft(toDraft(group));
+  };
+
+  const updateOption = (index: number, changes: Partial<OptionDraft>) => {
+    if (!draft) return;
+    const options = [...draft.options];
+    options[index] = { ...options[index], ...changes };
+    setDraft({ ...draft, options });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const options = draft.options.filter((option) => option.name.trim());
+    if (!draft.name.trim() || options.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Give the group a name and at least one option",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({
+      name: draft.name.trim(),
+      minSelect: parseInt(draft.minSelect) || 0,
+      maxSelect: parseInt(draft.maxSelect) || 1,
+      options: options.map((option) => ({
+        id: option.id,
+        name: option.name.trim(),
+        priceDelta: parseFloat(option.priceDelta) || 0,
+        recipeMultiplier: parseFloat(option.recipeMultiplier) || 1,
+        ingredients: option.ingredients
+          .filter((ingredient) => ingredient.inventoryItemId && parseFloat(ingredient.quantity) > 0)
+          .map((ingredient) => ({
+            inventoryItemId: ingredient.inventoryItemId,
+            quantity: parseFloat(ingredient.quantity),
+          })),
+      })),
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this modifier group?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => {
+      onOpenChange(value);
+      if (!value) setDraft(null);
+    }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Modifier Groups</DialogTitle>
+        </DialogHeader>
+
+        {!draft ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Groups like size, crust or spice level. Assign them to menu items from the item's edit form.
+            </p>
+            {groups.length === 0 ? (
+              <p className="text-sm text-center py-6 text-muted-foreground">No modifier groups yet</p>
+            ) : (
+              groups.map((group) => (
+                <div key={group.id} className="flex items-start justify-between border border-border rounded-md p-3" data-testid={`row-modifier-group-${group.id}`}>
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{group.name}</span>
+                      <Badge variant="outline">{describeSelectionRule(group)}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {group.options
+                        .map((option) => (option.priceDelta ? `${option.name} (${option.priceDelta > 0 ? "+" : ""}₹${option.priceDelta})` : option.name))
+                        .join(", ")}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openEdit(group)} data-testid={`button-edit-modifier-group-${group.id}`}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDelete(group.id)} data-testid={`button-delete-modifier-group-${group.id}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+            <div className="flex justify-end">
+              <Button onClick={openAdd} data-testid="button-add-modifier-group">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Group
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="modifier-group-name">Name</Label>
+                <Input
+                  id="modifier-group-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Size"
+                  data-testid="input-modifier-group-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="modifier-group-min">Min Selections</Label>
+                <Input
+                  id="modifier-group-min"
+                  type="number"
+                  min={0}
+                  value={draft.minSelect}
+                  onChange={(e) => setDraft({ ...draft, minSelect: e.target.value })}
+                  data-testid="input-modifier-group-min"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="modifier-group-max">Max Selections</Label>
+                <Input
+                  id="modifier-group-max"
+                  type="number"
+                  min={1}
+                  value={draft.maxSelect}
+                  onChange={(e) => setDraft({ ...draft, maxSelect: e.target.value })}
+                  data-testid="input-modifier-group-max"
+                />
+              </div>
+            </div>
+
+            <div className="border-t pt-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Options</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Recipe × scales the item's own recipe (e.g. 1.5 for a large); extra ingredients are deducted per unit
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDraft({ ...draft, options: [...draft.options, emptyOption] })}
+                  data-testid="button-add-modifier-option"
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Option
+                </Button>
+              </div>
+
+              {draft.options.map((option, index) => (
+                <div key={option.id ?? index} className="border border-border rounded-md p-3 space-y-2">
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1 space-y-1">
+                      <Label className="text-xs">Name</Label>
+                      <Input
+                        value={option.name}
+                        onChange={(e) => updateOption(index, { name: e.target.value })}
+                        placeholder="e.g. Large"
+                        data-testid={`input-modifier-option-name-${index}`}
+                      />
+                    </div>
+                    <div className="w-28 space-y-1">
+                      <Label className="text-xs">Price (₹ +/-)</Label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={option.priceDelta}
+                        onChange={(e) => updateOption(index, { priceDelta: e.target.value })}
+                        data-testid={`input-modifier-option-price-${index}`}
+                      />
+                    </div>
+                    <div className="w-24 space-y-1">
+                      <Label className="text-xs">Recipe ×</Label>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        min={0}
+                        value={option.recipeMultiplier}
+                        onChange={(e) => updateOption(index, { recipeMultiplier: e.target.value })}
+                        data-testid={`input-modifier-option-multiplier-${index}`}
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDraft({ ...draft, options: draft.options.filter((_, i) => i !== index) })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {option.ingredients.map((ingredient, ingredientIndex) => {
+                    const setIngredient = (changes: Partial<typeof ingredient>) =>
+                      updateOption(index, {
+                        ingredients: option.ingredients.map((entry, i) => (i === ingredientIndex ? { ...entry, ...changes } : entry)),
+                      });
+                    return (
+                      <div key={ingredientIndex} className="flex items-center gap-2 pl-4">
+                        <Select value={ingredient.inventoryItemId} onValueChange={(inventoryItemId) => setIngredient({ inventoryItemId })}>
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder="Ingredient" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {inventoryItems.map((item) => (
+                              <SelectItem key={item.id} value={item.id}>{item.name} ({item.unit})</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min={0}
+                          className="w-28"
+                          value={ingredient.quantity}
+                          onChange={(e) => setIngredient({ quantity: e.target.value })}
+                        />
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => updateOption(index, { ingredients: option.ingredients.filter((_, i) => i !== ingredientIndex) })}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="ml-2"
+                    onClick={() => updateOption(index, { ingredients: [...option.ingredients, { inventoryItemId: "", quantity: "" }] })}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Extra Ingredient
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-modifier-group">
+                {saveMutation.isPending ? "Saving..." : "Save Group"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
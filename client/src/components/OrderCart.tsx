@@ -1,6 +1,11 @@
 import { useState } from "react";
-import { Minus, Plus, Trash2, User, Table, StickyNote, Send, UserPlus, Users } from "lucide-react";
-import type { Customer } from "@shared/schema";
+import { Minus, Plus, Trash2, User, Table, StickyNote, Send, UserPlus, Users, Percent, Ticket, ReceiptText, Pause, Flame, Gift } from "lucide-react";
+import { compReasons, discountReasons, type AppliedDiscount, type Customer, type OrderItemComp, type OrderItemComponent, type OrderItemModifier } from "@shared/schema";
+import { calculateBill, formatRoundOff, type BillBreakdown } from "@shared/billing";
+import { formatTaxLabel } from "@shared/tax";
+import { formatModifiers } from "@shared/modifiers";
+import { formatComponents } from "@shared/combos";
+import { COURSE_NAMES, courseLabel, groupByCourse, hasCourses } from "@shared/courses";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
@@ -27,19 +32,40 @@ interface OrderItem {
   quantity: number;
   notes?: string;
   isVeg?: boolean;
+  discount?: AppliedDiscount | null;
+  modifiers?: OrderItemModifier[];
+  components?: OrderItemComponent[];
+  isFromDatabase?: boolean;
+  seatNumber?: number | null;
+  course?: number | null;
+  hold?: boolean;
+  comp?: OrderItemComp | null;
 }
 
+// Select values can't be null; this one stands for "no seat" or "no course"
+const NONE = "none";
+
 interface OrderCartProps {
   items: OrderItem[];
+  bill?: BillBreakdown;
   serviceType: "dine-in" | "delivery" | "pickup";
   onServiceTypeChange: (type: "dine-in" | "delivery" | "pickup") => void;
   onUpdateQuantity: (id: string, quantity: number) => void;
   onRemoveItem: (id: string) => void;
   onUpdateNotes?: (id: string, notes: string) => void;
+  onDiscountItem?: (id: string) => void;
+  // Offered on saved lines only; unsaved ones can simply be removed
+  onCompItem?: (id: string) => void;
+  onDiscountOrder?: () => void;
+  orderDiscount?: AppliedDiscount | null;
+  onApplyCoupon?: () => void;
+  couponCode?: string | null;
   onCheckout: () => void;
   onSplitBill?: () => void;
   onKOT?: () => void;
   onKOTPrint?: () => void;
+  // Lists the KOTs already sent for this order, for reprints
+  onShowKots?: () => void;
   onSave?: () => void;
   onSavePrint?: () => void;
   selectedCustomer?: Customer | null;
@@ -56,19 +82,37 @@ interface OrderCartProps {
   onPaymentMethodSelect?: (method: "cash" | "upi" | "card") => void;
   onConfirmPayment?: () => void;
   paymentMethod?: "cash" | "upi" | "card";
+  // Seats at the selected table; the seat picker is hidden when there is none
+  seatCount?: number;
+  activeSeat?: number | null;
+  onActiveSeatChange?: (seat: number | null) => void;
+  activeCourse?: number | null;
+  onActiveCourseChange?: (course: number | null) => void;
+  // Courses whose unsent items will be held when the order is sent
+  heldCourses?: number[];
+  onToggleHoldCourse?: (course: number) => void;
+  onFireCourse?: (course: number) => void;
 }
 
 export default function OrderCart({
   items,
+  bill: providedBill,
   serviceType,
   onServiceTypeChange,
   onUpdateQuantity,
   onRemoveItem,
   onUpdateNotes,
+  onDiscountItem,
+  onCompItem,
+  onDiscountOrder,
+  orderDiscount,
+  onApplyCoupon,
+  couponCode,
   onCheckout,
   onSplitBill,
   onKOT,
   onKOTPrint,
+  onShowKots,
   onSave,
   onSavePrint,
   selectedCustomer,
@@ -85,6 +129,14 @@ export default function OrderCart({
   onPaymentMethodSelect,
   onConfirmPayment,
   paymentMethod: externalPaymentMethod = "cash",
+  seatCount = 0,
+  activeSeat = null,
+  onActiveSeatChange,
+  activeCourse = null,
+  onActiveCourseChange,
+  heldCourses = [],
+  onToggleHoldCourse,
+  onFireCourse,
 }: OrderCartProps) {
   const [notesDialogItem, setNotesDialogItem] = useState<OrderItem | null>(null);
   const [tempNotes, setTempNotes] = useState("");
@@ -102,9 +154,12 @@ export default function OrderCart({
     "Extra Sauce",
   ];
 
-  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  const tax = subtotal * 0.05;
-  const total = subtotal + tax;
+  const bill = providedBill ?? calculateBill(items, []);
+  const { subtotal, total } = bill;
+  // Offers and the coupon get their own lines; the discount line is what staff gave
+  const promotionTotal = bill.promotions.reduce((sum, promotion) => sum + promotion.amount, 0);
+  const staffDiscount = Math.round((bill.discount - promotionTotal) * 100) / 100;
+  const couponApplied = bill.promotions.some((promotion) => promotion.type === "coupon");
 
   const handleOpenNotes = (item: OrderItem) => {
     setNotesDialogItem(item);
@@ -220,6 +275,43 @@ export default function OrderCart({
         )}
       </div>
 
+      {serviceType === "dine-in" && !checkoutMode && (onActiveSeatChange || onActiveCourseChange) && (
+        <div className="px-3 pt-3 grid grid-cols-2 gap-2">
+          {onActiveSeatChange && seatCount > 0 && (
+            <Select
+              value={activeSeat ? String(activeSeat) : NONE}
+              onValueChange={(value) => onActiveSeatChange(value === NONE ? null : Number(value))}
+            >
+              <SelectTrigger className="h-8 text-xs" data-testid="select-active-seat">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Whole table</SelectItem>
+                {Array.from({ length: seatCount }, (_, index) => index + 1).map((seat) => (
+                  <SelectItem key={seat} value={String(seat)}>Seat {seat}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {onActiveCourseChange && (
+            <Select
+              value={activeCourse ? String(activeCourse) : NONE}
+              onValueChange={(value) => onActiveCourseChange(value === NONE ? null : Number(value))}
+            >
+              <SelectTrigger className="h-8 text-xs" data-testid="select-active-course">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No course</SelectItem>
+                {COURSE_NAMES.map((name, index) => (
+                  <SelectItem key={name} value={String(index + 1)}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto p-3">
         {items.length === 0 ? (
           <div className="text-center text-gray-400 py-12">
@@ -233,73 +325,164 @@ export default function OrderCart({
           </div>
         ) : (
           <div className="space-y-2">
-            {items.map((item) => {
-              const borderColor = item.isVeg === false ? 'bg-red-500' : 'bg-green-500';
-              
+            {groupByCourse(items).map((group) => {
+              // Unsent items follow the course's hold toggle; sent ones show what the server has
+              const unsent = group.items.filter((item) => !item.isFromDatabase);
+              const holding = group.course !== null && heldCourses.includes(group.course);
+              const heldSaved = group.items.some((item) => item.isFromDatabase && item.hold);
               return (
-              <div key={item.id} data-testid={`cart-item-${item.id}`}>
-                <div className="border border-gray-200 rounded-lg p-2.5 bg-white hover:border-primary/30 hover:shadow-sm transition-all relative">
-                  <div className={`absolute left-0 top-0 bottom-0 w-1 rounded-l-lg ${borderColor}`}></div>
-                  <div className="flex items-center gap-2 pl-2">
-                    <div className="flex-1 min-w-0">
-                      <p className="font-semibold text-gray-900 text-sm truncate">{item.name}</p>
-                      <p className="text-xs text-gray-500 font-medium">₹{item.price.toFixed(2)}</p>
-                    </div>
+              <div key={group.course ?? NONE} className="space-y-2" data-testid={`cart-course-${group.course ?? NONE}`}>
+                {hasCourses(items) && (
+                  <div className="flex items-center justify-between gap-2 pt-1">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">{courseLabel(group.course)}</span>
+                    {group.course !== null && !checkoutMode && (
+                      <div className="flex gap-1">
+                        {unsent.length > 0 && onToggleHoldCourse && (
+                          <Button
+                            size="sm"
+                            variant={holding ? "default" : "outline"}
+                            className="h-6 px-2 text-xs"
+                            onClick={() => onToggleHoldCourse(group.course!)}
+                            data-testid={`button-hold-course-${group.course}`}
+                          >
+                            <Pause className="h-3 w-3 mr-1" />
+                            {holding ? "Held" : "Hold"}
+                          </Button>
+                        )}
+                        {heldSaved && onFireCourse && (
+                          <Button
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => onFireCourse(group.course!)}
+                            data-testid={`button-fire-course-${group.course}`}
+                          >
+                            <Flame className="h-3 w-3 mr-1" />
+                            Fire
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {group.items.map((item) => {
+                  const index = items.indexOf(item);
+                  const borderColor = item.isVeg === false ? 'bg-red-500' : 'bg-green-500';
+                  const held = item.isFromDatabase ? !!item.hold : holding;
+              
+                  return (
+                  <div key={item.id} data-testid={`cart-item-${item.id}`}>
+                    <div className="border border-gray-200 rounded-lg p-2.5 bg-white hover:border-primary/30 hover:shadow-sm transition-all relative">
+                      <div className={`absolute left-0 top-0 bottom-0 w-1 rounded-l-lg ${borderColor}`}></div>
+                      <div className="flex items-center gap-2 pl-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="font-semibold text-gray-900 text-sm truncate">{item.name}</p>
+                          {item.modifiers && item.modifiers.length > 0 && (
+                            <p className="text-xs text-gray-600 truncate" data-testid={`text-modifiers-${item.id}`}>{formatModifiers(item.modifiers)}</p>
+                          )}
+                          {item.components && item.components.length > 0 && (
+                            <p className="text-xs text-gray-500 truncate" data-testid={`text-components-${item.id}`}>{formatComponents(item.components)}</p>
+                          )}
+                          <p className="text-xs text-gray-500 font-medium">
+                            ₹{item.price.toFixed(2)}
+                            {item.seatNumber && <span className="ml-2 text-gray-600" data-testid={`text-seat-${item.id}`}>Seat {item.seatNumber}</span>}
+                            {held && <span className="ml-2 text-amber-600" data-testid={`text-held-${item.id}`}>On hold</span>}
+                          </p>
+                        </div>
                     
-                    <div className="flex items-center gap-1 bg-gray-50 rounded px-1.5 py-0.5">
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="h-7 w-7 hover:bg-white p-0"
-                        onClick={() => onUpdateQuantity(item.id, item.quantity - 1)}
-                        data-testid={`button-decrease-${item.id}`}
-                      >
-                        <Minus className="h-3.5 w-3.5" />
-                      </Button>
-                      <span className="w-7 text-center font-bold text-gray-900 text-sm" data-testid={`text-quantity-${item.id}`}>
-                        {item.quantity}
-                      </span>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="h-7 w-7 hover:bg-white p-0"
-                        onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
-                        data-testid={`button-increase-${item.id}`}
-                      >
-                        <Plus className="h-3.5 w-3.5" />
-                      </Button>
-                    </div>
+                        <div className="flex items-center gap-1 bg-gray-50 rounded px-1.5 py-0.5">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 hover:bg-white p-0"
+                            onClick={() => onUpdateQuantity(item.id, item.quantity - 1)}
+                            data-testid={`button-decrease-${item.id}`}
+                          >
+                            <Minus className="h-3.5 w-3.5" />
+                          </Button>
+                          <span className="w-7 text-center font-bold text-gray-900 text-sm" data-testid={`text-quantity-${item.id}`}>
+                            {item.quantity}
+                          </span>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 hover:bg-white p-0"
+                            onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
+                            data-testid={`button-increase-${item.id}`}
+                          >
+                            <Plus className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
                     
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      onClick={() => handleOpenNotes(item)}
-                      data-testid={`button-notes-${item.id}`}
-                      className="h-7 w-7 p-0"
-                      title={item.notes ? "Edit notes" : "Add notes"}
-                    >
-                      <StickyNote className={`h-3.5 w-3.5 ${item.notes ? 'text-blue-600' : 'text-gray-400'}`} />
-                    </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleOpenNotes(item)}
+                          data-testid={`button-notes-${item.id}`}
+                          className="h-7 w-7 p-0"
+                          title={item.notes ? "Edit notes" : "Add notes"}
+                        >
+                          <StickyNote className={`h-3.5 w-3.5 ${item.notes ? 'text-blue-600' : 'text-gray-400'}`} />
+                        </Button>
                     
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      className="h-7 w-7 p-0 text-red-500 hover:text-red-600 hover:bg-red-50"
-                      onClick={() => onRemoveItem(item.id)}
-                      data-testid={`button-remove-${item.id}`}
-                    >
-                      <Trash2 className="h-3.5 w-3.5" />
-                    </Button>
-                  </div>
-                </div>
+                        {onDiscountItem && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => onDiscountItem(item.id)}
+                            data-testid={`button-discount-${item.id}`}
+                            className="h-7 w-7 p-0"
+                            title={item.discount ? "Edit discount" : "Add discount"}
+                          >
+                            <Percent className={`h-3.5 w-3.5 ${item.discount ? 'text-green-600' : 'text-gray-400'}`} />
+                          </Button>
+                        )}
+
+                        {onCompItem && item.isFromDatabase && !item.comp && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => onCompItem(item.id)}
+                            data-testid={`button-comp-${item.id}`}
+                            className="h-7 w-7 p-0"
+                            title="Comp item"
+                          >
+                            <Gift className="h-3.5 w-3.5 text-gray-400" />
+                          </Button>
+                        )}
+                    
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7 p-0 text-red-500 hover:text-red-600 hover:bg-red-50"
+                          onClick={() => onRemoveItem(item.id)}
+                          data-testid={`button-remove-${item.id}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </div>
                 
-                {item.notes && (
-                  <p className="text-xs text-gray-600 mt-1 italic bg-blue-50 px-2 py-1.5 rounded border border-blue-100">
-                    📝 {item.notes}
-                  </p>
-                )}
+                    {item.notes && (
+                      <p className="text-xs text-gray-600 mt-1 italic bg-blue-50 px-2 py-1.5 rounded border border-blue-100">
+                        📝 {item.notes}
+                      </p>
+                    )}
+                    {item.discount && bill.itemDiscounts[index] > 0 && (
+                      <p className="text-xs text-green-700 mt-1 bg-green-50 px-2 py-1.5 rounded border border-green-100" data-testid={`text-item-discount-${item.id}`}>
+                        -₹{bill.itemDiscounts[index].toFixed(2)} · {discountReasons[item.discount.reasonCode]}
+                      </p>
+                    )}
+                    {item.comp && (
+                      <p className="text-xs text-purple-700 mt-1 bg-purple-50 px-2 py-1.5 rounded border border-purple-100" data-testid={`text-item-comp-${item.id}`}>
+                        Complimentary · {compReasons[item.comp.reasonCode]}
+                        {item.comp.approvedByName && ` · approved by ${item.comp.approvedByName}`}
+                      </p>
+                    )}
+                  </div>
+                );
+                })}
               </div>
-            );
+              );
             })}
           </div>
         )}
@@ -311,10 +494,41 @@ export default function OrderCart({
             <span className="text-gray-600">Subtotal</span>
             <span className="text-gray-900 font-semibold" data-testid="text-subtotal">₹{subtotal.toFixed(2)}</span>
           </div>
-          <div className="flex justify-between text-sm">
-            <span className="text-gray-600">Tax (5%)</span>
-            <span className="text-gray-900 font-semibold" data-testid="text-tax">₹{tax.toFixed(2)}</span>
-          </div>
+          {bill.promotions.map((promotion) => promotion.amount > 0 && (
+            <div key={promotion.id} className="flex justify-between text-sm">
+              <span className="text-gray-600">
+                {promotion.type === "coupon" ? `Coupon ${promotion.code}` : promotion.name}
+              </span>
+              <span className="text-green-700 font-semibold" data-testid={`text-promotion-${promotion.id}`}>-₹{promotion.amount.toFixed(2)}</span>
+            </div>
+          ))}
+          {couponCode && !couponApplied && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Coupon {couponCode}</span>
+              <span className="text-gray-500 text-xs" data-testid="text-coupon-not-applicable">Not applicable to this bill</span>
+            </div>
+          )}
+          {staffDiscount > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">
+                Discount
+                {orderDiscount && ` (${discountReasons[orderDiscount.reasonCode]})`}
+              </span>
+              <span className="text-green-700 font-semibold" data-testid="text-discount">-₹{staffDiscount.toFixed(2)}</span>
+            </div>
+          )}
+          {bill.taxBreakdown.map((line) => (
+            <div key={`${line.code}-${line.rate}`} className="flex justify-between text-sm">
+              <span className="text-gray-600">{formatTaxLabel(line)}</span>
+              <span className="text-gray-900 font-semibold" data-testid={`text-tax-${line.code.toLowerCase()}`}>₹{line.amount.toFixed(2)}</span>
+            </div>
+          ))}
+          {bill.roundOff !== 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Round Off</span>
+              <span className="text-gray-900 font-semibold" data-testid="text-round-off">{formatRoundOff(bill.roundOff)}</span>
+            </div>
+          )}
           <Separator />
           <div className="flex justify-between font-bold text-base pt-1">
             <span className="text-gray-900">Total</span>
@@ -322,6 +536,47 @@ export default function OrderCart({
           </div>
         </div>
         
+        {onDiscountOrder && !checkoutMode && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mb-3 text-sm"
+            disabled={items.length === 0}
+            onClick={onDiscountOrder}
+            data-testid="button-order-discount"
+          >
+            <Percent className="h-4 w-4 mr-1" />
+            {orderDiscount ? "Edit Order Discount" : "Order Discount"}
+          </Button>
+        )}
+
+        {onApplyCoupon && !checkoutMode && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mb-3 text-sm"
+            disabled={items.length === 0}
+            onClick={onApplyCoupon}
+            data-testid="button-apply-coupon"
+          >
+            <Ticket className="h-4 w-4 mr-1" />
+            {couponCode ? `Coupon ${couponCode}` : "Apply Coupon"}
+          </Button>
+        )}
+
+        {onShowKots && !checkoutMode && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mb-3 text-sm"
+            onClick={onShowKots}
+            data-testid="button-show-kots"
+          >
+            <ReceiptText className="h-4 w-4 mr-1" />
+            Sent KOTs
+          </Button>
+        )}
+        
         <div className="mb-3">
           <p className="text-xs text-gray-600 mb-2 font-medium">
             {checkoutMode ? "Select Payment Method to Complete" : "Payment Method"}
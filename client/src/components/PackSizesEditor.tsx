@@ -0,0 +1,85 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { packUnits, standardUnits, type PackSize } from "@shared/schema";
+import { checkPackSizes } from "@shared/units";
+
+interface PackSizesEditorProps {
+  // The item's stock unit, which every pack has to convert to
+  unit: string;
+  value: PackSize[];
+  onChange: (packSizes: PackSize[]) => void;
+}
+
+export default function PackSizesEditor({ unit, value, onChange }: PackSizesEditorProps) {
+  const update = (index: number, change: Partial<PackSize>) =>
+    onChange(value.map((size, i) => (i === index ? { ...size, ...change } : size)));
+
+  const addPackSize = () => {
+    const unused = packUnits.find((pack) => !value.some((size) => size.unit === pack)) ?? packUnits[0];
+    onChange([...value, { unit: unused, quantity: 1, of: unit in standardUnits ? unit : "pcs" }]);
+  };
+
+  const error = value.length > 0 ? checkPackSizes(unit, value) : null;
+
+  return (
+    <div className="space-y-2">
+      {value.map((size, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm" data-testid={`row-pack-size-${index}`}>
+          <span className="text-muted-foreground">1</span>
+          <Select value={size.unit} onValueChange={(next) => update(index, { unit: next })}>
+            <SelectTrigger className="w-24" data-testid={`select-pack-unit-${index}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {packUnits.map((pack) => (
+                <SelectItem key={pack} value={pack}>{pack}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-muted-foreground">=</span>
+          <Input
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={size.quantity}
+            onChange={(e) => update(index, { quantity: parseFloat(e.target.value) || 0 })}
+            className="w-24"
+            data-testid={`input-pack-quantity-${index}`}
+          />
+          <Select value={size.of} onValueChange={(next) => update(index, { of: next })}>
+            <SelectTrigger className="w-24" data-testid={`select-pack-of-${index}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(standardUnits).map((standard) => (
+                <SelectItem key={standard} value={standard}>{standard}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            data-testid={`button-remove-pack-size-${index}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addPackSize} data-testid="button-add-pack-size">
+        <Plus className="h-4 w-4 mr-1" />
+        Add Pack Size
+      </Button>
+      {error && <p className="text-sm text-destructive" data-testid="text-pack-size-error">{error}</p>}
+    </div>
+  );
+}
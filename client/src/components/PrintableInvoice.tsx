@@ -1,4 +1,6 @@
 import type { Order, OrderItem, Invoice } from "@shared/schema";
+import { formatTaxLabel, parseTaxBreakdown } from "@shared/tax";
+import { formatRoundOff } from "@shared/billing";
 
 interface PrintableInvoiceProps {
   invoice: Invoice | null;
@@ -14,7 +16,9 @@ export default function PrintableInvoice({ invoice, order, orderItems, onPrintCo
 
   const subtotal = parseFloat(invoice.subtotal);
   const tax = parseFloat(invoice.tax);
+  const roundOff = parseFloat(invoice.roundOff || "0");
   const total = parseFloat(invoice.total);
+  const taxBreakdown = parseTaxBreakdown(invoice.taxBreakdown);
 
   return (
     <div className="print-invoice">
@@ -132,10 +136,25 @@ export default function PrintableInvoice({ invoice, order, orderItems, onPrintCo
           <span>Subtotal:</span>
           <span>₹{subtotal.toFixed(2)}</span>
         </div>
-        <div style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0' }}>
-          <span>Tax (5%):</span>
-          <span>₹{tax.toFixed(2)}</span>
-        </div>
+        {taxBreakdown.length > 0 ? (
+          taxBreakdown.map((line) => (
+            <div key={`${line.code}-${line.rate}`} style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0' }}>
+              <span>{formatTaxLabel(line)}:</span>
+              <span>₹{line.amount.toFixed(2)}</span>
+            </div>
+          ))
+        ) : (
+          <div style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0' }}>
+            <span>Tax:</span>
+            <span>₹{tax.toFixed(2)}</span>
+          </div>
+        )}
+        {roundOff !== 0 && (
+          <div style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0' }}>
+            <span>Round Off:</span>
+            <span>{formatRoundOff(roundOff)}</span>
+          </div>
+        )}
         <div style={{ display: 'flex', justifyContent: 'space-between', padding: '5px 0', fontWeight: 'bold', fontSize: '13px', borderTop: '1px solid #000', marginTop: '5px' }}>
           <span>Grand Total:</span>
           <span>₹{total.toFixed(2)}</span>
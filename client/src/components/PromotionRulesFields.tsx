@@ -0,0 +1,338 @@
+import { useQuery } from "@tanstack/react-query";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { HappyHourWindow, MenuItem, PromotionKind, PromotionRules } from "@shared/schema";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Form state for the rule fields shared by offers and coupons; numbers stay as typed until saved
+export interface PromotionRulesDraft {
+  kind: PromotionKind;
+  value: string;
+  maxDiscount: string;
+  minBillAmount: string;
+  categories: string[];
+  menuItemIds: string[];
+  buyQuantity: string;
+  getQuantity: string;
+  happyHours: HappyHourWindow[];
+  validFrom: string;
+  validUntil: string;
+}
+
+export const emptyPromotionRules: PromotionRulesDraft = {
+  kind: "percent",
+  value: "",
+  maxDiscount: "",
+  minBillAmount: "",
+  categories: [],
+  menuItemIds: [],
+  buyQuantity: "1",
+  getQuantity: "1",
+  happyHours: [],
+  validFrom: "",
+  validUntil: "",
+};
+
+// "YYYY-MM-DD" in local time, matching the date input
+const toDateInput = (date: Date | string | null) => {
+  if (!date) return "";
+  const value = new Date(date);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`;
+};
+
+export function toPromotionRulesDraft(rules: PromotionRules): PromotionRulesDraft {
+  return {
+    kind: rules.kind,
+    value: String(rules.value),
+    maxDiscount: rules.maxDiscount ? String(rules.maxDiscount) : "",
+    minBillAmount: rules.minBillAmount ? String(rules.minBillAmount) : "",
+    categories: rules.categories,
+    menuItemIds: rules.menuItemIds,
+    buyQuantity: String(rules.buyQuantity),
+    getQuantity: String(rules.getQuantity),
+    happyHours: rules.happyHours,
+    validFrom: toDateInput(rules.validFrom),
+    validUntil: toDateInput(rules.validUntil),
+  };
+}
+
+// Validity dates cover whole local days: from the start of the first to the end of the last
+export function fromPromotionRulesDraft(draft: PromotionRulesDraft) {
+  return {
+    kind: draft.kind,
+    value: draft.kind === "buy_x_get_y" && !draft.value ? 100 : parseFloat(draft.value) || 0,
+    maxDiscount: parseFloat(draft.maxDiscount) || null,
+    minBillAmount: parseFloat(draft.minBillAmount) || 0,
+    categories: draft.categories,
+    menuItemIds: draft.menuItemIds,
+    buyQuantity: parseInt(draft.buyQuantity) || 1,
+    getQuantity: parseInt(draft.getQuantity) || 1,
+    happyHours: draft.happyHours,
+    validFrom: draft.validFrom ? new Date(`${draft.validFrom}T00:00:00`) : null,
+    validUntil: draft.validUntil ? new Date(`${draft.validUntil}T23:59:59.999`) : null,
+  };
+}
+
+export function formatHappyHours(windows: HappyHourWindow[]): string {
+  return windows
+    .map((window) => `${window.days.map((day) => DAY_LABELS[day]).join(", ")} ${window.start}–${window.end}`)
+    .join("; ");
+}
+
+export function formatValidity(rules: Pick<PromotionRules, "validFrom" | "validUntil">): string {
+  const format = (date: Date | string) => new Date(date).toLocaleDateString("en-IN");
+  if (rules.validFrom && rules.validUntil) return `${format(rules.validFrom)} to ${format(rules.validUntil)}`;
+  if (rules.validUntil) return `Until ${format(rules.validUntil)}`;
+  if (rules.validFrom) return `From ${format(rules.validFrom)}`;
+  return "No expiry";
+}
+
+export const isExpired = (rules: Pick<PromotionRules, "validUntil">) =>
+  !!rules.validUntil && new Date(rules.validUntil) < new Date();
+
+interface PromotionRulesFieldsProps {
+  draft: PromotionRulesDraft;
+  onChange: (draft: PromotionRulesDraft) => void;
+}
+
+export default function PromotionRulesFields({ draft, onChange }: PromotionRulesFieldsProps) {
+  const { data: menuItems = [] } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu"],
+  });
+
+  const { data: categoriesData } = useQuery<{ categories: string[] }>({
+    queryKey: ["/api/menu/categories"],
+  });
+  const categories = categoriesData?.categories ?? [];
+
+  const set = (changes: Partial<PromotionRulesDraft>) => onChange({ ...draft, ...changes });
+
+  const toggle = (list: string[], value: string, checked: boolean) =>
+    checked ? [...list, value] : list.filter((entry) => entry !== value);
+
+  const updateWindow = (index: number, changes: Partial<HappyHourWindow>) => {
+    const happyHours = [...draft.happyHours];
+    happyHours[index] = { ...happyHours[index], ...changes };
+    set({ happyHours });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = draft.happyHours[index].days;
+    updateWindow(index, { days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort() });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <Select value={draft.kind} onValueChange={(kind) => set({ kind: kind as PromotionKind })}>
+            <SelectTrigger data-testid="select-promotion-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="percent">Percentage off</SelectItem>
+              <SelectItem value="flat">Flat amount off</SelectItem>
+              <SelectItem value="buy_x_get_y">Buy X get Y</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="promotion-value">
+            {draft.kind === "flat" ? "Amount (₹)" : draft.kind === "buy_x_get_y" ? "% off free items" : "Percent"}
+          </Label>
+          <Input
+            id="promotion-value"
+            type="number"
+            min={0}
+            step="0.01"
+            value={draft.value}
+            onChange={(e) => set({ value: e.target.value })}
+            placeholder={draft.kind === "buy_x_get_y" ? "100" : undefined}
+            data-testid="input-promotion-value"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="promotion-max">Max Discount (₹)</Label>
+          <Input
+            id="promotion-max"
+            type="number"
+            min={0}
+            value={draft.maxDiscount}
+            onChange={(e) => set({ maxDiscount: e.target.value })}
+            placeholder="No cap"
+            data-testid="input-promotion-max"
+          />
+        </div>
+      </div>
+
+      {draft.kind === "buy_x_get_y" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="promotion-buy">Buy Quantity</Label>
+            <Input
+              id="promotion-buy"
+              type="number"
+              min={1}
+              value={draft.buyQuantity}
+              onChange={(e) => set({ buyQuantity: e.target.value })}
+              data-testid="input-promotion-buy"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="promotion-get">Get Quantity</Label>
+            <Input
+              id="promotion-get"
+              type="number"
+              min={1}
+              value={draft.getQuantity}
+              onChange={(e) => set({ getQuantity: e.target.value })}
+              data-testid="input-promotion-get"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="promotion-min-bill">Min Bill (₹)</Label>
+          <Input
+            id="promotion-min-bill"
+            type="number"
+            min={0}
+            value={draft.minBillAmount}
+            onChange={(e) => set({ minBillAmount: e.target.value })}
+            placeholder="0"
+            data-testid="input-promotion-min-bill"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="promotion-valid-from">Valid From</Label>
+          <Input
+            id="promotion-valid-from"
+            type="date"
+            value={draft.validFrom}
+            onChange={(e) => set({ validFrom: e.target.value })}
+            data-testid="input-promotion-valid-from"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="promotion-valid-until">Valid Until</Label>
+          <Input
+            id="promotion-valid-until"
+            type="date"
+            value={draft.validUntil}
+            onChange={(e) => set({ validUntil: e.target.value })}
+            data-testid="input-promotion-valid-until"
+          />
+        </div>
+      </div>
+
+      <div className="border-t pt-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Happy Hours</Label>
+            <p className="text-sm text-muted-foreground">Leave empty to apply all day</p>
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => set({ happyHours: [...draft.happyHours, { days: [1, 2, 3, 4, 5], start: "16:00", end: "19:00" }] })}
+            data-testid="button-add-happy-hour"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add Window
+          </Button>
+        </div>
+        {draft.happyHours.map((window, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <div className="flex gap-1">
+              {DAY_LABELS.map((label, day) => (
+                <Button
+                  key={label}
+                  type="button"
+                  size="sm"
+                  variant={window.days.includes(day) ? "default" : "outline"}
+                  className="h-8 px-2 text-xs"
+                  onClick={() => toggleDay(index, day)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <Input
+              type="time"
+              className="w-28"
+              value={window.start}
+              onChange={(e) => updateWindow(index, { start: e.target.value })}
+              data-testid={`input-happy-hour-start-${index}`}
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="time"
+              className="w-28"
+              value={window.end}
+              onChange={(e) => updateWindow(index, { end: e.target.value })}
+              data-testid={`input-happy-hour-end-${index}`}
+            />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              onClick={() => set({ happyHours: draft.happyHours.filter((_, i) => i !== index) })}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t pt-4 space-y-3">
+        <div>
+          <Label>Applies To</Label>
+          <p className="text-sm text-muted-foreground">Leave everything unticked to apply to the whole bill</p>
+        </div>
+        {categories.length > 0 && (
+          <div className="grid grid-cols-3 gap-2">
+            {categories.map((category) => (
+              <div key={category} className="flex items-center gap-2">
+                <Checkbox
+                  id={`promotion-category-${category}`}
+                  checked={draft.categories.includes(category)}
+                  onCheckedChange={(checked) => set({ categories: toggle(draft.categories, category, checked === true) })}
+                />
+                <label htmlFor={`promotion-category-${category}`} className="text-sm">{category}</label>
+              </div>
+            ))}
+          </div>
+        )}
+        {menuItems.length > 0 && (
+          <div className="max-h-40 overflow-y-auto border border-border rounded-md p-2 grid grid-cols-2 gap-2">
+            {menuItems.map((menuItem) => (
+              <div key={menuItem.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`promotion-item-${menuItem.id}`}
+                  checked={draft.menuItemIds.includes(menuItem.id)}
+                  onCheckedChange={(checked) => set({ menuItemIds: toggle(draft.menuItemIds, menuItem.id, checked === true) })}
+                />
+                <label htmlFor={`promotion-item-${menuItem.id}`} className="text-sm truncate">{menuItem.name}</label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
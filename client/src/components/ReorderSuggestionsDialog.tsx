@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import type { PurchaseOrder } from "@shared/schema";
+import type { ReorderSuggestions } from "@shared/reorder";
+
+interface ReorderSuggestionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface DraftResult {
+  purchaseOrders: PurchaseOrder[];
+  skipped: Array<{ inventoryItemId: string; itemName: string; reason: string }>;
+}
+
+export default function ReorderSuggestionsDialog({ open, onOpenChange }: ReorderSuggestionsDialogProps) {
+  const { toast } = useToast();
+  // Quantity to order per item id; items left out of the map are unticked
+  const [picked, setPicked] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<ReorderSuggestions>({
+    queryKey: ["/api/inventory/reorder-suggestions"],
+    enabled: open,
+  });
+  const suggestions = data?.suggestions ?? [];
+
+  // Start with every suggestion ticked at the suggested quantity each time fresh figures come in
+  useEffect(() => {
+    if (!open || !data) return;
+    setPicked(Object.fromEntries(data.suggestions.map((s) => [s.inventoryItemId, s.suggestedQuantity.toString()])));
+  }, [open, data]);
+
+  const draftMutation = useMutation({
+    mutationFn: async (items: Array<{ inventoryItemId: string; quantity: string }>) => {
+      const res = await apiRequest("POST", "/api/purchase-orders/drafts", { items });
+      return (await res.json()) as DraftResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/reorder-suggestions"] });
+      toast({
+        title: `${result.purchaseOrders.length} draft purchase order${result.purchaseOrders.length === 1 ? "" : "s"} created`,
+        description: result.skipped.length
+          ? `Left out: ${result.skipped.map((s) => `${s.itemName} (${s.reason})`).join(", ")}`
+          : "Review each draft and place it with the supplier",
+      });
+      if (result.purchaseOrders.length > 0) {
+        onOpenChange(false);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to create draft purchase orders"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const chosen = Object.entries(picked)
+    .filter(([, quantity]) => parseFloat(quantity) > 0)
+    .map(([inventoryItemId, quantity]) => ({ inventoryItemId, quantity }));
+
+  const estimatedTotal = suggestions.reduce((sum, s) => {
+    const quantity = parseFloat(picked[s.inventoryItemId] ?? "");
+    return quantity > 0 ? sum + quantity * s.costPerUnit : sum;
+  }, 0);
+
+  const toggle = (id: string, suggestedQuantity: number, checked: boolean) => {
+    setPicked((current) => {
+      const { [id]: _removed, ...rest } = current;
+      return checked ? { ...rest, [id]: suggestedQuantity.toString() } : rest;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reorder Suggestions</DialogTitle>
+          <DialogDescription>
+            Items expected to be at or below minimum stock by the time a new order would arrive, based on the
+            last {data?.usageDays ?? 28} days of sales and each supplier's lead time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-8">Loading...</div>
+        ) : suggestions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Nothing needs reordering right now</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Item</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead className="text-right">On Hand</TableHead>
+                <TableHead className="text-right">On Order</TableHead>
+                <TableHead className="text-right">Daily Use</TableHead>
+                <TableHead className="text-right">Lead Time</TableHead>
+                <TableHead className="text-right">At Delivery</TableHead>
+                <TableHead className="w-32">Order Qty</TableHead>
+                <TableHead className="text-right">Est. Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suggestions.map((s) => {
+                const quantity = picked[s.inventoryItemId];
+                const selected = quantity !== undefined;
+                return (
+                  <TableRow key={s.inventoryItemId} data-testid={`row-reorder-${s.inventoryItemId}`}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected}
+                        onCheckedChange={(checked) => toggle(s.inventoryItemId, s.suggestedQuantity, checked === true)}
+                        data-testid={`checkbox-reorder-${s.inventoryItemId}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{s.itemName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Min {s.minStock} / Par {s.parLevel || "-"} {s.unit}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {s.supplierName ?? <span className="text-destructive">No supplier</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{s.currentStock} {s.unit}</TableCell>
+                    <TableCell className="text-right">{s.onOrder || "-"}</TableCell>
+                    <TableCell className="text-right">{s.dailyUsage}</TableCell>
+                    <TableCell className="text-right">{s.leadTimeDays}d</TableCell>
+                    <TableCell className={`text-right ${s.projectedStock < 0 ? "text-destructive font-semibold" : ""}`}>
+                      {s.projectedStock}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={quantity ?? ""}
+                        disabled={!selected}
+                        onChange={(e) => setPicked((current) => ({ ...current, [s.inventoryItemId]: e.target.value }))}
+                        data-testid={`input-reorder-quantity-${s.inventoryItemId}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      ₹{((parseFloat(quantity ?? "") || 0) * s.costPerUnit).toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between pt-2">
+          <span className="text-sm text-muted-foreground">
+            {chosen.length} item{chosen.length === 1 ? "" : "s"} selected · est. ₹{estimatedTotal.toFixed(2)}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-close-reorder">
+              Close
+            </Button>
+            <Button
+              onClick={() => draftMutation.mutate(chosen)}
+              disabled={chosen.length === 0 || draftMutation.isPending}
+              data-testid="button-generate-drafts"
+            >
+              {draftMutation.isPending ? "Creating..." : "Generate Draft POs"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import type { Order, OrderItem, Table } from "@shared/schema";
+
+// Split-off checks stay at the same table unless another one is picked
+const SAME_TABLE = "same";
+
+interface TableActionsDialogProps {
+  table: Table | null;
+  tables: Table[];
+  items: OrderItem[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called with the new check after a split, so it can be opened for billing
+  onSplit?: (order: Order) => void;
+}
+
+export default function TableActionsDialog({ table, tables, items, open, onOpenChange, onSplit }: TableActionsDialogProps) {
+  const { toast } = useToast();
+  const [moveTo, setMoveTo] = useState("");
+  const [mergeFrom, setMergeFrom] = useState("");
+  const [splitIds, setSplitIds] = useState<string[]>([]);
+  const [splitTo, setSplitTo] = useState(SAME_TABLE);
+
+  useEffect(() => {
+    if (open) {
+      setMoveTo("");
+      setMergeFrom("");
+      setSplitIds([]);
+      setSplitTo(SAME_TABLE);
+    }
+  }, [open, table?.id]);
+
+  const orderId = table?.currentOrderId;
+  const others = tables.filter((other) => other.id !== table?.id);
+  const freeTables = others.filter((other) => other.status === "free" && !other.currentOrderId);
+  const seatedTables = others.filter((other) => other.currentOrderId);
+
+  const tableAction = useMutation({
+    mutationFn: async ({ action, body }: { action: "transfer" | "merge" | "split"; body: unknown }) => {
+      const res = await apiRequest("POST", `/api/orders/${orderId}/${action}`, body);
+      return { action, order: (await res.json()) as Order };
+    },
+    onSuccess: ({ action, order }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Success",
+        description: action === "transfer" ? "Order moved" : action === "merge" ? "Orders merged" : "Items split onto a new check",
+      });
+      onOpenChange(false);
+      if (action === "split") {
+        onSplit?.(order);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to update the table"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSplit = (id: string, checked: boolean) => {
+    setSplitIds(checked ? [...splitIds, id] : splitIds.filter((splitId) => splitId !== id));
+  };
+
+  const mergeOrderId = seatedTables.find((other) => other.id === mergeFrom)?.currentOrderId;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Table {table?.tableNumber}</DialogTitle>
+          <DialogDescription>Move the party, join another table's check, or split items onto a separate bill</DialogDescription>
+        </DialogHeader>
+        {!orderId ? (
+          <div className="text-center py-6 text-muted-foreground">This table has no open order</div>
+        ) : (
+          <Tabs defaultValue="move">
+            <TabsList className="grid grid-cols-3 w-full">
+              <TabsTrigger value="move" data-testid="tab-table-move">Move</TabsTrigger>
+              <TabsTrigger value="merge" data-testid="tab-table-merge">Merge</TabsTrigger>
+              <TabsTrigger value="split" data-testid="tab-table-split">Split</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="move" className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label>Move to table</Label>
+                <Select value={moveTo} onValueChange={setMoveTo}>
+                  <SelectTrigger data-testid="select-move-table">
+                    <SelectValue placeholder={freeTables.length > 0 ? "Choose a free table" : "No free tables"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {freeTables.map((other) => (
+                      <SelectItem key={other.id} value={other.id}>Table {other.tableNumber} ({other.seats} seats)</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                className="w-full"
+                disabled={!moveTo || tableAction.isPending}
+                onClick={() => tableAction.mutate({ action: "transfer", body: { tableId: moveTo } })}
+                data-testid="button-move-table"
+              >
+                Move Order
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="merge" className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label>Bring in the check from</Label>
+                <Select value={mergeFrom} onValueChange={setMergeFrom}>
+                  <SelectTrigger data-testid="select-merge-table">
+                    <SelectValue placeholder={seatedTables.length > 0 ? "Choose a table" : "No other tables have orders"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {seatedTables.map((other) => (
+                      <SelectItem key={other.id} value={other.id}>Table {other.tableNumber}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Its items and KOTs join this table's order and that table is freed.
+                </p>
+              </div>
+              <Button
+                className="w-full"
+                disabled={!mergeOrderId || tableAction.isPending}
+                onClick={() => tableAction.mutate({ action: "merge", body: { orderIds: [mergeOrderId] } })}
+                data-testid="button-merge-table"
+              >
+                Merge Orders
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="split" className="space-y-4 pt-2">
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {items.map((item) => (
+                  <label key={item.id} className="flex items-center gap-3 p-2 rounded-md bg-muted cursor-pointer">
+                    <Checkbox
+                      checked={splitIds.includes(item.id)}
+                      onCheckedChange={(checked) => toggleSplit(item.id, checked === true)}
+                      data-testid={`checkbox-split-${item.id}`}
+                    />
+                    <span className="flex-1 text-sm">{item.quantity} × {item.name}</span>
+                    <span className="text-sm font-medium">₹{(item.quantity * parseFloat(item.price)).toFixed(2)}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label>New check at</Label>
+                <Select value={splitTo} onValueChange={setSplitTo}>
+                  <SelectTrigger data-testid="select-split-table">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SAME_TABLE}>This table</SelectItem>
+                    {freeTables.map((other) => (
+                      <SelectItem key={other.id} value={other.id}>Table {other.tableNumber}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                className="w-full"
+                disabled={splitIds.length === 0 || splitIds.length === items.length || tableAction.isPending}
+                onClick={() =>
+                  tableAction.mutate({
+                    action: "split",
+                    body: { orderItemIds: splitIds, tableId: splitTo === SAME_TABLE ? null : splitTo },
+                  })
+                }
+                data-testid="button-split-order"
+              >
+                Split {splitIds.length > 0 ? `${splitIds.length} ${splitIds.length === 1 ? "Item" : "Items"}` : "Items"}
+              </Button>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
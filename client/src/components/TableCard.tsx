@@ -1,4 +1,4 @@
-import { Users, Clock, FileText, DollarSign } from "lucide-react";
+import { Users, Clock, FileText, DollarSign, ArrowLeftRight } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState, useEffect, useRef } from "react";
 
@@ -15,6 +15,8 @@ interface TableCardProps {
   onToggleServed?: (id: string) => void;
   onViewOrder?: (id: string) => void;
   onBilling?: (id: string) => void;
+  // Move, merge or split the table's order
+  onManage?: (id: string) => void;
 }
 
 const statusConfig = {
@@ -67,6 +69,7 @@ export default function TableCard({
   onToggleServed,
   onViewOrder,
   onBilling,
+  onManage,
 }: TableCardProps) {
   const config = statusConfig[status];
   const [elapsedTime, setElapsedTime] = useState(0);
@@ -132,6 +135,13 @@ export default function TableCard({
       onBilling(id);
     }
   };
+
+  const handleManage = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onManage) {
+      onManage(id);
+    }
+  };
   
   return (
     <div className="flex flex-col items-center">
@@ -191,6 +201,16 @@ export default function TableCard({
           Mark Served
         </button>
       )}
+      {onManage && (
+        <button
+          onClick={handleManage}
+          className="mt-2 flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          data-testid={`button-manage-table-${id}`}
+        >
+          <ArrowLeftRight className="h-3 w-3" />
+          Move / Merge / Split
+        </button>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { Plus, Edit, Trash2, X } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TaxProfile, TaxComponent, InsertTaxProfile } from "@shared/schema";
+
+const componentPresets: Array<{ label: string; components: TaxComponent[] }> = [
+  {
+    label: "CGST + SGST",
+    components: [
+      { code: "CGST", name: "CGST", rate: 2.5, kind: "tax" },
+      { code: "SGST", name: "SGST", rate: 2.5, kind: "tax" },
+    ],
+  },
+  { label: "IGST", components: [{ code: "IGST", name: "IGST", rate: 5, kind: "tax" }] },
+  { label: "VAT", components: [{ code: "VAT", name: "VAT", rate: 20, kind: "tax" }] },
+  { label: "Service Charge", components: [{ code: "SC", name: "Service Charge", rate: 10, kind: "charge" }] },
+];
+
+const emptyProfile: InsertTaxProfile = {
+  name: "",
+  description: "",
+  components: [],
+  inclusive: false,
+  categories: [],
+  isDefault: false,
+};
+
+export default function TaxProfilesSettings() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<InsertTaxProfile>(emptyProfile);
+  const { toast } = useToast();
+
+  const { data: profiles = [], isLoading } = useQuery<TaxProfile[]>({
+    queryKey: ["/api/tax-profiles"],
+  });
+
+  const { data: categoriesData } = useQuery<{ categories: string[] }>({
+    queryKey: ["/api/menu/categories"],
+  });
+  const categories = categoriesData?.categories ?? [];
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertTaxProfile) => {
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/tax-profiles/${editingId}`, data)
+        : await apiRequest("POST", "/api/tax-profiles", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-profiles"] });
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: editingId ? "Tax profile updated successfully" : "Tax profile added successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save tax profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/tax-profiles/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-profiles"] });
+      toast({
+        title: "Success",
+        description: "Tax profile deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, "") || "Failed to delete tax profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAdd = () => {
+    setEditingId(null);
+    setDraft(emptyProfile);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (profile: TaxProfile) => {
+    setEditingId(profile.id);
+    setDraft({
+      name: profile.name,
+      description: profile.description ?? "",
+      components: profile.components,
+      inclusive: profile.inclusive,
+      categories: profile.categories,
+      isDefault: profile.isDefault,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const updateComponent = (index: number, changes: Partial<TaxComponent>) => {
+    const components = [...draft.components];
+    components[index] = { ...components[index], ...changes };
+    setDraft({ ...draft, components });
+  };
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    setDraft({
+      ...draft,
+      categories: checked
+        ? [...draft.categories, category]
+        : draft.categories.filter((c) => c !== category),
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Profile name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this tax profile?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-card-border p-6 max-w-3xl">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold">Tax Profiles</h3>
+        <Button size="sm" onClick={openAdd} data-testid="button-add-tax-profile">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Profile
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        A menu item uses its own profile if set, otherwise the profile assigned to its category, otherwise the default.
+      </p>
+
+      {isLoading ? (
+        <div className="text-center py-8">Loading...</div>
+      ) : profiles.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No tax profiles configured - bills carry no tax</div>
+      ) : (
+        <div className="space-y-3">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="border border-border rounded-lg p-4" data-testid={`card-tax-profile-${profile.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{profile.name}</span>
+                    {profile.isDefault && <Badge>Default</Badge>}
+                    {profile.inclusive && <Badge variant="secondary">Tax inclusive</Badge>}
+                  </div>
+                  {profile.description && <p className="text-sm text-muted-foreground">{profile.description}</p>}
+                  <p className="text-sm">
+                    {profile.components.length > 0
+                      ? profile.components.map((c) => `${c.name} ${c.rate}%`).join(" + ")
+                      : "No tax"}
+                  </p>
+                  {profile.categories.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {profile.categories.map((category) => (
+                        <Badge key={category} variant="outline">{category}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEdit(profile)} data-testid={`button-edit-tax-profile-${profile.id}`}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(profile.id)} data-testid={`button-delete-tax-profile-${profile.id}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Tax Profile" : "Add Tax Profile"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tax-profile-name">Name</Label>
+                <Input
+                  id="tax-profile-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Alcohol VAT"
+                  data-testid="input-tax-profile-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-profile-description">Description (Optional)</Label>
+                <Input
+                  id="tax-profile-description"
+                  value={draft.description ?? ""}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  data-testid="input-tax-profile-description"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Prices include tax</Label>
+                <p className="text-sm text-muted-foreground">Menu prices already contain the tax components</p>
+              </div>
+              <Switch
+                checked={draft.inclusive}
+                onCheckedChange={(inclusive) => setDraft({ ...draft, inclusive })}
+                data-testid="switch-tax-inclusive"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Default profile</Label>
+                <p className="text-sm text-muted-foreground">Used for items with no item or category profile</p>
+              </div>
+              <Switch
+                checked={draft.isDefault}
+                onCheckedChange={(isDefault) => setDraft({ ...draft, isDefault })}
+                data-testid="switch-tax-default"
+              />
+            </div>
+
+            <div className="border-t pt-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Components</Label>
+                <div className="flex flex-wrap gap-2">
+                  {componentPresets.map((preset) => (
+                    <Button
+                      key={preset.label}
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setDraft({ ...draft, components: [...draft.components, ...preset.components] })}
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      {preset.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {draft.components.map((component, index) => (
+                <div key={index} className="grid grid-cols-[1fr_2fr_1fr_1fr_auto] gap-2 items-center">
+                  <Input
+                    value={component.code}
+                    onChange={(e) => updateComponent(index, { code: e.target.value })}
+                    placeholder="Code"
+                    data-testid={`input-component-code-${index}`}
+                  />
+                  <Input
+                    value={component.name}
+                    onChange={(e) => updateComponent(index, { name: e.target.value })}
+                    placeholder="Name on bill"
+                    data-testid={`input-component-name-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={component.rate}
+                    onChange={(e) => updateComponent(index, { rate: parseFloat(e.target.value) || 0 })}
+                    placeholder="Rate %"
+                    data-testid={`input-component-rate-${index}`}
+                  />
+                  <Select
+                    value={component.kind}
+                    onValueChange={(kind) => updateComponent(index, { kind: kind as TaxComponent["kind"] })}
+                  >
+                    <SelectTrigger data-testid={`select-component-kind-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="tax">Tax</SelectItem>
+                      <SelectItem value="charge">Charge</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setDraft({ ...draft, components: draft.components.filter((_, i) => i !== index) })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {categories.length > 0 && (
+              <div className="border-t pt-4 space-y-3">
+                <Label>Apply to categories</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {categories.map((category) => (
+                    <div key={category} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`tax-category-${category}`}
+                        checked={draft.categories.includes(category)}
+                        onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                      />
+                      <label htmlFor={`tax-category-${category}`} className="text-sm">{category}</label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-tax-profile">
+                {saveMutation.isPending ? "Saving..." : "Save Profile"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, needsApproval } from "@/lib/queryClient";
+import {
+  PERMISSIONS,
+  compReasons,
+  hasPermission,
+  voidReasons,
+  type CompItemRequest,
+  type ItemAdjustment,
+  type ItemAdjustmentKind,
+  type Kot,
+  type OrderItem,
+  type VoidItemRequest,
+  type Wastage,
+} from "@shared/schema";
+
+export interface AdjustableItem {
+  id: string;
+  name: string;
+  price: number;
+  quantity: number;
+  // The kitchen already has the line
+  sent: boolean;
+}
+
+// A void comes back with its void tickets and wastage; a comp with the line at its new price
+export type ItemAdjusted =
+  | { kind: "void"; adjustment: ItemAdjustment; kots: Kot[]; wastage: Wastage[] }
+  | { kind: "comp"; item: OrderItem };
+
+interface VoidCompDialogProps {
+  kind: ItemAdjustmentKind;
+  item: AdjustableItem | null;
+  onOpenChange: (open: boolean) => void;
+  onDone: (result: ItemAdjusted) => void;
+}
+
+export default function VoidCompDialog({ kind, item, onOpenChange, onDone }: VoidCompDialogProps) {
+  const [reasonCode, setReasonCode] = useState("");
+  const [note, setNote] = useState("");
+  const [logWastage, setLogWastage] = useState(false);
+  const [managerPin, setManagerPin] = useState("");
+  // The server asked for a PIN even though this user looked like they could go ahead
+  const [approvalAsked, setApprovalAsked] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (item) {
+      // Lines the kitchen never saw are almost always keyed in by mistake
+      setReasonCode(kind === "void" && !item.sent ? "ENTRY_ERROR" : "");
+      setNote("");
+      setLogWastage(false);
+      setManagerPin("");
+      setApprovalAsked(false);
+    }
+  }, [item?.id, kind]);
+
+  const reasons: Record<string, string> = kind === "void" ? voidReasons : compReasons;
+  const sent = !!item?.sent;
+  const needsPin =
+    approvalAsked || ((kind === "comp" || sent) && !hasPermission(user, PERMISSIONS.ORDERS_VOID_ITEM));
+  const amount = item ? item.price * item.quantity : 0;
+
+  const mutation = useMutation({
+    mutationFn: async (request: VoidItemRequest | CompItemRequest): Promise<ItemAdjusted> => {
+      const res = await apiRequest("POST", `/api/order-items/${item!.id}/${kind}`, request);
+      const body = await res.json();
+      return kind === "void" ? { kind, ...body } : { kind, item: body };
+    },
+    onSuccess: (result) => {
+      onDone(result);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      if (needsApproval(error)) {
+        setApprovalAsked(true);
+      }
+      toast({
+        title: kind === "void" ? "Item not voided" : "Item not comped",
+        description: apiErrorMessage(error, kind === "void" ? "Failed to void item" : "Failed to comp item"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleConfirm = () => {
+    if (!reasonCode) {
+      toast({
+        title: "Validation Error",
+        description: "Choose a reason",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (needsPin && !managerPin) {
+      toast({
+        title: "Approval required",
+        description: "Enter a manager's PIN to continue",
+        variant: "destructive",
+      });
+      return;
+    }
+    const request = {
+      reasonCode,
+      note: note.trim() || null,
+      managerPin: needsPin ? managerPin : undefined,
+    };
+    mutation.mutate(kind === "void" ? ({ ...request, logWastage: sent && logWastage } as VoidItemRequest) : (request as CompItemRequest));
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {kind === "void" ? "Void" : "Comp"} {item?.quantity} × {item?.name}
+          </DialogTitle>
+          <DialogDescription>
+            {kind === "void"
+              ? sent
+                ? "The kitchen already has this item; a void ticket goes to every station it was sent to."
+                : "The item comes off the order before it reaches the kitchen."
+              : "The item stays on the order and goes out as usual, free of charge."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reasonCode} onValueChange={setReasonCode}>
+              <SelectTrigger data-testid={`select-${kind}-reason`}>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(reasons).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`${kind}-note`}>Note (Optional)</Label>
+            <Input
+              id={`${kind}-note`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={200}
+              data-testid={`input-${kind}-note`}
+            />
+          </div>
+
+          {kind === "void" && sent && (
+            <label className="flex items-center gap-3 text-sm cursor-pointer">
+              <Checkbox
+                checked={logWastage}
+                onCheckedChange={(checked) => setLogWastage(checked === true)}
+                data-testid="checkbox-void-wastage"
+              />
+              Already made: log the recipe ingredients as wastage
+            </label>
+          )}
+
+          {needsPin && (
+            <div className="space-y-2">
+              <Label htmlFor={`${kind}-pin`}>Manager PIN</Label>
+              <Input
+                id={`${kind}-pin`}
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={managerPin}
+                onChange={(e) => setManagerPin(e.target.value.replace(/\D/g, ""))}
+                maxLength={6}
+                data-testid={`input-${kind}-pin`}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-between text-sm font-medium border-t pt-3">
+            <span>{kind === "void" ? "Off the bill" : "Given away"}</span>
+            <span data-testid={`text-${kind}-amount`}>₹{amount.toFixed(2)}</span>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant={kind === "void" ? "destructive" : "default"}
+              onClick={handleConfirm}
+              disabled={mutation.isPending}
+              data-testid={`button-confirm-${kind}`}
+            >
+              {mutation.isPending ? "Saving..." : kind === "void" ? "Void Item" : "Comp Item"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,6 +18,7 @@ import {
   Truck,
   Globe,
   Smartphone,
+  LogOut,
 } from "lucide-react";
 import {
   Sidebar,
@@ -37,6 +38,8 @@ import {
 import { useLocation } from "wouter";
 import { useSidebar } from "@/components/ui/sidebar";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { canAccessPath } from "@/lib/permissions";
 
 // Main essential menu items
 const mainMenuItems = [
@@ -76,6 +79,7 @@ const menuGroups = [
     icon: Package,
     items: [
       { title: "Inventory", url: "/inventory", icon: Package },
+      { title: "Stock Take", url: "/stock-take", icon: FileText },
       { title: "Purchase Orders", url: "/purchase-orders", icon: ShoppingCart },
       { title: "Suppliers", url: "/suppliers", icon: Building2 },
       { title: "Wastage", url: "/wastage", icon: FileText },
@@ -122,6 +126,7 @@ const menuGroups = [
       { title: "Sales Detailed", url: "/sales-detailed", icon: BarChart3 },
       { title: "Item Performance", url: "/item-performance", icon: BarChart3 },
       { title: "Kitchen Performance", url: "/kitchen-performance", icon: BarChart3 },
+      { title: "Voids & Comps", url: "/void-report", icon: BarChart3 },
     ],
   },
   {
@@ -143,6 +148,13 @@ const menuGroups = [
 export function AppSidebar() {
   const [location, setLocation] = useLocation();
   const { isMobile, setOpenMobile } = useSidebar();
+  const { user, logoutMutation } = useAuth();
+
+  // Only show pages the signed-in user's role can open; drop groups left empty
+  const visibleMainItems = mainMenuItems.filter((item) => canAccessPath(user, item.url));
+  const visibleGroups = menuGroups
+    .map((group) => ({ ...group, items: group.items.filter((item) => canAccessPath(user, item.url)) }))
+    .filter((group) => group.items.length > 0);
 
   const handleNavigation = (url: string) => {
     setLocation(url);
@@ -169,7 +181,7 @@ export function AppSidebar() {
         <SidebarGroup>
           <SidebarGroupContent>
             <SidebarMenu>
-              {mainMenuItems.map((item) => (
+              {visibleMainItems.map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -202,7 +214,7 @@ export function AppSidebar() {
         </SidebarGroup>
 
         {/* Collapsible Menu Groups */}
-        {menuGroups.map((group) => {
+        {visibleGroups.map((group) => {
           const GroupIcon = group.icon;
           const hasActiveItem = group.items.some(item => item.url === location);
           
@@ -263,32 +275,34 @@ export function AppSidebar() {
         <SidebarGroup>
           <SidebarGroupContent>
             <SidebarMenu>
-              <SidebarMenuItem>
-                <SidebarMenuButton
-                  asChild
-                  isActive={location === "/settings"}
-                  data-testid="nav-settings"
-                  className={cn(
-                    "transition-colors text-gray-700 dark:text-gray-300",
-                    location === "/settings" && "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 font-medium"
-                  )}
-                >
-                  <a
-                    href="/settings"
-                    onClick={(e) => {
-                      e.preventDefault();
-                      handleNavigation("/settings");
-                    }}
-                    className="flex items-center gap-2"
+              {canAccessPath(user, "/settings") && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton
+                    asChild
+                    isActive={location === "/settings"}
+                    data-testid="nav-settings"
+                    className={cn(
+                      "transition-colors text-gray-700 dark:text-gray-300",
+                      location === "/settings" && "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 font-medium"
+                    )}
                   >
-                    <Settings className={cn(
-                      "h-4 w-4",
-                      location === "/settings" ? "text-red-600 dark:text-red-400" : "text-gray-600 dark:text-gray-400"
-                    )} />
-                    <span>Settings</span>
-                  </a>
-                </SidebarMenuButton>
-              </SidebarMenuItem>
+                    <a
+                      href="/settings"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        handleNavigation("/settings");
+                      }}
+                      className="flex items-center gap-2"
+                    >
+                      <Settings className={cn(
+                        "h-4 w-4",
+                        location === "/settings" ? "text-red-600 dark:text-red-400" : "text-gray-600 dark:text-gray-400"
+                      )} />
+                      <span>Settings</span>
+                    </a>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
               <SidebarMenuItem>
                 <SidebarMenuButton
                   asChild
@@ -315,6 +329,19 @@ export function AppSidebar() {
                   </a>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  data-testid="nav-logout"
+                  className="transition-colors text-gray-700 dark:text-gray-300"
+                >
+                  <LogOut className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                  <span className="truncate">
+                    Sign Out{user ? ` (${user.fullName || user.username})` : ""}
+                  </span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -0,0 +1,37 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { SessionUser, LoginCredentials } from "@shared/schema";
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<SessionUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginCredentials) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (signedInUser) => {
+      queryClient.setQueryData(["/api/auth/me"], signedInUser);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+    },
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    logoutMutation,
+  };
+}
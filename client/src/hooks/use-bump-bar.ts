@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Bump bars are USB keyboards; these are the keys they ship programmed with (or can be set to send)
+export const BUMP_BAR_KEYS = {
+  previousTicket: ['ArrowLeft'],
+  nextTicket: ['ArrowRight'],
+  previousLine: ['ArrowUp'],
+  nextLine: ['ArrowDown'],
+  advanceLine: [' '],
+  bumpTicket: ['Enter'],
+  recall: ['Backspace', 'r', 'R'],
+  clear: ['Escape'],
+};
+
+type BumpBarAction = keyof typeof BUMP_BAR_KEYS;
+
+export interface BumpBarTicket {
+  id: string;
+  lineIds: string[];
+}
+
+interface BumpBarOptions {
+  tickets: BumpBarTicket[];
+  enabled: boolean;
+  onAdvanceLine: (ticketId: string, lineId: string) => void;
+  onBumpTicket: (ticketId: string) => void;
+  // Returns the ticket that came back, so the selection can follow it
+  onRecall: () => string | undefined;
+}
+
+const actionFor = (key: string) =>
+  (Object.keys(BUMP_BAR_KEYS) as BumpBarAction[]).find((action) => BUMP_BAR_KEYS[action].includes(key));
+
+// Typing in the station picker or a search box must not bump tickets
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.getAttribute('role') === 'combobox');
+
+/**
+ * Keyboard control for the kitchen display: moves a selection across tickets
+ * and their lines and bumps, advances or recalls them.
+ */
+export function useBumpBar(options: BumpBarOptions) {
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
+  const [lineIndex, setLineIndex] = useState(0);
+  // The listener is bound once; it reads the latest tickets and callbacks from here
+  const latest = useRef({ options, selectedTicketId, lineIndex });
+  latest.current = { options, selectedTicketId, lineIndex };
+
+  const select = (ticketId: string | null) => {
+    setSelectedTicketId(ticketId);
+    setLineIndex(0);
+  };
+
+  // Drop the selection once its ticket leaves the screen
+  const { tickets } = options;
+  useEffect(() => {
+    if (selectedTicketId && !tickets.some((ticket) => ticket.id === selectedTicketId)) {
+      select(null);
+    }
+  }, [tickets, selectedTicketId]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const { options, selectedTicketId, lineIndex } = latest.current;
+      const action = actionFor(event.key);
+      if (!options.enabled || !action || event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) {
+        return;
+      }
+      event.preventDefault();
+
+      const { tickets } = options;
+      const index = tickets.findIndex((ticket) => ticket.id === selectedTicketId);
+      const ticket = tickets[index];
+      const lineCount = ticket?.lineIds.length ?? 0;
+
+      switch (action) {
+        case 'previousTicket':
+        case 'nextTicket': {
+          if (tickets.length === 0) return;
+          const step = action === 'nextTicket' ? 1 : -1;
+          const next = index === -1 ? (step === 1 ? 0 : tickets.length - 1) : (index + step + tickets.length) % tickets.length;
+          select(tickets[next].id);
+          break;
+        }
+        case 'previousLine':
+          if (lineCount > 0) setLineIndex((lineIndex - 1 + lineCount) % lineCount);
+          break;
+        case 'nextLine':
+          if (lineCount > 0) setLineIndex((lineIndex + 1) % lineCount);
+          break;
+        case 'advanceLine':
+          if (ticket && lineCount > 0) options.onAdvanceLine(ticket.id, ticket.lineIds[Math.min(lineIndex, lineCount - 1)]);
+          break;
+        case 'bumpTicket':
+          if (ticket) options.onBumpTicket(ticket.id);
+          break;
+        case 'recall': {
+          const recalled = options.onRecall();
+          if (recalled) select(recalled);
+          break;
+        }
+        case 'clear':
+          select(null);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const selectedTicket = tickets.find((ticket) => ticket.id === selectedTicketId);
+  const selectedLineId = selectedTicket?.lineIds[Math.min(lineIndex, selectedTicket.lineIds.length - 1)] ?? null;
+
+  return { selectedTicketId: selectedTicket ? selectedTicket.id : null, selectedLineId, select };
+}
@@ -0,0 +1,24 @@
+import { useQuery, type QueryClient } from '@tanstack/react-query';
+import { applyKdsPatch, kdsQueryUrl, type KdsFilter, type KdsPatch, type KdsTicket } from '@shared/kds';
+
+// The filter rides in the query key so a WebSocket patch can be applied to each cached feed
+export function useKdsFeed(filter: KdsFilter) {
+  return useQuery<KdsTicket[]>({
+    queryKey: ['/api/kds', filter],
+    queryFn: async () => {
+      const res = await fetch(kdsQueryUrl(filter), { credentials: 'include' });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return await res.json();
+    },
+  });
+}
+
+export function patchKdsFeeds(queryClient: QueryClient, patch: KdsPatch) {
+  for (const [queryKey, feed] of queryClient.getQueriesData<KdsTicket[]>({ queryKey: ['/api/kds'] })) {
+    if (feed) {
+      queryClient.setQueryData(queryKey, applyKdsPatch(feed, patch, queryKey[1] as KdsFilter));
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { queryClient } from '@/lib/queryClient';
+import { patchKdsFeeds } from '@/hooks/use-kds-feed';
 
 interface WebSocketMessage {
   type: string;
@@ -26,6 +27,8 @@ export function useWebSocket() {
 
       ws.onopen = () => {
         console.log('[WebSocket] Connected successfully!');
+        // Patches sent while we were disconnected are lost, so resync the feeds once
+        queryClient.invalidateQueries({ queryKey: ['/api/kds'] });
       };
 
       ws.onmessage = (event) => {
@@ -43,6 +46,7 @@ export function useWebSocket() {
             case 'order_updated':
             case 'order_completed':
             case 'order_paid':
+            case 'order_deleted':
               console.log('[WebSocket] Invalidating order queries for order:', message.data?.id);
               queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
               queryClient.invalidateQueries({ queryKey: ['/api/orders/active'] });
@@ -86,10 +90,68 @@ export function useWebSocket() {
                 });
               }
               break;
+            case 'kds_patch':
+              patchKdsFeeds(queryClient, message.data);
+              break;
+            case 'kot_created':
+              queryClient.invalidateQueries({ queryKey: ['/api/orders', message.data?.orderId, 'kots'] });
+              break;
+            case 'item_adjustment_created':
+              // The report's query key is the full URL with its date range
+              queryClient.invalidateQueries({
+                predicate: (query) =>
+                  typeof query.queryKey[0] === 'string' && query.queryKey[0].startsWith('/api/reports/voids')
+              });
+              break;
             case 'menu_created':
             case 'menu_updated':
               queryClient.invalidateQueries({ queryKey: ['/api/menu'] });
               break;
+            case 'tax_profile_created':
+            case 'tax_profile_updated':
+            case 'tax_profile_deleted':
+              queryClient.invalidateQueries({ queryKey: ['/api/tax-profiles'] });
+              break;
+            case 'offer_created':
+            case 'offer_updated':
+            case 'offer_deleted':
+              queryClient.invalidateQueries({ queryKey: ['/api/offers'] });
+              break;
+            case 'coupon_created':
+            case 'coupon_updated':
+            case 'coupon_deleted':
+              queryClient.invalidateQueries({ queryKey: ['/api/coupons'] });
+              break;
+            case 'modifier_group_created':
+            case 'modifier_group_updated':
+            case 'modifier_group_deleted':
+              queryClient.invalidateQueries({ queryKey: ['/api/modifier-groups'] });
+              break;
+            case 'kitchen_station_created':
+            case 'kitchen_station_updated':
+            case 'kitchen_station_deleted':
+              queryClient.invalidateQueries({ queryKey: ['/api/kitchen-stations'] });
+              break;
+            case 'kitchen_sla_updated':
+              queryClient.invalidateQueries({ queryKey: ['/api/settings/kitchen-sla'] });
+              break;
+            case 'credit_note_created':
+              queryClient.invalidateQueries({ queryKey: ['/api/credit-notes'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+              break;
+            case 'invoice_series_updated':
+              queryClient.invalidateQueries({ queryKey: ['/api/settings/invoice-series'] });
+              break;
+            case 'role_created':
+            case 'role_updated':
+            case 'role_deleted':
+            case 'user_created':
+            case 'user_updated':
+              queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+              // The signed-in user's own permissions may have changed
+              queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+              break;
             default:
               console.log('[WebSocket] Unknown message type:', message.type);
           }
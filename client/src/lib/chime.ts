@@ -0,0 +1,26 @@
+let context: AudioContext | null = null;
+
+/**
+ * Two short rising tones, synthesised so the kitchen display needs no sound
+ * file. Browsers keep audio locked until the page has had a click or key
+ * press; before that the chime is silently skipped.
+ */
+export function playChime() {
+  context ??= new AudioContext();
+  if (context.state === 'suspended') {
+    void context.resume();
+  }
+  const start = context.currentTime;
+  [880, 1320].forEach((frequency, index) => {
+    const oscillator = context!.createOscillator();
+    const gain = context!.createGain();
+    const at = start + index * 0.18;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, at);
+    gain.gain.exponentialRampToValueAtTime(0.3, at + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + 0.16);
+    oscillator.connect(gain).connect(context!.destination);
+    oscillator.start(at);
+    oscillator.stop(at + 0.17);
+  });
+}
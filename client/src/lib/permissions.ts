@@ -0,0 +1,63 @@
+import { PERMISSIONS, hasPermission, type Permission, type SessionUser } from "@shared/schema";
+
+// Pages mapped to the permissions that unlock them (any one is enough).
+// Paths not listed here are open to every signed-in user.
+const pagePermissions: Record<string, Permission[]> = {
+  "/billing": [PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.BILLING_CHECKOUT],
+  "/tables": [PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.TABLES_MANAGE],
+  "/kitchen": [PERMISSIONS.KITCHEN_MANAGE],
+  "/menu": [PERMISSIONS.MENU_EDIT],
+  "/delivery": [PERMISSIONS.DELIVERY_MANAGE],
+  "/online-orders": [PERMISSIONS.ORDERS_MANAGE],
+  "/digital-menu-orders": [PERMISSIONS.ORDERS_MANAGE],
+  "/reservations": [PERMISSIONS.TABLES_MANAGE],
+  "/waiting-list": [PERMISSIONS.TABLES_MANAGE],
+  "/events": [PERMISSIONS.TABLES_MANAGE],
+  "/customers": [PERMISSIONS.CUSTOMERS_MANAGE],
+  "/loyalty": [PERMISSIONS.CUSTOMERS_MANAGE],
+  "/gift-cards": [PERMISSIONS.CUSTOMERS_MANAGE],
+  "/feedback": [PERMISSIONS.CUSTOMERS_MANAGE],
+  "/inventory": [PERMISSIONS.INVENTORY_MANAGE],
+  "/inventory-history": [PERMISSIONS.INVENTORY_MANAGE],
+  "/stock-take": [PERMISSIONS.INVENTORY_MANAGE],
+  "/purchase-orders": [PERMISSIONS.INVENTORY_MANAGE, PERMISSIONS.PURCHASE_ORDERS_RECEIVE],
+  "/suppliers": [PERMISSIONS.INVENTORY_MANAGE],
+  "/wastage": [PERMISSIONS.INVENTORY_MANAGE],
+  "/staff": [PERMISSIONS.USERS_MANAGE],
+  "/attendance": [PERMISSIONS.USERS_MANAGE],
+  "/commission": [PERMISSIONS.USERS_MANAGE],
+  "/user-roles": [PERMISSIONS.USERS_MANAGE],
+  "/expenses": [PERMISSIONS.REPORTS_VIEW],
+  "/payment-settlement": [PERMISSIONS.REPORTS_VIEW],
+  "/accounting": [PERMISSIONS.REPORTS_VIEW],
+  "/tax-reports": [PERMISSIONS.REPORTS_VIEW],
+  "/invoices": [PERMISSIONS.INVOICES_MANAGE, PERMISSIONS.BILLING_CHECKOUT],
+  "/day-end-settlement": [PERMISSIONS.REPORTS_VIEW],
+  "/analytics": [PERMISSIONS.REPORTS_VIEW],
+  "/reports": [PERMISSIONS.REPORTS_VIEW],
+  "/sales-detailed": [PERMISSIONS.REPORTS_VIEW],
+  "/item-performance": [PERMISSIONS.REPORTS_VIEW],
+  "/kitchen-performance": [PERMISSIONS.REPORTS_VIEW],
+  "/void-report": [PERMISSIONS.REPORTS_VIEW],
+  "/offers": [PERMISSIONS.SETTINGS_MANAGE],
+  "/coupons": [PERMISSIONS.SETTINGS_MANAGE],
+  "/marketing": [PERMISSIONS.SETTINGS_MANAGE],
+  "/qr-codes": [PERMISSIONS.SETTINGS_MANAGE],
+  "/multi-location": [PERMISSIONS.SETTINGS_MANAGE],
+  "/integrations": [PERMISSIONS.SETTINGS_MANAGE],
+  "/printer-config": [PERMISSIONS.SETTINGS_MANAGE],
+  "/email-templates": [PERMISSIONS.SETTINGS_MANAGE],
+  "/notifications": [PERMISSIONS.SETTINGS_MANAGE],
+  "/audit-logs": [PERMISSIONS.SETTINGS_MANAGE],
+  "/database": [PERMISSIONS.SETTINGS_MANAGE],
+  "/backup": [PERMISSIONS.SETTINGS_MANAGE],
+  "/settings": [PERMISSIONS.SETTINGS_MANAGE],
+};
+
+export function canAccessPath(user: SessionUser | null, path: string): boolean {
+  const required = pagePermissions[path];
+  if (!required) {
+    return true;
+  }
+  return !!user && required.some((permission) => hasPermission(user, permission));
+}
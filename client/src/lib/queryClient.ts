@@ -1,12 +1,47 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
+  if (res.status === 401) {
+    // Session expired or was revoked - drop back to the login screen
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
   }
 }
 
+// Readable message from an apiRequest failure ("403: {"error":"..."}")
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  const text = error instanceof Error ? error.message.replace(/^\d+: /, "") : "";
+  try {
+    const body = JSON.parse(text);
+    return typeof body.error === "string" ? body.error : fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+// True when the server refused an action that a confirmed retry with override: true would allow
+export function needsOverride(error: unknown): boolean {
+  const text = error instanceof Error ? error.message.replace(/^\d+: /, "") : "";
+  try {
+    return JSON.parse(text).requiresOverride === true;
+  } catch {
+    return false;
+  }
+}
+
+// True when the server wants a manager's PIN before it will go ahead
+export function needsApproval(error: unknown): boolean {
+  const text = error instanceof Error ? error.message.replace(/^\d+: /, "") : "";
+  try {
+    return JSON.parse(text).requiresApproval === true;
+  } catch {
+    return false;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -8,6 +8,12 @@ import MenuItemCard from "@/components/MenuItemCard";
 import OrderCart from "@/components/OrderCart";
 import CustomerSelectionDialog from "@/components/CustomerSelectionDialog";
 import PrintableInvoice from "@/components/PrintableInvoice";
+import DiscountDialog, { type DiscountSaved } from "@/components/DiscountDialog";
+import CouponDialog, { type CouponSaved } from "@/components/CouponDialog";
+import ModifierDialog from "@/components/ModifierDialog";
+import KotHistoryDialog from "@/components/KotHistoryDialog";
+import ItemSplitPanel from "@/components/ItemSplitPanel";
+import VoidCompDialog, { type ItemAdjusted } from "@/components/VoidCompDialog";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -32,8 +38,17 @@ import {
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { MenuItem, Customer, Invoice, Order, OrderItem as SchemaOrderItem } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiErrorMessage, apiRequest, needsOverride, queryClient } from "@/lib/queryClient";
+import { PERMISSIONS, hasPermission } from "@shared/schema";
+import type { AppliedDiscount, Coupon, MenuItem, ModifierGroup, Customer, Invoice, ItemAdjustmentKind, Kot, Offer, Order, OrderItem as SchemaOrderItem, OrderItemComp, OrderItemComponent, OrderItemModifier, TaxProfile } from "@shared/schema";
+import { calculateBill, formatRoundOff, parseDiscount } from "@shared/billing";
+import { applyCoupon, applyOffers, defaultTimeZone, type PromotionLine } from "@shared/promotions";
+import { formatTaxLabel } from "@shared/tax";
+import { modifiersPrice, sameModifiers } from "@shared/modifiers";
+import { isCombo, resolveComboComponents, sameComponents } from "@shared/combos";
+import { assignShares, calculateGuestBills } from "@shared/split-bill";
+import { courseLabel } from "@shared/courses";
 
 interface OrderItem {
   id: string;
@@ -44,6 +59,16 @@ interface OrderItem {
   notes?: string;
   isFromDatabase?: boolean;
   isVeg?: boolean;
+  discount?: AppliedDiscount | null;
+  modifiers?: OrderItemModifier[];
+  components?: OrderItemComponent[];
+  seatNumber?: number | null;
+  course?: number | null;
+  // Saved lines only: still held back from the kitchen until the course is fired
+  hold?: boolean;
+  // Saved lines only: the kitchen has had a KOT for it
+  sent?: boolean;
+  comp?: OrderItemComp | null;
 }
 
 export default function BillingPage() {
@@ -56,11 +81,18 @@ export default function BillingPage() {
   const [checkoutMode, setCheckoutMode] = useState(false);
   const [showCheckoutDialog, setShowCheckoutDialog] = useState(false);
   const [showSplitBillDialog, setShowSplitBillDialog] = useState(false);
+  const [showKotHistory, setShowKotHistory] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<"cash" | "card" | "upi">("cash");
   const [splitCount, setSplitCount] = useState<number>(2);
   const [splitAmounts, setSplitAmounts] = useState<number[]>([]);
   const [splitPaymentModes, setSplitPaymentModes] = useState<string[]>([]);
-  const [splitMode, setSplitMode] = useState<"equal" | "custom">("equal");
+  const [splitMode, setSplitMode] = useState<"equal" | "custom" | "items">("equal");
+  const [itemAssignments, setItemAssignments] = useState<Record<string, number[]>>({});
+  // Seat and course stamped on items as they are added
+  const [activeSeat, setActiveSeat] = useState<number | null>(null);
+  const [activeCourse, setActiveCourse] = useState<number | null>(null);
+  // Courses whose unsent items go to the kitchen held, waiting to be fired
+  const [heldCourses, setHeldCourses] = useState<number[]>([]);
   const [currentTableId, setCurrentTableId] = useState<string | null>(null);
   const [tableNumber, setTableNumber] = useState<string>("");
   const [floorName, setFloorName] = useState<string>("");
@@ -74,7 +106,12 @@ export default function BillingPage() {
   const [selectedFloorId, setSelectedFloorId] = useState<string>("");
   const [selectedTableFromDropdown, setSelectedTableFromDropdown] = useState<string>("");
   const [showMobileCart, setShowMobileCart] = useState(false);
+  const [discountTarget, setDiscountTarget] = useState<{ kind: "order" } | { kind: "item"; item: OrderItem } | null>(null);
+  const [showCouponDialog, setShowCouponDialog] = useState(false);
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
+  const [adjustTarget, setAdjustTarget] = useState<{ kind: ItemAdjustmentKind; item: OrderItem } | null>(null);
   const { toast} = useToast();
+  const { user } = useAuth();
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -158,6 +195,14 @@ export default function BillingPage() {
         notes: item.notes || undefined,
         isFromDatabase: true,
         isVeg: item.isVeg,
+        discount: parseDiscount<AppliedDiscount>(item.discount),
+        modifiers: item.modifiers ?? [],
+        components: item.components ?? [],
+        seatNumber: item.seatNumber ?? null,
+        course: item.course ?? null,
+        hold: item.status === "hold",
+        sent: !!item.sentAt,
+        comp: item.comp ?? null,
       }));
       
       setOrderItems(formattedItems);
@@ -175,6 +220,142 @@ export default function BillingPage() {
     queryKey: ["/api/menu"],
   });
 
+  const { data: modifierGroups = [] } = useQuery<ModifierGroup[]>({
+    queryKey: ["/api/modifier-groups"],
+  });
+
+  const { data: taxProfiles = [] } = useQuery<TaxProfile[]>({
+    queryKey: ["/api/tax-profiles"],
+  });
+
+  const { data: currentOrder } = useQuery<Order>({
+    queryKey: ["/api/orders", currentOrderId],
+    enabled: !!currentOrderId,
+  });
+  const orderDiscount = parseDiscount<AppliedDiscount>(currentOrder?.discount);
+  const couponCode = currentOrder?.couponCode ?? null;
+
+  const { data: offers = [] } = useQuery<Offer[]>({
+    queryKey: ["/api/offers"],
+  });
+
+  const { data: coupons = [] } = useQuery<Coupon[]>({
+    queryKey: ["/api/coupons"],
+  });
+
+  const { data: clock } = useQuery<{ timeZone: string }>({
+    queryKey: ["/api/settings/time-zone"],
+  });
+  const timeZone = clock?.timeZone ?? defaultTimeZone;
+
+  // Previewed with the server's rules; usage limits are only checked when the coupon is applied
+  const promotionLines: PromotionLine[] = orderItems.map((item) => ({
+    menuItemId: item.menuItemId,
+    category: menuItems.find((m) => m.id === item.menuItemId)?.category ?? null,
+    price: item.price,
+    quantity: item.quantity,
+  }));
+  const now = new Date();
+  const promotions = applyOffers(offers, promotionLines, now, timeZone);
+  const coupon = couponCode ? coupons.find((c) => c.code === couponCode) : undefined;
+  if (coupon) {
+    const applied = applyCoupon(coupon, promotionLines, now, timeZone);
+    if ("promotion" in applied) {
+      promotions.push(applied.promotion);
+    }
+  }
+
+  // Same calculation the server uses when it builds the invoice
+  const billLines = orderItems.map((item) => {
+    const menuItem = menuItems.find((m) => m.id === item.menuItemId);
+    return {
+      price: item.price,
+      quantity: item.quantity,
+      category: menuItem?.category,
+      taxProfileId: menuItem?.taxProfileId,
+      discount: item.discount,
+    };
+  });
+  const bill = calculateBill(billLines, taxProfiles, { orderDiscount, promotions });
+
+  // Each guest's sub-invoice, priced the way the server will issue it
+  const splitGuests = Array.from({ length: splitCount }, (_, index) => ({
+    guest: index + 1,
+    paymentMode: splitPaymentModes[index] || paymentMethod,
+  }));
+  const itemSplitAssignments = Object.entries(itemAssignments).map(([orderItemId, guests]) => ({ orderItemId, guests }));
+  const itemShares = splitMode === "items"
+    ? assignShares(orderItems.map((item) => item.id), splitGuests, itemSplitAssignments)
+    : null;
+  const guestBills = itemShares?.ok ? calculateGuestBills(billLines, bill, taxProfiles, splitGuests, itemShares.shares) : null;
+
+  const canDiscount = hasPermission(user, PERMISSIONS.ORDERS_APPLY_DISCOUNT);
+  const canApplyCoupon = canDiscount || hasPermission(user, PERMISSIONS.BILLING_CHECKOUT);
+  // Anyone who can void can ask for a comp; the dialog takes a manager's PIN when they lack void rights
+  const canComp = hasPermission(user, PERMISSIONS.ORDERS_MANAGE) || hasPermission(user, PERMISSIONS.ORDERS_VOID_ITEM);
+
+  const handleDiscountOrder = () => {
+    if (!currentOrderId) {
+      toast({
+        title: "Order not saved",
+        description: "Save the order or send a KOT before applying a discount",
+        variant: "destructive",
+      });
+      return;
+    }
+    setDiscountTarget({ kind: "order" });
+  };
+
+  const handleDiscountItem = (id: string) => {
+    const item = orderItems.find((i) => i.id === id);
+    if (!item) return;
+    if (!item.isFromDatabase) {
+      toast({
+        title: "Item not saved",
+        description: "Save the order or send a KOT before discounting this item",
+        variant: "destructive",
+      });
+      return;
+    }
+    setDiscountTarget({ kind: "item", item });
+  };
+
+  // Discounts are stored on the order, so the server response replaces the local copy
+  const handleDiscountSaved = (result: DiscountSaved) => {
+    if (result.order) {
+      queryClient.setQueryData(["/api/orders", result.order.id], result.order);
+    }
+    if (result.item) {
+      const saved = result.item;
+      setOrderItems((items) =>
+        items.map((item) => (item.id === saved.id ? { ...item, discount: parseDiscount<AppliedDiscount>(saved.discount) } : item)),
+      );
+    }
+  };
+
+  const handleApplyCoupon = () => {
+    if (!currentOrderId) {
+      toast({
+        title: "Order not saved",
+        description: "Save the order or send a KOT before applying a coupon",
+        variant: "destructive",
+      });
+      return;
+    }
+    setShowCouponDialog(true);
+  };
+
+  const handleCouponSaved = (result: CouponSaved) => {
+    queryClient.setQueryData(["/api/orders", result.order.id], result.order);
+  };
+
+  // What an order discount is taken from: the saved items after their own discounts and promotions
+  const orderDiscountBase = orderItems.reduce(
+    (sum, item, index) =>
+      item.isFromDatabase ? sum + item.price * item.quantity - bill.itemDiscounts[index] - bill.promotionDiscounts[index] : sum,
+    0,
+  );
+
   const { data: categoriesData } = useQuery<{ categories: string[] }>({
     queryKey: ["/api/menu/categories"],
   });
@@ -186,6 +367,7 @@ export default function BillingPage() {
   const { data: tables = [] } = useQuery<any[]>({
     queryKey: ["/api/tables"],
   });
+  const seatCount: number = tables.find((table) => table.id === (currentTableId || selectedTableFromDropdown))?.seats ?? 0;
 
   const createOrderMutation = useMutation({
     mutationFn: async (data: { 
@@ -210,9 +392,10 @@ export default function BillingPage() {
     },
   });
 
-  const downloadKOTPDF = async (orderId: string) => {
+  // Each KOT prints on its own; reprints come back from the server marked DUPLICATE
+  const downloadKOTPDF = async (kot: Kot) => {
     try {
-      const response = await fetch(`/api/orders/${orderId}/kot/pdf`);
+      const response = await fetch(`/api/kots/${kot.id}/pdf`);
       if (!response.ok) {
         throw new Error('Failed to generate KOT PDF');
       }
@@ -221,7 +404,7 @@ export default function BillingPage() {
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `KOT-${orderId.substring(0, 8)}.pdf`;
+      link.download = `KOT-${kot.kotNumber}${kot.kind === "void" ? "-VOID" : ""}.pdf`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -229,7 +412,7 @@ export default function BillingPage() {
       
       toast({
         title: "Success",
-        description: "KOT PDF downloaded successfully",
+        description: `KOT #${kot.kotNumber} downloaded`,
       });
     } catch (error) {
       toast({
@@ -243,10 +426,12 @@ export default function BillingPage() {
   const kotMutation = useMutation({
     mutationFn: async ({ orderId, print }: { orderId: string; print: boolean }) => {
       const res = await apiRequest("POST", `/api/orders/${orderId}/kot`, { print });
-      const kotData = await res.json();
+      const kotData: { order: Order; kots: Kot[] } = await res.json();
       
       if (print) {
-        await downloadKOTPDF(orderId);
+        for (const kot of kotData.kots) {
+          await downloadKOTPDF(kot);
+        }
       }
       
       return kotData;
@@ -254,6 +439,23 @@ export default function BillingPage() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders/active"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", data.order.id, "kots"] });
+    },
+  });
+
+  const fireCourseMutation = useMutation({
+    mutationFn: async ({ orderId, course }: { orderId: string; course: number }) => {
+      const res = await apiRequest("POST", `/api/orders/${orderId}/fire`, { course, print: true });
+      const fired: { order: Order; kots: Kot[] } = await res.json();
+      for (const kot of fired.kots) {
+        await downloadKOTPDF(kot);
+      }
+      return fired;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders/active"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", data.order.id, "kots"] });
     },
   });
 
@@ -323,13 +525,15 @@ export default function BillingPage() {
   });
 
   const checkoutMutation = useMutation({
-    mutationFn: async ({ orderId, paymentMode, splitPayments, print }: { 
+    mutationFn: async ({ orderId, paymentMode, splitPayments, itemSplit, print, override }: { 
       orderId: string; 
       paymentMode: string; 
       splitPayments?: Array<{ person: number; amount: number; paymentMode: string }>; 
-      print: boolean 
+      itemSplit?: { guests: Array<{ guest: number; paymentMode: string }>; assignments: Array<{ orderItemId: string; guests: number[] }> };
+      print: boolean;
+      override?: boolean;
     }) => {
-      const res = await apiRequest("POST", `/api/orders/${orderId}/checkout`, { paymentMode, splitPayments, print });
+      const res = await apiRequest("POST", `/api/orders/${orderId}/checkout`, { paymentMode, splitPayments, itemSplit, print, override });
       return await res.json();
     },
     onSuccess: (data) => {
@@ -338,6 +542,18 @@ export default function BillingPage() {
     },
   });
 
+  // The server refuses to settle while items are still with the kitchen; the cashier can confirm and go ahead
+  const settleOrder = async (args: Parameters<typeof checkoutMutation.mutateAsync>[0]) => {
+    try {
+      return await checkoutMutation.mutateAsync(args);
+    } catch (error) {
+      if (!needsOverride(error) || !window.confirm(`${apiErrorMessage(error, "Some items have not been served")}. Take payment anyway?`)) {
+        throw error;
+      }
+      return await checkoutMutation.mutateAsync({ ...args, override: true });
+    }
+  };
+
   const completeOrderMutation = useMutation({
     mutationFn: async (orderId: string) => {
       const res = await apiRequest("POST", `/api/orders/${orderId}/complete`);
@@ -358,12 +574,27 @@ export default function BillingPage() {
     ...categoryList.map(cat => ({ id: cat, name: cat }))
   ];
 
+  // Options or combo swaps have to be picked before the item goes in the cart
+  const needsPicker = (menuItem: MenuItem) =>
+    (menuItem.modifierGroupIds ?? []).length > 0 || (menuItem.comboComponents ?? []).some((slot) => slot.choices.length > 0);
+
+  // Fixed combos show their components in the cart; the server resolves them again when the item is sent
+  const defaultComponents = (menuItem: MenuItem): OrderItemComponent[] => {
+    if (!isCombo(menuItem)) return [];
+    const resolved = resolveComboComponents(menuItem, menuItems, [], parseFloat(menuItem.price));
+    return "components" in resolved ? resolved.components : [];
+  };
+
   const filteredItems = menuItems.filter((item) => {
     const matchesCategory = selectedCategory === "all" || item.category === selectedCategory;
     const matchesSearch = item.name.toLowerCase().includes(searchQuery.toLowerCase());
     return matchesCategory && matchesSearch && item.available;
   });
 
+  // Another tap on the same dish adds to its line only for the same seat and course
+  const sameSeating = (item: OrderItem) =>
+    (item.seatNumber ?? null) === activeSeat && (item.course ?? null) === activeCourse;
+
   const handleQuickCodeEntry = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key !== 'Enter' || !quickCode.trim()) return;
     
@@ -371,6 +602,7 @@ export default function BillingPage() {
     const notFoundCodes: string[] = [];
     const unavailableCodes: string[] = [];
     const itemsToAdd: { menuItem: any; name: string }[] = [];
+    const needsOptions: MenuItem[] = [];
     
     codes.forEach(code => {
       const normalizedCode = code.toLowerCase();
@@ -387,6 +619,11 @@ export default function BillingPage() {
         unavailableCodes.push(menuItem.name);
         return;
       }
+
+      if (needsPicker(menuItem)) {
+        needsOptions.push(menuItem);
+        return;
+      }
       
       itemsToAdd.push({ menuItem, name: menuItem.name });
     });
@@ -398,7 +635,7 @@ export default function BillingPage() {
         
         itemsToAdd.forEach(({ menuItem }) => {
           const existingIndex = updatedItems.findIndex(
-            (item) => item.menuItemId === menuItem.id && !item.isFromDatabase
+            (item) => item.menuItemId === menuItem.id && !item.isFromDatabase && sameSeating(item)
           );
           
           if (existingIndex !== -1) {
@@ -421,6 +658,9 @@ export default function BillingPage() {
                 notes: undefined,
                 isFromDatabase: false,
                 isVeg: menuItem.isVeg,
+                components: defaultComponents(menuItem),
+                seatNumber: activeSeat,
+                course: activeCourse,
               }
             ];
           }
@@ -436,6 +676,17 @@ export default function BillingPage() {
     }
     
     setQuickCode("");
+
+    // Items with options can't be added blind; open the picker for the first one
+    if (needsOptions.length > 0) {
+      setModifierItem(needsOptions[0]);
+      if (needsOptions.length > 1) {
+        toast({
+          title: "Choose options",
+          description: `Add these separately to pick their options: ${needsOptions.slice(1).map(item => item.name).join(', ')}`,
+        });
+      }
+    }
     
     if (notFoundCodes.length > 0) {
       toast({
@@ -454,11 +705,15 @@ export default function BillingPage() {
     }
   };
 
-  const handleAddItem = (itemId: string) => {
-    const menuItem = menuItems.find((item) => item.id === itemId);
-    if (!menuItem) return;
-
-    const existingItem = orderItems.find((item) => item.menuItemId === itemId && !item.isFromDatabase);
+  const addToCart = (menuItem: MenuItem, modifiers: OrderItemModifier[] = [], components: OrderItemComponent[] = []) => {
+    const existingItem = orderItems.find(
+      (item) =>
+        item.menuItemId === menuItem.id &&
+        !item.isFromDatabase &&
+        sameSeating(item) &&
+        sameModifiers(item.modifiers, modifiers) &&
+        sameComponents(item.components, components)
+    );
     if (existingItem) {
       setOrderItems(
         orderItems.map((item) =>
@@ -472,16 +727,41 @@ export default function BillingPage() {
           id: Math.random().toString(36).substring(7),
           menuItemId: menuItem.id,
           name: menuItem.name,
-          price: parseFloat(menuItem.price),
+          price: parseFloat(menuItem.price) + modifiersPrice(modifiers),
           quantity: 1,
           notes: undefined,
           isFromDatabase: false,
           isVeg: menuItem.isVeg,
+          modifiers,
+          components,
+          seatNumber: activeSeat,
+          course: activeCourse,
         },
       ]);
     }
   };
 
+  const handleAddItem = (itemId: string) => {
+    const menuItem = menuItems.find((item) => item.id === itemId);
+    if (!menuItem) return;
+
+    if (needsPicker(menuItem)) {
+      setModifierItem(menuItem);
+      return;
+    }
+    addToCart(menuItem, [], defaultComponents(menuItem));
+  };
+
+  const handleModifiersConfirmed = (menuItem: MenuItem, modifiers: OrderItemModifier[], components: OrderItemComponent[]) => {
+    addToCart(menuItem, modifiers, components);
+    setModifierItem(null);
+  };
+
+  // Groups for the item in the picker, in the order the menu item lists them
+  const modifierItemGroups = (modifierItem?.modifierGroupIds ?? [])
+    .map((groupId) => modifierGroups.find((group) => group.id === groupId))
+    .filter((group): group is ModifierGroup => !!group);
+
   const handleUpdateQuantity = (id: string, quantity: number) => {
     const item = orderItems.find((i) => i.id === id);
     if (item?.isFromDatabase) {
@@ -501,16 +781,54 @@ export default function BillingPage() {
   };
 
   const handleRemoveItem = (id: string) => {
+    const item = orderItems.find((i) => i.id === id);
+    if (!item?.isFromDatabase) {
+      setOrderItems(orderItems.filter((item) => item.id !== id));
+      return;
+    }
+
+    // Saved lines are voided on the server with a reason, so the removal stays on record
+    setAdjustTarget({ kind: "void", item });
+  };
+
+  const handleCompItem = (id: string) => {
     const item = orderItems.find((i) => i.id === id);
     if (item?.isFromDatabase) {
+      setAdjustTarget({ kind: "comp", item });
+    }
+  };
+
+  const handleItemAdjusted = async (result: ItemAdjusted) => {
+    if (!adjustTarget) return;
+    const { item } = adjustTarget;
+    if (currentOrderId) {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", currentOrderId] });
+    }
+
+    if (result.kind === "comp") {
+      const saved = result.item;
+      setOrderItems((items) =>
+        items.map((i) => (i.id === saved.id ? { ...i, price: parseFloat(saved.price), discount: null, comp: saved.comp } : i)),
+      );
       toast({
-        title: "Cannot remove",
-        description: "This item has already been sent to kitchen. It cannot be removed from this view.",
-        variant: "destructive",
+        title: "Item comped",
+        description: `${item.name} is complimentary`,
       });
       return;
     }
-    setOrderItems(orderItems.filter((item) => item.id !== id));
+
+    const { kots, wastage } = result;
+    setOrderItems((items) => items.filter((i) => i.id !== item.id));
+    for (const kot of kots) {
+      await downloadKOTPDF(kot);
+    }
+    toast({
+      title: "Item voided",
+      description:
+        kots.length > 0
+          ? `${item.name} voided on the kitchen ticket${wastage.length > 0 ? " and logged as wastage" : ""}`
+          : `${item.name} removed from the order`,
+    });
   };
 
   const handleUpdateNotes = (id: string, notes: string) => {
@@ -526,6 +844,12 @@ export default function BillingPage() {
     setOrderItems(orderItems.map((item) => (item.id === id ? { ...item, notes } : item)));
   };
 
+  const isHeldUnsent = (item: OrderItem) => !!item.course && heldCourses.includes(item.course);
+
+  const handleToggleHoldCourse = (course: number) => {
+    setHeldCourses(heldCourses.includes(course) ? heldCourses.filter((held) => held !== course) : [...heldCourses, course]);
+  };
+
   const createOrderWithItems = async () => {
     let orderId = currentOrderId;
     
@@ -558,6 +882,11 @@ export default function BillingPage() {
             notes: item.notes || null,
             status: "new",
             isVeg: item.isVeg ?? true,
+            modifiers: (item.modifiers ?? []).map(({ groupId, optionId }) => ({ groupId, optionId })),
+            components: (item.components ?? []).map(({ menuItemId }, index) => ({ index, menuItemId })),
+            seatNumber: item.seatNumber ?? null,
+            course: item.course ?? null,
+            hold: isHeldUnsent(item),
           },
         });
       }
@@ -593,20 +922,27 @@ export default function BillingPage() {
 
     try {
       const orderId = await createOrderWithItems();
-      await kotMutation.mutateAsync({ orderId: orderId!, print });
+      const { kots } = await kotMutation.mutateAsync({ orderId: orderId!, print });
       
-      toast({
-        title: print ? "KOT Sent & Printed!" : "KOT Sent!",
-        description: "Order sent to kitchen successfully",
-      });
+      toast(
+        kots.length > 0
+          ? {
+              title: print ? "KOT Sent & Printed!" : "KOT Sent!",
+              description: `KOT ${kots.map((kot) => `#${kot.kotNumber}`).join(", ")} sent to kitchen`,
+            }
+          : {
+              title: "Nothing new to send",
+              description: "Every item on this order is already with the kitchen",
+            },
+      );
       
+      // Everything not held went out on this KOT
       const updatedItems = orderItems.map(item => {
-        if (!item.isFromDatabase) {
-          return { ...item, isFromDatabase: true };
-        }
-        return item;
+        const hold = item.isFromDatabase ? item.hold : isHeldUnsent(item);
+        return { ...item, isFromDatabase: true, hold, sent: item.sent || !hold };
       });
       setOrderItems(updatedItems);
+      setHeldCourses([]);
       
       if (currentTableId) {
         navigate("/tables");
@@ -657,11 +993,12 @@ export default function BillingPage() {
       
       const updatedItems = orderItems.map(item => {
         if (!item.isFromDatabase) {
-          return { ...item, isFromDatabase: true };
+          return { ...item, isFromDatabase: true, hold: isHeldUnsent(item) };
         }
         return item;
       });
       setOrderItems(updatedItems);
+      setHeldCourses([]);
       
       if (currentTableId) {
         navigate("/tables");
@@ -675,6 +1012,26 @@ export default function BillingPage() {
     }
   };
 
+  const handleFireCourse = async (course: number) => {
+    if (!currentOrderId) return;
+    try {
+      const { kots } = await fireCourseMutation.mutateAsync({ orderId: currentOrderId, course });
+      setOrderItems((items) =>
+        items.map((item) => (item.isFromDatabase && item.hold && item.course === course ? { ...item, hold: false } : item)),
+      );
+      toast({
+        title: `${courseLabel(course)} fired`,
+        description: `KOT ${kots.map((kot) => `#${kot.kotNumber}`).join(", ")} sent to kitchen`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to fire the course"),
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSendKOT = () => handleKOT(false);
   const handleKOTPrint = () => handleKOT(true);
   const handleSaveOrder = () => handleSave(false);
@@ -701,9 +1058,7 @@ export default function BillingPage() {
   };
 
   const handleConfirmPayment = async () => {
-    const subtotal = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    const tax = subtotal * 0.05;
-    const total = subtotal + tax;
+    const { total } = bill;
 
     try {
       let orderId = currentOrderId;
@@ -721,11 +1076,17 @@ export default function BillingPage() {
         return;
       }
 
-      const checkoutResponse = await checkoutMutation.mutateAsync({ 
+      // Paying up front for food that has not been cooked yet: the KOT goes out first
+      if (pendingKotAction !== "none") {
+        await kotMutation.mutateAsync({ orderId, print: false });
+      }
+
+      const checkoutResponse = await settleOrder({ 
         orderId: orderId, 
         paymentMode: paymentMethod,
         splitPayments: undefined,
-        print: false 
+        print: false,
+        override: pendingKotAction !== "none",
       });
 
       if (pendingKotAction !== "none") {
@@ -756,10 +1117,6 @@ export default function BillingPage() {
           }
         }
         
-        await billMutation.mutateAsync({ orderId: orderId!, print: false });
-        
-        await kotMutation.mutateAsync({ orderId: orderId!, print: false });
-        
         toast({
           title: "Order completed!",
           description: shouldPrint ? "Invoice downloaded successfully" : "Order marked as completed",
@@ -789,7 +1146,7 @@ export default function BillingPage() {
       console.error("Checkout failed:", error);
       toast({
         title: "Checkout failed",
-        description: error.message || "Failed to process payment",
+        description: apiErrorMessage(error, "Failed to process payment"),
         variant: "destructive",
       });
     }
@@ -814,6 +1171,9 @@ export default function BillingPage() {
 
   const handleSplitCountChange = (count: number) => {
     setSplitCount(count);
+    setItemAssignments(
+      Object.fromEntries(Object.entries(itemAssignments).map(([itemId, guests]) => [itemId, guests.filter((g) => g <= count)])),
+    );
     if (splitMode === "equal") {
       const equalAmount = total / count;
       setSplitAmounts(Array(count).fill(equalAmount));
@@ -833,14 +1193,33 @@ export default function BillingPage() {
     setSplitPaymentModes(newPaymentModes.slice(0, count));
   };
 
-  const handleSplitModeChange = (mode: "equal" | "custom") => {
+  const handleSplitModeChange = (mode: "equal" | "custom" | "items") => {
+    // Guests are billed for saved order lines, so anything still only in the cart has to go to the order first
+    if (mode === "items" && (!currentOrderId || orderItems.some((item) => !item.isFromDatabase))) {
+      toast({
+        title: "Order not saved",
+        description: "Save the order or send a KOT before splitting by item",
+        variant: "destructive",
+      });
+      return;
+    }
     setSplitMode(mode);
     if (mode === "equal") {
       const equalAmount = total / splitCount;
       setSplitAmounts(Array(splitCount).fill(equalAmount));
+    } else if (mode === "items") {
+      setItemAssignments({});
     }
   };
 
+  const handleToggleGuest = (itemId: string, guest: number) => {
+    const current = itemAssignments[itemId] ?? [];
+    setItemAssignments({
+      ...itemAssignments,
+      [itemId]: current.includes(guest) ? current.filter((g) => g !== guest) : [...current, guest].sort((a, b) => a - b),
+    });
+  };
+
   const handleSplitPaymentModeChange = (index: number, mode: string) => {
     const newModes = [...splitPaymentModes];
     newModes[index] = mode;
@@ -854,9 +1233,7 @@ export default function BillingPage() {
   };
 
   const handleConfirmCheckout = async () => {
-    const subtotal = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
-    const tax = subtotal * 0.05;
-    const total = subtotal + tax;
+    const { total } = bill;
 
     try {
       let orderId = currentOrderId;
@@ -874,7 +1251,10 @@ export default function BillingPage() {
         return;
       }
 
-      const splitPaymentsData = splitAmounts.length > 0 && splitAmounts.length === splitCount
+      const itemSplit = splitMode === "items" && guestBills
+        ? { guests: splitGuests, assignments: itemSplitAssignments }
+        : undefined;
+      const splitPaymentsData = !itemSplit && splitAmounts.length > 0 && splitAmounts.length === splitCount
         ? splitAmounts.map((amount, index) => ({
             person: index + 1,
             amount,
@@ -882,11 +1262,17 @@ export default function BillingPage() {
           }))
         : undefined;
 
-      const checkoutResponse = await checkoutMutation.mutateAsync({ 
+      if (pendingKotAction !== "none") {
+        await kotMutation.mutateAsync({ orderId, print: false });
+      }
+
+      const checkoutResponse = await settleOrder({ 
         orderId: orderId, 
         paymentMode: paymentMethod,
         splitPayments: splitPaymentsData,
-        print: false 
+        itemSplit,
+        print: false,
+        override: pendingKotAction !== "none",
       });
 
       if (pendingKotAction !== "none") {
@@ -917,10 +1303,6 @@ export default function BillingPage() {
           }
         }
         
-        await billMutation.mutateAsync({ orderId: orderId!, print: false });
-        
-        await kotMutation.mutateAsync({ orderId: orderId!, print: false });
-        
         toast({
           title: "Order completed!",
           description: shouldPrint 
@@ -930,7 +1312,9 @@ export default function BillingPage() {
       } else {
         toast({
           title: "Order completed!",
-          description: splitPaymentsData 
+          description: itemSplit
+            ? `${checkoutResponse.invoices?.length ?? splitCount} invoices issued, one per guest`
+            : splitPaymentsData 
             ? `Total: ₹${total.toFixed(2)} - Split ${splitCount} ways`
             : `Total: ₹${total.toFixed(2)} - Payment: ${paymentMethod.toUpperCase()}`,
         });
@@ -941,6 +1325,8 @@ export default function BillingPage() {
       setShowCheckoutDialog(false);
       setSplitAmounts([]);
       setSplitPaymentModes([]);
+      setSplitMode("equal");
+      setItemAssignments({});
       setPendingKotAction("none");
 
       if (currentTableId) {
@@ -950,10 +1336,9 @@ export default function BillingPage() {
         setTableNumber("");
       }
     } catch (error: any) {
-      const errorMessage = error?.response?.data?.error || error?.message || "Failed to complete order";
       toast({
         title: "Error",
-        description: errorMessage,
+        description: apiErrorMessage(error, "Failed to complete order"),
         variant: "destructive",
       });
     }
@@ -975,9 +1360,7 @@ export default function BillingPage() {
     }
   };
 
-  const subtotal = orderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  const tax = subtotal * 0.05;
-  const total = subtotal + tax;
+  const { subtotal, total } = bill;
 
   return (
     <div className="h-screen flex flex-col overflow-hidden bg-gray-50">
@@ -1082,15 +1465,23 @@ export default function BillingPage() {
         <div className="hidden lg:block lg:w-[480px] shrink-0 bg-white shadow-lg">
           <OrderCart
             items={orderItems}
+            bill={bill}
             serviceType={serviceType}
             onServiceTypeChange={setServiceType}
             onUpdateQuantity={handleUpdateQuantity}
             onRemoveItem={handleRemoveItem}
             onUpdateNotes={handleUpdateNotes}
+            onDiscountItem={canDiscount ? handleDiscountItem : undefined}
+            onCompItem={canComp ? handleCompItem : undefined}
+            onDiscountOrder={canDiscount ? handleDiscountOrder : undefined}
+            orderDiscount={orderDiscount}
+            onApplyCoupon={canApplyCoupon ? handleApplyCoupon : undefined}
+            couponCode={couponCode}
             onCheckout={handleCheckout}
             onSplitBill={handleSplitBill}
             onKOT={handleSendKOT}
             onKOTPrint={handleKOTPrint}
+            onShowKots={currentOrderId ? () => setShowKotHistory(true) : undefined}
             onSave={handleSaveOrder}
             onSavePrint={handleSavePrint}
             selectedCustomer={selectedCustomer}
@@ -1107,6 +1498,14 @@ export default function BillingPage() {
             onPaymentMethodSelect={handlePaymentMethodSelect}
             onConfirmPayment={handleConfirmPayment}
             paymentMethod={paymentMethod}
+            seatCount={seatCount}
+            activeSeat={activeSeat}
+            onActiveSeatChange={setActiveSeat}
+            activeCourse={activeCourse}
+            onActiveCourseChange={setActiveCourse}
+            heldCourses={heldCourses}
+            onToggleHoldCourse={handleToggleHoldCourse}
+            onFireCourse={currentOrderId ? handleFireCourse : undefined}
           />
         </div>
       </div>
@@ -1139,15 +1538,23 @@ export default function BillingPage() {
           <div className="h-full overflow-y-auto">
             <OrderCart
               items={orderItems}
+              bill={bill}
               serviceType={serviceType}
               onServiceTypeChange={setServiceType}
               onUpdateQuantity={handleUpdateQuantity}
               onRemoveItem={handleRemoveItem}
               onUpdateNotes={handleUpdateNotes}
+              onDiscountItem={canDiscount ? handleDiscountItem : undefined}
+              onCompItem={canComp ? handleCompItem : undefined}
+              onDiscountOrder={canDiscount ? handleDiscountOrder : undefined}
+              orderDiscount={orderDiscount}
+              onApplyCoupon={canApplyCoupon ? handleApplyCoupon : undefined}
+              couponCode={couponCode}
               onCheckout={handleCheckout}
               onSplitBill={handleSplitBill}
               onKOT={handleSendKOT}
               onKOTPrint={handleKOTPrint}
+              onShowKots={currentOrderId ? () => setShowKotHistory(true) : undefined}
               onSave={handleSaveOrder}
               onSavePrint={handleSavePrint}
               selectedCustomer={selectedCustomer}
@@ -1164,11 +1571,70 @@ export default function BillingPage() {
               onPaymentMethodSelect={handlePaymentMethodSelect}
               onConfirmPayment={handleConfirmPayment}
               paymentMethod={paymentMethod}
+              seatCount={seatCount}
+              activeSeat={activeSeat}
+              onActiveSeatChange={setActiveSeat}
+              activeCourse={activeCourse}
+              onActiveCourseChange={setActiveCourse}
+              heldCourses={heldCourses}
+              onToggleHoldCourse={handleToggleHoldCourse}
+              onFireCourse={currentOrderId ? handleFireCourse : undefined}
             />
           </div>
         </SheetContent>
       </Sheet>
 
+      <KotHistoryDialog
+        orderId={currentOrderId}
+        open={showKotHistory}
+        onOpenChange={setShowKotHistory}
+        onReprint={async (kot) => {
+          await downloadKOTPDF(kot);
+          queryClient.invalidateQueries({ queryKey: ["/api/orders", kot.orderId, "kots"] });
+        }}
+      />
+
+      <DiscountDialog
+        open={!!discountTarget}
+        onOpenChange={(open) => !open && setDiscountTarget(null)}
+        title={discountTarget?.kind === "item" ? `Discount ${discountTarget.item.name}` : "Order Discount"}
+        endpoint={
+          discountTarget?.kind === "item"
+            ? `/api/order-items/${discountTarget.item.id}/discount`
+            : `/api/orders/${currentOrderId}/discount`
+        }
+        base={
+          discountTarget?.kind === "item"
+            ? discountTarget.item.price * discountTarget.item.quantity
+            : orderDiscountBase
+        }
+        current={discountTarget?.kind === "item" ? discountTarget.item.discount ?? null : orderDiscount}
+        onSaved={handleDiscountSaved}
+      />
+
+      <VoidCompDialog
+        kind={adjustTarget?.kind ?? "void"}
+        item={adjustTarget ? { ...adjustTarget.item, sent: !!adjustTarget.item.sent } : null}
+        onOpenChange={(open) => !open && setAdjustTarget(null)}
+        onDone={handleItemAdjusted}
+      />
+
+      <CouponDialog
+        open={showCouponDialog}
+        onOpenChange={setShowCouponDialog}
+        orderId={currentOrderId}
+        currentCode={couponCode}
+        onSaved={handleCouponSaved}
+      />
+
+      <ModifierDialog
+        menuItem={modifierItem}
+        groups={modifierItemGroups}
+        menuItems={menuItems}
+        onOpenChange={(open) => !open && setModifierItem(null)}
+        onConfirm={handleModifiersConfirmed}
+      />
+
       <CustomerSelectionDialog
         open={showCustomerDialog}
         onOpenChange={setShowCustomerDialog}
@@ -1213,10 +1679,18 @@ export default function BillingPage() {
                 <span>Subtotal:</span>
                 <span>₹{subtotal.toFixed(2)}</span>
               </div>
-              <div className="flex justify-between text-sm">
-                <span>Tax (5%):</span>
-                <span>₹{tax.toFixed(2)}</span>
-              </div>
+              {bill.taxBreakdown.map((line) => (
+                <div key={`${line.code}-${line.rate}`} className="flex justify-between text-sm">
+                  <span>{formatTaxLabel(line)}:</span>
+                  <span>₹{line.amount.toFixed(2)}</span>
+                </div>
+              ))}
+              {bill.roundOff !== 0 && (
+                <div className="flex justify-between text-sm">
+                  <span>Round Off:</span>
+                  <span>{formatRoundOff(bill.roundOff)}</span>
+                </div>
+              )}
               <div className="flex justify-between font-bold text-lg border-t pt-2">
                 <span>Total:</span>
                 <span className="text-primary">₹{total.toFixed(2)}</span>
@@ -1271,6 +1745,14 @@ export default function BillingPage() {
               >
                 Custom Amounts
               </Button>
+              <Button
+                variant={splitMode === "items" ? "default" : "outline"}
+                onClick={() => handleSplitModeChange("items")}
+                className="flex-1"
+                data-testid="button-split-by-item"
+              >
+                By Item
+              </Button>
             </div>
 
             <div>
@@ -1289,53 +1771,66 @@ export default function BillingPage() {
               </div>
             </div>
 
-            <div className="bg-muted p-4 rounded-lg space-y-3">
-              <div className="flex justify-between text-sm font-medium border-b pb-2">
-                <span>Total Bill:</span>
-                <span className="text-primary">₹{total.toFixed(2)}</span>
-              </div>
-              {splitAmounts.map((amount, index) => (
-                <div key={index} className="space-y-2 pb-2 border-b last:border-0">
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium">Person {index + 1}</span>
-                    {splitMode === "custom" && index < splitCount - 1 ? (
-                      <Input
-                        type="number"
-                        value={amount}
-                        onChange={(e) => handleCustomAmountChange(index, parseFloat(e.target.value) || 0)}
-                        className="w-32 h-8"
-                        step="0.01"
-                      />
-                    ) : (
-                      <span className="font-semibold">₹{amount.toFixed(2)}</span>
-                    )}
-                  </div>
-                  <div className="flex gap-1">
-                    {["cash", "card", "upi"].map((mode) => (
-                      <Button
-                        key={mode}
-                        size="sm"
-                        variant={splitPaymentModes[index] === mode ? "default" : "outline"}
-                        onClick={() => handleSplitPaymentModeChange(index, mode)}
-                        className="flex-1 h-7 text-xs"
-                      >
-                        {mode.toUpperCase()}
-                      </Button>
-                    ))}
-                  </div>
+            {splitMode === "items" ? (
+              <ItemSplitPanel
+                items={orderItems}
+                guestCount={splitCount}
+                assignments={itemAssignments}
+                onToggleGuest={handleToggleGuest}
+                paymentModes={splitPaymentModes}
+                onPaymentModeChange={handleSplitPaymentModeChange}
+                guestBills={guestBills}
+                error={itemShares && !itemShares.ok ? itemShares.error : null}
+              />
+            ) : (
+              <div className="bg-muted p-4 rounded-lg space-y-3">
+                <div className="flex justify-between text-sm font-medium border-b pb-2">
+                  <span>Total Bill:</span>
+                  <span className="text-primary">₹{total.toFixed(2)}</span>
                 </div>
-              ))}
-              {splitMode === "custom" && (
-                <div className="pt-2 border-t">
-                  <div className="flex justify-between text-sm">
-                    <span>Sum:</span>
-                    <span className={splitAmounts.reduce((sum, amt) => sum + amt, 0) !== total ? "text-red-500" : "text-green-600"}>
-                      ₹{splitAmounts.reduce((sum, amt) => sum + amt, 0).toFixed(2)}
-                    </span>
+                {splitAmounts.map((amount, index) => (
+                  <div key={index} className="space-y-2 pb-2 border-b last:border-0">
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium">Person {index + 1}</span>
+                      {splitMode === "custom" && index < splitCount - 1 ? (
+                        <Input
+                          type="number"
+                          value={amount}
+                          onChange={(e) => handleCustomAmountChange(index, parseFloat(e.target.value) || 0)}
+                          className="w-32 h-8"
+                          step="0.01"
+                        />
+                      ) : (
+                        <span className="font-semibold">₹{amount.toFixed(2)}</span>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      {["cash", "card", "upi"].map((mode) => (
+                        <Button
+                          key={mode}
+                          size="sm"
+                          variant={splitPaymentModes[index] === mode ? "default" : "outline"}
+                          onClick={() => handleSplitPaymentModeChange(index, mode)}
+                          className="flex-1 h-7 text-xs"
+                        >
+                          {mode.toUpperCase()}
+                        </Button>
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
-            </div>
+                ))}
+                {splitMode === "custom" && (
+                  <div className="pt-2 border-t">
+                    <div className="flex justify-between text-sm">
+                      <span>Sum:</span>
+                      <span className={splitAmounts.reduce((sum, amt) => sum + amt, 0) !== total ? "text-red-500" : "text-green-600"}>
+                        ₹{splitAmounts.reduce((sum, amt) => sum + amt, 0).toFixed(2)}
+                      </span>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
 
             <div className="flex gap-2">
               <Button
@@ -1350,6 +1845,14 @@ export default function BillingPage() {
               </Button>
               <Button
                 onClick={() => {
+                  if (itemShares && !itemShares.ok) {
+                    toast({
+                      title: "Invalid split",
+                      description: itemShares.error,
+                      variant: "destructive",
+                    });
+                    return;
+                  }
                   if (splitMode === "custom" && Math.abs(splitAmounts.reduce((sum, amt) => sum + amt, 0) - total) > 0.01) {
                     toast({
                       title: "Invalid split",
@@ -1,26 +1,173 @@
 import { useState } from "react";
-import { Plus, Copy } from "lucide-react";
+import { Plus, Copy, Edit, Trash2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import AppHeader from "@/components/AppHeader";
+import PromotionRulesFields, {
+  emptyPromotionRules,
+  formatHappyHours,
+  formatValidity,
+  fromPromotionRulesDraft,
+  isExpired,
+  toPromotionRulesDraft,
+  type PromotionRulesDraft,
+} from "@/components/PromotionRulesFields";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { describePromotion } from "@shared/promotions";
+import { PERMISSIONS, hasPermission, type Coupon, type PromotionRedemption } from "@shared/schema";
 
-interface Coupon {
-  id: string;
+interface CouponDraft {
   code: string;
-  discount: string;
-  minOrder: number;
-  validUntil: string;
-  usageLimit: number;
-  usedCount: number;
-  status: "Active" | "Expired";
+  description: string;
+  active: boolean;
+  usageLimit: string;
+  perCustomerLimit: string;
+  rules: PromotionRulesDraft;
 }
 
+const emptyCoupon: CouponDraft = {
+  code: "",
+  description: "",
+  active: true,
+  usageLimit: "",
+  perCustomerLimit: "",
+  rules: emptyPromotionRules,
+};
+
+const statusOf = (coupon: Coupon) => {
+  if (isExpired(coupon)) return "Expired";
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) return "Used Up";
+  return coupon.active ? "Active" : "Inactive";
+};
+
 export default function CouponsPage() {
-  const [coupons] = useState<Coupon[]>([
-    { id: "1", code: "WELCOME20", discount: "20%", minOrder: 500, validUntil: "2024-02-28", usageLimit: 100, usedCount: 45, status: "Active" },
-    { id: "2", code: "FIRST50", discount: "₹50", minOrder: 300, validUntil: "2024-01-31", usageLimit: 200, usedCount: 178, status: "Active" },
-    { id: "3", code: "NEWYEAR", discount: "25%", minOrder: 1000, validUntil: "2024-01-15", usageLimit: 50, usedCount: 50, status: "Expired" },
-  ]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CouponDraft>(emptyCoupon);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManage = hasPermission(user, PERMISSIONS.SETTINGS_MANAGE);
+  const canViewRedemptions = canManage || hasPermission(user, PERMISSIONS.REPORTS_VIEW);
+
+  const { data: coupons = [], isLoading } = useQuery<Coupon[]>({
+    queryKey: ["/api/coupons"],
+  });
+
+  const { data: redemptions = [] } = useQuery<PromotionRedemption[]>({
+    queryKey: ["/api/promotion-redemptions"],
+    enabled: canViewRedemptions,
+  });
+  const couponRedemptions = redemptions.filter((redemption) => redemption.promotionType === "coupon");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/coupons/${editingId}`, data)
+        : await apiRequest("POST", "/api/coupons", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/coupons"] });
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: editingId ? "Coupon updated successfully" : "Coupon created successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to save coupon"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/coupons/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/coupons"] });
+      toast({
+        title: "Success",
+        description: "Coupon deleted successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to delete coupon"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAdd = () => {
+    setEditingId(null);
+    setDraft(emptyCoupon);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (coupon: Coupon) => {
+    setEditingId(coupon.id);
+    setDraft({
+      code: coupon.code,
+      description: coupon.description ?? "",
+      active: coupon.active,
+      usageLimit: coupon.usageLimit ? String(coupon.usageLimit) : "",
+      perCustomerLimit: coupon.perCustomerLimit ? String(coupon.perCustomerLimit) : "",
+      rules: toPromotionRulesDraft(coupon),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    const rules = fromPromotionRulesDraft(draft.rules);
+    if (!draft.code.trim() || rules.value <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a code and how much the coupon takes off",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({
+      ...rules,
+      code: draft.code.trim(),
+      description: draft.description.trim() || null,
+      active: draft.active,
+      usageLimit: parseInt(draft.usageLimit) || null,
+      perCustomerLimit: parseInt(draft.perCustomerLimit) || null,
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this coupon?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleCopy = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    toast({
+      title: "Copied",
+      description: `${code} copied to clipboard`,
+    });
+  };
 
   return (
     <div className="h-screen flex flex-col">
@@ -28,45 +175,202 @@ export default function CouponsPage() {
       <div className="p-6 border-b border-border bg-muted/30">
         <div className="flex justify-between">
           <div className="flex gap-4">
-            <div className="flex items-center gap-2"><Badge className="bg-success">Active</Badge><span className="text-sm">{coupons.filter(c => c.status === "Active").length}</span></div>
-            <div className="flex items-center gap-2"><Badge className="bg-muted">Expired</Badge><span className="text-sm">{coupons.filter(c => c.status === "Expired").length}</span></div>
+            <div className="flex items-center gap-2"><Badge className="bg-success">Active</Badge><span className="text-sm">{coupons.filter(c => statusOf(c) === "Active").length}</span></div>
+            <div className="flex items-center gap-2"><Badge className="bg-muted">Expired</Badge><span className="text-sm">{coupons.filter(c => statusOf(c) === "Expired").length}</span></div>
           </div>
-          <Button data-testid="button-create-coupon"><Plus className="h-4 w-4 mr-2" />Create Coupon</Button>
+          {canManage && (
+            <Button onClick={openAdd} data-testid="button-create-coupon"><Plus className="h-4 w-4 mr-2" />Create Coupon</Button>
+          )}
         </div>
       </div>
       <div className="flex-1 overflow-y-auto p-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {coupons.map((coupon) => (
-            <div key={coupon.id} className="bg-card border border-card-border rounded-lg p-4 hover-elevate">
-              <div className="flex items-start justify-between mb-3">
-                <div className="flex items-center gap-2 bg-primary/10 px-3 py-1 rounded font-mono font-bold text-primary">
-                  {coupon.code}
-                  <Button size="icon" variant="ghost" className="h-5 w-5"><Copy className="h-3 w-3" /></Button>
+        {isLoading ? (
+          <div className="text-center py-8">Loading...</div>
+        ) : coupons.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No coupons yet</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {coupons.map((coupon) => {
+              const status = statusOf(coupon);
+              return (
+                <div key={coupon.id} className="bg-card border border-card-border rounded-lg p-4 hover-elevate" data-testid={`card-coupon-${coupon.id}`}>
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex items-center gap-2 bg-primary/10 px-3 py-1 rounded font-mono font-bold text-primary">
+                      {coupon.code}
+                      <Button size="icon" variant="ghost" className="h-5 w-5" onClick={() => handleCopy(coupon.code)}><Copy className="h-3 w-3" /></Button>
+                    </div>
+                    <Badge className={status === "Active" ? "bg-success" : "bg-muted"}>{status}</Badge>
+                  </div>
+                  {coupon.description && <p className="text-sm text-muted-foreground mb-2">{coupon.description}</p>}
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Discount:</span>
+                      <span className="font-semibold text-primary">{describePromotion(coupon)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Min Order:</span>
+                      <span className="font-medium">₹{coupon.minBillAmount}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Valid:</span>
+                      <span className="font-medium">{formatValidity(coupon)}</span>
+                    </div>
+                    {coupon.happyHours.length > 0 && (
+                      <div className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">Hours:</span>
+                        <span className="font-medium text-right">{formatHappyHours(coupon.happyHours)}</span>
+                      </div>
+                    )}
+                    {(coupon.categories.length > 0 || coupon.menuItemIds.length > 0) && (
+                      <div className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">Applies to:</span>
+                        <span className="font-medium text-right">
+                          {[...coupon.categories, ...(coupon.menuItemIds.length > 0 ? [`${coupon.menuItemIds.length} items`] : [])].join(", ")}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Usage:</span>
+                      <span className="font-medium">{coupon.usedCount}/{coupon.usageLimit ?? "∞"}</span>
+                    </div>
+                    {coupon.perCustomerLimit && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Per Customer:</span>
+                        <span className="font-medium">{coupon.perCustomerLimit}</span>
+                      </div>
+                    )}
+                  </div>
+                  {canManage && (
+                    <div className="flex justify-end gap-2 mt-3">
+                      <Button variant="outline" size="sm" onClick={() => openEdit(coupon)} data-testid={`button-edit-coupon-${coupon.id}`}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDelete(coupon.id)} data-testid={`button-delete-coupon-${coupon.id}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
-                <Badge className={coupon.status === "Active" ? "bg-success" : "bg-muted"}>{coupon.status}</Badge>
+              );
+            })}
+          </div>
+        )}
+
+        {canViewRedemptions && (
+          <div className="mt-6 bg-card rounded-lg border border-card-border p-6">
+            <h3 className="font-semibold text-lg mb-4">Recent Redemptions</h3>
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Date</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Coupon</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Invoice</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Customer</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {couponRedemptions.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="py-8 text-center text-muted-foreground">No coupons redeemed yet</td>
+                  </tr>
+                ) : (
+                  couponRedemptions.slice(0, 50).map((redemption) => (
+                    <tr key={redemption.id} className="border-b border-border" data-testid={`row-redemption-${redemption.id}`}>
+                      <td className="py-3 px-4 text-muted-foreground">{new Date(redemption.createdAt).toLocaleString("en-IN")}</td>
+                      <td className="py-3 px-4 font-mono">{redemption.code}</td>
+                      <td className="py-3 px-4">{redemption.invoiceNumber}</td>
+                      <td className="py-3 px-4">
+                        {redemption.customerName || "—"}
+                        {redemption.customerPhone && <span className="text-muted-foreground"> · {redemption.customerPhone}</span>}
+                      </td>
+                      <td className="py-3 px-4 text-right font-semibold">₹{parseFloat(redemption.amount).toFixed(2)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Coupon" : "Create Coupon"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-code">Code</Label>
+                <Input
+                  id="coupon-code"
+                  value={draft.code}
+                  onChange={(e) => setDraft({ ...draft, code: e.target.value.toUpperCase() })}
+                  placeholder="e.g. WELCOME20"
+                  maxLength={20}
+                  className="font-mono"
+                  data-testid="input-coupon-code"
+                />
               </div>
-              <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Discount:</span>
-                  <span className="font-semibold text-primary">{coupon.discount}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Min Order:</span>
-                  <span className="font-medium">₹{coupon.minOrder}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Valid Until:</span>
-                  <span className="font-medium">{coupon.validUntil}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Usage:</span>
-                  <span className="font-medium">{coupon.usedCount}/{coupon.usageLimit}</span>
-                </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-description">Description (Optional)</Label>
+                <Input
+                  id="coupon-description"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  data-testid="input-coupon-description"
+                />
               </div>
             </div>
-          ))}
-        </div>
-      </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-usage-limit">Total Uses</Label>
+                <Input
+                  id="coupon-usage-limit"
+                  type="number"
+                  min={1}
+                  value={draft.usageLimit}
+                  onChange={(e) => setDraft({ ...draft, usageLimit: e.target.value })}
+                  placeholder="Unlimited"
+                  data-testid="input-coupon-usage-limit"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-customer-limit">Uses per Customer</Label>
+                <Input
+                  id="coupon-customer-limit"
+                  type="number"
+                  min={1}
+                  value={draft.perCustomerLimit}
+                  onChange={(e) => setDraft({ ...draft, perCustomerLimit: e.target.value })}
+                  placeholder="Unlimited"
+                  data-testid="input-coupon-customer-limit"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Active</Label>
+              <Switch
+                checked={draft.active}
+                onCheckedChange={(active) => setDraft({ ...draft, active })}
+                data-testid="switch-coupon-active"
+              />
+            </div>
+
+            <PromotionRulesFields draft={draft.rules} onChange={(rules) => setDraft({ ...draft, rules })} />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-coupon">
+                {saveMutation.isPending ? "Saving..." : "Save Coupon"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,11 +1,13 @@
-import { useState } from "react";
-import { ArrowLeft, Filter } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { ArrowLeft, Filter, AlertTriangle, RotateCcw } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import AppHeader from "@/components/AppHeader";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
 import {
   Table,
   TableBody,
@@ -21,7 +23,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { InventoryUsage } from "@shared/schema";
+import type { InventoryItem, StockDeduction, StockMovement, StockMovementType } from "@shared/schema";
 
 interface MostUsedItem {
   itemId: string;
@@ -30,31 +32,113 @@ interface MostUsedItem {
   count: number;
 }
 
+const movementLabels: Record<StockMovementType, string> = {
+  opening: "Opening",
+  sale: "Sale",
+  return: "Return",
+  purchase: "Purchase",
+  wastage: "Wastage",
+  usage: "Usage",
+  adjustment: "Adjustment",
+};
+
+function referenceLabel(movement: StockMovement) {
+  switch (movement.referenceType) {
+    case "order":
+      return `Order #${movement.referenceId!.slice(-6).toUpperCase()}`;
+    case "credit_note":
+      return "Credit note";
+    case "purchase_order":
+      return "Purchase order";
+    case "wastage":
+      return "Wastage entry";
+    case "usage":
+      return "Usage log";
+    case "stock_take":
+      return "Stock take";
+    default:
+      return "-";
+  }
+}
+
+const signed = (quantity: string) => (parseFloat(quantity) > 0 ? `+${quantity}` : quantity);
+
 export default function InventoryHistoryPage() {
+  const [itemId, setItemId] = useState(() => new URLSearchParams(window.location.search).get("item") ?? "all");
   const [searchQuery, setSearchQuery] = useState("");
   const [filterType, setFilterType] = useState("all");
   const [sortOption, setSortOption] = useState("recent");
+  const { toast } = useToast();
 
-  const { data: usages = [], isLoading: usagesLoading } = useQuery<InventoryUsage[]>({
-    queryKey: ["/api/inventory-usage"],
+  const { data: inventoryItems = [] } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory"],
+  });
+
+  const ledgerUrl = itemId === "all" ? "/api/stock-movements" : `/api/inventory/${itemId}/movements`;
+  const { data: movements = [], isLoading: movementsLoading } = useQuery<StockMovement[]>({
+    queryKey: [ledgerUrl],
   });
 
   const { data: mostUsed = [], isLoading: mostUsedLoading } = useQuery<MostUsedItem[]>({
     queryKey: ["/api/inventory-usage/most-used"],
   });
 
-  const filteredUsages = usages.filter(usage => {
-    const matchesSearch = usage.itemName.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesFilter = filterType === "all" || usage.source === filterType;
+  const { data: unreconciled = [] } = useQuery<StockDeduction[]>({
+    queryKey: ["/api/stock-deductions"],
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const response = await apiRequest("POST", `/api/stock-deductions/${orderId}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-deductions"] });
+      toast({ title: "Stock deducted" });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-deductions"] });
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to deduct stock"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}/api/ws`);
+
+    ws.onmessage = (event) => {
+      const data = JSON.parse(event.data);
+      if (data.type === 'inventory_updated' || data.type === 'inventory_created' || data.type === 'wastage_created') {
+        queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+        queryClient.invalidateQueries({ queryKey: [ledgerUrl] });
+        queryClient.invalidateQueries({ queryKey: ["/api/inventory-usage/most-used"] });
+      }
+      if (data.type === 'stock_deduction_failed' || data.type === 'inventory_updated') {
+        queryClient.invalidateQueries({ queryKey: ["/api/stock-deductions"] });
+      }
+    };
+
+    return () => ws.close();
+  }, [ledgerUrl]);
+
+  const selectedItem = inventoryItems.find(item => item.id === itemId);
+
+  const filteredMovements = movements.filter(movement => {
+    const matchesSearch = movement.itemName.toLowerCase().includes(searchQuery.toLowerCase());
+    const matchesFilter = filterType === "all" || movement.type === filterType;
     return matchesSearch && matchesFilter;
   });
 
-  const sortedUsages = [...filteredUsages].sort((a, b) => {
+  const sortedMovements = [...filteredMovements].sort((a, b) => {
     switch (sortOption) {
       case "recent":
-        return new Date(b.usedAt).getTime() - new Date(a.usedAt).getTime();
+        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
       case "oldest":
-        return new Date(a.usedAt).getTime() - new Date(b.usedAt).getTime();
+        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
       case "name":
         return a.itemName.localeCompare(b.itemName);
       default:
@@ -62,7 +146,8 @@ export default function InventoryHistoryPage() {
     }
   });
 
-  const lowStockItems = usages.filter(usage => parseFloat(usage.quantity) < 1);
+  const stockIn = movements.filter(movement => parseFloat(movement.quantity) > 0).length;
+  const stockOut = movements.filter(movement => parseFloat(movement.quantity) < 0).length;
 
   return (
     <div className="h-screen flex flex-col">
@@ -80,24 +165,71 @@ export default function InventoryHistoryPage() {
             </Link>
           </div>
 
+          {/* Reconciliation */}
+          {unreconciled.length > 0 && (
+            <div className="mb-8 rounded-lg border border-destructive/50 bg-destructive/5 p-4" data-testid="list-unreconciled-deductions">
+              <div className="flex items-center gap-2 mb-3">
+                <AlertTriangle className="h-5 w-5 text-destructive" />
+                <h2 className="text-lg font-semibold">Stock Not Deducted</h2>
+              </div>
+              <p className="text-sm text-muted-foreground mb-3">
+                These orders were paid but their ingredients could not be taken off stock. Retrying only deducts what is still owed.
+              </p>
+              <div className="space-y-2">
+                {unreconciled.map(deduction => (
+                  <div key={deduction.id} className="flex items-center justify-between gap-4 text-sm" data-testid={`row-deduction-${deduction.orderId}`}>
+                    <div>
+                      <span className="font-medium">Order #{deduction.orderId.slice(-6).toUpperCase()}</span>
+                      <span className="text-muted-foreground">
+                        {" · "}
+                        {deduction.status === "failed" ? deduction.error || "Failed" : "Never finished"}
+                        {" · "}
+                        {deduction.attempts} {deduction.attempts === 1 ? "attempt" : "attempts"}, last {new Date(deduction.updatedAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => retryMutation.mutate(deduction.orderId)}
+                      disabled={retryMutation.isPending}
+                      data-testid={`button-retry-deduction-${deduction.orderId}`}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Retry
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Stats */}
           <div className="grid grid-cols-3 gap-4 mb-8">
             <div className="bg-card rounded-lg p-4 border border-border">
-              <p className="text-sm text-muted-foreground mb-1">Total Usage Records</p>
-              <p className="text-2xl font-bold" data-testid="stat-total-usages">{usages.length}</p>
+              <p className="text-sm text-muted-foreground mb-1">
+                {selectedItem ? "Current Stock" : "Ledger Entries"}
+              </p>
+              <p className="text-2xl font-bold" data-testid="stat-ledger-main">
+                {selectedItem ? `${selectedItem.currentStock} ${selectedItem.unit}` : movements.length}
+              </p>
+              {selectedItem && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  The balance after {movements.length} ledger {movements.length === 1 ? "entry" : "entries"}
+                </p>
+              )}
             </div>
             <div className="bg-card rounded-lg p-4 border border-border">
-              <p className="text-sm text-muted-foreground mb-1">Most Used Items</p>
-              <p className="text-2xl font-bold" data-testid="stat-most-used">{mostUsed.length}</p>
+              <p className="text-sm text-muted-foreground mb-1">Stock In</p>
+              <p className="text-2xl font-bold text-green-600" data-testid="stat-stock-in">{stockIn}</p>
             </div>
             <div className="bg-card rounded-lg p-4 border border-border">
-              <p className="text-sm text-muted-foreground mb-1">Low Stock Uses</p>
-              <p className="text-2xl font-bold text-destructive" data-testid="stat-low-stock">{lowStockItems.length}</p>
+              <p className="text-sm text-muted-foreground mb-1">Stock Out</p>
+              <p className="text-2xl font-bold text-destructive" data-testid="stat-stock-out">{stockOut}</p>
             </div>
           </div>
 
           {/* Most Used Items Section */}
-          {!mostUsedLoading && mostUsed.length > 0 && (
+          {itemId === "all" && !mostUsedLoading && mostUsed.length > 0 && (
             <div className="mb-8">
               <h2 className="text-lg font-semibold mb-4">Most Used Items</h2>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -114,32 +246,45 @@ export default function InventoryHistoryPage() {
             </div>
           )}
 
-          {/* Usage History Section */}
+          {/* Stock Ledger Section */}
           <div>
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-semibold">Usage History</h2>
+              <h2 className="text-lg font-semibold">Stock Ledger</h2>
             </div>
 
             {/* Filters */}
             <div className="flex items-center gap-4 mb-4">
-              <div className="flex-1 relative">
-                <Input
-                  placeholder="Search items..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  data-testid="input-search"
-                />
-              </div>
+              <Select value={itemId} onValueChange={setItemId}>
+                <SelectTrigger className="w-56" data-testid="select-item">
+                  <SelectValue placeholder="All Items" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Items</SelectItem>
+                  {inventoryItems.map(item => (
+                    <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {itemId === "all" && (
+                <div className="flex-1 relative">
+                  <Input
+                    placeholder="Search items..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    data-testid="input-search"
+                  />
+                </div>
+              )}
               <Select value={filterType} onValueChange={setFilterType}>
                 <SelectTrigger className="w-48" data-testid="select-filter">
                   <Filter className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="Filter by source" />
+                  <SelectValue placeholder="Filter by type" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Sources</SelectItem>
-                  <SelectItem value="manual">Manual Entry</SelectItem>
-                  <SelectItem value="order">From Orders</SelectItem>
-                  <SelectItem value="wastage">Wastage</SelectItem>
+                  <SelectItem value="all">All Movements</SelectItem>
+                  {Object.entries(movementLabels).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Select value={sortOption} onValueChange={setSortOption}>
@@ -155,42 +300,53 @@ export default function InventoryHistoryPage() {
             </div>
 
             {/* Table */}
-            {usagesLoading ? (
-              <div className="text-center py-8">Loading usage history...</div>
-            ) : sortedUsages.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">No usage records found</div>
+            {movementsLoading ? (
+              <div className="text-center py-8">Loading stock ledger...</div>
+            ) : sortedMovements.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No stock movements found</div>
             ) : (
               <div className="border border-border rounded-lg overflow-x-auto">
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Item Name</TableHead>
-                      <TableHead className="text-center">Quantity Used</TableHead>
-                      <TableHead className="text-center">Unit</TableHead>
-                      <TableHead>Source</TableHead>
                       <TableHead>Date</TableHead>
+                      <TableHead>Item Name</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead>By</TableHead>
                       <TableHead>Notes</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {sortedUsages.map(usage => (
-                      <TableRow key={usage.id} data-testid={`row-usage-${usage.id}`}>
-                        <TableCell className="font-medium">{usage.itemName}</TableCell>
-                        <TableCell className="text-center">
-                          <span className={parseFloat(usage.quantity) < 1 ? "text-destructive font-semibold" : ""}>
-                            {usage.quantity}
-                          </span>
+                    {sortedMovements.map(movement => (
+                      <TableRow key={movement.id} data-testid={`row-movement-${movement.id}`}>
+                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                          {new Date(movement.createdAt).toLocaleDateString()} {new Date(movement.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
                         </TableCell>
-                        <TableCell className="text-center">{usage.unit}</TableCell>
+                        <TableCell className="font-medium">{movement.itemName}</TableCell>
                         <TableCell>
-                          <Badge variant="outline" data-testid={`badge-source-${usage.id}`}>
-                            {usage.source === "manual" ? "Manual Entry" : usage.source === "order" ? "From Orders" : usage.source === "wastage" ? "Wastage" : usage.source}
+                          <Badge variant="outline" data-testid={`badge-type-${movement.id}`}>
+                            {movementLabels[movement.type] ?? movement.type}
                           </Badge>
                         </TableCell>
-                        <TableCell className="text-sm text-muted-foreground">
-                          {new Date(usage.usedAt).toLocaleDateString()} {new Date(usage.usedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                        <TableCell className="text-right whitespace-nowrap">
+                          <span className={parseFloat(movement.quantity) < 0 ? "text-destructive font-semibold" : "text-green-600 font-semibold"}>
+                            {signed(movement.quantity)} {movement.unit}
+                          </span>
+                          {movement.enteredUnit && movement.enteredUnit !== movement.unit && (
+                            <p className="text-xs text-muted-foreground">
+                              entered as {movement.enteredQuantity} {movement.enteredUnit}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right text-sm whitespace-nowrap">
+                          {movement.balanceBefore} → <span className="font-semibold">{movement.balanceAfter}</span>
                         </TableCell>
-                        <TableCell className="text-sm">{usage.notes || "-"}</TableCell>
+                        <TableCell className="text-sm">{referenceLabel(movement)}</TableCell>
+                        <TableCell className="text-sm">{movement.byName || "System"}</TableCell>
+                        <TableCell className="text-sm">{movement.notes || "-"}</TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
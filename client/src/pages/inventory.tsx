@@ -28,6 +28,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -47,9 +48,10 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
 import type { InventoryItem, Supplier } from "@shared/schema";
-import { categoryUnits } from "@shared/schema";
+import { categoryUnits, packSizeSchema } from "@shared/schema";
+import PackSizesEditor from "@/components/PackSizesEditor";
 
 const inventoryFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -57,9 +59,12 @@ const inventoryFormSchema = z.object({
   currentStock: z.string().min(1, "Current stock is required"),
   unit: z.string().min(1, "Unit is required"),
   minStock: z.string().min(1, "Minimum stock is required"),
+  parLevel: z.string().min(1, "Par level is required"),
+  reorderQuantity: z.string().min(1, "Reorder quantity is required"),
   supplierId: z.string().nullable().optional(),
   costPerUnit: z.string().min(1, "Cost per unit is required"),
   image: z.string().nullable().optional(),
+  packSizes: z.array(packSizeSchema),
 });
 
 type InventoryFormData = z.infer<typeof inventoryFormSchema>;
@@ -157,19 +162,17 @@ export default function InventoryPage() {
       currentStock: "",
       unit: "",
       minStock: "0",
+      parLevel: "0",
+      reorderQuantity: "0",
       costPerUnit: "0",
       image: null,
+      packSizes: [],
     },
   });
 
   const createMutation = useMutation({
     mutationFn: async (data: InventoryFormData) => {
-      const response = await apiRequest("POST", "/api/inventory", {
-        ...data,
-        currentStock: parseFloat(data.currentStock),
-        minStock: parseFloat(data.minStock),
-        costPerUnit: parseFloat(data.costPerUnit),
-      });
+      const response = await apiRequest("POST", "/api/inventory", data);
       return response;
     },
     onSuccess: () => {
@@ -184,12 +187,7 @@ export default function InventoryPage() {
   const updateMutation = useMutation({
     mutationFn: async (data: InventoryFormData) => {
       if (!editingItem) return;
-      const response = await apiRequest("PATCH", `/api/inventory/${editingItem.id}`, {
-        ...data,
-        currentStock: parseFloat(data.currentStock),
-        minStock: parseFloat(data.minStock),
-        costPerUnit: parseFloat(data.costPerUnit),
-      });
+      const response = await apiRequest("PATCH", `/api/inventory/${editingItem.id}`, data);
       return response;
     },
     onSuccess: () => {
@@ -200,6 +198,9 @@ export default function InventoryPage() {
       setImagePreview(null);
       toast({ title: "Success", description: "Item updated successfully" });
     },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to update item"), variant: "destructive" });
+    },
   });
 
   const deleteMutation = useMutation({
@@ -214,12 +215,15 @@ export default function InventoryPage() {
 
   const onSubmit = async (data: InventoryFormData) => {
     if (editingItem) {
-      await updateMutation.mutateAsync(data);
+      updateMutation.mutate(data);
     } else {
       await createMutation.mutateAsync(data);
     }
   };
 
+  // The server refuses a unit change once stock is measured in the old one
+  const unitLocked = !!editingItem && parseFloat(editingItem.currentStock) !== 0;
+
   const handleEdit = (item: InventoryItem) => {
     setEditingItem(item);
     form.reset({
@@ -228,9 +232,12 @@ export default function InventoryPage() {
       currentStock: item.currentStock.toString(),
       unit: item.unit,
       minStock: item.minStock.toString(),
+      parLevel: item.parLevel ?? "0",
+      reorderQuantity: item.reorderQuantity ?? "0",
       supplierId: item.supplierId || undefined,
       costPerUnit: item.costPerUnit.toString(),
       image: item.image || undefined,
+      packSizes: item.packSizes ?? [],
     });
     if (item.image) {
       setImagePreview(item.image);
@@ -479,6 +486,14 @@ export default function InventoryPage() {
                                   >
                                     <Eye className="h-4 w-4" />
                                   </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => navigate(`/inventory-history?item=${item.id}`)}
+                                    data-testid={`button-ledger-${item.id}`}
+                                  >
+                                    <History className="h-4 w-4" />
+                                  </Button>
                                   <Button
                                     size="sm"
                                     variant="ghost"
@@ -972,6 +987,52 @@ export default function InventoryPage() {
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="parLevel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Par Level</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="0"
+                          data-testid="input-par-level"
+                        />
+                      </FormControl>
+                      <FormDescription>Stock to top back up to when reordering</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="reorderQuantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reorder Quantity</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="0"
+                          data-testid="input-reorder-quantity"
+                        />
+                      </FormControl>
+                      <FormDescription>Orders are rounded up to lots of this size; 0 for any amount</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -1014,6 +1075,18 @@ export default function InventoryPage() {
                 />
               </div>
 
+              <FormField
+                control={form.control}
+                name="packSizes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pack Sizes (Optional)</FormLabel>
+                    <PackSizesEditor unit={form.watch("unit")} value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="supplierId"
@@ -1166,7 +1239,7 @@ export default function InventoryPage() {
                     return (
                       <FormItem>
                         <FormLabel>Unit</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value} disabled={unitLocked}>
                           <FormControl>
                             <SelectTrigger data-testid="select-unit">
                               <SelectValue placeholder="Select unit" />
@@ -1178,6 +1251,9 @@ export default function InventoryPage() {
                             ))}
                           </SelectContent>
                         </Select>
+                        {unitLocked && (
+                          <FormDescription>Fixed while the item holds stock</FormDescription>
+                        )}
                         <FormMessage />
                       </FormItem>
                     );
@@ -1185,6 +1261,52 @@ export default function InventoryPage() {
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="parLevel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Par Level</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="0"
+                          data-testid="input-par-level"
+                        />
+                      </FormControl>
+                      <FormDescription>Stock to top back up to when reordering</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="reorderQuantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reorder Quantity</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="0"
+                          data-testid="input-reorder-quantity"
+                        />
+                      </FormControl>
+                      <FormDescription>Orders are rounded up to lots of this size; 0 for any amount</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -1227,6 +1349,18 @@ export default function InventoryPage() {
                 />
               </div>
 
+              <FormField
+                control={form.control}
+                name="packSizes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pack Sizes (Optional)</FormLabel>
+                    <PackSizesEditor unit={form.watch("unit")} value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="supplierId"
@@ -1,5 +1,5 @@
 import { useState, useMemo } from "react";
-import { Plus, Download, Send, Eye, Edit, Trash2, RefreshCw, X, Minus, StickyNote, Search, Filter, ArrowUpDown, MoreVertical } from "lucide-react";
+import { Download, Eye, Edit, Undo2, Search, Filter, ArrowUpDown, MoreVertical } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import AppHeader from "@/components/AppHeader";
 import { Button } from "@/components/ui/button";
@@ -20,44 +20,45 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Invoice, MenuItem } from "@shared/schema";
+import { discountReasons, type Invoice, type CreditNote, type CreditNoteLine, type CreditNoteRequest } from "@shared/schema";
+import { calculateCredit, formatRoundOff, parseInvoiceDiscounts, parseInvoiceLines, parseInvoicePromotions, remainingCreditQuantities } from "@shared/billing";
+import { formatTaxLabel, parseTaxBreakdown } from "@shared/tax";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 
-interface InvoiceItem {
-  name: string;
-  quantity: number;
-  price: number;
-  isVeg: boolean;
-  notes?: string;
-}
+const creditReasons = [
+  "Customer complaint",
+  "Wrong item billed",
+  "Item not served",
+  "Billing error",
+  "Duplicate bill",
+  "Other",
+];
+
+const toCreditLines = (quantities: number[]) =>
+  quantities.flatMap((quantity, index) => (quantity > 0 ? [{ index, quantity }] : []));
 
 export default function InvoicesPage() {
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [showViewDialog, setShowViewDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
-  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [showRegenerateDialog, setShowRegenerateDialog] = useState(false);
-  const [showNotesDialog, setShowNotesDialog] = useState(false);
+  const [showCreditDialog, setShowCreditDialog] = useState(false);
   const [editedInvoice, setEditedInvoice] = useState<Partial<Invoice>>({});
-  const [regenerateItems, setRegenerateItems] = useState<InvoiceItem[]>([]);
-  const [selectedCategory, setSelectedCategory] = useState("all");
-  const [notesItem, setNotesItem] = useState<InvoiceItem | null>(null);
-  const [tempNotes, setTempNotes] = useState("");
-  const [customNote, setCustomNote] = useState("");
+  const [creditQuantities, setCreditQuantities] = useState<number[]>([]);
+  const [creditReason, setCreditReason] = useState("");
+  const [creditDetails, setCreditDetails] = useState("");
+  const [restockCredit, setRestockCredit] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState<string[]>(["all"]);
   const [filterPayment, setFilterPayment] = useState<string[]>(["all"]);
@@ -68,15 +69,27 @@ export default function InvoicesPage() {
     queryKey: ["/api/invoices"],
   });
 
-  const { data: menuItems = [] } = useQuery<MenuItem[]>({
-    queryKey: ["/api/menu"],
-    enabled: showRegenerateDialog,
+  const { data: creditNotes = [] } = useQuery<CreditNote[]>({
+    queryKey: ["/api/invoices", selectedInvoice?.id, "credit-notes"],
+    enabled: !!selectedInvoice && (showViewDialog || showCreditDialog),
   });
 
-  const { data: categoriesData } = useQuery<{ categories: string[] }>({
-    queryKey: ["/api/menu/categories"],
-    enabled: showRegenerateDialog,
-  });
+  const remainingQuantities = useMemo(
+    () => (selectedInvoice ? remainingCreditQuantities(selectedInvoice, creditNotes) : []),
+    [selectedInvoice, creditNotes],
+  );
+
+  // Preview of the note the server will issue; null while nothing valid is selected
+  const creditPreview = useMemo(() => {
+    if (!selectedInvoice || !creditQuantities.some((quantity) => quantity > 0)) {
+      return null;
+    }
+    try {
+      return calculateCredit(selectedInvoice, toCreditLines(creditQuantities), creditNotes);
+    } catch {
+      return null;
+    }
+  }, [selectedInvoice, creditQuantities, creditNotes]);
 
   const filteredAndSortedInvoices = useMemo(() => {
     let result = [...invoices];
@@ -121,11 +134,19 @@ export default function InvoicesPage() {
     return result;
   }, [invoices, searchQuery, filterStatus, filterPayment, sortBy]);
 
+  // Proformas (saved or billed printouts) and fully cancelled invoices have nothing to credit
+  const isCreditable = (invoice: Invoice) => invoice.status === "Paid" || invoice.status === "Partially Credited";
+
   const getStatusBadge = (status: string) => {
     const config: Record<string, string> = {
       Paid: "bg-success text-white",
       Pending: "bg-warning text-white",
       Overdue: "bg-danger text-white",
+      "Partially Credited": "bg-warning text-white",
+      Cancelled: "bg-gray-500 text-white line-through",
+      Saved: "bg-secondary text-secondary-foreground",
+      Billed: "bg-secondary text-secondary-foreground",
+      Superseded: "bg-gray-500 text-white line-through",
     };
     return <Badge className={config[status] || "bg-gray-500 text-white"}>{status}</Badge>;
   };
@@ -168,41 +189,26 @@ export default function InvoicesPage() {
     },
   });
 
-  const deleteInvoiceMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const res = await apiRequest("DELETE", `/api/invoices/${id}`);
-      return res;
+  const creditNoteMutation = useMutation({
+    mutationFn: async (data: { id: string; request: CreditNoteRequest }) => {
+      const res = await apiRequest("POST", `/api/invoices/${data.id}/credit-notes`, data.request);
+      return await res.json() as { creditNote: CreditNote; invoice: Invoice };
     },
-    onSuccess: () => {
+    onSuccess: ({ creditNote }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-notes"] });
       toast({
-        title: "Invoice deleted",
-        description: "Invoice has been successfully deleted",
-        variant: "destructive",
+        title: "Credit note issued",
+        description: `${creditNote.creditNoteNumber} for ₹${parseFloat(creditNote.total).toFixed(2)}`,
       });
-      setShowDeleteDialog(false);
-      setSelectedInvoice(null);
+      setShowCreditDialog(false);
     },
-  });
-
-  const regenerateInvoiceMutation = useMutation({
-    mutationFn: async (data: { id: string; items: InvoiceItem[]; subtotal: number; tax: number; total: number }) => {
-      const updates = {
-        items: JSON.stringify(data.items),
-        subtotal: data.subtotal.toFixed(2),
-        tax: data.tax.toFixed(2),
-        total: data.total.toFixed(2),
-      };
-      const res = await apiRequest("PATCH", `/api/invoices/${data.id}`, updates);
-      return await res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    onError: (error: Error) => {
       toast({
-        title: "Invoice regenerated",
-        description: "Invoice has been successfully regenerated with updated items",
+        title: "Error",
+        description: error.message.replace(/^\d+: /, "") || "Failed to issue credit note",
+        variant: "destructive",
       });
-      setShowRegenerateDialog(false);
     },
   });
 
@@ -214,135 +220,40 @@ export default function InvoicesPage() {
     });
   };
 
-  const handleDeleteInvoice = (invoice: Invoice) => {
+  const handleCreditInvoice = (invoice: Invoice) => {
     setSelectedInvoice(invoice);
-    setShowDeleteDialog(true);
+    setCreditQuantities(parseInvoiceLines(invoice).map(() => 0));
+    setCreditReason("");
+    setCreditDetails("");
+    setRestockCredit(false);
+    setShowCreditDialog(true);
   };
 
-  const confirmDelete = async () => {
-    if (!selectedInvoice) return;
-    await deleteInvoiceMutation.mutateAsync(selectedInvoice.id);
+  const updateCreditQuantity = (index: number, quantity: number) => {
+    const updated = [...creditQuantities];
+    updated[index] = Math.max(0, Math.min(quantity, remainingQuantities[index] ?? 0));
+    setCreditQuantities(updated);
   };
 
-  const handleRegenerateInvoice = (invoice: Invoice) => {
-    setSelectedInvoice(invoice);
-    const items = JSON.parse(invoice.items);
-    setRegenerateItems(items);
-    setSelectedCategory("all");
-    setShowRegenerateDialog(true);
-  };
-
-  const addMenuItemToRegenerate = (menuItem: MenuItem) => {
-    const existingItem = regenerateItems.find(item => item.name === menuItem.name);
-    if (existingItem) {
-      updateRegenerateQuantity(regenerateItems.indexOf(existingItem), existingItem.quantity + 1);
-    } else {
-      const newItem: InvoiceItem = {
-        name: menuItem.name,
-        quantity: 1,
-        price: parseFloat(menuItem.price),
-        isVeg: menuItem.isVeg,
-      };
-      setRegenerateItems([...regenerateItems, newItem]);
-    }
-  };
-
-  const updateRegenerateQuantity = (index: number, quantity: number) => {
-    if (quantity < 1) return;
-    const updated = [...regenerateItems];
-    updated[index] = { ...updated[index], quantity };
-    setRegenerateItems(updated);
-  };
-
-  const updateRegenerateNotes = (index: number, notes: string) => {
-    const updated = [...regenerateItems];
-    updated[index] = { ...updated[index], notes };
-    setRegenerateItems(updated);
-  };
-
-  const removeRegenerateItem = (index: number) => {
-    setRegenerateItems(regenerateItems.filter((_, i) => i !== index));
-  };
-
-  const handleOpenNotes = (item: InvoiceItem, index: number) => {
-    setNotesItem({ ...item, name: `${item.name}-${index}` });
-    setTempNotes(item.notes || "");
-    setCustomNote("");
-    setShowNotesDialog(true);
-  };
-
-  const handleSaveNotes = () => {
-    if (notesItem) {
-      const index = regenerateItems.findIndex((item, i) => `${item.name}-${i}` === notesItem.name);
-      if (index !== -1) {
-        const finalNotes = customNote.trim() || tempNotes;
-        updateRegenerateNotes(index, finalNotes);
-      }
-    }
-    setShowNotesDialog(false);
-    setNotesItem(null);
-    setTempNotes("");
-    setCustomNote("");
-  };
-
-  const predefinedNotes = [
-    "Make it Spicy",
-    "Less Spicy",
-    "No Onions",
-    "Extra Cheese",
-    "Well Done",
-    "Medium Rare",
-    "No Salt",
-    "Extra Sauce",
-  ];
-
-  const handleSaveRegenerate = async () => {
-    if (!selectedInvoice || regenerateItems.length === 0) {
+  const submitCreditNote = async (cancelInvoice: boolean) => {
+    if (!selectedInvoice) return;
+    if (!creditReason) {
       toast({
-        title: "Error",
-        description: "Invoice must have at least one item",
+        title: "Validation Error",
+        description: "Select a reason for the credit note",
         variant: "destructive",
       });
       return;
     }
-
-    for (const item of regenerateItems) {
-      if (!item.name || item.name.trim() === '') {
-        toast({
-          title: "Validation Error",
-          description: "All items must have a name",
-          variant: "destructive",
-        });
-        return;
-      }
-      if (item.quantity < 1) {
-        toast({
-          title: "Validation Error",
-          description: "Quantity must be at least 1",
-          variant: "destructive",
-        });
-        return;
-      }
-      if (item.price < 0) {
-        toast({
-          title: "Validation Error",
-          description: "Price cannot be negative",
-          variant: "destructive",
-        });
-        return;
-      }
-    }
-
-    const subtotal = regenerateItems.reduce((sum, item) => sum + (item.quantity * item.price), 0);
-    const tax = subtotal * 0.05;
-    const total = subtotal + tax;
-
-    await regenerateInvoiceMutation.mutateAsync({
+    const reason = creditDetails.trim() ? `${creditReason}: ${creditDetails.trim()}` : creditReason;
+    await creditNoteMutation.mutateAsync({
       id: selectedInvoice.id,
-      items: regenerateItems,
-      subtotal,
-      tax,
-      total,
+      request: {
+        reason,
+        // No lines means "everything still on the invoice"
+        lines: cancelInvoice ? undefined : toCreditLines(creditQuantities),
+        restock: restockCredit,
+      },
     });
   };
 
@@ -387,9 +298,23 @@ export default function InvoicesPage() {
     const finalY = (doc as any).lastAutoTable.finalY || 95;
     
     doc.text(`Subtotal: ₹${parseFloat(invoice.subtotal).toFixed(2)}`, 140, finalY + 10);
-    doc.text(`Tax (5%): ₹${parseFloat(invoice.tax).toFixed(2)}`, 140, finalY + 18);
+    const taxLines = parseTaxBreakdown(invoice.taxBreakdown);
+    let summaryY = finalY + 18;
+    if (taxLines.length > 0) {
+      for (const line of taxLines) {
+        doc.text(`${formatTaxLabel(line)}: ₹${line.amount.toFixed(2)}`, 140, summaryY);
+        summaryY += 8;
+      }
+    } else {
+      doc.text(`Tax: ₹${parseFloat(invoice.tax).toFixed(2)}`, 140, summaryY);
+      summaryY += 8;
+    }
+    if (invoice.roundOff && parseFloat(invoice.roundOff) !== 0) {
+      doc.text(`Round Off: ${formatRoundOff(invoice.roundOff)}`, 140, summaryY);
+      summaryY += 8;
+    }
     doc.setFont("helvetica", "bold");
-    doc.text(`Total: ₹${parseFloat(invoice.total).toFixed(2)}`, 140, finalY + 26);
+    doc.text(`Total: ₹${parseFloat(invoice.total).toFixed(2)}`, 140, summaryY);
     
     doc.setFont("helvetica", "normal");
     doc.text(`Payment Mode: ${invoice.paymentMode.toUpperCase()}`, 20, finalY + 26);
@@ -492,6 +417,20 @@ export default function InvoicesPage() {
                 >
                   Overdue
                 </DropdownMenuCheckboxItem>
+                <DropdownMenuCheckboxItem
+                  checked={filterStatus.includes("Partially Credited")}
+                  onCheckedChange={() => handleStatusFilter("Partially Credited")}
+                  data-testid="filter-status-partially-credited"
+                >
+                  Partially Credited
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuCheckboxItem
+                  checked={filterStatus.includes("Cancelled")}
+                  onCheckedChange={() => handleStatusFilter("Cancelled")}
+                  data-testid="filter-status-cancelled"
+                >
+                  Cancelled
+                </DropdownMenuCheckboxItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuLabel>Payment Method</DropdownMenuLabel>
                 <DropdownMenuCheckboxItem
@@ -583,6 +522,7 @@ export default function InvoicesPage() {
             <div className="flex items-center gap-2"><Badge className="bg-success">Paid</Badge><span className="text-sm">{invoices.filter(i => i.status === "Paid").length}</span></div>
             <div className="flex items-center gap-2"><Badge className="bg-warning">Pending</Badge><span className="text-sm">{invoices.filter(i => i.status === "Pending").length}</span></div>
             <div className="flex items-center gap-2"><Badge className="bg-danger">Overdue</Badge><span className="text-sm">{invoices.filter(i => i.status === "Overdue").length}</span></div>
+            <div className="flex items-center gap-2"><Badge className="bg-gray-500">Cancelled</Badge><span className="text-sm">{invoices.filter(i => i.status === "Cancelled").length}</span></div>
           </div>
           <div className="text-sm text-muted-foreground">
             Total: {filteredAndSortedInvoices.length} invoice{filteredAndSortedInvoices.length !== 1 ? 's' : ''}
@@ -623,7 +563,12 @@ export default function InvoicesPage() {
               <tbody>
                 {filteredAndSortedInvoices.map((invoice) => (
                   <tr key={invoice.id} className="border-b border-border last:border-0 hover-elevate">
-                    <td className="py-3 px-4 font-medium">{invoice.invoiceNumber}</td>
+                    <td className="py-3 px-4 font-medium">
+                      {invoice.invoiceNumber}
+                      {invoice.guestNumber && invoice.splitCount && (
+                        <Badge variant="outline" className="ml-2">Guest {invoice.guestNumber}/{invoice.splitCount}</Badge>
+                      )}
+                    </td>
                     <td className="py-3 px-4">
                       {invoice.customerName || (invoice.tableNumber ? `Table ${invoice.tableNumber}` : "Walk-in")}
                       {invoice.floorName && <span className="text-xs text-muted-foreground ml-2">({invoice.floorName})</span>}
@@ -639,8 +584,7 @@ export default function InvoicesPage() {
                         <Button size="icon" variant="ghost" className="h-8 w-8" title="View Invoice" onClick={() => handleViewInvoice(invoice)} data-testid={`button-view-${invoice.id}`}><Eye className="h-4 w-4" /></Button>
                         <Button size="icon" variant="ghost" className="h-8 w-8" title="Download Invoice" onClick={() => handleDownloadInvoice(invoice)} data-testid={`button-download-${invoice.id}`}><Download className="h-4 w-4" /></Button>
                         <Button size="icon" variant="ghost" className="h-8 w-8" title="Edit Invoice" onClick={() => handleEditInvoice(invoice)} data-testid={`button-edit-${invoice.id}`}><Edit className="h-4 w-4" /></Button>
-                        <Button size="icon" variant="ghost" className="h-8 w-8" title="Regenerate Invoice" onClick={() => handleRegenerateInvoice(invoice)} data-testid={`button-regenerate-${invoice.id}`}><RefreshCw className="h-4 w-4" /></Button>
-                        <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive hover:text-destructive" title="Delete Invoice" onClick={() => handleDeleteInvoice(invoice)} data-testid={`button-delete-${invoice.id}`}><Trash2 className="h-4 w-4" /></Button>
+                        <Button size="icon" variant="ghost" className="h-8 w-8" title="Credit Note / Cancel" onClick={() => handleCreditInvoice(invoice)} disabled={!isCreditable(invoice)} data-testid={`button-credit-${invoice.id}`}><Undo2 className="h-4 w-4" /></Button>
                       </div>
                     </td>
                   </tr>
@@ -706,18 +650,9 @@ export default function InvoicesPage() {
                         <Edit className="h-4 w-4 mr-2" />
                         Edit
                       </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => handleRegenerateInvoice(invoice)} data-testid={`button-regenerate-${invoice.id}`}>
-                        <RefreshCw className="h-4 w-4 mr-2" />
-                        Regenerate
-                      </DropdownMenuItem>
-                      <DropdownMenuSeparator />
-                      <DropdownMenuItem
-                        className="text-destructive"
-                        onClick={() => handleDeleteInvoice(invoice)}
-                        data-testid={`button-delete-${invoice.id}`}
-                      >
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Delete
+                      <DropdownMenuItem onClick={() => handleCreditInvoice(invoice)} disabled={!isCreditable(invoice)} data-testid={`button-credit-${invoice.id}`}>
+                        <Undo2 className="h-4 w-4 mr-2" />
+                        Credit Note / Cancel
                       </DropdownMenuItem>
                     </DropdownMenuContent>
                   </DropdownMenu>
@@ -743,6 +678,11 @@ export default function InvoicesPage() {
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Invoice Number</p>
                   <p className="text-lg font-semibold">{selectedInvoice.invoiceNumber}</p>
+                  {selectedInvoice.guestNumber && selectedInvoice.splitCount && (
+                    <p className="text-sm text-muted-foreground">
+                      Guest {selectedInvoice.guestNumber} of {selectedInvoice.splitCount}, split by item
+                    </p>
+                  )}
                 </div>
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Date</p>
@@ -801,16 +741,44 @@ export default function InvoicesPage() {
                   <span>Subtotal:</span>
                   <span>₹{parseFloat(selectedInvoice.subtotal).toFixed(2)}</span>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span>Tax (5%):</span>
-                  <span>₹{parseFloat(selectedInvoice.tax).toFixed(2)}</span>
-                </div>
+                {parseTaxBreakdown(selectedInvoice.taxBreakdown).length > 0 ? (
+                  parseTaxBreakdown(selectedInvoice.taxBreakdown).map((line) => (
+                    <div key={`${line.code}-${line.rate}`} className="flex justify-between text-sm">
+                      <span>{formatTaxLabel(line)}:</span>
+                      <span>₹{line.amount.toFixed(2)}</span>
+                    </div>
+                  ))
+                ) : (
+                  <div className="flex justify-between text-sm">
+                    <span>Tax:</span>
+                    <span>₹{parseFloat(selectedInvoice.tax).toFixed(2)}</span>
+                  </div>
+                )}
                 {parseFloat(selectedInvoice.discount) > 0 && (
                   <div className="flex justify-between text-sm">
                     <span>Discount:</span>
                     <span>-₹{parseFloat(selectedInvoice.discount).toFixed(2)}</span>
                   </div>
                 )}
+                {parseInvoicePromotions(selectedInvoice).map((promotion) => (
+                  <div key={promotion.id} className="text-xs text-muted-foreground pl-2" data-testid={`text-invoice-promotion-${promotion.id}`}>
+                    {promotion.type === "coupon" ? `Coupon ${promotion.code}` : `Offer: ${promotion.name}`} (₹{promotion.amount.toFixed(2)})
+                  </div>
+                ))}
+                {parseInvoiceDiscounts(selectedInvoice).map((discount, index) => (
+                  <div key={index} className="text-xs text-muted-foreground pl-2" data-testid={`text-invoice-discount-${index}`}>
+                    {discount.itemName ?? "Order"}: {discount.type === "percent" ? `${discount.value}%` : `₹${discount.value.toFixed(2)}`} off
+                    {" "}(₹{discount.amount.toFixed(2)}) · {discountReasons[discount.reasonCode]}
+                    {discount.note && ` - ${discount.note}`} · by {discount.appliedByName}
+                    {discount.approvedByName && `, approved by ${discount.approvedByName}`}
+                  </div>
+                ))}
+                {selectedInvoice.roundOff && parseFloat(selectedInvoice.roundOff) !== 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span>Round Off:</span>
+                    <span>{formatRoundOff(selectedInvoice.roundOff)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between font-bold text-lg border-t pt-2">
                   <span>Total:</span>
                   <span className="text-primary">₹{parseFloat(selectedInvoice.total).toFixed(2)}</span>
@@ -836,6 +804,28 @@ export default function InvoicesPage() {
                 </div>
               )}
 
+              {creditNotes.length > 0 && (
+                <div className="border-t pt-4" data-testid="section-credit-notes">
+                  <h3 className="font-semibold mb-3">Credit Notes</h3>
+                  <div className="space-y-2">
+                    {creditNotes.map((note) => (
+                      <div key={note.id} className="border rounded-lg p-3 text-sm">
+                        <div className="flex justify-between">
+                          <span className="font-medium">{note.creditNoteNumber}</span>
+                          <span className="font-semibold text-danger">-₹{parseFloat(note.total).toFixed(2)}</span>
+                        </div>
+                        <p className="text-muted-foreground">
+                          {formatDate(note.createdAt)} · {note.createdByName || "Unknown"} · {note.fullCancellation ? "Full cancellation" : "Partial"}
+                          {note.restocked && " · Returned to stock"}
+                        </p>
+                        <p>{(JSON.parse(note.items) as CreditNoteLine[]).map((line) => `${line.quantity} × ${line.name}`).join(", ")}</p>
+                        <p className="italic">{note.reason}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="flex gap-2 pt-2">
                 <Button variant="outline" onClick={() => setShowViewDialog(false)} className="flex-1">
                   Close
@@ -901,246 +891,134 @@ export default function InvoicesPage() {
         </DialogContent>
       </Dialog>
 
-      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Delete Invoice</AlertDialogTitle>
-            <AlertDialogDescription>
-              Are you sure you want to delete invoice {selectedInvoice?.invoiceNumber}? This action cannot be undone.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={confirmDelete}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-              data-testid="button-confirm-delete"
-            >
-              Delete
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
-
-      <Dialog open={showRegenerateDialog} onOpenChange={setShowRegenerateDialog}>
-        <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-hidden">
+      <Dialog open={showCreditDialog} onOpenChange={setShowCreditDialog}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Regenerate Invoice</DialogTitle>
+            <DialogTitle>Credit Note</DialogTitle>
             <DialogDescription>
-              Edit items in invoice {selectedInvoice?.invoiceNumber}
+              Refund lines from invoice {selectedInvoice?.invoiceNumber}, or cancel everything still on it. The original invoice is kept unchanged.
             </DialogDescription>
           </DialogHeader>
           {selectedInvoice && (
-            <div className="flex h-[70vh] gap-4">
-              {/* Left: Add Items Section */}
-              <div className="w-2/3 border-r pr-4 overflow-y-auto">
-                <h3 className="font-semibold mb-3">Add Items from Menu</h3>
-                
-                {/* Category Tabs */}
-                <div className="flex gap-2 mb-4 flex-wrap">
-                  <Button
-                    size="sm"
-                    variant={selectedCategory === "all" ? "default" : "outline"}
-                    onClick={() => setSelectedCategory("all")}
-                    data-testid="category-all"
-                  >
-                    All
-                  </Button>
-                  {(categoriesData?.categories || []).map((category) => (
-                    <Button
-                      key={category}
-                      size="sm"
-                      variant={selectedCategory === category ? "default" : "outline"}
-                      onClick={() => setSelectedCategory(category)}
-                      data-testid={`category-${category.toLowerCase().replace(/\s+/g, '-')}`}
-                    >
-                      {category}
-                    </Button>
+            <div className="space-y-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2">Item</th>
+                    <th className="text-center py-2">Available</th>
+                    <th className="text-right py-2">Price</th>
+                    <th className="text-center py-2">Credit Qty</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {parseInvoiceLines(selectedInvoice).map((item, index) => (
+                    <tr key={index} className="border-b">
+                      <td className="py-2">{item.name}</td>
+                      <td className="text-center py-2">{remainingQuantities[index] ?? item.quantity} / {item.quantity}</td>
+                      <td className="text-right py-2">₹{item.price.toFixed(2)}</td>
+                      <td className="py-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={remainingQuantities[index] ?? item.quantity}
+                          value={creditQuantities[index] ?? 0}
+                          onChange={(e) => updateCreditQuantity(index, parseInt(e.target.value) || 0)}
+                          disabled={(remainingQuantities[index] ?? item.quantity) === 0}
+                          className="w-20 mx-auto text-center"
+                          data-testid={`input-credit-qty-${index}`}
+                        />
+                      </td>
+                    </tr>
                   ))}
-                </div>
+                </tbody>
+              </table>
 
-                {/* Menu Items Grid */}
-                <div className="grid grid-cols-2 gap-3">
-                  {menuItems
-                    .filter(item => item.available)
-                    .filter(item => selectedCategory === "all" || item.category === selectedCategory)
-                    .map((item) => (
-                      <div
-                        key={item.id}
-                        className="border rounded-lg p-3 cursor-pointer hover:shadow-md transition-shadow"
-                        onClick={() => addMenuItemToRegenerate(item)}
-                        data-testid={`menu-item-${item.id}`}
-                      >
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2">
-                              <div className={`w-2 h-2 rounded-full ${item.isVeg ? 'bg-green-500' : 'bg-red-500'}`} />
-                              <h4 className="font-medium text-sm">{item.name}</h4>
-                            </div>
-                            <p className="text-xs text-muted-foreground mt-1">{item.category}</p>
-                          </div>
-                          <span className="font-semibold text-sm">₹{parseFloat(item.price).toFixed(0)}</span>
-                        </div>
-                      </div>
-                    ))}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Reason</label>
+                  <Select value={creditReason} onValueChange={setCreditReason}>
+                    <SelectTrigger data-testid="select-credit-reason">
+                      <SelectValue placeholder="Select a reason" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {creditReasons.map((reason) => (
+                        <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Details (Optional)</label>
+                  <Input
+                    value={creditDetails}
+                    onChange={(e) => setCreditDetails(e.target.value)}
+                    placeholder="What happened?"
+                    data-testid="input-credit-details"
+                  />
                 </div>
               </div>
 
-              {/* Right: Current Items Section */}
-              <div className="w-1/3 flex flex-col">
-                <h3 className="font-semibold mb-3">Current Items ({regenerateItems.length})</h3>
-                
-                <div className="flex-1 overflow-y-auto space-y-2 mb-4">
-                  {regenerateItems.length === 0 ? (
-                    <p className="text-sm text-muted-foreground text-center py-8">
-                      No items yet. Add items from the menu.
-                    </p>
-                  ) : (
-                    regenerateItems.map((item, index) => (
-                      <div key={index} className="border rounded-lg p-3 bg-muted/30">
-                        <div className="flex items-start justify-between mb-2">
-                          <div className="flex items-center gap-2 flex-1">
-                            <div className={`w-2 h-2 rounded-full ${item.isVeg ? 'bg-green-500' : 'bg-red-500'}`} />
-                            <span className="font-medium text-sm">{item.name}</span>
-                          </div>
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            className="h-6 w-6 text-destructive"
-                            onClick={() => removeRegenerateItem(index)}
-                            data-testid={`button-remove-${index}`}
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
-                        </div>
-                        
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-1">
-                            <Button
-                              size="icon"
-                              variant="outline"
-                              className="h-7 w-7"
-                              onClick={() => updateRegenerateQuantity(index, item.quantity - 1)}
-                              data-testid={`button-decrease-${index}`}
-                            >
-                              <Minus className="h-3 w-3" />
-                            </Button>
-                            <span className="text-sm font-medium w-8 text-center">{item.quantity}</span>
-                            <Button
-                              size="icon"
-                              variant="outline"
-                              className="h-7 w-7"
-                              onClick={() => updateRegenerateQuantity(index, item.quantity + 1)}
-                              data-testid={`button-increase-${index}`}
-                            >
-                              <Plus className="h-3 w-3" />
-                            </Button>
-                          </div>
-                          <span className="font-semibold text-sm">₹{(item.quantity * item.price).toFixed(2)}</span>
-                        </div>
-
-                        {item.notes && (
-                          <div className="mt-2 text-xs text-muted-foreground bg-white p-1.5 rounded">
-                            Note: {item.notes}
-                          </div>
-                        )}
-                        
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          className="w-full mt-2 h-7 text-xs"
-                          onClick={() => handleOpenNotes(item, index)}
-                          data-testid={`button-notes-${index}`}
-                        >
-                          <StickyNote className="h-3 w-3 mr-1" />
-                          {item.notes ? "Edit Notes" : "Add Notes"}
-                        </Button>
-                      </div>
-                    ))
-                  )}
-                </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="credit-restock"
+                  checked={restockCredit}
+                  onCheckedChange={(checked) => setRestockCredit(checked === true)}
+                  data-testid="checkbox-credit-restock"
+                />
+                <label htmlFor="credit-restock" className="text-sm">
+                  Return ingredients to stock (items were not prepared)
+                </label>
+              </div>
 
-                {/* Totals */}
-                <div className="bg-muted p-3 rounded-lg space-y-2 border">
+              {creditPreview && (
+                <div className="bg-muted p-4 rounded-lg space-y-2">
                   <div className="flex justify-between text-sm">
                     <span>Subtotal:</span>
-                    <span className="font-medium">
-                      ₹{regenerateItems.reduce((sum, item) => sum + (item.quantity * item.price), 0).toFixed(2)}
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Tax (5%):</span>
-                    <span className="font-medium">
-                      ₹{(regenerateItems.reduce((sum, item) => sum + (item.quantity * item.price), 0) * 0.05).toFixed(2)}
-                    </span>
+                    <span>₹{creditPreview.bill.subtotal.toFixed(2)}</span>
                   </div>
+                  {creditPreview.bill.taxBreakdown.map((line) => (
+                    <div key={`${line.code}-${line.rate}`} className="flex justify-between text-sm">
+                      <span>{formatTaxLabel(line)}:</span>
+                      <span>₹{line.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  {creditPreview.bill.roundOff !== 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span>Round Off:</span>
+                      <span>{formatRoundOff(creditPreview.bill.roundOff)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between font-bold text-lg border-t pt-2">
-                    <span>Total:</span>
-                    <span className="text-primary">
-                      ₹{(regenerateItems.reduce((sum, item) => sum + (item.quantity * item.price), 0) * 1.05).toFixed(2)}
-                    </span>
+                    <span>Refund:</span>
+                    <span className="text-primary">₹{creditPreview.bill.total.toFixed(2)}</span>
                   </div>
                 </div>
+              )}
 
-                <div className="flex gap-2 mt-4">
-                  <Button variant="outline" onClick={() => setShowRegenerateDialog(false)} className="flex-1" data-testid="button-cancel-regenerate">
-                    Cancel
-                  </Button>
-                  <Button onClick={handleSaveRegenerate} className="flex-1" disabled={regenerateInvoiceMutation.isPending} data-testid="button-save-regenerate">
-                    {regenerateInvoiceMutation.isPending ? "Saving..." : "Save Changes"}
-                  </Button>
-                </div>
-              </div>
-            </div>
-          )}
-        </DialogContent>
-      </Dialog>
-
-      {/* Notes Dialog */}
-      <Dialog open={showNotesDialog} onOpenChange={setShowNotesDialog}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Add Notes</DialogTitle>
-            <DialogDescription>Select a predefined note or write your own</DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div className="grid grid-cols-2 gap-2">
-              {predefinedNotes.map((note) => (
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setShowCreditDialog(false)} className="flex-1" data-testid="button-cancel-credit">
+                  Close
+                </Button>
                 <Button
-                  key={note}
-                  variant={tempNotes === note ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => {
-                    setTempNotes(note);
-                    setCustomNote("");
-                  }}
-                  data-testid={`predefined-note-${note.toLowerCase().replace(/\s+/g, '-')}`}
+                  variant="destructive"
+                  onClick={() => submitCreditNote(true)}
+                  className="flex-1"
+                  disabled={creditNoteMutation.isPending}
+                  data-testid="button-cancel-invoice"
                 >
-                  {note}
+                  Cancel Invoice
                 </Button>
-              ))}
-            </div>
-            <div>
-              <label className="text-sm font-medium mb-2 block">Custom Note</label>
-              <Input
-                placeholder="Enter custom note"
-                value={customNote}
-                onChange={(e) => {
-                  setCustomNote(e.target.value);
-                  setTempNotes("");
-                }}
-                data-testid="input-custom-note"
-              />
-            </div>
-            <div className="flex gap-2">
-              <Button variant="outline" onClick={() => setShowNotesDialog(false)} className="flex-1">
-                Cancel
-              </Button>
-              <Button onClick={handleSaveNotes} className="flex-1">
-                Save Note
-              </Button>
+                <Button
+                  onClick={() => submitCreditNote(false)}
+                  className="flex-1"
+                  disabled={!creditPreview || creditNoteMutation.isPending}
+                  data-testid="button-issue-credit"
+                >
+                  {creditNoteMutation.isPending ? "Issuing..." : "Issue Credit Note"}
+                </Button>
+              </div>
             </div>
-          </div>
+          )}
         </DialogContent>
       </Dialog>
     </div>
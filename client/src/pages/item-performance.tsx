@@ -1,53 +1,167 @@
-import { TrendingUp, Package, Star, DollarSign, ShoppingCart } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Package, Star, DollarSign, ShoppingCart } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
 import AppHeader from "@/components/AppHeader";
 import StatCard from "@/components/StatCard";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import type { CreditNote, Invoice, MenuItem } from "@shared/schema";
+import { isSettledInvoice, parseInvoiceLines, remainingCreditQuantities } from "@shared/billing";
+import { splitComboRevenue } from "@shared/combos";
 
-const topItemsData = [
-  { name: "Veggie Pizza", sales: 13455, orders: 45 },
-  { name: "Chicken Burger", sales: 7562, orders: 38 },
-  { name: "French Fries", sales: 5148, orders: 52 },
-  { name: "Coca Cola", sales: 3350, orders: 67 },
-  { name: "Caesar Salad", sales: 3427, orders: 23 },
-];
+interface ItemSummary {
+  key: string;
+  name: string;
+  category: string | null;
+  // Sold on their own
+  quantity: number;
+  // Sold as part of a combo
+  comboQuantity: number;
+  // Net of discounts and credit notes, including the item's share of combo revenue
+  revenue: number;
+}
+
+interface ComboSummary {
+  key: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+}
+
+type ItemFilter = "all" | "top" | "low";
+
+// "YYYY-MM" in local time, matching the month input
+const monthOf = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+const formatAmount = (value: number) => `₹${value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
 export default function ItemPerformancePage() {
+  const [month, setMonth] = useState(monthOf(new Date()));
+  const [filter, setFilter] = useState<ItemFilter>("all");
+
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+  });
+
+  const { data: creditNotes = [] } = useQuery<CreditNote[]>({
+    queryKey: ["/api/credit-notes"],
+  });
+
+  const { data: menuItems = [] } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu"],
+  });
+
+  // Combo revenue is credited to the dishes inside it, in the proportions fixed when it was ordered
+  const { items, combos } = useMemo(() => {
+    const menuById = new Map(menuItems.map((item) => [item.id, item]));
+    const itemSummary = new Map<string, ItemSummary>();
+    const comboSummary = new Map<string, ComboSummary>();
+
+    const entryFor = (menuItemId: string | undefined, name: string) => {
+      const key = menuItemId ?? `name:${name}`;
+      const entry = itemSummary.get(key) ?? {
+        key,
+        name: menuItemId ? menuById.get(menuItemId)?.name ?? name : name,
+        category: menuItemId ? menuById.get(menuItemId)?.category ?? null : null,
+        quantity: 0,
+        comboQuantity: 0,
+        revenue: 0,
+      };
+      itemSummary.set(key, entry);
+      return entry;
+    };
+
+    for (const invoice of invoices) {
+      if (!isSettledInvoice(invoice) || monthOf(new Date(invoice.createdAt)) !== month) continue;
+      const remaining = remainingCreditQuantities(
+        invoice,
+        creditNotes.filter((note) => note.invoiceId === invoice.id),
+      );
+
+      parseInvoiceLines(invoice).forEach((line, index) => {
+        const quantity = Math.max(remaining[index], 0);
+        if (quantity === 0) return;
+        const revenue = (line.price * line.quantity - (line.discountAmount ?? 0)) * (quantity / line.quantity);
+        const components = line.components ?? [];
+
+        if (components.length === 0) {
+          const entry = entryFor(line.menuItemId, line.name);
+          entry.quantity += quantity;
+          entry.revenue += revenue;
+          return;
+        }
+
+        const comboKey = line.menuItemId ?? `name:${line.name}`;
+        const combo = comboSummary.get(comboKey) ?? { key: comboKey, name: line.name, quantity: 0, revenue: 0 };
+        combo.quantity += quantity;
+        combo.revenue += revenue;
+        comboSummary.set(comboKey, combo);
+
+        const shares = splitComboRevenue(components, revenue);
+        components.forEach((component, componentIndex) => {
+          const entry = entryFor(component.menuItemId, component.name);
+          entry.comboQuantity += component.quantity * quantity;
+          entry.revenue += shares[componentIndex];
+        });
+      });
+    }
+
+    return {
+      items: Array.from(itemSummary.values()).sort((a, b) => b.revenue - a.revenue),
+      combos: Array.from(comboSummary.values()).sort((a, b) => b.revenue - a.revenue),
+    };
+  }, [invoices, creditNotes, menuItems, month]);
+
+  const totalRevenue = items.reduce((sum, item) => sum + item.revenue, 0);
+  const totalQuantity = items.reduce((sum, item) => sum + item.quantity + item.comboQuantity, 0);
+  const topItemsData = items.slice(0, 5).map((item) => ({ name: item.name, sales: Math.round(item.revenue * 100) / 100 }));
+
+  const visibleItems =
+    filter === "top" ? items.slice(0, 10) : filter === "low" ? items.slice(-10).reverse() : items;
+
   return (
     <div className="h-screen flex flex-col">
       <AppHeader title="Item Performance Reports" showSearch={true} />
 
       <div className="flex-1 overflow-y-auto p-6">
+        <div className="flex items-center gap-2 mb-6">
+          <span className="text-sm text-muted-foreground">Month</span>
+          <Input
+            type="month"
+            className="w-44"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            data-testid="input-item-performance-month"
+          />
+        </div>
+
         <div className="grid grid-cols-4 gap-4 mb-6">
           <StatCard
-            title="Total Items"
-            value={247}
+            title="Items Sold"
+            value={items.length}
             icon={Package}
             color="blue"
-            trend={{ value: 5.2, isPositive: true }}
           />
           <StatCard
             title="Top Performer"
-            value="Veggie Pizza"
+            value={items[0]?.name ?? "-"}
             icon={Star}
             color="yellow"
-            trend={{ value: 12.5, isPositive: true }}
           />
           <StatCard
             title="Avg Item Revenue"
-            value="₹467"
+            value={formatAmount(items.length > 0 ? totalRevenue / items.length : 0)}
             icon={DollarSign}
             color="green"
-            trend={{ value: 8.1, isPositive: true }}
           />
           <StatCard
             title="Total Item Sales"
-            value={1245}
+            value={totalQuantity}
             icon={ShoppingCart}
             color="blue"
-            trend={{ value: 6.3, isPositive: true }}
           />
         </div>
 
@@ -64,13 +178,18 @@ export default function ItemPerformancePage() {
           </ResponsiveContainer>
         </Card>
 
-        <Card className="p-6">
+        <Card className="p-6 mb-6">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="font-semibold text-lg">Item Performance Details</h3>
+            <div>
+              <h3 className="font-semibold text-lg">Item Performance Details</h3>
+              <p className="text-sm text-muted-foreground">
+                Revenue includes each item's share of combo sales, net of discounts and credit notes
+              </p>
+            </div>
             <div className="flex gap-2">
-              <Button variant="outline" size="sm">All Items</Button>
-              <Button variant="outline" size="sm">Top Performers</Button>
-              <Button variant="outline" size="sm">Low Performers</Button>
+              <Button variant={filter === "all" ? "default" : "outline"} size="sm" onClick={() => setFilter("all")}>All Items</Button>
+              <Button variant={filter === "top" ? "default" : "outline"} size="sm" onClick={() => setFilter("top")}>Top Performers</Button>
+              <Button variant={filter === "low" ? "default" : "outline"} size="sm" onClick={() => setFilter("low")}>Low Performers</Button>
             </div>
           </div>
           <div className="overflow-x-auto">
@@ -79,49 +198,57 @@ export default function ItemPerformancePage() {
                 <tr className="border-b border-border">
                   <th className="text-left py-3 px-4 font-medium text-muted-foreground">Item Name</th>
                   <th className="text-left py-3 px-4 font-medium text-muted-foreground">Category</th>
-                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Orders</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Sold</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">In Combos</th>
                   <th className="text-right py-3 px-4 font-medium text-muted-foreground">Revenue</th>
                   <th className="text-right py-3 px-4 font-medium text-muted-foreground">Avg Price</th>
-                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Rating</th>
-                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Trend</th>
                 </tr>
               </thead>
               <tbody>
-                {[
-                  { name: "Veggie Pizza", category: "Pizza", orders: 45, revenue: 13455, price: 299, rating: 4.8, trend: 12 },
-                  { name: "Chicken Burger", category: "Burgers", orders: 38, revenue: 7562, price: 199, rating: 4.6, trend: 8 },
-                  { name: "French Fries", category: "Sides", orders: 52, revenue: 5148, price: 99, rating: 4.5, trend: -2 },
-                  { name: "Coca Cola", category: "Beverages", orders: 67, revenue: 3350, price: 50, rating: 4.7, trend: 5 },
-                  { name: "Caesar Salad", category: "Salads", orders: 23, revenue: 3427, price: 149, rating: 4.4, trend: 15 },
-                  { name: "Margherita Pizza", category: "Pizza", orders: 41, revenue: 12259, price: 299, rating: 4.9, trend: 10 },
-                  { name: "Pepsi", category: "Beverages", orders: 54, revenue: 2700, price: 50, rating: 4.6, trend: 3 },
-                  { name: "Chicken Wings", category: "Starters", orders: 29, revenue: 5801, price: 199, rating: 4.7, trend: 7 },
-                ].map((item, index) => (
-                  <tr key={index} className="border-b border-border last:border-0 hover-elevate">
-                    <td className="py-3 px-4 font-medium">{item.name}</td>
-                    <td className="py-3 px-4">
-                      <Badge variant="outline">{item.category}</Badge>
-                    </td>
-                    <td className="py-3 px-4 text-right">{item.orders}</td>
-                    <td className="py-3 px-4 text-right font-semibold text-green-600">₹{item.revenue.toLocaleString()}</td>
-                    <td className="py-3 px-4 text-right">₹{item.price}</td>
-                    <td className="py-3 px-4 text-right">
-                      <div className="flex items-center justify-end gap-1">
-                        <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-                        <span>{item.rating}</span>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4 text-right">
-                      <span className={item.trend >= 0 ? "text-green-600" : "text-red-600"}>
-                        {item.trend >= 0 ? "+" : ""}{item.trend}%
-                      </span>
-                    </td>
-                  </tr>
-                ))}
+                {visibleItems.length === 0 ? (
+                  <tr><td colSpan={6} className="py-8 text-center text-muted-foreground">No sales in this month</td></tr>
+                ) : (
+                  visibleItems.map((item) => (
+                    <tr key={item.key} className="border-b border-border last:border-0 hover-elevate" data-testid={`row-item-performance-${item.key}`}>
+                      <td className="py-3 px-4 font-medium">{item.name}</td>
+                      <td className="py-3 px-4">
+                        {item.category && <Badge variant="outline">{item.category}</Badge>}
+                      </td>
+                      <td className="py-3 px-4 text-right">{item.quantity}</td>
+                      <td className="py-3 px-4 text-right">{item.comboQuantity}</td>
+                      <td className="py-3 px-4 text-right font-semibold text-green-600">{formatAmount(item.revenue)}</td>
+                      <td className="py-3 px-4 text-right">{formatAmount(item.revenue / (item.quantity + item.comboQuantity))}</td>
+                    </tr>
+                  ))
+                )}
               </tbody>
             </table>
           </div>
         </Card>
+
+        {combos.length > 0 && (
+          <Card className="p-6">
+            <h3 className="font-semibold text-lg mb-4">Combos</h3>
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Combo</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Sold</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Revenue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {combos.map((combo) => (
+                  <tr key={combo.key} className="border-b border-border last:border-0" data-testid={`row-combo-performance-${combo.key}`}>
+                    <td className="py-3 px-4 font-medium">{combo.name}</td>
+                    <td className="py-3 px-4 text-right">{combo.quantity}</td>
+                    <td className="py-3 px-4 text-right">{formatAmount(combo.revenue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Card>
+        )}
       </div>
     </div>
   );
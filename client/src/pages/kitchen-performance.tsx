@@ -1,142 +1,240 @@
-import { ChefHat, Clock, CheckCircle, AlertCircle, TrendingUp } from "lucide-react";
+import { useState } from "react";
+import { ChefHat, Clock, CheckCircle, AlertCircle, Timer } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
 import AppHeader from "@/components/AppHeader";
 import StatCard from "@/components/StatCard";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
-
-const hourlyPerformanceData = [
-  { hour: "8AM", orders: 12, avgTime: 15 },
-  { hour: "9AM", orders: 18, avgTime: 14 },
-  { hour: "10AM", orders: 24, avgTime: 16 },
-  { hour: "11AM", orders: 31, avgTime: 18 },
-  { hour: "12PM", orders: 45, avgTime: 22 },
-  { hour: "1PM", orders: 52, avgTime: 25 },
-  { hour: "2PM", orders: 38, avgTime: 20 },
-  { hour: "3PM", orders: 21, avgTime: 15 },
-];
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import type { KitchenAnalytics, PrepTimeStats } from "@shared/kitchen-analytics";
+import { stationKey } from "@shared/stations";
+
+// "YYYY-MM-DD" in local time, matching the date inputs
+const dayOf = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return dayOf(date);
+};
+
+// The report covers whole local days, so "to" runs to the start of the day after
+function rangeUrl(fromDay: string, toDay: string) {
+  const from = new Date(`${fromDay}T00:00:00`);
+  const to = new Date(`${toDay}T00:00:00`);
+  to.setDate(to.getDate() + 1);
+  return `/api/reports/kitchen?from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`;
+}
+
+const minutes = (seconds: number) => Math.round((seconds / 60) * 10) / 10;
+
+const formatMinutes = (seconds: number) => `${minutes(seconds)} min`;
+
+const hourLabel = (hour: number) => `${hour % 12 || 12}${hour < 12 ? "AM" : "PM"}`;
+
+const latePercent = ({ late, count }: PrepTimeStats) => (count > 0 ? Math.round((late / count) * 1000) / 10 : 0);
+
+function StatsTable<T extends PrepTimeStats>({
+  rows,
+  label,
+  nameOf,
+  keyOf,
+  testId,
+}: {
+  rows: T[];
+  label: string;
+  nameOf: (row: T) => React.ReactNode;
+  keyOf: (row: T) => string;
+  testId: string;
+}) {
+  if (rows.length === 0) {
+    return <div className="text-center py-6 text-muted-foreground">Nothing prepared in this period</div>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full" data-testid={testId}>
+        <thead>
+          <tr className="border-b border-border">
+            <th className="text-left py-3 px-4 font-medium text-muted-foreground">{label}</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">Prepared</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">Median</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">P90</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">P95</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">Late</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={keyOf(row)} className="border-b border-border last:border-0 hover-elevate">
+              <td className="py-3 px-4 font-medium">{nameOf(row)}</td>
+              <td className="py-3 px-4 text-right">{row.count}</td>
+              <td className="py-3 px-4 text-right">{formatMinutes(row.p50)}</td>
+              <td className="py-3 px-4 text-right">{formatMinutes(row.p90)}</td>
+              <td className="py-3 px-4 text-right">{formatMinutes(row.p95)}</td>
+              <td className="py-3 px-4 text-right">
+                <span className={row.late > 0 ? "text-danger font-semibold" : "text-muted-foreground"}>
+                  {row.late} ({latePercent(row)}%)
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
 
 export default function KitchenPerformancePage() {
+  const [fromDay, setFromDay] = useState(daysAgo(6));
+  const [toDay, setToDay] = useState(dayOf(new Date()));
+
+  const { data: report, isLoading } = useQuery<KitchenAnalytics>({
+    queryKey: [rangeUrl(fromDay, toDay)],
+    enabled: !!fromDay && !!toDay && fromDay <= toDay,
+  });
+
+  const hourly = (report?.byHour ?? []).map((row) => ({
+    hour: hourLabel(row.hour),
+    items: row.count,
+    median: minutes(row.p50),
+    p90: minutes(row.p90),
+  }));
+
+  const overall = report?.overall;
+
   return (
     <div className="h-screen flex flex-col">
       <AppHeader title="Kitchen Performance Reports" showSearch={false} />
 
       <div className="flex-1 overflow-y-auto p-6">
-        <div className="grid grid-cols-4 gap-4 mb-6">
-          <StatCard
-            title="Avg Prep Time"
-            value="18 min"
-            icon={Clock}
-            color="blue"
-            trend={{ value: 12.5, isPositive: false }}
-          />
-          <StatCard
-            title="Completed Orders"
-            value={156}
-            icon={CheckCircle}
-            color="green"
-            trend={{ value: 8.2, isPositive: true }}
-          />
-          <StatCard
-            title="Delayed Orders"
-            value={8}
-            icon={AlertCircle}
-            color="red"
-            trend={{ value: 3.1, isPositive: false }}
-          />
-          <StatCard
-            title="Efficiency Rate"
-            value="94.9%"
-            icon={TrendingUp}
-            color="green"
-            trend={{ value: 5.4, isPositive: true }}
-          />
+        <div className="flex items-end gap-4 mb-6">
+          <div className="space-y-2">
+            <Label htmlFor="kitchen-report-from">From</Label>
+            <Input
+              id="kitchen-report-from"
+              type="date"
+              value={fromDay}
+              max={toDay}
+              onChange={(e) => setFromDay(e.target.value)}
+              className="w-44"
+              data-testid="input-kitchen-report-from"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kitchen-report-to">To</Label>
+            <Input
+              id="kitchen-report-to"
+              type="date"
+              value={toDay}
+              min={fromDay}
+              onChange={(e) => setToDay(e.target.value)}
+              className="w-44"
+              data-testid="input-kitchen-report-to"
+            />
+          </div>
+          <p className="text-sm text-muted-foreground pb-2">
+            Prep time runs from the KOT to the item being marked ready
+          </p>
         </div>
 
-        <div className="grid grid-cols-2 gap-6 mb-6">
-          <Card className="p-6">
-            <h3 className="font-semibold text-lg mb-4">Orders by Hour</h3>
-            <ResponsiveContainer width="100%" height={250}>
-              <BarChart data={hourlyPerformanceData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="hour" />
-                <YAxis />
-                <Tooltip />
-                <Bar dataKey="orders" fill="hsl(204 70% 53%)" />
-              </BarChart>
-            </ResponsiveContainer>
-          </Card>
-
-          <Card className="p-6">
-            <h3 className="font-semibold text-lg mb-4">Average Preparation Time</h3>
-            <ResponsiveContainer width="100%" height={250}>
-              <LineChart data={hourlyPerformanceData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="hour" />
-                <YAxis />
-                <Tooltip />
-                <Line type="monotone" dataKey="avgTime" stroke="hsl(145 63% 42%)" strokeWidth={2} />
-              </LineChart>
-            </ResponsiveContainer>
-          </Card>
-        </div>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading kitchen performance...</div>
+        ) : !report || !overall ? (
+          <div className="text-center py-8 text-muted-foreground">Pick a start date on or before the end date</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-4 mb-6">
+              <StatCard title="Median Prep Time" value={formatMinutes(overall.p50)} icon={Clock} color="blue" />
+              <StatCard title="P90 Prep Time" value={formatMinutes(overall.p90)} icon={Timer} color="yellow" />
+              <StatCard title="Items Prepared" value={overall.count} icon={CheckCircle} color="green" />
+              <StatCard
+                title="Late Items"
+                value={`${overall.late} (${latePercent(overall)}%)`}
+                icon={AlertCircle}
+                color="red"
+              />
+            </div>
 
-        <Card className="p-6 mb-6">
-          <h3 className="font-semibold text-lg mb-4">Kitchen Staff Performance</h3>
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead>
-                <tr className="border-b border-border">
-                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Chef Name</th>
-                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Station</th>
-                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Orders Completed</th>
-                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Avg Prep Time</th>
-                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Efficiency</th>
-                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Rating</th>
-                </tr>
-              </thead>
-              <tbody>
-                {[
-                  { name: "Rajesh Kumar", station: "Main Kitchen", orders: 45, avgTime: 16, efficiency: 96.5, rating: 4.8 },
-                  { name: "Priya Sharma", station: "Grill", orders: 38, avgTime: 18, efficiency: 94.2, rating: 4.7 },
-                  { name: "Amit Patel", station: "Wok", orders: 42, avgTime: 17, efficiency: 95.8, rating: 4.9 },
-                  { name: "Sneha Reddy", station: "Salad Bar", orders: 31, avgTime: 12, efficiency: 98.1, rating: 4.8 },
-                ].map((chef, index) => (
-                  <tr key={index} className="border-b border-border last:border-0 hover-elevate">
-                    <td className="py-3 px-4 font-medium">{chef.name}</td>
-                    <td className="py-3 px-4">
-                      <Badge variant="outline">{chef.station}</Badge>
-                    </td>
-                    <td className="py-3 px-4 text-right">{chef.orders}</td>
-                    <td className="py-3 px-4 text-right">{chef.avgTime} min</td>
-                    <td className="py-3 px-4 text-right">
-                      <span className="text-green-600 font-semibold">{chef.efficiency}%</span>
-                    </td>
-                    <td className="py-3 px-4 text-right">{chef.rating} ⭐</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </Card>
-
-        <Card className="p-6">
-          <h3 className="font-semibold text-lg mb-4">Order Status Breakdown</h3>
-          <div className="grid grid-cols-4 gap-4">
-            {[
-              { status: "New Orders", count: 12, color: "bg-blue-500" },
-              { status: "Preparing", count: 8, color: "bg-yellow-500" },
-              { status: "Ready", count: 5, color: "bg-green-500" },
-              { status: "Delayed", count: 2, color: "bg-red-500" },
-            ].map((item, index) => (
-              <div key={index} className="p-4 bg-muted/50 rounded-lg text-center">
-                <div className={`h-2 w-full ${item.color} rounded-full mb-3`}></div>
-                <p className="text-2xl font-bold mb-1">{item.count}</p>
-                <p className="text-sm text-muted-foreground">{item.status}</p>
+            <div className="grid grid-cols-2 gap-6 mb-6">
+              <Card className="p-6">
+                <h3 className="font-semibold text-lg mb-4">Items Sent by Hour</h3>
+                <ResponsiveContainer width="100%" height={250}>
+                  <BarChart data={hourly}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="hour" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="items" name="Items" fill="hsl(204 70% 53%)" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </Card>
+
+              <Card className="p-6">
+                <h3 className="font-semibold text-lg mb-4">Prep Time by Hour (min)</h3>
+                <ResponsiveContainer width="100%" height={250}>
+                  <LineChart data={hourly}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="hour" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey="median" name="Median" stroke="hsl(145 63% 42%)" strokeWidth={2} />
+                    <Line type="monotone" dataKey="p90" name="P90" stroke="hsl(0 72% 51%)" strokeWidth={2} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </Card>
+            </div>
+
+            <Card className="p-6 mb-6">
+              <h3 className="font-semibold text-lg mb-4">Slowest Dishes</h3>
+              <StatsTable
+                rows={report.slowest}
+                label="Dish"
+                nameOf={(row) => row.name}
+                keyOf={(row) => row.menuItemId}
+                testId="table-slowest-dishes"
+              />
+            </Card>
+
+            <Card className="p-6 mb-6">
+              <h3 className="font-semibold text-lg mb-4 flex items-center gap-2">
+                <ChefHat className="h-5 w-5" />
+                By Station
+              </h3>
+              <StatsTable
+                rows={report.byStation}
+                label="Station"
+                nameOf={(row) => <Badge variant="outline">{row.name}</Badge>}
+                keyOf={(row) => stationKey(row.stationId)}
+                testId="table-station-performance"
+              />
+            </Card>
+
+            <Card className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold text-lg">By Item</h3>
+                {(report.pending > 0 || report.voided > 0) && (
+                  <span className="text-sm text-muted-foreground" data-testid="text-kitchen-pending">
+                    {[
+                      report.pending > 0 && `${report.pending} sent in this period not marked ready yet`,
+                      report.voided > 0 && `${report.voided} voided before ready`,
+                    ].filter(Boolean).join(" · ")}
+                  </span>
+                )}
               </div>
-            ))}
-          </div>
-        </Card>
+              <StatsTable
+                rows={report.byItem}
+                label="Item"
+                nameOf={(row) => row.name}
+                keyOf={(row) => row.menuItemId}
+                testId="table-item-performance"
+              />
+            </Card>
+          </>
+        )}
       </div>
     </div>
   );
@@ -1,12 +1,41 @@
 import { useMemo, useState, useEffect, useRef } from "react";
-import { useQuery, useMutation, useQueries } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import AppHeader from "@/components/AppHeader";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Clock, Check, History, PlayCircle, ChevronDown, ChevronUp, Menu, Smartphone } from "lucide-react";
+import { Clock, Check, History, PlayCircle, ChevronDown, ChevronUp, Menu, Smartphone, Volume2, VolumeX } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Order, OrderItem as DBOrderItem, Table } from "@shared/schema";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  KitchenSlaSettings,
+  KitchenSlaThreshold,
+  KitchenStation,
+  MenuItem,
+  Order,
+  OrderItem as DBOrderItem,
+} from "@shared/schema";
+import { MAIN_KITCHEN } from "@shared/stations";
+import { courseLabel, groupByCourse, hasCourses } from "@shared/courses";
+import {
+  defaultKitchenSla,
+  formatElapsed,
+  isPendingLine,
+  slaThreshold,
+  ticketTiming,
+  type KdsTicket,
+  type SlaLevel,
+} from "@shared/kds";
+import { useKdsFeed } from "@/hooks/use-kds-feed";
+import { BUMP_BAR_KEYS, useBumpBar } from "@/hooks/use-bump-bar";
+import { playChime } from "@/lib/chime";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -16,108 +45,132 @@ import {
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
 
-const kitchenTimerStore = new Map<string, { 
-  startTime: number, 
-  pausedAt: number | null,
-  wasCompleted: boolean,
-  itemIds: string[]
-}>();
-
 interface OrderWithDetails {
   order: Order;
   items: DBOrderItem[];
   tableNumber: string;
 }
 
+const ALL_STATIONS = "all";
+
+// Where the order goes: its table, or the delivery / pickup counter. Lines are
+// put in course order so the card and the bump bar walk them the same way
+const withLabel = ({ order, items, tableNumber }: KdsTicket): OrderWithDetails => ({
+  order,
+  items: groupByCourse(items).flatMap((group) => group.items),
+  tableNumber: order.tableId
+    ? tableNumber ?? "Unknown"
+    : order.orderType === "delivery" ? "Delivery" : "Pickup",
+});
+const STATION_STORAGE_KEY = "kds-station";
+const SOUND_STORAGE_KEY = "kds-sound";
+
+// One clock for the whole screen so every ticket timer ticks together
+function useNow(intervalMs = 1000) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+  return now;
+}
+
+// Statuses a bump or recall moved some lines away from, newest last
+interface BumpRecord {
+  orderId: string;
+  lines: { id: string; status: string }[];
+}
+
 export default function KitchenPage() {
   const [activeTab, setActiveTab] = useState<"current" | "served" | "completed">("current");
-  
-  const { data: activeOrders = [] } = useQuery<Order[]>({
-    queryKey: ["/api/orders/active"],
-  });
+  const { toast } = useToast();
+  // Remembered per screen, so the bar's display stays on the bar
+  const [stationFilter, setStationFilter] = useState<string>(
+    () => localStorage.getItem(STATION_STORAGE_KEY) ?? ALL_STATIONS
+  );
 
-  const { data: completedOrders = [] } = useQuery<Order[]>({
-    queryKey: ["/api/orders/completed"],
-  });
+  useEffect(() => {
+    localStorage.setItem(STATION_STORAGE_KEY, stationFilter);
+  }, [stationFilter]);
 
-  const { data: tables = [] } = useQuery<Table[]>({
-    queryKey: ["/api/tables"],
+  const { data: stations = [], isSuccess: stationsLoaded } = useQuery<KitchenStation[]>({
+    queryKey: ["/api/kitchen-stations"],
   });
 
-  const orderItemQueries = useQueries({
-    queries: activeOrders.map((order) => ({
-      queryKey: ["/api/orders", order.id, "items"],
-      queryFn: async () => {
-        const res = await fetch(`/api/orders/${order.id}/items`);
-        return await res.json() as DBOrderItem[];
-      },
-    })),
+  // Fall back to every station if the remembered one has since been removed
+  useEffect(() => {
+    if (
+      stationsLoaded &&
+      stationFilter !== ALL_STATIONS &&
+      stationFilter !== MAIN_KITCHEN &&
+      !stations.some((station) => station.id === stationFilter)
+    ) {
+      setStationFilter(ALL_STATIONS);
+    }
+  }, [stationsLoaded, stations, stationFilter]);
+
+  // Filtered by station on the server; a combo keeps just the components made there
+  const station = stationFilter === ALL_STATIONS ? undefined : stationFilter;
+  const { data: activeFeed = [], isLoading } = useKdsFeed({ status: "active", station });
+  const { data: completedFeed = [] } = useKdsFeed({ status: "completed", station });
+
+  const now = useNow();
+
+  const { data: sla = defaultKitchenSla } = useQuery<KitchenSlaSettings>({
+    queryKey: ["/api/settings/kitchen-sla"],
   });
 
-  const completedOrderItemQueries = useQueries({
-    queries: completedOrders.map((order) => ({
-      queryKey: ["/api/orders", order.id, "items"],
-      queryFn: async () => {
-        const res = await fetch(`/api/orders/${order.id}/items`);
-        return await res.json() as DBOrderItem[];
-      },
-    })),
+  const { data: menuItems = [] } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu"],
   });
 
+  const thresholdFor = useMemo(() => {
+    const categories = new Map(menuItems.map((menuItem) => [menuItem.id, menuItem.category]));
+    return (item: DBOrderItem) => slaThreshold(sla, categories.get(item.menuItemId));
+  }, [menuItems, sla]);
+
+  const [soundOn, setSoundOn] = useState(() => localStorage.getItem(SOUND_STORAGE_KEY) !== "off");
+
+  useEffect(() => {
+    localStorage.setItem(SOUND_STORAGE_KEY, soundOn ? "on" : "off");
+  }, [soundOn]);
+
+  // Lines this screen has already seen; the first load and a station switch fill it without a chime
+  const seenLines = useRef<{ station: string | undefined; ids: Set<string> } | null>(null);
+
+  useEffect(() => {
+    if (isLoading) {
+      return;
+    }
+    const lines = activeFeed.flatMap((ticket) => ticket.items);
+    const seen = seenLines.current;
+    if (!seen || seen.station !== station) {
+      seenLines.current = { station, ids: new Set(lines.map((line) => line.id)) };
+      return;
+    }
+    const fresh = lines.filter((line) => !seen.ids.has(line.id));
+    fresh.forEach((line) => seen.ids.add(line.id));
+    if (soundOn && fresh.some((line) => line.status === "new")) {
+      playChime();
+    }
+  }, [activeFeed, isLoading, station, soundOn]);
+
   const completeOrderMutation = useMutation({
     mutationFn: async (orderId: string) => {
       const res = await apiRequest("POST", `/api/orders/${orderId}/complete`);
       return await res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/orders/active"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/orders/completed"] });
+    onError: (error) => {
+      toast({
+        title: "Order not completed",
+        description: apiErrorMessage(error, "Failed to complete order"),
+        variant: "destructive",
+      });
     },
   });
 
-  const ordersWithDetails = useMemo(() => {
-    if (orderItemQueries.some(q => q.isLoading)) {
-      return [];
-    }
-
-    return activeOrders.map((order, index) => {
-      const items = orderItemQueries[index]?.data || [];
-      
-      let tableNumber = "";
-      if (order.tableId) {
-        const table = tables.find(t => t.id === order.tableId);
-        tableNumber = table?.tableNumber || "Unknown";
-      } else if (order.orderType === "delivery") {
-        tableNumber = "Delivery";
-      } else {
-        tableNumber = "Pickup";
-      }
-
-      return { order, items, tableNumber };
-    });
-  }, [activeOrders, orderItemQueries, tables]);
-
-  const completedOrdersWithDetails = useMemo(() => {
-    if (completedOrderItemQueries.some(q => q.isLoading)) {
-      return [];
-    }
-
-    return completedOrders.map((order, index) => {
-      const items = completedOrderItemQueries[index]?.data || [];
-      
-      let tableNumber = "";
-      if (order.tableId) {
-        const table = tables.find(t => t.id === order.tableId);
-        tableNumber = table?.tableNumber || "Unknown";
-      } else if (order.orderType === "delivery") {
-        tableNumber = "Delivery";
-      } else {
-        tableNumber = "Pickup";
-      }
-
-      return { order, items, tableNumber };
-    });
-  }, [completedOrders, completedOrderItemQueries, tables]);
+  const ordersWithDetails = useMemo(() => activeFeed.map(withLabel), [activeFeed]);
+  const completedOrdersWithDetails = useMemo(() => completedFeed.map(withLabel), [completedFeed]);
 
   const { currentKOT, servedKOT, completedKOT } = useMemo(() => {
     const current = ordersWithDetails.filter(({ items }) => 
@@ -135,23 +188,14 @@ export default function KitchenPage() {
 
   const allOrders = [...currentKOT, ...servedKOT, ...completedKOT];
 
-  const isLoading = orderItemQueries.some(q => q.isLoading);
-
   const updateItemStatusMutation = useMutation({
     mutationFn: async ({ itemId, status }: { itemId: string; status: string }) => {
       const res = await apiRequest("PATCH", `/api/order-items/${itemId}/status`, { status });
       return await res.json();
     },
+    // The orders themselves are patched in by the kds_patch WebSocket event
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/orders/active"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/orders/completed"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
-      queryClient.invalidateQueries({
-        predicate: (query) =>
-          Array.isArray(query.queryKey) &&
-          query.queryKey[0] === "/api/orders" &&
-          query.queryKey[2] === "items"
-      });
     },
   });
 
@@ -167,15 +211,7 @@ export default function KitchenPage() {
       );
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/orders/active"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/orders/completed"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
-      queryClient.invalidateQueries({
-        predicate: (query) =>
-          Array.isArray(query.queryKey) &&
-          query.queryKey[0] === "/api/orders" &&
-          query.queryKey[2] === "items"
-      });
     },
   });
 
@@ -191,22 +227,57 @@ export default function KitchenPage() {
       );
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/orders/active"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/orders/completed"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
-      queryClient.invalidateQueries({
-        predicate: (query) =>
-          Array.isArray(query.queryKey) &&
-          query.queryKey[0] === "/api/orders" &&
-          query.queryKey[2] === "items"
-      });
     },
   });
 
-  const handleItemStatusChange = async (itemId: string, newStatus: string) => {
-    await updateItemStatusMutation.mutateAsync({ itemId, status: newStatus });
+  const bumpHistory = useRef<BumpRecord[]>([]);
+
+  const moveLines = (orderId: string, lines: DBOrderItem[], status: string) => {
+    if (lines.length === 0) {
+      return;
+    }
+    bumpHistory.current.push({ orderId, lines: lines.map(({ id, status }) => ({ id, status })) });
+    lines.forEach((line) => updateItemStatusMutation.mutate({ itemId: line.id, status }));
+  };
+
+  const itemsOf = (orderId: string) => currentKOT.find(({ order }) => order.id === orderId)?.items ?? [];
+
+  const handleStartTicket = (orderId: string) => {
+    moveLines(orderId, itemsOf(orderId).filter((item) => item.status === "new"), "preparing");
   };
 
+  const handleBumpTicket = (orderId: string) => {
+    moveLines(orderId, itemsOf(orderId).filter(isPendingLine), "ready");
+  };
+
+  const handleAdvanceLine = (orderId: string, itemId: string) => {
+    const line = itemsOf(orderId).find((item) => item.id === itemId);
+    if (line && isPendingLine(line)) {
+      moveLines(orderId, [line], line.status === "new" ? "preparing" : "ready");
+    }
+  };
+
+  // Puts the most recent bump back the way it was
+  const handleRecall = () => {
+    const last = bumpHistory.current.pop();
+    last?.lines.forEach((line) => updateItemStatusMutation.mutate({ itemId: line.id, status: line.status }));
+    return last?.orderId;
+  };
+
+  const bumpBarTickets = useMemo(
+    () => currentKOT.map(({ order, items }) => ({ id: order.id, lineIds: items.map((item) => item.id) })),
+    [currentKOT]
+  );
+
+  const { selectedTicketId, selectedLineId } = useBumpBar({
+    tickets: bumpBarTickets,
+    enabled: activeTab === "current",
+    onAdvanceLine: handleAdvanceLine,
+    onBumpTicket: handleBumpTicket,
+    onRecall: handleRecall,
+  });
+
   const handleStartAll = async () => {
     await startAllMutation.mutateAsync();
   };
@@ -230,6 +301,7 @@ export default function KitchenPage() {
     preparing: currentKOT.filter((o) => getOverallOrderStatus(o.items) === "preparing").length,
     ready: currentKOT.filter((o) => getOverallOrderStatus(o.items) === "ready").length,
     served: servedKOT.length,
+    late: currentKOT.filter(({ order, items }) => ticketTiming(order, items, now, thresholdFor).level === "late").length,
     completed: completedKOT.length,
   };
 
@@ -270,6 +342,14 @@ export default function KitchenPage() {
                 Completed <Badge variant="secondary">{statusCounts.completed}</Badge>
               </span>
             </div>
+            {statusCounts.late > 0 && (
+              <div className="flex items-center gap-2" data-testid="text-late-count">
+                <div className="w-3 h-3 rounded-full bg-red-700 animate-pulse"></div>
+                <span className="text-sm font-semibold text-red-700 dark:text-red-400">
+                  Late <Badge variant="destructive">{statusCounts.late}</Badge>
+                </span>
+              </div>
+            )}
           </div>
 
           <DropdownMenu>
@@ -320,6 +400,29 @@ export default function KitchenPage() {
           </DropdownMenu>
 
           <div className="flex gap-2 flex-wrap items-center">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSoundOn(!soundOn)}
+              title={soundOn ? "Mute new ticket alert" : "Play a sound for new tickets"}
+              data-testid="button-toggle-kds-sound"
+            >
+              {soundOn ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+            </Button>
+            {stations.length > 0 && (
+              <Select value={stationFilter} onValueChange={setStationFilter}>
+                <SelectTrigger className="w-44" data-testid="select-kds-station">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STATIONS}>All Stations</SelectItem>
+                  {stations.map((station) => (
+                    <SelectItem key={station.id} value={station.id}>{station.name}</SelectItem>
+                  ))}
+                  <SelectItem value={MAIN_KITCHEN}>Main Kitchen</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
             <Button
               onClick={handleStartAll}
               disabled={currentKOT.length === 0 || startAllMutation.isPending}
@@ -403,7 +506,12 @@ export default function KitchenPage() {
           <div className="space-y-6">
             {activeTab === "current" && (
               <div>
-                <h2 className="text-lg font-semibold mb-4">Current KOT - New & Preparing</h2>
+                <div className="flex items-baseline justify-between gap-4 mb-4">
+                  <h2 className="text-lg font-semibold">Current KOT - New & Preparing</h2>
+                  <p className="text-xs text-muted-foreground hidden lg:block" data-testid="text-bump-bar-keys">
+                    ← → ticket · ↑ ↓ item · Space advance item · Enter bump ticket · Backspace recall
+                  </p>
+                </div>
                 {currentKOT.length === 0 ? (
                   <div className="text-center py-8 text-muted-foreground">No current orders</div>
                 ) : (
@@ -414,11 +522,15 @@ export default function KitchenPage() {
                         orderId={order.id}
                         order={order}
                         tableNumber={tableNumber}
-                        orderTime={new Date(order.createdAt)}
                         items={items}
                         status={getOverallOrderStatus(items)}
-                        onItemStatusChange={handleItemStatusChange}
-                        onComplete={completeOrderMutation.mutate}
+                        now={now}
+                        thresholdFor={thresholdFor}
+                        selected={order.id === selectedTicketId}
+                        selectedLineId={order.id === selectedTicketId ? selectedLineId : null}
+                        onAdvanceLine={handleAdvanceLine}
+                        onStart={handleStartTicket}
+                        onBump={handleBumpTicket}
                         isHistory={false}
                       />
                     ))}
@@ -440,11 +552,13 @@ export default function KitchenPage() {
                         orderId={order.id}
                         order={order}
                         tableNumber={tableNumber}
-                        orderTime={new Date(order.createdAt)}
                         items={items}
                         status="ready"
-                        onItemStatusChange={handleItemStatusChange}
-                        onComplete={completeOrderMutation.mutate}
+                        now={now}
+                        thresholdFor={thresholdFor}
+                        onAdvanceLine={handleAdvanceLine}
+                        onStart={handleStartTicket}
+                        onBump={handleBumpTicket}
                         isHistory={false}
                       />
                     ))}
@@ -466,10 +580,11 @@ export default function KitchenPage() {
                         orderId={order.id}
                         order={order}
                         tableNumber={tableNumber}
-                        orderTime={new Date(order.createdAt)}
                         items={items}
                         status="ready"
-                        onItemStatusChange={handleItemStatusChange}
+                        now={now}
+                        thresholdFor={thresholdFor}
+                        onComplete={completeOrderMutation.mutate}
                         isHistory={true}
                       />
                     ))}
@@ -488,10 +603,16 @@ interface KitchenOrderCardProps {
   orderId: string;
   order: Order;
   tableNumber: string;
-  orderTime: Date;
   items: DBOrderItem[];
   status: "new" | "preparing" | "ready";
-  onItemStatusChange: (itemId: string, status: string) => void;
+  now: number;
+  thresholdFor: (item: DBOrderItem) => KitchenSlaThreshold;
+  // Highlighted by the bump bar
+  selected?: boolean;
+  selectedLineId?: string | null;
+  onAdvanceLine?: (orderId: string, itemId: string) => void;
+  onStart?: (orderId: string) => void;
+  onBump?: (orderId: string) => void;
   onComplete?: (orderId: string) => void;
   isHistory?: boolean;
 }
@@ -502,110 +623,62 @@ const statusConfig = {
   ready: { color: "bg-success border-success", label: "Ready", textColor: "text-success" },
 };
 
+const slaStyles: Record<SlaLevel, { ticket: string; timer: string; line: string }> = {
+  ok: { ticket: "", timer: "", line: "text-muted-foreground" },
+  warn: { ticket: "ring-4 ring-amber-400", timer: "bg-amber-400 text-black", line: "text-amber-600 font-semibold" },
+  late: { ticket: "ring-4 ring-red-700", timer: "bg-red-700 text-white animate-pulse", line: "text-red-600 font-bold" },
+};
+
 function KitchenOrderCard({
   orderId,
   order,
   tableNumber,
-  orderTime,
   items,
   status,
-  onItemStatusChange,
+  now,
+  thresholdFor,
+  selected = false,
+  selectedLineId = null,
+  onAdvanceLine,
+  onStart,
+  onBump,
   onComplete,
   isHistory = false,
 }: KitchenOrderCardProps) {
-  const [elapsedTime, setElapsedTime] = useState(0);
   const isPaid = order.status === "paid" || order.status === "completed";
-  const completedTime = order.completedAt ? new Date(order.completedAt) : null;
   const allServed = items.every(item => item.status === "served");
   const allReadyOrServed = items.every(item => item.status === "ready" || item.status === "served");
   
-  const shouldStartCollapsed = allServed || isPaid;
-  const [isCollapsed, setIsCollapsed] = useState(shouldStartCollapsed);
   const [isItemsCollapsed, setIsItemsCollapsed] = useState(false);
-
-  const itemCount = items.length;
-  const currentItemIds = items.map(i => i.id).sort();
-  
-  if (!kitchenTimerStore.has(orderId)) {
-    kitchenTimerStore.set(orderId, {
-      startTime: orderTime.getTime(),
-      pausedAt: null,
-      wasCompleted: false,
-      itemIds: currentItemIds
-    });
-  }
-
-  const orderTimer = kitchenTimerStore.get(orderId)!;
-  
-  const hasNewItems = currentItemIds.some(id => !orderTimer.itemIds.includes(id));
-  
-  if (hasNewItems && orderTimer.wasCompleted) {
-    orderTimer.startTime = Date.now();
-    orderTimer.pausedAt = null;
-    orderTimer.wasCompleted = false;
-    orderTimer.itemIds = currentItemIds;
-  } else if (hasNewItems) {
-    orderTimer.itemIds = currentItemIds;
-  }
+  const cardRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    if (isPaid && completedTime) {
-      const elapsed = Math.floor((completedTime.getTime() - orderTime.getTime()) / 1000);
-      setElapsedTime(Math.max(0, elapsed));
-      orderTimer.wasCompleted = true;
-      return;
-    }
-
-    if (allReadyOrServed) {
-      if (orderTimer.pausedAt === null) {
-        orderTimer.pausedAt = Math.max(0, Math.floor((Date.now() - orderTimer.startTime) / 1000));
-      }
-      setElapsedTime(orderTimer.pausedAt);
-      orderTimer.wasCompleted = true;
-      return;
+    if (selected) {
+      cardRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
     }
+  }, [selected]);
 
-    orderTimer.pausedAt = null;
-
-    const updateTime = () => {
-      const elapsed = Math.floor((Date.now() - orderTimer.startTime) / 1000);
-      setElapsedTime(Math.max(0, elapsed));
-    };
-
-    updateTime();
-    const interval = setInterval(updateTime, 1000);
-    return () => clearInterval(interval);
-  }, [orderTime, isPaid, completedTime, allReadyOrServed, currentItemIds.join(',')]);
-
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
-  };
+  const timing = ticketTiming(order, items, now, thresholdFor);
+  // Paid tickets show how long the whole order took; SLA colours only apply while something is cooking
+  const paidSeconds =
+    isPaid && order.completedAt
+      ? (new Date(order.completedAt).getTime() - new Date(order.createdAt).getTime()) / 1000
+      : null;
+  const sla = slaStyles[isHistory ? "ok" : timing.level];
 
   const hasAnyNewItems = items.some((item) => item.status === "new");
 
-  const handleStartAll = async () => {
-    const newItems = items.filter(item => item.status === "new");
-    for (const item of newItems) {
-      await onItemStatusChange(item.id, "preparing");
-    }
-  };
-
-  const handleMarkAllPrepared = async () => {
-    const pendingItems = items.filter(item => item.status !== "ready" && item.status !== "served");
-    for (const item of pendingItems) {
-      await onItemStatusChange(item.id, "ready");
-    }
-  };
-  
   return (
     <div
+      ref={cardRef}
       className={cn(
         "bg-card rounded-lg border-2 overflow-hidden",
-        isPaid ? "border-blue-500 bg-blue-500/10" : allServed ? "border-purple-500 bg-purple-500/10" : statusConfig[status].color
+        isPaid ? "border-blue-500 bg-blue-500/10" : allServed ? "border-purple-500 bg-purple-500/10" : statusConfig[status].color,
+        sla.ticket,
+        selected && "outline outline-4 outline-offset-4 outline-primary"
       )}
       data-testid={`kds-order-${orderId}`}
+      data-sla={timing.level}
     >
       <div className={cn(
         "p-3 text-white",
@@ -637,9 +710,26 @@ function KitchenOrderCard({
               <p className="text-xs opacity-75 mt-0.5">{order.customerName} • {order.customerPhone}</p>
             )}
           </div>
-          <div className="flex items-center gap-1">
-            <Clock className="h-4 w-4" />
-            <span className="font-mono font-semibold">{formatTime(elapsedTime)}</span>
+          <div
+            className={cn("flex items-center gap-1 rounded px-1.5 py-0.5", paidSeconds === null && sla.timer)}
+            data-testid={`text-ticket-timer-${orderId}`}
+          >
+            {paidSeconds !== null ? (
+              <>
+                <Clock className="h-4 w-4" />
+                <span className="font-mono font-semibold">{formatElapsed(paidSeconds)}</span>
+              </>
+            ) : timing.elapsedSeconds !== null ? (
+              <>
+                <Clock className="h-4 w-4" />
+                <span className="font-mono font-semibold">{formatElapsed(timing.elapsedSeconds)}</span>
+              </>
+            ) : (
+              <>
+                <Check className="h-4 w-4" />
+                <span className="font-semibold">{allServed ? "Served" : "Ready"}</span>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -662,49 +752,83 @@ function KitchenOrderCard({
         
         {!isItemsCollapsed && (
           <div className="space-y-2 mb-3">
-            {items.map((item) => (
-              <div
-                key={item.id}
-                className="flex items-start justify-between py-2 border-b border-border last:border-0"
-              >
-                <div className="flex-1">
-                  <div className="flex items-center gap-2">
-                    <Badge variant="outline" className="font-mono">
-                      {item.quantity}x
-                    </Badge>
-                    <span
-                      className={cn(
-                        "font-medium",
-                        (item.status === "ready" || item.status === "served") &&
-                          "line-through text-muted-foreground"
+            {groupByCourse(items).map((group) => (
+              <div key={group.course ?? "none"} className="space-y-2">
+                {hasCourses(items) && (
+                  <p className="text-xs font-bold uppercase tracking-wide text-muted-foreground pt-1" data-testid={`text-course-${orderId}-${group.course ?? "none"}`}>
+                    {courseLabel(group.course)}
+                  </p>
+                )}
+                {group.items.map((item) => (
+                  <div
+                    key={item.id}
+                    className={cn(
+                      "flex items-start justify-between py-2 border-b border-border last:border-0",
+                      item.id === selectedLineId && "bg-primary/10 -mx-2 px-2 rounded"
+                    )}
+                  >
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="font-mono">
+                          {item.quantity}x
+                        </Badge>
+                        <span
+                          className={cn(
+                            "font-medium",
+                            (item.status === "ready" || item.status === "served") &&
+                              "line-through text-muted-foreground"
+                          )}
+                        >
+                          {item.name}
+                        </span>
+                        {item.seatNumber && (
+                          <Badge variant="secondary" className="text-xs" data-testid={`badge-seat-${item.id}`}>
+                            S{item.seatNumber}
+                          </Badge>
+                        )}
+                      </div>
+                      {item.modifiers?.length > 0 && (
+                        <ul className="text-sm mt-1 ml-12" data-testid={`list-modifiers-${item.id}`}>
+                          {item.modifiers.map((modifier) => (
+                            <li key={modifier.optionId}>+ {modifier.name}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {item.components?.length > 0 && (
+                        <ul className="text-sm mt-1 ml-12" data-testid={`list-components-${item.id}`}>
+                          {item.components.map((component, index) => (
+                            <li key={index}>{component.quantity * item.quantity}x {component.name}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {item.notes && (
+                        <p className="text-xs text-muted-foreground mt-1 ml-12 italic">{item.notes}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {timing.lines[item.id] && !isHistory && (
+                        <span
+                          className={cn("font-mono text-xs", slaStyles[timing.lines[item.id].level].line)}
+                          data-testid={`text-line-timer-${item.id}`}
+                        >
+                          {formatElapsed(timing.lines[item.id].elapsedSeconds)}
+                        </span>
                       )}
-                    >
-                      {item.name}
-                    </span>
+                      {item.status === "ready" || item.status === "served" ? (
+                        <Check className="h-4 w-4 text-success" />
+                      ) : !isHistory && onAdvanceLine ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onAdvanceLine(orderId, item.id)}
+                          data-testid={`button-status-${item.id}`}
+                        >
+                          {item.status === "new" ? "Start" : "Ready"}
+                        </Button>
+                      ) : null}
+                    </div>
                   </div>
-                  {item.notes && (
-                    <p className="text-xs text-muted-foreground mt-1 ml-12 italic">{item.notes}</p>
-                  )}
-                </div>
-                <div className="flex items-center gap-2">
-                  {item.status === "ready" || item.status === "served" ? (
-                    <Check className="h-4 w-4 text-success" />
-                  ) : !isHistory ? (
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() =>
-                        onItemStatusChange(
-                          item.id,
-                          item.status === "new" ? "preparing" : "ready"
-                        )
-                      }
-                      data-testid={`button-status-${item.id}`}
-                    >
-                      {item.status === "new" ? "Start" : "Ready"}
-                    </Button>
-                  ) : null}
-                </div>
+                ))}
               </div>
             ))}
           </div>
@@ -716,7 +840,7 @@ function KitchenOrderCard({
               <>
                 <Button
                   className="flex-1"
-                  onClick={handleStartAll}
+                  onClick={() => onStart?.(orderId)}
                   disabled={!hasAnyNewItems}
                   data-testid={`button-start-all-${orderId}`}
                 >
@@ -725,7 +849,7 @@ function KitchenOrderCard({
                 <Button
                   className="flex-1"
                   variant="default"
-                  onClick={handleMarkAllPrepared}
+                  onClick={() => onBump?.(orderId)}
                   data-testid={`button-mark-all-prepared-${orderId}`}
                 >
                   Mark All Prepared
@@ -737,15 +861,10 @@ function KitchenOrderCard({
                 ✓ Ready for Pickup
               </div>
             )}
-            {allReadyOrServed && (order.orderType === "delivery" || order.orderType === "pickup") && onComplete && (
-              <Button
-                className="w-full"
-                variant="default"
-                onClick={() => onComplete(orderId)}
-                data-testid={`button-complete-${orderId}`}
-              >
-                Complete {order.orderType === "delivery" ? "Delivery" : "Pickup"}
-              </Button>
+            {allReadyOrServed && (order.orderType === "delivery" || order.orderType === "pickup") && (
+              <div className="flex-1 text-center py-2 font-semibold text-success" data-testid={`text-awaiting-payment-${orderId}`}>
+                ✓ Ready · awaiting payment
+              </div>
             )}
             {allServed && order.orderType === "dine-in" && (
               <div className="flex-1 text-center py-2 font-semibold text-purple-600 dark:text-purple-400">
@@ -754,12 +873,22 @@ function KitchenOrderCard({
             )}
           </div>
         )}
+        {isHistory && order.status === "paid" && (order.orderType === "delivery" || order.orderType === "pickup") && onComplete && (
+          <Button
+            className="w-full mb-2"
+            variant="default"
+            onClick={() => onComplete(orderId)}
+            data-testid={`button-complete-${orderId}`}
+          >
+            Complete {order.orderType === "delivery" ? "Delivery" : "Pickup"}
+          </Button>
+        )}
         {isHistory && (
           <div className={cn(
             "flex-1 text-center py-2 font-semibold",
             isPaid ? "text-blue-600 dark:text-blue-400" : "text-purple-600 dark:text-purple-400"
           )}>
-            {isPaid ? "✓ Completed and Paid" : "✓ Served - In History"}
+            {order.status === "completed" ? "✓ Completed and Paid" : isPaid ? "✓ Paid" : "✓ Served - In History"}
           </div>
         )}
       </div>
@@ -3,17 +3,37 @@ import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 
 export default function LoginPage() {
-  const [, setLocation] = useLocation();
+  const [location, setLocation] = useLocation();
+  const { loginMutation } = useAuth();
+  const { toast } = useToast();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [rememberMe, setRememberMe] = useState(false);
 
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
-    console.log("Login:", { username, password, rememberMe });
-    setLocation("/");
+    loginMutation.mutate(
+      { username, password, rememberMe },
+      {
+        onSuccess: () => {
+          if (location === "/login") {
+            setLocation("/");
+          }
+        },
+        onError: () => {
+          setPassword("");
+          toast({
+            title: "Sign in failed",
+            description: "Invalid username or password",
+            variant: "destructive",
+          });
+        },
+      },
+    );
   };
 
   return (
@@ -70,14 +90,16 @@ export default function LoginPage() {
               </Button>
             </div>
 
-            <Button type="submit" className="w-full" size="lg" data-testid="button-login">
-              Sign In
+            <Button
+              type="submit"
+              className="w-full"
+              size="lg"
+              disabled={loginMutation.isPending}
+              data-testid="button-login"
+            >
+              {loginMutation.isPending ? "Signing In..." : "Sign In"}
             </Button>
           </form>
-
-          <div className="mt-6 text-center text-sm text-muted-foreground">
-            <p>Demo credentials: admin / admin123</p>
-          </div>
         </div>
 
         <p className="text-center text-sm text-muted-foreground mt-6">
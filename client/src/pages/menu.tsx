@@ -1,8 +1,10 @@
 import { useState, useEffect } from "react";
-import { Plus, Edit, Trash2, Eye, MoreVertical, Database, RefreshCw, ArrowUpDown, Search, Filter, X } from "lucide-react";
+import { Plus, Edit, Trash2, Eye, MoreVertical, Database, RefreshCw, ArrowUpDown, Search, Filter, X, SlidersHorizontal } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import AppHeader from "@/components/AppHeader";
 import CategorySidebar from "@/components/CategorySidebar";
+import ModifierGroupsDialog from "@/components/ModifierGroupsDialog";
+import ComboComponentsFields from "@/components/ComboComponentsFields";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -30,9 +32,11 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { MenuItem, InventoryItem } from "@shared/schema";
+import type { ComboComponent, MenuItem, InventoryItem, KitchenStation, ModifierGroup, TaxProfile } from "@shared/schema";
+import { unitsFor } from "@shared/units";
 
 type SortOption = "name-asc" | "name-desc" | "price-asc" | "price-desc" | "category-asc" | "category-desc" | "cost-asc" | "cost-desc" | "type-veg" | "type-nonveg";
 type AvailabilityFilter = "all" | "available" | "unavailable";
@@ -45,6 +49,13 @@ interface RecipeIngredient {
   unit: string;
 }
 
+// Select value meaning "no item-level setting, follow the category" - Radix selects cannot hold an empty value
+const FROM_CATEGORY = "category";
+
+function parseCategoryOverride(value: FormDataEntryValue | null): string | null {
+  return value && value !== FROM_CATEGORY ? (value as string) : null;
+}
+
 export default function MenuPage() {
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [sortOption, setSortOption] = useState<SortOption>("name-asc");
@@ -56,9 +67,11 @@ export default function MenuPage() {
   const [isSyncDialogOpen, setIsSyncDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isImageViewerOpen, setIsImageViewerOpen] = useState(false);
+  const [isModifierGroupsOpen, setIsModifierGroupsOpen] = useState(false);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
   const [ingredients, setIngredients] = useState<RecipeIngredient[]>([]);
+  const [comboComponents, setComboComponents] = useState<ComboComponent[]>([]);
   const [isLoadingRecipe, setIsLoadingRecipe] = useState(false);
   const { toast } = useToast();
 
@@ -74,6 +87,18 @@ export default function MenuPage() {
     queryKey: ["/api/menu/categories"],
   });
 
+  const { data: taxProfiles = [] } = useQuery<TaxProfile[]>({
+    queryKey: ["/api/tax-profiles"],
+  });
+
+  const { data: kitchenStations = [] } = useQuery<KitchenStation[]>({
+    queryKey: ["/api/kitchen-stations"],
+  });
+
+  const { data: modifierGroups = [] } = useQuery<ModifierGroup[]>({
+    queryKey: ["/api/modifier-groups"],
+  });
+
   const { data: inventoryItems = [] } = useQuery<InventoryItem[]>({
     queryKey: ["/api/inventory"],
   });
@@ -224,6 +249,10 @@ export default function MenuPage() {
         image: formData.get("image") as string || null,
         description: formData.get("description") as string || null,
         quickCode: formData.get("quickCode") as string || null,
+        taxProfileId: parseCategoryOverride(formData.get("taxProfileId")),
+        stationId: parseCategoryOverride(formData.get("stationId")),
+        modifierGroupIds: formData.getAll("modifierGroupIds") as string[],
+        comboComponents: comboComponents.filter((component) => component.menuItemId),
       });
 
       if (ingredients.length > 0) {
@@ -240,6 +269,7 @@ export default function MenuPage() {
       }
 
       setIngredients([]);
+      setComboComponents([]);
       toast({
         title: "Success",
         description: "Menu item and recipe added successfully",
@@ -271,6 +301,10 @@ export default function MenuPage() {
           image: formData.get("image") as string || null,
           description: formData.get("description") as string || null,
           quickCode: formData.get("quickCode") as string || null,
+          taxProfileId: parseCategoryOverride(formData.get("taxProfileId")),
+          stationId: parseCategoryOverride(formData.get("stationId")),
+          modifierGroupIds: formData.getAll("modifierGroupIds") as string[],
+          comboComponents: comboComponents.filter((component) => component.menuItemId),
         },
       });
 
@@ -344,6 +378,7 @@ export default function MenuPage() {
     setEditingItem(item);
     setIsEditDialogOpen(true);
     setIngredients([]);
+    setComboComponents(item.comboComponents ?? []);
     
     setIsLoadingRecipe(true);
     try {
@@ -403,15 +438,23 @@ export default function MenuPage() {
     setIngredients(updated);
   };
 
+  // A recipe can be written in any unit the ingredient's stock converts from, e.g. g against stock kept in kg
+  const ingredientUnits = (inventoryItemId: string) => {
+    const item = inventoryItems.find((inventoryItem) => inventoryItem.id === inventoryItemId);
+    return item ? unitsFor(item) : [];
+  };
+
   const resetAddDialog = () => {
     setIsAddDialogOpen(false);
     setIngredients([]);
+    setComboComponents([]);
   };
 
   const resetEditDialog = () => {
     setIsEditDialogOpen(false);
     setEditingItem(null);
     setIngredients([]);
+    setComboComponents([]);
   };
 
   return (
@@ -532,6 +575,11 @@ export default function MenuPage() {
               </DropdownMenuContent>
             </DropdownMenu>
 
+            <Button size="sm" variant="outline" onClick={() => setIsModifierGroupsOpen(true)} data-testid="button-modifier-groups">
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Modifiers
+            </Button>
+
             <Dialog open={isAddDialogOpen} onOpenChange={(open) => {
               setIsAddDialogOpen(open);
               if (!open) resetAddDialog();
@@ -638,6 +686,52 @@ export default function MenuPage() {
                       Unique code for quick entry in POS. Each item must have a different code.
                     </p>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="taxProfileId">Tax Profile</Label>
+                    <Select name="taxProfileId" defaultValue={FROM_CATEGORY}>
+                      <SelectTrigger data-testid="select-tax-profile">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={FROM_CATEGORY}>Use category / default</SelectItem>
+                        {taxProfiles.map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {kitchenStations.length > 0 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="stationId">Kitchen Station</Label>
+                      <Select name="stationId" defaultValue={FROM_CATEGORY}>
+                        <SelectTrigger data-testid="select-station">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={FROM_CATEGORY}>Use category / main kitchen</SelectItem>
+                          {kitchenStations.map((station) => (
+                            <SelectItem key={station.id} value={station.id}>{station.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {modifierGroups.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Modifier Groups</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {modifierGroups.map((group) => (
+                          <div key={group.id} className="flex items-center gap-2">
+                            <Checkbox id={`modifier-group-${group.id}`} name="modifierGroupIds" value={group.id} />
+                            <label htmlFor={`modifier-group-${group.id}`} className="text-sm">{group.name}</label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   
                   <div className="space-y-2">
                     <Label htmlFor="description">Description</Label>
@@ -649,6 +743,8 @@ export default function MenuPage() {
                     />
                   </div>
 
+                  <ComboComponentsFields components={comboComponents} onChange={setComboComponents} menuItems={items} />
+
                   <div className="border-t pt-4 space-y-3">
                     <div className="flex items-center justify-between">
                       <Label>Ingredients (Optional)</Label>
@@ -699,12 +795,22 @@ export default function MenuPage() {
                             </div>
                             <div className="w-20 space-y-1">
                               <Label className="text-xs">Unit</Label>
-                              <Input
+                              <Select
                                 value={ingredient.unit}
-                                readOnly
-                                className="bg-muted"
-                                data-testid={`input-unit-${index}`}
-                              />
+                                onValueChange={(value) => updateIngredient(index, "unit", value)}
+                                disabled={!ingredient.inventoryItemId}
+                              >
+                                <SelectTrigger data-testid={`select-unit-${index}`}>
+                                  <SelectValue placeholder="-" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {ingredientUnits(ingredient.inventoryItemId).map((unit) => (
+                                    <SelectItem key={unit} value={unit}>
+                                      {unit}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
                             </div>
                             <Button
                               type="button"
@@ -1092,6 +1198,54 @@ export default function MenuPage() {
                   Unique code for quick entry in POS. Each item must have a different code.
                 </p>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-taxProfileId">Tax Profile</Label>
+                <Select name="taxProfileId" defaultValue={editingItem.taxProfileId || FROM_CATEGORY}>
+                  <SelectTrigger data-testid="select-edit-tax-profile">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={FROM_CATEGORY}>Use category / default</SelectItem>
+                    {taxProfiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {kitchenStations.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="edit-stationId">Kitchen Station</Label>
+                  <Select name="stationId" defaultValue={editingItem.stationId || FROM_CATEGORY}>
+                    <SelectTrigger data-testid="select-edit-station">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={FROM_CATEGORY}>Use category / main kitchen</SelectItem>
+                      {kitchenStations.map((station) => (
+                        <SelectItem key={station.id} value={station.id}>{station.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {modifierGroups.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Modifier Groups</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {modifierGroups.map((group) => (
+                      <div key={group.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`edit-modifier-group-${group.id}`}
+                          name="modifierGroupIds"
+                          value={group.id}
+                          defaultChecked={editingItem.modifierGroupIds?.includes(group.id)}
+                        />
+                        <label htmlFor={`edit-modifier-group-${group.id}`} className="text-sm">{group.name}</label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="edit-isVeg">Vegetarian</Label>
                 <Select name="isVeg" defaultValue={editingItem.isVeg ? "true" : "false"}>
@@ -1105,6 +1259,13 @@ export default function MenuPage() {
                 </Select>
               </div>
 
+              <ComboComponentsFields
+                components={comboComponents}
+                onChange={setComboComponents}
+                menuItems={items}
+                comboId={editingItem.id}
+              />
+
               <div className="border-t pt-4 space-y-3">
                 <div className="flex items-center justify-between">
                   <Label>Ingredients (Optional)</Label>
@@ -1161,12 +1322,22 @@ export default function MenuPage() {
                         </div>
                         <div className="w-20 space-y-1">
                           <Label className="text-xs">Unit</Label>
-                          <Input
+                          <Select
                             value={ingredient.unit}
-                            readOnly
-                            className="bg-muted"
-                            data-testid={`input-unit-edit-${index}`}
-                          />
+                            onValueChange={(value) => updateIngredient(index, "unit", value)}
+                            disabled={!ingredient.inventoryItemId}
+                          >
+                            <SelectTrigger data-testid={`select-unit-edit-${index}`}>
+                              <SelectValue placeholder="-" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ingredientUnits(ingredient.inventoryItemId).map((unit) => (
+                                <SelectItem key={unit} value={unit}>
+                                  {unit}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
                         <Button
                           type="button"
@@ -1217,6 +1388,8 @@ export default function MenuPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <ModifierGroupsDialog open={isModifierGroupsOpen} onOpenChange={setIsModifierGroupsOpen} />
     </div>
   );
 }
@@ -1,25 +1,171 @@
 import { useState } from "react";
-import { Plus, Percent } from "lucide-react";
+import { Plus, Percent, Edit, Trash2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import AppHeader from "@/components/AppHeader";
+import PromotionRulesFields, {
+  emptyPromotionRules,
+  formatHappyHours,
+  formatValidity,
+  fromPromotionRulesDraft,
+  isExpired,
+  toPromotionRulesDraft,
+  type PromotionRulesDraft,
+} from "@/components/PromotionRulesFields";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { describePromotion } from "@shared/promotions";
+import { PERMISSIONS, hasPermission, type Offer, type PromotionRedemption } from "@shared/schema";
 
-interface Offer {
-  id: string;
+interface OfferDraft {
   name: string;
-  type: string;
-  discount: string;
-  validFrom: string;
-  validUntil: string;
-  status: "Active" | "Inactive";
+  description: string;
+  active: boolean;
+  rules: PromotionRulesDraft;
 }
 
+const emptyOffer: OfferDraft = { name: "", description: "", active: true, rules: emptyPromotionRules };
+
 export default function OffersPage() {
-  const [offers] = useState<Offer[]>([
-    { id: "1", name: "Happy Hour", type: "Time-based", discount: "20%", validFrom: "2024-01-01", validUntil: "2024-01-31", status: "Active" },
-    { id: "2", name: "Buy 1 Get 1", type: "BOGO", discount: "50%", validFrom: "2024-01-15", validUntil: "2024-01-30", status: "Active" },
-    { id: "3", name: "Weekend Special", type: "Day-based", discount: "15%", validFrom: "2024-01-01", validUntil: "2024-02-28", status: "Active" },
-  ]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<OfferDraft>(emptyOffer);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canManage = hasPermission(user, PERMISSIONS.SETTINGS_MANAGE);
+
+  const { data: offers = [], isLoading } = useQuery<Offer[]>({
+    queryKey: ["/api/offers"],
+  });
+
+  const { data: redemptions = [] } = useQuery<PromotionRedemption[]>({
+    queryKey: ["/api/promotion-redemptions"],
+    enabled: canManage || hasPermission(user, PERMISSIONS.REPORTS_VIEW),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/offers/${editingId}`, data)
+        : await apiRequest("POST", "/api/offers", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/offers"] });
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: editingId ? "Offer updated successfully" : "Offer created successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to save offer"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/offers/${id}`, { active });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/offers"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to update offer"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/offers/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/offers"] });
+      toast({
+        title: "Success",
+        description: "Offer deleted successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to delete offer"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openAdd = () => {
+    setEditingId(null);
+    setDraft(emptyOffer);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (offer: Offer) => {
+    setEditingId(offer.id);
+    setDraft({
+      name: offer.name,
+      description: offer.description ?? "",
+      active: offer.active,
+      rules: toPromotionRulesDraft(offer),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Offer name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+    const rules = fromPromotionRulesDraft(draft.rules);
+    if (rules.value <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Enter how much the offer takes off",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({
+      ...rules,
+      name: draft.name.trim(),
+      description: draft.description.trim() || null,
+      active: draft.active,
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this offer?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const redemptionsOf = (offerId: string) => redemptions.filter((redemption) => redemption.promotionId === offerId);
 
   return (
     <div className="h-screen flex flex-col">
@@ -27,10 +173,15 @@ export default function OffersPage() {
       <div className="p-6 border-b border-border bg-muted/30">
         <div className="flex justify-between">
           <div className="flex gap-4">
-            <div className="flex items-center gap-2"><Percent className="h-5 w-5 text-muted-foreground" /><span className="text-sm">Active Offers: <span className="font-semibold">{offers.filter(o => o.status === "Active").length}</span></span></div>
+            <div className="flex items-center gap-2"><Percent className="h-5 w-5 text-muted-foreground" /><span className="text-sm">Active Offers: <span className="font-semibold">{offers.filter(o => o.active && !isExpired(o)).length}</span></span></div>
           </div>
-          <Button data-testid="button-add-offer"><Plus className="h-4 w-4 mr-2" />Create Offer</Button>
+          {canManage && (
+            <Button onClick={openAdd} data-testid="button-add-offer"><Plus className="h-4 w-4 mr-2" />Create Offer</Button>
+          )}
         </div>
+        <p className="text-sm text-muted-foreground mt-2">
+          Active offers apply automatically to every bill that meets their rules.
+        </p>
       </div>
       <div className="flex-1 overflow-y-auto p-6">
         <div className="bg-card rounded-lg border border-card-border">
@@ -38,26 +189,130 @@ export default function OffersPage() {
             <thead>
               <tr className="border-b border-border">
                 <th className="text-left py-3 px-4 font-medium text-muted-foreground">Offer Name</th>
-                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Type</th>
-                <th className="text-center py-3 px-4 font-medium text-muted-foreground">Discount</th>
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Discount</th>
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Conditions</th>
                 <th className="text-left py-3 px-4 font-medium text-muted-foreground">Valid Period</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Redeemed</th>
                 <th className="text-center py-3 px-4 font-medium text-muted-foreground">Status</th>
+                {canManage && <th className="text-right py-3 px-4 font-medium text-muted-foreground">Actions</th>}
               </tr>
             </thead>
             <tbody>
-              {offers.map((offer) => (
-                <tr key={offer.id} className="border-b border-border last:border-0 hover-elevate">
-                  <td className="py-3 px-4 font-medium">{offer.name}</td>
-                  <td className="py-3 px-4"><Badge variant="outline">{offer.type}</Badge></td>
-                  <td className="py-3 px-4 text-center font-semibold text-primary">{offer.discount}</td>
-                  <td className="py-3 px-4 text-sm text-muted-foreground">{offer.validFrom} to {offer.validUntil}</td>
-                  <td className="py-3 px-4 text-center"><Badge className={offer.status === "Active" ? "bg-success" : "bg-muted"}>{offer.status}</Badge></td>
-                </tr>
-              ))}
+              {isLoading ? (
+                <tr><td colSpan={7} className="py-8 text-center">Loading...</td></tr>
+              ) : offers.length === 0 ? (
+                <tr><td colSpan={7} className="py-8 text-center text-muted-foreground">No offers yet</td></tr>
+              ) : (
+                offers.map((offer) => {
+                  const offerRedemptions = redemptionsOf(offer.id);
+                  const expired = isExpired(offer);
+                  return (
+                    <tr key={offer.id} className="border-b border-border last:border-0 hover-elevate" data-testid={`row-offer-${offer.id}`}>
+                      <td className="py-3 px-4">
+                        <div className="font-medium">{offer.name}</div>
+                        {offer.description && <div className="text-sm text-muted-foreground">{offer.description}</div>}
+                      </td>
+                      <td className="py-3 px-4 font-semibold text-primary">{describePromotion(offer)}</td>
+                      <td className="py-3 px-4 text-sm space-y-1">
+                        {offer.minBillAmount > 0 && <div>Min bill ₹{offer.minBillAmount}</div>}
+                        {offer.happyHours.length > 0 && <div>{formatHappyHours(offer.happyHours)}</div>}
+                        {(offer.categories.length > 0 || offer.menuItemIds.length > 0) && (
+                          <div className="flex flex-wrap gap-1">
+                            {offer.categories.map((category) => <Badge key={category} variant="outline">{category}</Badge>)}
+                            {offer.menuItemIds.length > 0 && <Badge variant="outline">{offer.menuItemIds.length} items</Badge>}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-muted-foreground">{formatValidity(offer)}</td>
+                      <td className="py-3 px-4 text-right text-sm">
+                        {offerRedemptions.length}
+                        {offerRedemptions.length > 0 && (
+                          <span className="text-muted-foreground"> · ₹{offerRedemptions.reduce((sum, r) => sum + parseFloat(r.amount), 0).toFixed(2)}</span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-center">
+                        {expired ? (
+                          <Badge className="bg-muted">Expired</Badge>
+                        ) : canManage ? (
+                          <Switch
+                            checked={offer.active}
+                            onCheckedChange={(active) => toggleMutation.mutate({ id: offer.id, active })}
+                            data-testid={`switch-offer-active-${offer.id}`}
+                          />
+                        ) : (
+                          <Badge className={offer.active ? "bg-success" : "bg-muted"}>{offer.active ? "Active" : "Inactive"}</Badge>
+                        )}
+                      </td>
+                      {canManage && (
+                        <td className="py-3 px-4">
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => openEdit(offer)} data-testid={`button-edit-offer-${offer.id}`}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => handleDelete(offer.id)} data-testid={`button-delete-offer-${offer.id}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })
+              )}
             </tbody>
           </table>
         </div>
       </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Offer" : "Create Offer"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="offer-name">Name</Label>
+                <Input
+                  id="offer-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Happy Hour"
+                  data-testid="input-offer-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="offer-description">Description (Optional)</Label>
+                <Input
+                  id="offer-description"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  data-testid="input-offer-description"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Active</Label>
+              <Switch
+                checked={draft.active}
+                onCheckedChange={(active) => setDraft({ ...draft, active })}
+                data-testid="switch-offer-active"
+              />
+            </div>
+
+            <PromotionRulesFields draft={draft.rules} onChange={(rules) => setDraft({ ...draft, rules })} />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-offer">
+                {saveMutation.isPending ? "Saving..." : "Save Offer"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,11 +1,12 @@
 import { useState, useEffect } from "react";
-import { Plus, Edit, Trash2, Eye, CheckCircle } from "lucide-react";
+import { Plus, Edit, Trash2, Eye, CheckCircle, ListChecks, Send } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
 import AppHeader from "@/components/AppHeader";
+import ReorderSuggestionsDialog from "@/components/ReorderSuggestionsDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -40,8 +41,9 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
 import type { PurchaseOrder, Supplier, InventoryItem, PurchaseOrderItem } from "@shared/schema";
+import { unitsFor } from "@shared/units";
 
 const poFormSchema = z.object({
   supplierId: z.string().min(1, "Supplier is required"),
@@ -53,6 +55,8 @@ const poFormSchema = z.object({
 const poItemFormSchema = z.object({
   inventoryItemId: z.string().min(1, "Inventory item is required"),
   quantity: z.string().min(1, "Quantity is required"),
+  // Suppliers often sell by the pack; receiving converts it to the item's unit
+  unit: z.string().min(1, "Unit is required"),
   costPerUnit: z.string().min(1, "Cost per unit is required"),
 });
 
@@ -68,6 +72,7 @@ export default function PurchaseOrdersPage() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [isAddItemDialogOpen, setIsAddItemDialogOpen] = useState(false);
+  const [isReorderDialogOpen, setIsReorderDialogOpen] = useState(false);
   const [currentPO, setCurrentPO] = useState<ExtendedPurchaseOrder | null>(null);
   const [viewingPO, setViewingPO] = useState<ExtendedPurchaseOrder | null>(null);
   const { toast } = useToast();
@@ -114,10 +119,20 @@ export default function PurchaseOrdersPage() {
     defaultValues: {
       inventoryItemId: "",
       quantity: "",
+      unit: "",
       costPerUnit: "",
     },
   });
 
+  const itemFormItem = inventoryItems.find(item => item.id === itemForm.watch("inventoryItemId"));
+  const itemFormUnits = itemFormItem ? unitsFor(itemFormItem) : [];
+
+  useEffect(() => {
+    if (itemFormItem && !itemFormUnits.includes(itemForm.getValues("unit"))) {
+      itemForm.setValue("unit", itemFormItem.unit);
+    }
+  }, [itemFormItem?.id]);
+
   const createPOMutation = useMutation({
     mutationFn: async (data: POFormData) => {
       const orderCount = orders.length;
@@ -160,7 +175,7 @@ export default function PurchaseOrdersPage() {
       const res = await apiRequest("POST", `/api/purchase-orders/${currentPO.id}/items`, {
         inventoryItemId: data.inventoryItemId,
         quantity: data.quantity,
-        unit: inventoryItem.unit,
+        unit: data.unit,
         costPerUnit: data.costPerUnit,
         totalCost: totalCost.toString(),
       });
@@ -196,10 +211,33 @@ export default function PurchaseOrdersPage() {
         description: "Purchase order received and inventory updated",
       });
     },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to receive purchase order"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Drafts from reorder suggestions only become real orders once someone places them
+  const placePOMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("PATCH", `/api/purchase-orders/${id}`, { status: "pending" });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      toast({
+        title: "Success",
+        description: "Purchase order placed",
+      });
+    },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to receive purchase order",
+        description: "Failed to place purchase order",
         variant: "destructive",
       });
     },
@@ -255,6 +293,8 @@ export default function PurchaseOrdersPage() {
 
   const getStatusBadge = (status: string) => {
     switch (status.toLowerCase()) {
+      case "draft":
+        return <Badge variant="outline">Draft</Badge>;
       case "pending":
         return <Badge variant="secondary" className="bg-yellow-500/10 text-yellow-700 dark:text-yellow-400">Pending</Badge>;
       case "received":
@@ -276,16 +316,26 @@ export default function PurchaseOrdersPage() {
             <span className="text-sm text-muted-foreground">Total Purchase Orders:</span>
             <span className="font-semibold" data-testid="text-total-pos">{orders.length}</span>
           </div>
-          <Button
-            onClick={() => {
-              poForm.reset();
-              setIsCreateDialogOpen(true);
-            }}
-            data-testid="button-create-po"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Create Purchase Order
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setIsReorderDialogOpen(true)}
+              data-testid="button-reorder-suggestions"
+            >
+              <ListChecks className="h-4 w-4 mr-2" />
+              Reorder Suggestions
+            </Button>
+            <Button
+              onClick={() => {
+                poForm.reset();
+                setIsCreateDialogOpen(true);
+              }}
+              data-testid="button-create-po"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Create Purchase Order
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -327,7 +377,19 @@ export default function PurchaseOrdersPage() {
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        {po.status !== "received" && (
+                        {po.status === "draft" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => placePOMutation.mutate(po.id)}
+                            disabled={placePOMutation.isPending}
+                            title="Place order"
+                            data-testid={`button-place-${po.id}`}
+                          >
+                            <Send className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {po.status !== "received" && po.status !== "draft" && (
                           <Button
                             variant="outline"
                             size="sm"
@@ -355,6 +417,8 @@ export default function PurchaseOrdersPage() {
         )}
       </div>
 
+      <ReorderSuggestionsDialog open={isReorderDialogOpen} onOpenChange={setIsReorderDialogOpen} />
+
       <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
@@ -485,7 +549,7 @@ export default function PurchaseOrdersPage() {
                 )}
               />
 
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <FormField
                   control={itemForm.control}
                   name="quantity"
@@ -506,6 +570,29 @@ export default function PurchaseOrdersPage() {
                   )}
                 />
 
+                <FormField
+                  control={itemForm.control}
+                  name="unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={!itemFormItem}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-po-unit">
+                            <SelectValue placeholder="-" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {itemFormUnits.map(unit => (
+                            <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={itemForm.control}
                   name="costPerUnit"
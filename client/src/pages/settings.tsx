@@ -6,6 +6,10 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
+import TaxProfilesSettings from "@/components/TaxProfilesSettings";
+import InvoiceSeriesSettings from "@/components/InvoiceSeriesSettings";
+import KitchenStationsSettings from "@/components/KitchenStationsSettings";
+import KitchenSlaSettings from "@/components/KitchenSlaSettings";
 
 export default function SettingsPage() {
   const [restaurantName, setRestaurantName] = useState("My Restaurant");
@@ -21,6 +25,7 @@ export default function SettingsPage() {
           <TabsList className="mb-6">
             <TabsTrigger value="general" data-testid="tab-general">General</TabsTrigger>
             <TabsTrigger value="tax" data-testid="tab-tax">Tax & Billing</TabsTrigger>
+            <TabsTrigger value="kitchen" data-testid="tab-kitchen">Kitchen</TabsTrigger>
             <TabsTrigger value="printer" data-testid="tab-printer">Printer</TabsTrigger>
             <TabsTrigger value="notifications" data-testid="tab-notifications">Notifications</TabsTrigger>
           </TabsList>
@@ -85,31 +90,13 @@ export default function SettingsPage() {
           </TabsContent>
 
           <TabsContent value="tax">
-            <div className="bg-card rounded-lg border border-card-border p-6 max-w-2xl">
-              <h3 className="text-lg font-semibold mb-4">Tax Configuration</h3>
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <Label>Enable GST</Label>
-                    <p className="text-sm text-muted-foreground">Apply GST to all orders</p>
-                  </div>
-                  <Switch defaultChecked data-testid="switch-gst" />
-                </div>
-                <div>
-                  <Label>GST Number</Label>
-                  <Input placeholder="22AAAAA0000A1Z5" data-testid="input-gst-number" />
-                </div>
-                <div>
-                  <Label>Default Tax Rate (%)</Label>
-                  <Input type="number" defaultValue="5" data-testid="input-tax-rate" />
-                </div>
-                <div>
-                  <Label>Service Charge (%)</Label>
-                  <Input type="number" defaultValue="10" data-testid="input-service-charge" />
-                </div>
-                <Button className="mt-6" data-testid="button-save-tax">Save Tax Settings</Button>
-              </div>
-            </div>
+            <TaxProfilesSettings />
+            <InvoiceSeriesSettings />
+          </TabsContent>
+
+          <TabsContent value="kitchen">
+            <KitchenStationsSettings />
+            <KitchenSlaSettings />
           </TabsContent>
 
           <TabsContent value="printer">
@@ -0,0 +1,412 @@
+import { useState, useEffect, useMemo } from "react";
+import { ClipboardCheck, CheckCircle2, XCircle, TrendingDown, TrendingUp, Scale } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import AppHeader from "@/components/AppHeader";
+import StatCard from "@/components/StatCard";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import type { InventoryItem, StockTake, StockTakeLine } from "@shared/schema";
+import { lineVariance, type StockTakeVariance } from "@shared/stock-take";
+
+const rupees = (amount: number) => `${amount < 0 ? "-" : ""}₹${Math.abs(amount).toFixed(2)}`;
+
+const statusLabels: Record<StockTake["status"], string> = {
+  counting: "Counting",
+  posted: "Posted",
+  cancelled: "Cancelled",
+};
+
+function CountRow({
+  line,
+  showExpected,
+  onSave,
+}: {
+  line: StockTakeLine;
+  showExpected: boolean;
+  onSave: (counted: string | null) => void;
+}) {
+  const [draft, setDraft] = useState(line.counted ?? "");
+
+  // Another tablet may have counted this item
+  useEffect(() => {
+    setDraft(line.counted ?? "");
+  }, [line.counted]);
+
+  const save = () => {
+    const value = draft.trim();
+    if (value === (line.counted ?? "")) return;
+    onSave(value === "" ? null : value);
+  };
+
+  const variance = lineVariance(line);
+
+  return (
+    <div className="flex items-center gap-4 py-3 border-b border-border last:border-0" data-testid={`row-count-${line.inventoryItemId}`}>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate">{line.itemName}</p>
+        {showExpected && (
+          <p className="text-sm text-muted-foreground">
+            Expected {line.theoretical} {line.unit}
+          </p>
+        )}
+      </div>
+      {showExpected && variance && variance.variance !== 0 && (
+        <span className={variance.variance < 0 ? "text-destructive text-sm font-semibold" : "text-green-600 text-sm font-semibold"}>
+          {variance.variance > 0 ? "+" : ""}
+          {variance.variance} · {rupees(variance.value)}
+        </span>
+      )}
+      {line.counted !== null && <CheckCircle2 className="h-5 w-5 text-green-600 shrink-0" />}
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="0.01"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={save}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+          }}
+          placeholder="Count"
+          className="w-32 h-12 text-lg text-right"
+          data-testid={`input-count-${line.inventoryItemId}`}
+        />
+        <span className="w-10 text-sm text-muted-foreground">{line.unit}</span>
+      </div>
+    </div>
+  );
+}
+
+function VarianceReport({ stockTakeId }: { stockTakeId: string }) {
+  const { data: report, isLoading } = useQuery<StockTakeVariance>({
+    queryKey: ["/api/stock-takes", stockTakeId, "variance"],
+  });
+
+  if (isLoading || !report) {
+    return <div className="text-center py-6 text-muted-foreground">Working out variance...</div>;
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-4 gap-4 mb-4">
+        <StatCard title="Items Counted" value={`${report.counted} of ${report.counted + report.uncounted}`} icon={ClipboardCheck} color="blue" />
+        <StatCard title="Shortage" value={rupees(report.shortageValue)} icon={TrendingDown} color="red" />
+        <StatCard title="Surplus" value={rupees(report.surplusValue)} icon={TrendingUp} color="green" />
+        <StatCard title="Net Variance" value={rupees(report.netValue)} icon={Scale} color="yellow" />
+      </div>
+      <p className="text-sm text-muted-foreground mb-3">
+        Usage {report.from ? `since ${new Date(report.from).toLocaleString()}` : "since the ledger started"} up to {new Date(report.to).toLocaleString()}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm" data-testid="table-stock-take-variance">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="text-left py-3 px-4 font-medium text-muted-foreground">Item</th>
+              <th className="text-right py-3 px-4 font-medium text-muted-foreground">Theoretical Usage</th>
+              <th className="text-right py-3 px-4 font-medium text-muted-foreground">Actual Usage</th>
+              <th className="text-right py-3 px-4 font-medium text-muted-foreground">Expected</th>
+              <th className="text-right py-3 px-4 font-medium text-muted-foreground">Counted</th>
+              <th className="text-right py-3 px-4 font-medium text-muted-foreground">Variance</th>
+              <th className="text-right py-3 px-4 font-medium text-muted-foreground">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.lines.map((line) => (
+              <tr key={line.inventoryItemId} className="border-b border-border last:border-0 hover-elevate">
+                <td className="py-3 px-4">
+                  <span className="font-medium">{line.itemName}</span>
+                  <span className="text-muted-foreground"> · {line.unit}</span>
+                </td>
+                <td className="py-3 px-4 text-right">{line.theoreticalUsage}</td>
+                <td className="py-3 px-4 text-right">{line.actualUsage ?? "-"}</td>
+                <td className="py-3 px-4 text-right">{line.theoretical}</td>
+                <td className="py-3 px-4 text-right">{line.counted ?? "Not counted"}</td>
+                <td className={`py-3 px-4 text-right ${line.variance && line.variance < 0 ? "text-destructive font-semibold" : ""}`}>
+                  {line.variance ?? "-"}
+                </td>
+                <td className="py-3 px-4 text-right">{line.value === null ? "-" : rupees(line.value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default function StockTakePage() {
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<string[]>([]);
+  const [notes, setNotes] = useState("");
+  const [category, setCategory] = useState<string | null>(null);
+  const [showExpected, setShowExpected] = useState(false);
+  const [reportId, setReportId] = useState<string | null>(null);
+
+  const { data: stockTakes = [], isLoading } = useQuery<StockTake[]>({
+    queryKey: ["/api/stock-takes"],
+  });
+
+  const { data: inventoryItems = [] } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory"],
+  });
+
+  useEffect(() => {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}/api/ws`);
+
+    ws.onmessage = (event) => {
+      const data = JSON.parse(event.data);
+      if (data.type === 'stock_take_updated') {
+        queryClient.invalidateQueries({ queryKey: ["/api/stock-takes"] });
+      }
+    };
+
+    return () => ws.close();
+  }, []);
+
+  const active = stockTakes.find((stockTake) => stockTake.status === "counting");
+  const history = stockTakes.filter((stockTake) => stockTake.status !== "counting");
+
+  const allCategories = useMemo(
+    () => Array.from(new Set(inventoryItems.map((item) => item.category))).sort(),
+    [inventoryItems],
+  );
+  const activeCategories = useMemo(
+    () => (active ? Array.from(new Set(active.lines.map((line) => line.category))) : []),
+    [active],
+  );
+  const visibleLines = active ? active.lines.filter((line) => !category || line.category === category) : [];
+  const countedLines = active ? active.lines.filter((line) => line.counted !== null).length : 0;
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({ title: "Error", description: apiErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/stock-takes", { categories, notes: notes.trim() || null });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-takes"] });
+      setCategories([]);
+      setNotes("");
+      setCategory(null);
+      toast({ title: "Stock take started", description: "Stock figures are frozen as of now" });
+    },
+    onError: onError("Failed to start stock take"),
+  });
+
+  const countMutation = useMutation({
+    mutationFn: async ({ id, inventoryItemId, counted }: { id: string; inventoryItemId: string; counted: string | null }) => {
+      const response = await apiRequest("PATCH", `/api/stock-takes/${id}/counts`, { counts: [{ inventoryItemId, counted }] });
+      return response.json();
+    },
+    onSuccess: (stockTake: StockTake) => {
+      queryClient.setQueryData<StockTake[]>(["/api/stock-takes"], (current = []) =>
+        current.map((existing) => (existing.id === stockTake.id ? stockTake : existing)),
+      );
+    },
+    onError: onError("Failed to save count"),
+  });
+
+  const postMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/stock-takes/${id}/post`);
+      return response.json();
+    },
+    onSuccess: (stockTake: StockTake) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-takes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      setReportId(stockTake.id);
+      toast({ title: "Stock take posted", description: "Variances have been booked as stock adjustments" });
+    },
+    onError: onError("Failed to post stock take"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/stock-takes/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-takes"] });
+      toast({ title: "Stock take cancelled" });
+    },
+    onError: onError("Failed to cancel stock take"),
+  });
+
+  const toggleCategory = (name: string, checked: boolean) =>
+    setCategories((current) => (checked ? [...current, name] : current.filter((existing) => existing !== name)));
+
+  return (
+    <div className="h-screen flex flex-col">
+      <AppHeader title="Stock Take" showSearch={false} />
+
+      <div className="flex-1 overflow-y-auto p-6">
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading stock takes...</div>
+        ) : active ? (
+          <Card className="p-6 mb-6">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h3 className="font-semibold text-lg">Counting</h3>
+                <p className="text-sm text-muted-foreground">
+                  Started {new Date(active.startedAt).toLocaleString()} by {active.startedByName ?? "-"} · {countedLines} of {active.lines.length} counted
+                </p>
+                {active.notes && <p className="text-sm italic text-muted-foreground">{active.notes}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => window.confirm("Cancel this stock take? Counts entered so far are kept but nothing is posted.") && cancelMutation.mutate(active.id)}
+                  disabled={cancelMutation.isPending}
+                  data-testid="button-cancel-stock-take"
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() =>
+                    window.confirm(
+                      `Post this stock take? ${active.lines.length - countedLines} uncounted items are left as they are; every counted variance becomes a stock adjustment.`,
+                    ) && postMutation.mutate(active.id)
+                  }
+                  disabled={postMutation.isPending || countedLines === 0}
+                  data-testid="button-post-stock-take"
+                >
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  Post Count
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <Button
+                size="sm"
+                variant={category === null ? "default" : "outline"}
+                onClick={() => setCategory(null)}
+                data-testid="button-category-all"
+              >
+                All
+              </Button>
+              {activeCategories.map((name) => (
+                <Button
+                  key={name}
+                  size="sm"
+                  variant={category === name ? "default" : "outline"}
+                  onClick={() => setCategory(name)}
+                  data-testid={`button-category-${name}`}
+                >
+                  {name}
+                </Button>
+              ))}
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch id="show-expected" checked={showExpected} onCheckedChange={setShowExpected} data-testid="switch-show-expected" />
+                <Label htmlFor="show-expected">Show expected stock</Label>
+              </div>
+            </div>
+
+            <div data-testid="list-stock-take-lines">
+              {visibleLines.map((line) => (
+                <CountRow
+                  key={line.inventoryItemId}
+                  line={line}
+                  showExpected={showExpected}
+                  onSave={(counted) => countMutation.mutate({ id: active.id, inventoryItemId: line.inventoryItemId, counted })}
+                />
+              ))}
+            </div>
+          </Card>
+        ) : (
+          <Card className="p-6 mb-6">
+            <h3 className="font-semibold text-lg mb-1">Start a Stock Take</h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              Current stock is frozen when the count starts. Count before taking in any deliveries; sales carry on as normal.
+            </p>
+            <Label className="mb-2 block">Categories (leave all unticked for a full count)</Label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+              {allCategories.map((name) => (
+                <label key={name} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={categories.includes(name)}
+                    onCheckedChange={(checked) => toggleCategory(name, checked === true)}
+                    data-testid={`checkbox-category-${name}`}
+                  />
+                  {name}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-end gap-4">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="stock-take-notes">Notes (Optional)</Label>
+                <Input
+                  id="stock-take-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="e.g. Weekly count"
+                  data-testid="input-stock-take-notes"
+                />
+              </div>
+              <Button onClick={() => startMutation.mutate()} disabled={startMutation.isPending} data-testid="button-start-stock-take">
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Start Count
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-6 mb-6">
+          <h3 className="font-semibold text-lg mb-4">Previous Counts</h3>
+          {history.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">No stock takes yet</div>
+          ) : (
+            <div className="space-y-2" data-testid="list-stock-takes">
+              {history.map((stockTake) => (
+                <div key={stockTake.id} className="flex items-center justify-between gap-4 text-sm border-b border-border last:border-0 pb-2">
+                  <div>
+                    <span className="font-medium">{new Date(stockTake.startedAt).toLocaleString()}</span>
+                    <span className="text-muted-foreground">
+                      {" · "}
+                      {stockTake.categories.length === 0 ? "Full count" : stockTake.categories.join(", ")}
+                      {stockTake.postedByName && ` · posted by ${stockTake.postedByName}`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={stockTake.status === "posted" ? "secondary" : "outline"}>{statusLabels[stockTake.status]}</Badge>
+                    {stockTake.status === "posted" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setReportId(reportId === stockTake.id ? null : stockTake.id)}
+                        data-testid={`button-variance-${stockTake.id}`}
+                      >
+                        {reportId === stockTake.id ? "Hide Variance" : "View Variance"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {reportId && (
+          <Card className="p-6">
+            <h3 className="font-semibold text-lg mb-4">Variance Report</h3>
+            <VarianceReport stockTakeId={reportId} />
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
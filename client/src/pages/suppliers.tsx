@@ -40,6 +40,7 @@ const supplierFormSchema = z.object({
   phone: z.string().min(1, "Phone is required"),
   email: z.string().email().optional().or(z.literal("")),
   address: z.string().optional(),
+  leadTimeDays: z.coerce.number().int().min(0, "Cannot be negative").max(90, "At most 90 days"),
 });
 
 type SupplierFormData = z.infer<typeof supplierFormSchema>;
@@ -77,6 +78,7 @@ export default function SuppliersPage() {
       phone: "",
       email: "",
       address: "",
+      leadTimeDays: 2,
     },
   });
 
@@ -164,6 +166,7 @@ export default function SuppliersPage() {
       phone: supplier.phone,
       email: supplier.email || "",
       address: supplier.address || "",
+      leadTimeDays: supplier.leadTimeDays ?? 2,
     });
     setIsEditDialogOpen(true);
   };
@@ -212,6 +215,7 @@ export default function SuppliersPage() {
                 <TableHead>Phone</TableHead>
                 <TableHead>Email</TableHead>
                 <TableHead>Address</TableHead>
+                <TableHead>Lead Time</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -223,6 +227,7 @@ export default function SuppliersPage() {
                   <TableCell>{supplier.phone}</TableCell>
                   <TableCell>{supplier.email || "-"}</TableCell>
                   <TableCell>{supplier.address || "-"}</TableCell>
+                  <TableCell>{supplier.leadTimeDays ?? 2} days</TableCell>
                   <TableCell className="text-right">
                     <div className="flex items-center justify-end gap-2">
                       <Button
@@ -315,6 +320,20 @@ export default function SuppliersPage() {
                 />
               </div>
 
+              <FormField
+                control={form.control}
+                name="leadTimeDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lead Time (days)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min="0" max="90" step="1" data-testid="input-lead-time" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="address"
@@ -421,6 +440,20 @@ export default function SuppliersPage() {
                 />
               </div>
 
+              <FormField
+                control={form.control}
+                name="leadTimeDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lead Time (days)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min="0" max="90" step="1" data-testid="input-lead-time" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="address"
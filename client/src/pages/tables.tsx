@@ -4,6 +4,7 @@ import { useState, useEffect, useMemo } from "react";
 import AppHeader from "@/components/AppHeader";
 import TableCard from "@/components/TableCard";
 import ReservationDialog from "@/components/ReservationDialog";
+import TableActionsDialog from "@/components/TableActionsDialog";
 import { Button } from "@/components/ui/button";
 import { Plus, Edit, Trash2, Menu } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
@@ -33,7 +34,8 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Table, Order, Floor, Reservation } from "@shared/schema";
+import type { Table, Floor, Reservation, Order } from "@shared/schema";
+import { useKdsFeed } from "@/hooks/use-kds-feed";
 
 interface TableWithOrder extends Table {
   orderStartTime?: string | null;
@@ -53,6 +55,7 @@ export default function TablesPage() {
   const [showReservationDialog, setShowReservationDialog] = useState(false);
   const [selectedTableForReservation, setSelectedTableForReservation] = useState<string | null>(null);
   const [isReservationMode, setIsReservationMode] = useState(false);
+  const [manageTableId, setManageTableId] = useState<string | null>(null);
   
   const [floorName, setFloorName] = useState("");
   const [tableNumber, setTableNumber] = useState("");
@@ -67,9 +70,8 @@ export default function TablesPage() {
     queryKey: ["/api/floors"],
   });
 
-  const { data: orders = [] } = useQuery<Order[]>({
-    queryKey: ["/api/orders"],
-  });
+  // Every open order with its items in one request, kept current by WebSocket patches
+  const { data: openOrders = [] } = useKdsFeed({ status: "open" });
 
   const { data: reservations = [] } = useQuery<Reservation[]>({
     queryKey: ["/api/reservations"],
@@ -83,24 +85,23 @@ export default function TablesPage() {
     }
     
     return tables.map((table) => {
-      const tableOrder = orders.find((order) => order.id === table.currentOrderId);
+      const tableOrder = openOrders.find((ticket) => ticket.order.id === table.currentOrderId)?.order;
       return {
         ...table,
         orderStartTime: tableOrder?.createdAt ? String(tableOrder.createdAt) : null,
       };
     });
-  }, [tables, orders]);
+  }, [tables, openOrders]);
+
+  const itemsForOrder = (orderId: string) => openOrders.find((ticket) => ticket.order.id === orderId)?.items ?? [];
 
   const markServedMutation = useMutation({
     mutationFn: async (tableId: string) => {
       const table = tablesWithOrders.find((t) => t.id === tableId);
       if (!table || !table.currentOrderId) return;
 
-      const orderItemsRes = await fetch(`/api/orders/${table.currentOrderId}/items`);
-      const orderItems = await orderItemsRes.json();
-
       await Promise.all(
-        orderItems.map((item: any) =>
+        itemsForOrder(table.currentOrderId).map((item) =>
           apiRequest("PATCH", `/api/order-items/${item.id}/status`, { status: "served" })
         )
       );
@@ -221,17 +222,7 @@ export default function TablesPage() {
     
     setSelectedTable(table);
     
-    if (table.currentOrderId) {
-      try {
-        const response = await fetch(`/api/orders/${table.currentOrderId}/items`);
-        const items = await response.json();
-        setOrderDetails(items);
-      } catch (error) {
-        setOrderDetails([]);
-      }
-    } else {
-      setOrderDetails([]);
-    }
+    setOrderDetails(table.currentOrderId ? itemsForOrder(table.currentOrderId) : []);
     
     setShowOrderDialog(true);
   };
@@ -250,6 +241,16 @@ export default function TablesPage() {
     }
   };
 
+  const manageTable = tablesWithOrders.find((t) => t.id === manageTableId) ?? null;
+
+  // A check split off at the same table has no card of its own, so it opens straight in billing
+  const handleSplit = (order: Order) => {
+    const table = tablesWithOrders.find((t) => t.id === order.tableId);
+    if (!table) return;
+    const floor = floors.find((f) => f.id === table.floorId);
+    navigate(`/billing?tableId=${table.id}&tableNumber=${table.tableNumber}&floorName=${encodeURIComponent(floor?.name || "")}&orderId=${order.id}&type=dine-in`);
+  };
+
   const handleAddFloor = () => {
     if (!floorName.trim()) {
       toast({ title: "Floor name required", variant: "destructive" });
@@ -473,6 +474,7 @@ export default function TablesPage() {
                       orderStartTime={table.orderStartTime}
                       onClick={handleTableClick}
                       onToggleServed={handleToggleServed}
+                      onManage={table.currentOrderId ? setManageTableId : undefined}
                     />
                   ))}
                 </div>
@@ -692,6 +694,15 @@ export default function TablesPage() {
         </DialogContent>
       </Dialog>
 
+      <TableActionsDialog
+        table={manageTable}
+        tables={tablesWithOrders}
+        items={manageTable?.currentOrderId ? itemsForOrder(manageTable.currentOrderId) : []}
+        open={!!manageTable}
+        onOpenChange={(open) => !open && setManageTableId(null)}
+        onSplit={handleSplit}
+      />
+
       <ReservationDialog 
         open={showReservationDialog}
         onOpenChange={(open) => {
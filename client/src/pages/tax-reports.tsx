@@ -1,96 +1,211 @@
-import { Download, FileText } from "lucide-react";
+import { useMemo, useState } from "react";
+import { FileText } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
 import AppHeader from "@/components/AppHeader";
-import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import StatCard from "@/components/StatCard";
+import type { Invoice, CreditNote, TaxBreakdownLine } from "@shared/schema";
+import { formatTaxLabel, parseTaxBreakdown } from "@shared/tax";
+import { isSettledInvoice } from "@shared/billing";
+
+interface ComponentSummary {
+  key: string;
+  line: Pick<TaxBreakdownLine, "name" | "rate" | "kind">;
+  invoicedTaxable: number;
+  invoiced: number;
+  creditedTaxable: number;
+  credited: number;
+}
+
+// "YYYY-MM" in local time, matching the month input
+const monthOf = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+const currentMonth = () => monthOf(new Date());
+
+const inMonth = (date: Date | string, month: string) => monthOf(new Date(date)) === month;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const formatAmount = (value: number) => `₹${value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Documents issued before tax profiles only carry the combined tax figure
+function breakdownOf(document: Invoice | CreditNote): TaxBreakdownLine[] {
+  const lines = parseTaxBreakdown(document.taxBreakdown);
+  if (lines.length > 0) {
+    return lines;
+  }
+  const tax = parseFloat(document.tax);
+  return tax > 0
+    ? [{ code: "TAX", name: "Tax", rate: 0, kind: "tax", taxableAmount: parseFloat(document.subtotal), amount: tax }]
+    : [];
+}
 
 export default function TaxReportsPage() {
+  const [month, setMonth] = useState(currentMonth());
+
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+  });
+
+  const { data: creditNotes = [] } = useQuery<CreditNote[]>({
+    queryKey: ["/api/credit-notes"],
+  });
+
+  const periodInvoices = useMemo(
+    () => invoices.filter((invoice) => isSettledInvoice(invoice) && inMonth(invoice.createdAt, month)),
+    [invoices, month],
+  );
+  const periodCreditNotes = useMemo(() => creditNotes.filter((note) => inMonth(note.createdAt, month)), [creditNotes, month]);
+
+  // Credit notes are reported in the period they were issued, not the period of the original invoice
+  const components = useMemo(() => {
+    const summary = new Map<string, ComponentSummary>();
+    const add = (document: Invoice | CreditNote, side: "invoiced" | "credited") => {
+      for (const line of breakdownOf(document)) {
+        const key = `${line.kind}:${line.code}:${line.rate}`;
+        const entry = summary.get(key) ?? {
+          key,
+          line,
+          invoicedTaxable: 0,
+          invoiced: 0,
+          creditedTaxable: 0,
+          credited: 0,
+        };
+        entry[`${side}Taxable`] += line.taxableAmount;
+        entry[side] += line.amount;
+        summary.set(key, entry);
+      }
+    };
+    periodInvoices.forEach((invoice) => add(invoice, "invoiced"));
+    periodCreditNotes.forEach((note) => add(note, "credited"));
+    return Array.from(summary.values()).sort((a, b) => (a.line.kind === b.line.kind ? 0 : a.line.kind === "tax" ? -1 : 1));
+  }, [periodInvoices, periodCreditNotes]);
+
+  const taxComponents = components.filter((component) => component.line.kind === "tax");
+  const outputTax = sum(taxComponents.map((component) => component.invoiced));
+  const reversedTax = sum(taxComponents.map((component) => component.credited));
+
+  const invoicedValue = sum(periodInvoices.map((invoice) => parseFloat(invoice.total)));
+  const invoicedTaxable = sum(periodInvoices.map((invoice) => parseFloat(invoice.subtotal) - parseFloat(invoice.discount || "0")));
+  const creditedValue = sum(periodCreditNotes.map((note) => parseFloat(note.total)));
+  const creditedTaxable = sum(periodCreditNotes.map((note) => parseFloat(note.subtotal) - parseFloat(note.discount || "0")));
+
   return (
     <div className="h-screen flex flex-col">
       <AppHeader title="Tax Reports (GST)" />
       <div className="flex-1 overflow-y-auto p-6">
+        <div className="flex items-center justify-end gap-2 mb-6">
+          <label htmlFor="tax-report-month" className="text-sm font-medium">Period</label>
+          <Input
+            id="tax-report-month"
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value || currentMonth())}
+            className="w-44"
+            data-testid="input-tax-report-month"
+          />
+        </div>
+
         <div className="grid grid-cols-3 gap-4 mb-6">
-          <StatCard title="Total GST Collected" value="₹12,450" icon={FileText} color="green" />
-          <StatCard title="Input Tax Credit" value="₹8,200" icon={FileText} color="blue" />
-          <StatCard title="Net GST Payable" value="₹4,250" icon={FileText} color="red" />
+          <StatCard title="Output Tax" value={formatAmount(outputTax)} icon={FileText} color="green" />
+          <StatCard title="Reversed by Credit Notes" value={formatAmount(reversedTax)} icon={FileText} color="blue" />
+          <StatCard title="Net Tax Payable" value={formatAmount(outputTax - reversedTax)} icon={FileText} color="red" />
         </div>
 
-        <div className="grid grid-cols-2 gap-6">
-          <div className="bg-card rounded-lg border border-card-border p-6">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="font-semibold text-lg">GSTR-1 Report</h3>
-              <Button variant="outline" size="sm"><Download className="h-4 w-4 mr-2" />Download</Button>
-            </div>
-            <p className="text-sm text-muted-foreground mb-4">Outward supplies report for the current month</p>
-            <div className="space-y-3">
-              <div className="flex justify-between py-2 border-b border-border">
-                <span className="text-sm">B2B Sales</span>
-                <span className="font-semibold">₹45,300</span>
-              </div>
-              <div className="flex justify-between py-2 border-b border-border">
-                <span className="text-sm">B2C Sales</span>
-                <span className="font-semibold">₹28,600</span>
-              </div>
-              <div className="flex justify-between py-2">
-                <span className="text-sm font-medium">Total</span>
-                <span className="font-bold text-lg">₹73,900</span>
-              </div>
+        <div className="bg-card rounded-lg border border-card-border p-6">
+          <h3 className="font-semibold text-lg mb-2">Outward Supplies</h3>
+          <p className="text-sm text-muted-foreground mb-4">Invoices issued in the period, less credit notes issued in the period</p>
+          <div className="space-y-3">
+            <div className="flex justify-between py-2 border-b border-border">
+              <span className="text-sm">Invoices ({periodInvoices.length})</span>
+              <span className="font-semibold">{formatAmount(invoicedTaxable)} taxable · {formatAmount(invoicedValue)} billed</span>
             </div>
-          </div>
-
-          <div className="bg-card rounded-lg border border-card-border p-6">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="font-semibold text-lg">GSTR-3B Report</h3>
-              <Button variant="outline" size="sm"><Download className="h-4 w-4 mr-2" />Download</Button>
+            <div className="flex justify-between py-2 border-b border-border">
+              <span className="text-sm">Credit Notes ({periodCreditNotes.length})</span>
+              <span className="font-semibold text-danger">-{formatAmount(creditedTaxable)} taxable · -{formatAmount(creditedValue)} refunded</span>
             </div>
-            <p className="text-sm text-muted-foreground mb-4">Summary return for the current month</p>
-            <div className="space-y-3">
-              <div className="flex justify-between py-2 border-b border-border">
-                <span className="text-sm">Output Tax</span>
-                <span className="font-semibold">₹12,450</span>
-              </div>
-              <div className="flex justify-between py-2 border-b border-border">
-                <span className="text-sm">Input Tax Credit</span>
-                <span className="font-semibold">₹8,200</span>
-              </div>
-              <div className="flex justify-between py-2">
-                <span className="text-sm font-medium">Tax Payable</span>
-                <span className="font-bold text-lg text-danger">₹4,250</span>
-              </div>
+            <div className="flex justify-between py-2">
+              <span className="text-sm font-medium">Net</span>
+              <span className="font-bold text-lg">{formatAmount(invoicedTaxable - creditedTaxable)} taxable · {formatAmount(invoicedValue - creditedValue)}</span>
             </div>
           </div>
         </div>
 
         <div className="mt-6 bg-card rounded-lg border border-card-border p-6">
-          <h3 className="font-semibold text-lg mb-4">Tax Summary (HSN)</h3>
+          <h3 className="font-semibold text-lg mb-4">Tax Summary by Component</h3>
           <table className="w-full">
             <thead>
               <tr className="border-b border-border">
-                <th className="text-left py-3 px-4 font-medium text-muted-foreground">HSN Code</th>
-                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Description</th>
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Component</th>
                 <th className="text-right py-3 px-4 font-medium text-muted-foreground">Taxable Value</th>
-                <th className="text-center py-3 px-4 font-medium text-muted-foreground">Rate</th>
-                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Tax Amount</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Invoiced</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Credited</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Net</th>
               </tr>
             </thead>
             <tbody>
-              <tr className="border-b border-border hover-elevate">
-                <td className="py-3 px-4">1001</td>
-                <td className="py-3 px-4">Food Items</td>
-                <td className="py-3 px-4 text-right">₹45,000</td>
-                <td className="py-3 px-4 text-center">5%</td>
-                <td className="py-3 px-4 text-right font-semibold">₹2,250</td>
-              </tr>
-              <tr className="border-b border-border hover-elevate">
-                <td className="py-3 px-4">2202</td>
-                <td className="py-3 px-4">Beverages</td>
-                <td className="py-3 px-4 text-right">₹12,000</td>
-                <td className="py-3 px-4 text-center">12%</td>
-                <td className="py-3 px-4 text-right font-semibold">₹1,440</td>
+              {components.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="py-8 text-center text-muted-foreground">No tax collected in this period</td>
+                </tr>
+              ) : (
+                components.map((component) => (
+                  <tr key={component.key} className="border-b border-border hover-elevate" data-testid={`row-tax-${component.key}`}>
+                    <td className="py-3 px-4">
+                      {component.line.rate > 0 ? formatTaxLabel(component.line) : component.line.name}
+                      {component.line.kind === "charge" && <Badge variant="outline" className="ml-2">Charge</Badge>}
+                    </td>
+                    <td className="py-3 px-4 text-right">{formatAmount(component.invoicedTaxable - component.creditedTaxable)}</td>
+                    <td className="py-3 px-4 text-right">{formatAmount(component.invoiced)}</td>
+                    <td className="py-3 px-4 text-right text-danger">-{formatAmount(component.credited)}</td>
+                    <td className="py-3 px-4 text-right font-semibold">{formatAmount(component.invoiced - component.credited)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-6 bg-card rounded-lg border border-card-border p-6">
+          <h3 className="font-semibold text-lg mb-4">Credit Notes</h3>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Credit Note</th>
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Invoice</th>
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Date</th>
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Reason</th>
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">Issued By</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Tax</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Amount</th>
               </tr>
+            </thead>
+            <tbody>
+              {periodCreditNotes.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="py-8 text-center text-muted-foreground">No credit notes in this period</td>
+                </tr>
+              ) : (
+                periodCreditNotes.map((note) => (
+                  <tr key={note.id} className="border-b border-border hover-elevate" data-testid={`row-credit-note-${note.id}`}>
+                    <td className="py-3 px-4 font-medium">
+                      {note.creditNoteNumber}
+                      {note.fullCancellation && <Badge variant="secondary" className="ml-2">Cancelled</Badge>}
+                    </td>
+                    <td className="py-3 px-4">{note.invoiceNumber}</td>
+                    <td className="py-3 px-4 text-muted-foreground">{new Date(note.createdAt).toLocaleDateString("en-IN")}</td>
+                    <td className="py-3 px-4">{note.reason}</td>
+                    <td className="py-3 px-4">{note.createdByName || "—"}</td>
+                    <td className="py-3 px-4 text-right">{formatAmount(parseFloat(note.tax))}</td>
+                    <td className="py-3 px-4 text-right font-semibold">{formatAmount(parseFloat(note.total))}</td>
+                  </tr>
+                ))
+              )}
             </tbody>
           </table>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,15 +1,217 @@
-import { Plus, Shield } from "lucide-react";
+import { useState } from "react";
+import { KeyRound, Plus, Shield, Trash2, UserPlus } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 import AppHeader from "@/components/AppHeader";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { permissionDefinitions, type PublicUser, type Role } from "@shared/schema";
+
+const ADMIN_ROLE_ID = "admin";
+
+const roleFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().optional(),
+});
+
+type RoleFormData = z.infer<typeof roleFormSchema>;
+
+const userFormSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  fullName: z.string().optional(),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  roleId: z.string().min(1, "Role is required"),
+  pin: z.union([z.literal(""), z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits")]).optional(),
+});
+
+type UserFormData = z.infer<typeof userFormSchema>;
+
+const permissionGroups = Array.from(new Set(permissionDefinitions.map((p) => p.group)));
 
 export default function UserRolesPage() {
-  const roles = [
-    { id: "1", name: "Manager", users: 2, permissions: ["All"] },
-    { id: "2", name: "Chef", users: 3, permissions: ["Kitchen", "Menu"] },
-    { id: "3", name: "Waiter", users: 8, permissions: ["Orders", "Tables"] },
-    { id: "4", name: "Cashier", users: 2, permissions: ["Billing", "Payments"] },
-  ];
+  const [isAddRoleDialogOpen, setIsAddRoleDialogOpen] = useState(false);
+  const [isAddUserDialogOpen, setIsAddUserDialogOpen] = useState(false);
+  const [pinUser, setPinUser] = useState<PublicUser | null>(null);
+  const [newPin, setNewPin] = useState("");
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+
+  const { data: roles = [], isLoading: rolesLoading } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+  });
+
+  const { data: users = [], isLoading: usersLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const roleForm = useForm<RoleFormData>({
+    resolver: zodResolver(roleFormSchema),
+    defaultValues: { name: "", description: "" },
+  });
+
+  const userForm = useForm<UserFormData>({
+    resolver: zodResolver(userFormSchema),
+    defaultValues: { username: "", fullName: "", password: "", roleId: "", pin: "" },
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: apiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const createRoleMutation = useMutation({
+    mutationFn: async (data: RoleFormData) => {
+      const res = await apiRequest("POST", "/api/roles", { ...data, permissions: [] });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      setIsAddRoleDialogOpen(false);
+      roleForm.reset();
+      toast({
+        title: "Success",
+        description: "Role added successfully",
+      });
+    },
+    onError: (error: Error) => showError(error, "Failed to add role"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<Pick<Role, "permissions" | "maxDiscountPercent">> }) => {
+      const res = await apiRequest("PATCH", `/api/roles/${id}`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+    onError: (error: Error) => showError(error, "Failed to update role"),
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/roles/${id}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      toast({
+        title: "Success",
+        description: "Role deleted successfully",
+      });
+    },
+    onError: (error: Error) => showError(error, "Failed to delete role"),
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: async ({ pin, ...data }: UserFormData) => {
+      const res = await apiRequest("POST", "/api/users", { ...data, pin: pin || null });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setIsAddUserDialogOpen(false);
+      userForm.reset();
+      toast({
+        title: "Success",
+        description: "User added successfully",
+      });
+    },
+    onError: (error: Error) => showError(error, "Failed to add user"),
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: { roleId?: string; active?: boolean; pin?: string | null } }) => {
+      const res = await apiRequest("PATCH", `/api/users/${id}`, data);
+      return await res.json();
+    },
+    onSuccess: (_user, { data }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      if (data.pin !== undefined) {
+        setPinUser(null);
+        toast({
+          title: "Success",
+          description: data.pin ? "Approval PIN saved" : "Approval PIN removed",
+        });
+      }
+    },
+    onError: (error: Error) => showError(error, "Failed to update user"),
+  });
+
+  const togglePermission = (role: Role, key: string, checked: boolean) => {
+    const permissions = checked
+      ? [...role.permissions, key]
+      : role.permissions.filter((p) => p !== key);
+    updateRoleMutation.mutate({ id: role.id, data: { permissions } });
+  };
+
+  const updateDiscountLimit = (role: Role, value: string) => {
+    const maxDiscountPercent = Math.min(Math.max(parseFloat(value) || 0, 0), 100);
+    if (maxDiscountPercent !== (role.maxDiscountPercent ?? 0)) {
+      updateRoleMutation.mutate({ id: role.id, data: { maxDiscountPercent } });
+    }
+  };
+
+  const handleSavePin = () => {
+    if (!pinUser) return;
+    if (!/^\d{4,6}$/.test(newPin)) {
+      toast({
+        title: "Validation Error",
+        description: "PIN must be 4 to 6 digits",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateUserMutation.mutate({ id: pinUser.id, data: { pin: newPin } });
+  };
+
+  const handleDeleteRole = (id: string) => {
+    if (confirm("Are you sure you want to delete this role?")) {
+      deleteRoleMutation.mutate(id);
+    }
+  };
+
+  const userCountFor = (roleId: string) => users.filter((u) => u.roleId === roleId).length;
 
   return (
     <div className="h-screen flex flex-col">
@@ -17,32 +219,364 @@ export default function UserRolesPage() {
       <div className="p-6 border-b border-border bg-muted/30">
         <div className="flex justify-between">
           <h3 className="text-lg font-semibold">Total Roles: {roles.length}</h3>
-          <Button data-testid="button-add-role"><Plus className="h-4 w-4 mr-2" />Add Role</Button>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                userForm.reset();
+                setIsAddUserDialogOpen(true);
+              }}
+              data-testid="button-add-user"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />Add User
+            </Button>
+            <Button
+              onClick={() => {
+                roleForm.reset();
+                setIsAddRoleDialogOpen(true);
+              }}
+              data-testid="button-add-role"
+            >
+              <Plus className="h-4 w-4 mr-2" />Add Role
+            </Button>
+          </div>
         </div>
       </div>
-      <div className="flex-1 overflow-y-auto p-6">
-        <div className="grid grid-cols-2 gap-6">
-          {roles.map((role) => (
-            <div key={role.id} className="bg-card border border-card-border rounded-lg p-6 hover-elevate">
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex items-center gap-2"><Shield className="h-5 w-5 text-primary" /><h3 className="font-semibold text-lg">{role.name}</h3></div>
-                <span className="text-sm text-muted-foreground">{role.users} users</span>
-              </div>
-              <div className="space-y-2">
-                <h4 className="font-medium text-sm mb-2">Permissions:</h4>
-                <div className="space-y-2">
-                  {["Dashboard", "Orders", "Kitchen", "Menu", "Reports", "Settings"].map((perm) => (
-                    <div key={perm} className="flex items-center gap-2">
-                      <Checkbox checked={role.permissions.includes("All") || role.permissions.includes(perm)} />
-                      <label className="text-sm">{perm}</label>
+      <div className="flex-1 overflow-y-auto p-6 space-y-8">
+        {rolesLoading ? (
+          <div className="text-center py-8">Loading...</div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {roles.map((role) => {
+              const isAdmin = role.id === ADMIN_ROLE_ID;
+              return (
+                <div key={role.id} className="bg-card border border-card-border rounded-lg p-6 hover-elevate" data-testid={`card-role-${role.id}`}>
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <div className="flex items-center gap-2"><Shield className="h-5 w-5 text-primary" /><h3 className="font-semibold text-lg">{role.name}</h3></div>
+                      {role.description && <p className="text-sm text-muted-foreground mt-1">{role.description}</p>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">{userCountFor(role.id)} users</span>
+                      {!role.isSystem && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteRole(role.id)}
+                          data-testid={`button-delete-role-${role.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
-                  ))}
+                  </div>
+                  <div className="flex items-center justify-between gap-4 mb-4 pb-4 border-b border-border">
+                    <Label htmlFor={`discount-limit-${role.id}`} className="text-sm">
+                      Max discount without approval (%)
+                    </Label>
+                    <Input
+                      id={`discount-limit-${role.id}`}
+                      key={`${role.id}-${role.maxDiscountPercent ?? 0}`}
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="w-24"
+                      defaultValue={isAdmin ? 100 : role.maxDiscountPercent ?? 0}
+                      disabled={isAdmin || updateRoleMutation.isPending}
+                      onBlur={(e) => updateDiscountLimit(role, e.target.value)}
+                      data-testid={`input-discount-limit-${role.id}`}
+                    />
+                  </div>
+                  <div className="space-y-4">
+                    {permissionGroups.map((group) => (
+                      <div key={group}>
+                        <h4 className="font-medium text-sm mb-2">{group}</h4>
+                        <div className="grid grid-cols-2 gap-2">
+                          {permissionDefinitions
+                            .filter((p) => p.group === group)
+                            .map((perm) => (
+                              <div key={perm.key} className="flex items-center gap-2">
+                                <Checkbox
+                                  id={`${role.id}-${perm.key}`}
+                                  checked={isAdmin || role.permissions.includes(perm.key)}
+                                  disabled={isAdmin || updateRoleMutation.isPending}
+                                  onCheckedChange={(checked) => togglePermission(role, perm.key, checked === true)}
+                                  data-testid={`checkbox-${role.id}-${perm.key}`}
+                                />
+                                <label htmlFor={`${role.id}-${perm.key}`} className="text-sm">{perm.label}</label>
+                              </div>
+                            ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-              </div>
-            </div>
-          ))}
+              );
+            })}
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-lg font-semibold mb-4">Users</h3>
+          {usersLoading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Full Name</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Approval PIN</TableHead>
+                  <TableHead>Last Login</TableHead>
+                  <TableHead className="text-right">Active</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((u) => {
+                  const isSelf = u.id === currentUser?.id;
+                  return (
+                    <TableRow key={u.id} data-testid={`row-user-${u.id}`}>
+                      <TableCell className="font-medium">{u.username}</TableCell>
+                      <TableCell>{u.fullName || "-"}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={u.roleId}
+                          disabled={isSelf}
+                          onValueChange={(roleId) => updateUserMutation.mutate({ id: u.id, data: { roleId } })}
+                        >
+                          <SelectTrigger className="w-40" data-testid={`select-role-${u.id}`}>
+                            <SelectValue placeholder="Select role" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {roles.map((role) => (
+                              <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setNewPin("");
+                            setPinUser(u);
+                          }}
+                          data-testid={`button-pin-${u.id}`}
+                        >
+                          <KeyRound className="h-4 w-4 mr-2" />
+                          {u.hasPin ? "Change" : "Set PIN"}
+                        </Button>
+                      </TableCell>
+                      <TableCell>{u.lastLoginAt ? new Date(u.lastLoginAt).toLocaleString() : "Never"}</TableCell>
+                      <TableCell className="text-right">
+                        <Switch
+                          checked={u.active}
+                          disabled={isSelf}
+                          onCheckedChange={(active) => updateUserMutation.mutate({ id: u.id, data: { active } })}
+                          data-testid={`switch-active-${u.id}`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
         </div>
       </div>
+
+      <Dialog open={isAddRoleDialogOpen} onOpenChange={setIsAddRoleDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Role</DialogTitle>
+          </DialogHeader>
+          <Form {...roleForm}>
+            <form onSubmit={roleForm.handleSubmit((data) => createRoleMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={roleForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. Bartender" data-testid="input-role-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={roleForm.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (Optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="What this role is for" data-testid="input-role-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsAddRoleDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createRoleMutation.isPending} data-testid="button-submit-role">
+                  {createRoleMutation.isPending ? "Adding..." : "Add Role"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isAddUserDialogOpen} onOpenChange={setIsAddUserDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add User</DialogTitle>
+          </DialogHeader>
+          <Form {...userForm}>
+            <form onSubmit={userForm.handleSubmit((data) => createUserMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={userForm.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Username" data-testid="input-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={userForm.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full Name (Optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Full name" data-testid="input-full-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={userForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="password" placeholder="At least 6 characters" data-testid="input-password" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={userForm.control}
+                name="roleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-new-user-role">
+                          <SelectValue placeholder="Select role" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {roles.map((role) => (
+                          <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={userForm.control}
+                name="pin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Approval PIN (Optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="off"
+                        maxLength={6}
+                        placeholder="4 to 6 digits, to approve discounts"
+                        data-testid="input-new-user-pin"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsAddUserDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createUserMutation.isPending} data-testid="button-submit-user">
+                  {createUserMutation.isPending ? "Adding..." : "Add User"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!pinUser} onOpenChange={(open) => !open && setPinUser(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Approval PIN for {pinUser?.fullName || pinUser?.username}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Keyed in at the counter to approve a discount above the cashier's limit, up to this user's own role limit.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="user-pin">New PIN</Label>
+              <Input
+                id="user-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={6}
+                value={newPin}
+                onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ""))}
+                data-testid="input-user-pin"
+              />
+            </div>
+            <div className="flex justify-between gap-2">
+              {pinUser?.hasPin ? (
+                <Button
+                  variant="outline"
+                  onClick={() => updateUserMutation.mutate({ id: pinUser.id, data: { pin: null } })}
+                  disabled={updateUserMutation.isPending}
+                  data-testid="button-remove-pin"
+                >
+                  Remove PIN
+                </Button>
+              ) : (
+                <span />
+              )}
+              <Button onClick={handleSavePin} disabled={updateUserMutation.isPending} data-testid="button-save-pin">
+                Save PIN
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
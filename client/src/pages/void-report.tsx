@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Ban, Gift, ChefHat, ShieldCheck } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import AppHeader from "@/components/AppHeader";
+import StatCard from "@/components/StatCard";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { adjustmentReasonLabel, type AdjustmentTotals, type VoidReport } from "@shared/void-report";
+
+// "YYYY-MM-DD" in local time, matching the date inputs
+const dayOf = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return dayOf(date);
+};
+
+// Whole local days, so "to" runs to the start of the day after
+function rangeUrl(fromDay: string, toDay: string) {
+  const from = new Date(`${fromDay}T00:00:00`);
+  const to = new Date(`${toDay}T00:00:00`);
+  to.setDate(to.getDate() + 1);
+  return `/api/reports/voids?from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`;
+}
+
+const rupees = (amount: number) => `₹${amount.toFixed(2)}`;
+
+function TotalsTable<T extends AdjustmentTotals>({
+  rows,
+  label,
+  nameOf,
+  keyOf,
+  testId,
+}: {
+  rows: T[];
+  label: string;
+  nameOf: (row: T) => React.ReactNode;
+  keyOf: (row: T) => string;
+  testId: string;
+}) {
+  if (rows.length === 0) {
+    return <div className="text-center py-6 text-muted-foreground">No voids or comps in this period</div>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full" data-testid={testId}>
+        <thead>
+          <tr className="border-b border-border">
+            <th className="text-left py-3 px-4 font-medium text-muted-foreground">{label}</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">Voids</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">After KOT</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">Voided</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">Comps</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">Comped</th>
+            <th className="text-right py-3 px-4 font-medium text-muted-foreground">Approved</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={keyOf(row)} className="border-b border-border last:border-0 hover-elevate">
+              <td className="py-3 px-4 font-medium">{nameOf(row)}</td>
+              <td className="py-3 px-4 text-right">{row.voids}</td>
+              <td className="py-3 px-4 text-right">{row.voidsAfterKot}</td>
+              <td className="py-3 px-4 text-right">{rupees(row.voidAmount)}</td>
+              <td className="py-3 px-4 text-right">{row.comps}</td>
+              <td className="py-3 px-4 text-right">{rupees(row.compAmount)}</td>
+              <td className="py-3 px-4 text-right">{row.approved}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function VoidReportPage() {
+  const [fromDay, setFromDay] = useState(daysAgo(6));
+  const [toDay, setToDay] = useState(dayOf(new Date()));
+
+  const { data: report, isLoading } = useQuery<VoidReport>({
+    queryKey: [rangeUrl(fromDay, toDay)],
+    enabled: !!fromDay && !!toDay && fromDay <= toDay,
+  });
+
+  const overall = report?.overall;
+
+  return (
+    <div className="h-screen flex flex-col">
+      <AppHeader title="Voids & Comps" showSearch={false} />
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="flex items-end gap-4 mb-6">
+          <div className="space-y-2">
+            <Label htmlFor="void-report-from">From</Label>
+            <Input
+              id="void-report-from"
+              type="date"
+              value={fromDay}
+              max={toDay}
+              onChange={(e) => setFromDay(e.target.value)}
+              className="w-44"
+              data-testid="input-void-report-from"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="void-report-to">To</Label>
+            <Input
+              id="void-report-to"
+              type="date"
+              value={toDay}
+              min={fromDay}
+              onChange={(e) => setToDay(e.target.value)}
+              className="w-44"
+              data-testid="input-void-report-to"
+            />
+          </div>
+          <p className="text-sm text-muted-foreground pb-2">
+            Amounts are the line value at menu price when it was voided or comped
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading voids and comps...</div>
+        ) : !report || !overall ? (
+          <div className="text-center py-8 text-muted-foreground">Pick a start date on or before the end date</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-4 mb-6">
+              <StatCard title="Voided" value={`${overall.voids} · ${rupees(overall.voidAmount)}`} icon={Ban} color="red" />
+              <StatCard title="Voided After KOT" value={overall.voidsAfterKot} icon={ChefHat} color="yellow" />
+              <StatCard title="Comped" value={`${overall.comps} · ${rupees(overall.compAmount)}`} icon={Gift} color="blue" />
+              <StatCard title="Manager Approved" value={overall.approved} icon={ShieldCheck} color="green" />
+            </div>
+
+            <Card className="p-6 mb-6">
+              <h3 className="font-semibold text-lg mb-4">By Staff Member</h3>
+              <TotalsTable
+                rows={report.byStaff}
+                label="Staff"
+                nameOf={(row) => row.name}
+                keyOf={(row) => row.userId}
+                testId="table-voids-by-staff"
+              />
+            </Card>
+
+            <Card className="p-6 mb-6">
+              <h3 className="font-semibold text-lg mb-4">By Day</h3>
+              <TotalsTable
+                rows={report.byDay}
+                label="Day"
+                nameOf={(row) => new Date(`${row.day}T00:00:00`).toLocaleDateString()}
+                keyOf={(row) => row.day}
+                testId="table-voids-by-day"
+              />
+            </Card>
+
+            <div className="grid grid-cols-2 gap-6">
+              <Card className="p-6">
+                <h3 className="font-semibold text-lg mb-4">By Reason</h3>
+                {report.byReason.length === 0 ? (
+                  <div className="text-center py-6 text-muted-foreground">No voids or comps in this period</div>
+                ) : (
+                  <div className="space-y-2" data-testid="list-voids-by-reason">
+                    {report.byReason.map((row) => (
+                      <div key={`${row.kind}:${row.reasonCode}`} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="flex items-center gap-2">
+                          <Badge variant={row.kind === "void" ? "destructive" : "secondary"}>{row.kind === "void" ? "Void" : "Comp"}</Badge>
+                          {row.label}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {row.count} · {rupees(row.amount)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+
+              <Card className="p-6">
+                <h3 className="font-semibold text-lg mb-4">Recent</h3>
+                {report.adjustments.length === 0 ? (
+                  <div className="text-center py-6 text-muted-foreground">No voids or comps in this period</div>
+                ) : (
+                  <div className="space-y-3 max-h-96 overflow-y-auto" data-testid="list-item-adjustments">
+                    {report.adjustments.map((adjustment) => (
+                      <div key={adjustment.id} className="text-sm border-b border-border last:border-0 pb-2">
+                        <div className="flex justify-between gap-2">
+                          <span className="font-medium">
+                            {adjustment.quantity} × {adjustment.name}
+                          </span>
+                          <span>{rupees(parseFloat(adjustment.amount))}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {adjustment.kind === "void" ? (adjustment.afterKot ? "Voided after KOT" : "Voided") : "Comped"}
+                          {" · "}
+                          {adjustmentReasonLabel(adjustment.kind, adjustment.reasonCode)} · {adjustment.byName}
+                          {adjustment.approvedByName && `, approved by ${adjustment.approvedByName}`}
+                          {adjustment.wastageIds.length > 0 && " · logged as wastage"}
+                          {" · "}
+                          {new Date(adjustment.createdAt).toLocaleString()}
+                        </p>
+                        {adjustment.note && <p className="text-xs italic text-muted-foreground">{adjustment.note}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -41,10 +41,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Wastage, InventoryItem } from "@shared/schema";
+import { unitsFor } from "@shared/units";
 
 const wastageFormSchema = z.object({
   inventoryItemId: z.string().min(1, "Inventory item is required"),
   quantity: z.string().min(1, "Quantity is required"),
+  unit: z.string().min(1, "Unit is required"),
   reason: z.string().min(1, "Reason is required"),
   reportedBy: z.string().optional(),
   notes: z.string().optional(),
@@ -91,6 +93,7 @@ export default function WastagePage() {
     defaultValues: {
       inventoryItemId: "",
       quantity: "",
+      unit: "",
       reason: "",
       reportedBy: "",
       notes: "",
@@ -155,6 +158,13 @@ export default function WastagePage() {
   // Watch for inventory item selection to auto-fill unit
   const selectedItemId = form.watch("inventoryItemId");
   const selectedItem = inventoryItems.find(item => item.id === selectedItemId);
+  const selectedUnits = selectedItem ? unitsFor(selectedItem) : [];
+
+  useEffect(() => {
+    if (selectedItem && !selectedUnits.includes(form.getValues("unit"))) {
+      form.setValue("unit", selectedItem.unit);
+    }
+  }, [selectedItemId]);
 
   return (
     <div className="h-screen flex flex-col">
@@ -276,15 +286,28 @@ export default function WastagePage() {
                   )}
                 />
 
-                <div>
-                  <FormLabel>Unit</FormLabel>
-                  <Input
-                    value={selectedItem?.unit || "-"}
-                    disabled
-                    className="bg-muted"
-                    data-testid="input-unit"
-                  />
-                </div>
+                <FormField
+                  control={form.control}
+                  name="unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={!selectedItem}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-unit">
+                            <SelectValue placeholder="-" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {selectedUnits.map(unit => (
+                            <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               <FormField
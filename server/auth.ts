@@ -0,0 +1,387 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import {
+  loginSchema,
+  PERMISSIONS,
+  ALL_PERMISSIONS,
+  type Permission,
+  type Role,
+  type User,
+  type PublicUser,
+  type SessionUser,
+  hasPermission,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SessionUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // one shift
+const REMEMBER_ME_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// API paths reachable without a session
+const PUBLIC_API_PATHS = new Set(["/api/auth/login", "/api/auth/me"]);
+
+export const ADMIN_ROLE_ID = "admin";
+
+// Built-in roles, created on first start and never deletable
+const DEFAULT_ROLES: Array<{ id: string; name: string; description: string; permissions: Permission[]; maxDiscountPercent: number }> = [
+  {
+    id: ADMIN_ROLE_ID,
+    name: "Admin",
+    description: "Full access to every feature",
+    permissions: ALL_PERMISSIONS,
+    maxDiscountPercent: 100,
+  },
+  {
+    id: "manager",
+    name: "Manager",
+    description: "Runs the floor, approves voids and discounts, views reports",
+    permissions: ALL_PERMISSIONS.filter((p) => p !== PERMISSIONS.DATA_CLEAR),
+    maxDiscountPercent: 50,
+  },
+  {
+    id: "cashier",
+    name: "Cashier",
+    description: "Billing counter",
+    permissions: [
+      PERMISSIONS.ORDERS_MANAGE,
+      PERMISSIONS.ORDERS_APPLY_DISCOUNT,
+      PERMISSIONS.BILLING_CHECKOUT,
+      PERMISSIONS.CUSTOMERS_MANAGE,
+      PERMISSIONS.DELIVERY_MANAGE,
+    ],
+    maxDiscountPercent: 10,
+  },
+  {
+    id: "waiter",
+    name: "Waiter",
+    description: "Takes orders and manages tables",
+    permissions: [
+      PERMISSIONS.ORDERS_MANAGE,
+      PERMISSIONS.TABLES_MANAGE,
+      PERMISSIONS.CUSTOMERS_MANAGE,
+    ],
+    maxDiscountPercent: 0,
+  },
+  {
+    id: "kitchen",
+    name: "Kitchen",
+    description: "Kitchen display only",
+    permissions: [PERMISSIONS.KITCHEN_MANAGE],
+    maxDiscountPercent: 0,
+  },
+];
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { password, pin, _id, ...rest } = user as User & { _id?: unknown };
+  return { ...rest, hasPin: !!pin };
+}
+
+// Roles stored before discount limits existed allow no discount without approval
+function discountLimitOf(role: Pick<Role, "id" | "maxDiscountPercent"> | undefined): number {
+  return role?.id === ADMIN_ROLE_ID ? 100 : role?.maxDiscountPercent ?? 0;
+}
+
+async function toSessionUser(user: User): Promise<SessionUser> {
+  const role = await storage.getRole(user.roleId);
+  return {
+    ...toPublicUser(user),
+    roleName: role?.name ?? "No role",
+    // Admin always holds every permission, including ones added after the role was stored
+    permissions: user.roleId === ADMIN_ROLE_ID ? [...ALL_PERMISSIONS] : role?.permissions ?? [],
+    maxDiscountPercent: discountLimitOf(role),
+  };
+}
+
+export type Authorisation =
+  | { allowed: true; approver: PublicUser | null }
+  | { allowed: false; error: string };
+
+// Another active user, not the one asking, whose PIN matches and whose role qualifies
+async function findApprover(
+  user: SessionUser,
+  managerPin: string,
+  qualifies: (candidate: User, role: Role | undefined) => boolean,
+): Promise<PublicUser | null> {
+  const [users, roles] = await Promise.all([storage.getUsers(), storage.getRoles()]);
+  const rolesById = new Map(roles.map((role) => [role.id, role]));
+  for (const candidate of users) {
+    if (!candidate.active || !candidate.pin || candidate.id === user.id) {
+      continue;
+    }
+    const role = rolesById.get(candidate.roleId);
+    if (qualifies(candidate, role) && (await comparePasswords(managerPin, candidate.pin))) {
+      return toPublicUser(candidate);
+    }
+  }
+  return null;
+}
+
+const holds = (candidate: User, role: Role | undefined, permission: Permission) =>
+  candidate.roleId === ADMIN_ROLE_ID || !!role?.permissions.includes(permission);
+
+/**
+ * Whether a role grants nothing beyond what the user already has: every
+ * permission and no higher discount limit. Users managing users and roles
+ * may only hand out, edit or take over roles within their own authority.
+ */
+export function isWithinAuthority(
+  user: SessionUser,
+  role: Pick<Role, "id" | "permissions" | "maxDiscountPercent">,
+): boolean {
+  const permissions = role.id === ADMIN_ROLE_ID ? ALL_PERMISSIONS : role.permissions;
+  return (
+    permissions.every((permission) => hasPermission(user, permission as Permission)) &&
+    discountLimitOf(role) <= user.maxDiscountPercent
+  );
+}
+
+/**
+ * A discount within the user's own role limit goes through as is. Above it,
+ * another active user whose role may discount at least that much has to key
+ * in their approval PIN.
+ */
+export async function authoriseDiscount(
+  user: SessionUser,
+  percent: number,
+  managerPin: string | undefined,
+): Promise<Authorisation> {
+  if (percent <= user.maxDiscountPercent) {
+    return { allowed: true, approver: null };
+  }
+  if (!managerPin) {
+    return {
+      allowed: false,
+      error: `Discounts above ${user.maxDiscountPercent}% (item and order discounts counted together) need a manager's approval PIN`,
+    };
+  }
+
+  const approver = await findApprover(
+    user,
+    managerPin,
+    (candidate, role) => holds(candidate, role, PERMISSIONS.ORDERS_APPLY_DISCOUNT) && discountLimitOf(role) >= percent,
+  );
+  return approver
+    ? { allowed: true, approver }
+    : { allowed: false, error: "Approval PIN is not valid for a discount of this size" };
+}
+
+// Voiding food the kitchen already has, or giving it away, takes void rights or the PIN of someone with them
+export async function authoriseVoid(user: SessionUser, managerPin: string | undefined): Promise<Authorisation> {
+  if (hasPermission(user, PERMISSIONS.ORDERS_VOID_ITEM)) {
+    return { allowed: true, approver: null };
+  }
+  if (!managerPin) {
+    return { allowed: false, error: "Voids and comps need a manager's approval PIN" };
+  }
+  const approver = await findApprover(user, managerPin, (candidate, role) => holds(candidate, role, PERMISSIONS.ORDERS_VOID_ITEM));
+  return approver ? { allowed: true, approver } : { allowed: false, error: "Approval PIN is not valid for voids and comps" };
+}
+
+const MemoryStore = createMemoryStore(session);
+
+export const sessionMiddleware: RequestHandler = session({
+  secret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+  resave: false,
+  saveUninitialized: false,
+  store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+  cookie: {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_TTL_MS,
+  },
+});
+
+async function ensureDefaultRoles(): Promise<void> {
+  for (const role of DEFAULT_ROLES) {
+    const existing = await storage.getRole(role.id);
+    if (!existing) {
+      await storage.createRole({ ...role, isSystem: true });
+    } else if (existing.maxDiscountPercent === undefined) {
+      await storage.updateRole(role.id, { maxDiscountPercent: role.maxDiscountPercent });
+    }
+  }
+}
+
+async function ensureDefaultAdmin(): Promise<void> {
+  const users = await storage.getUsers();
+  if (users.length > 0) {
+    return;
+  }
+  // No built-in fallback: a password shipped with the code is a password everyone knows
+  const username = process.env.ADMIN_USERNAME || "admin";
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password || password.length < 6) {
+    throw new Error("No users exist yet; set ADMIN_PASSWORD (at least 6 characters) to create the first admin user");
+  }
+  await storage.createUser({
+    username,
+    password: await hashPassword(password),
+    fullName: "Administrator",
+    roleId: ADMIN_ROLE_ID,
+    active: true,
+  });
+  console.log(`🔐 Created admin user "${username}" with the password from ADMIN_PASSWORD`);
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.path.startsWith("/api") || PUBLIC_API_PATHS.has(req.path)) {
+    return next();
+  }
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+/**
+ * Route guard: the signed-in user's role must hold at least one of the given
+ * permissions.
+ */
+export function requirePermission(...permissions: Permission[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!permissions.some((permission) => req.user.permissions.includes(permission))) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+/**
+ * Runs the session and passport middleware against a raw WebSocket upgrade
+ * request and reports whether it carries a signed-in session.
+ */
+export function authenticateUpgrade(req: IncomingMessage): Promise<boolean> {
+  return new Promise((resolve) => {
+    const expressReq = req as Request;
+    const res = {} as Response;
+    sessionMiddleware(expressReq, res, () => {
+      passport.initialize()(expressReq, res, () => {
+        passport.session()(expressReq, res, () => {
+          resolve(!!expressReq.user);
+        });
+      });
+    });
+  });
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !user.active || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, await toSessionUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      if (!user || !user.active) {
+        return done(null, false);
+      }
+      done(null, await toSessionUser(user));
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  ensureDefaultRoles()
+    .then(ensureDefaultAdmin)
+    .catch((error) => {
+      console.error("❌ Failed to create default roles and admin user:", error);
+    });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const result = loginSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    passport.authenticate("local", (err: unknown, user: SessionUser | false) => {
+      if (err) {
+        return next(err);
+      }
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, async (loginErr) => {
+        if (loginErr) {
+          return next(loginErr);
+        }
+        req.session.cookie.maxAge = result.data.rememberMe ? REMEMBER_ME_TTL_MS : SESSION_TTL_MS;
+        try {
+          await storage.updateUser(user.id, { lastLoginAt: new Date() });
+        } catch (error) {
+          return next(error);
+        }
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) {
+        return next(err);
+      }
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json(req.user);
+  });
+
+  app.use(requireAuth);
+}
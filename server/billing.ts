@@ -0,0 +1,460 @@
+import type { IStorage, NumberSeries } from "./storage";
+import { authoriseDiscount } from "./auth";
+import { getOrderPromotions, promotionLines, recordRedemptions } from "./promotions";
+import {
+  invoiceSeriesSettingsSchema,
+  type AppliedDiscount,
+  type CreditNote,
+  type CreditNoteRequest,
+  type DiscountRequest,
+  type Invoice,
+  type InvoiceDiscount,
+  type InvoicePromotion,
+  type InvoiceSeriesSettings,
+  type Order,
+  type OrderItem,
+  type SessionUser,
+} from "@shared/schema";
+import {
+  calculateBill,
+  calculateCredit,
+  defaultInvoiceSeries,
+  discountPercent,
+  formatInvoiceNumber,
+  invoiceSeriesPrefix,
+  parseDiscount,
+  type BillBreakdown,
+  type BillLine,
+} from "@shared/billing";
+import {
+  assignShares,
+  calculateGuestBills,
+  type GuestBill,
+  type SplitAssignment,
+  type SplitGuest,
+} from "@shared/split-bill";
+
+export type { BillBreakdown };
+
+interface IssueInvoiceOptions {
+  order: Order;
+  orderItems: OrderItem[];
+  status: string;
+  paymentMode?: string | null;
+  splitPayments?: unknown[] | null;
+  // Reuse a breakdown the caller already validated against (e.g. split payments)
+  bill?: BillBreakdown;
+}
+
+/**
+ * Prices an order's items with the configured tax profiles, the discounts
+ * stored on the order and the offers and coupon it qualifies for. Every path
+ * that shows or charges a bill total goes through here.
+ */
+export async function calculateOrderBill(storage: IStorage, order: Order, orderItems: OrderItem[]): Promise<BillBreakdown> {
+  return (await pricedOrder(storage, order, orderItems)).bill;
+}
+
+async function pricedOrder(storage: IStorage, order: Order, orderItems: OrderItem[]) {
+  const [menuItems, profiles] = await Promise.all([storage.getMenuItems(), storage.getTaxProfiles()]);
+  const menuById = new Map(menuItems.map((menuItem) => [menuItem.id, menuItem]));
+  const promotions = await getOrderPromotions(storage, order, promotionLines(orderItems, menuById));
+
+  const lines: BillLine[] = orderItems.map((item) => {
+    const menuItem = menuById.get(item.menuItemId);
+    return {
+      price: parseFloat(item.price),
+      quantity: item.quantity,
+      category: menuItem?.category ?? null,
+      taxProfileId: menuItem?.taxProfileId ?? null,
+      discount: parseDiscount<AppliedDiscount>(item.discount),
+    };
+  });
+  const bill = calculateBill(lines, profiles, { orderDiscount: parseDiscount<AppliedDiscount>(order.discount), promotions });
+  return { lines, profiles, bill };
+}
+
+export type SplitBills =
+  | { ok: true; bill: BillBreakdown; guestBills: GuestBill[] }
+  | { ok: false; error: string };
+
+// The whole order's bill and each guest's part of it, for an item-wise split
+export async function calculateSplitBills(
+  storage: IStorage,
+  order: Order,
+  orderItems: OrderItem[],
+  guests: SplitGuest[],
+  assignments: SplitAssignment[],
+): Promise<SplitBills> {
+  const assigned = assignShares(orderItems.map((item) => item.id), guests, assignments);
+  if (!assigned.ok) {
+    return assigned;
+  }
+  const { lines, profiles, bill } = await pricedOrder(storage, order, orderItems);
+  return { ok: true, bill, guestBills: calculateGuestBills(lines, bill, profiles, guests, assigned.shares) };
+}
+
+export type PreparedDiscount =
+  | { ok: true; discount: AppliedDiscount }
+  | { ok: false; error: string; requiresApproval: boolean };
+
+/**
+ * Checks a requested discount against the user's role limit (and the
+ * approving manager's, if a PIN was given) and stamps who gave it. The limit
+ * applies to the discount itself and to everything staff have taken off the
+ * order with it in place, so stacking item and order discounts needs approval
+ * as soon as the total goes over.
+ */
+async function prepareDiscount(request: DiscountRequest, base: number, combinedPercent: number, user: SessionUser): Promise<PreparedDiscount> {
+  if (base <= 0) {
+    return { ok: false, error: "There is nothing to discount", requiresApproval: false };
+  }
+  if (request.type === "flat" && request.value > base) {
+    return { ok: false, error: `A flat discount cannot exceed ₹${base.toFixed(2)}`, requiresApproval: false };
+  }
+
+  const percent = Math.max(discountPercent(request, base), combinedPercent);
+  const authorisation = await authoriseDiscount(user, percent, request.managerPin);
+  if (!authorisation.allowed) {
+    return { ok: false, error: authorisation.error, requiresApproval: true };
+  }
+
+  const { approver } = authorisation;
+  return {
+    ok: true,
+    discount: {
+      type: request.type,
+      value: request.value,
+      reasonCode: request.reasonCode,
+      note: request.note || null,
+      appliedBy: user.id,
+      appliedByName: user.fullName || user.username,
+      approvedBy: approver?.id ?? null,
+      approvedByName: approver ? approver.fullName || approver.username : null,
+      appliedAt: new Date().toISOString(),
+    },
+  };
+}
+
+// Item and order discounts together as a share of the order's gross; promotions are not staff discounts and stay out
+async function combinedDiscountPercent(storage: IStorage, order: Order, orderItems: OrderItem[]): Promise<number> {
+  const gross = orderItems.reduce((sum, item) => sum + parseFloat(item.price) * item.quantity, 0);
+  if (gross <= 0) {
+    return 0;
+  }
+  const bill = await calculateOrderBill(storage, order, orderItems);
+  const given = bill.itemDiscounts.reduce((sum, amount) => sum + amount, 0) + bill.orderDiscount;
+  return Math.round((given / gross) * 10000) / 100;
+}
+
+const proposed = (request: DiscountRequest) => JSON.stringify({ type: request.type, value: request.value });
+
+// Order discounts apply to what is left after item discounts and promotions
+export async function prepareOrderDiscount(storage: IStorage, request: DiscountRequest, order: Order, orderItems: OrderItem[], user: SessionUser) {
+  const bill = await calculateOrderBill(storage, order, orderItems);
+  const base = orderItems.reduce((sum, item, index) => {
+    const gross = parseFloat(item.price) * item.quantity;
+    return sum + gross - bill.itemDiscounts[index] - bill.promotionDiscounts[index];
+  }, 0);
+  const combined = await combinedDiscountPercent(storage, { ...order, discount: proposed(request) }, orderItems);
+  return prepareDiscount(request, Math.round(base * 100) / 100, combined, user);
+}
+
+export async function prepareItemDiscount(
+  storage: IStorage,
+  request: DiscountRequest,
+  order: Order,
+  orderItems: OrderItem[],
+  item: OrderItem,
+  user: SessionUser,
+) {
+  const withDiscount = orderItems.map((line) => (line.id === item.id ? { ...line, discount: proposed(request) } : line));
+  const combined = await combinedDiscountPercent(storage, order, withDiscount);
+  return prepareDiscount(request, parseFloat(item.price) * item.quantity, combined, user);
+}
+
+const INVOICE_SERIES_SETTING = "invoice_series";
+
+export async function getInvoiceSeriesSettings(storage: IStorage): Promise<InvoiceSeriesSettings> {
+  const stored = await storage.getSetting(INVOICE_SERIES_SETTING);
+  if (!stored) {
+    return defaultInvoiceSeries;
+  }
+  const parsed = invoiceSeriesSettingsSchema.safeParse(JSON.parse(stored));
+  return parsed.success ? parsed.data : defaultInvoiceSeries;
+}
+
+export async function saveInvoiceSeriesSettings(storage: IStorage, settings: InvoiceSeriesSettings): Promise<void> {
+  await storage.setSetting(INVOICE_SERIES_SETTING, JSON.stringify(settings));
+}
+
+/**
+ * The series the given date falls in. The counter is keyed by the expanded
+ * prefix, so a new fiscal year (or a different outlet code) starts again at 1
+ * while earlier series are left untouched. Storage draws the number as it
+ * writes the invoice, so a failed write does not leave a gap.
+ */
+export async function invoiceNumberSeries(storage: IStorage, date = new Date()): Promise<NumberSeries> {
+  const settings = await getInvoiceSeriesSettings(storage);
+  const prefix = invoiceSeriesPrefix(settings, date);
+  return { counter: `invoice:${prefix}`, format: (sequence) => formatInvoiceNumber(prefix, sequence, settings.digits) };
+}
+
+// Credit notes run their own series alongside the invoices, e.g. CN/FY26-27/A/000001
+async function creditNoteNumberSeries(storage: IStorage, date = new Date()): Promise<NumberSeries> {
+  const settings = await getInvoiceSeriesSettings(storage);
+  const prefix = `CN/${invoiceSeriesPrefix(settings, date)}`;
+  return { counter: `creditNote:${prefix}`, format: (sequence) => formatInvoiceNumber(prefix, sequence, settings.digits) };
+}
+
+// Saved and billed printouts are proformas: the sale is not settled yet, so they stay out of the tax invoice series
+export const PROFORMA_STATUSES = ["Saved", "Billed"];
+
+export const isProforma = (invoice: Pick<Invoice, "status">) =>
+  PROFORMA_STATUSES.includes(invoice.status) || invoice.status === "Superseded";
+
+async function proformaNumberSeries(storage: IStorage, date = new Date()): Promise<NumberSeries> {
+  const settings = await getInvoiceSeriesSettings(storage);
+  const prefix = `PF/${invoiceSeriesPrefix(settings, date)}`;
+  return { counter: `proforma:${prefix}`, format: (sequence) => formatInvoiceNumber(prefix, sequence, settings.digits) };
+}
+
+// Once an order is paid its earlier proformas are kept for reference but no longer stand as the bill
+async function supersedeProformas(storage: IStorage, orderId: string): Promise<void> {
+  for (const invoice of await storage.getInvoicesByOrder(orderId)) {
+    if (PROFORMA_STATUSES.includes(invoice.status)) {
+      await storage.updateInvoiceStatus(invoice.id, "Superseded");
+    }
+  }
+}
+
+async function tableSnapshot(storage: IStorage, order: Order) {
+  const tableInfo = order.tableId ? await storage.getTable(order.tableId) : undefined;
+  const floorName = tableInfo?.floorId ? (await storage.getFloor(tableInfo.floorId))?.name || null : null;
+  return { tableInfo, floorName };
+}
+
+// A comped line prints at zero, so the invoice says why
+const invoiceLineName = (item: OrderItem) => (item.comp ? `${item.name} (Complimentary)` : item.name);
+
+/**
+ * Builds and stores the invoice for an order: bill breakdown, invoice number,
+ * table/floor snapshot and the item list as it stood at billing time. Saved
+ * and billed printouts are numbered as proformas; only a paid invoice takes
+ * the next tax invoice number, and it supersedes the order's proformas.
+ */
+export async function issueInvoice(
+  storage: IStorage,
+  { order, orderItems, status, paymentMode, splitPayments, bill }: IssueInvoiceOptions,
+): Promise<{ invoice: Invoice; bill: BillBreakdown }> {
+  const breakdown = bill ?? (await calculateOrderBill(storage, order, orderItems));
+  const { tableInfo, floorName } = await tableSnapshot(storage, order);
+
+  const invoiceItemsData = orderItems.map((item, index) => ({
+    menuItemId: item.menuItemId,
+    name: invoiceLineName(item),
+    quantity: item.quantity,
+    price: parseFloat(item.price),
+    discountAmount:
+      Math.round((breakdown.itemDiscounts[index] + breakdown.promotionDiscounts[index] + breakdown.orderDiscountShares[index]) * 100) / 100,
+    isVeg: item.isVeg,
+    notes: item.notes || undefined,
+    modifiers: item.modifiers && item.modifiers.length > 0 ? item.modifiers : undefined,
+    components: item.components && item.components.length > 0 ? item.components : undefined,
+  }));
+
+  // Kept on the invoice so the reason and approver survive the order being cleared
+  const discounts: InvoiceDiscount[] = [];
+  const orderDiscount = parseDiscount<AppliedDiscount>(order.discount);
+  if (orderDiscount && breakdown.orderDiscount > 0) {
+    discounts.push({ ...orderDiscount, scope: "order", itemName: null, amount: breakdown.orderDiscount });
+  }
+  orderItems.forEach((item, index) => {
+    const itemDiscount = parseDiscount<AppliedDiscount>(item.discount);
+    if (itemDiscount && breakdown.itemDiscounts[index] > 0) {
+      discounts.push({ ...itemDiscount, scope: "item", itemName: item.name, amount: breakdown.itemDiscounts[index] });
+    }
+  });
+
+  const promotions: InvoicePromotion[] = breakdown.promotions
+    .filter((promotion) => promotion.amount > 0)
+    .map(({ lineAmounts, ...promotion }) => promotion);
+
+  const series = PROFORMA_STATUSES.includes(status) ? await proformaNumberSeries(storage) : await invoiceNumberSeries(storage);
+  const invoice = await storage.createInvoice(series, {
+    orderId: order.id,
+    tableNumber: tableInfo?.tableNumber || null,
+    floorName,
+    customerName: order.customerName,
+    customerPhone: order.customerPhone,
+    subtotal: breakdown.subtotal.toFixed(2),
+    tax: breakdown.taxes.toFixed(2),
+    discount: breakdown.discount.toFixed(2),
+    roundOff: breakdown.roundOff.toFixed(2),
+    total: breakdown.total.toFixed(2),
+    taxBreakdown: JSON.stringify(breakdown.taxBreakdown),
+    discounts: discounts.length > 0 ? JSON.stringify(discounts) : null,
+    promotions: promotions.length > 0 ? JSON.stringify(promotions) : null,
+    paymentMode: paymentMode || order.paymentMode || "cash",
+    splitPayments: splitPayments && splitPayments.length > 0 ? JSON.stringify(splitPayments) : null,
+    status,
+    items: JSON.stringify(invoiceItemsData),
+    notes: null,
+  });
+
+  // A promotion counts as redeemed once the bill is paid, not when it is previewed or printed
+  if (status === "Paid") {
+    await recordRedemptions(storage, invoice, order, breakdown.promotions);
+    await supersedeProformas(storage, order.id);
+  }
+
+  return { invoice, bill: breakdown };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Issues one paid invoice per guest of an item-wise split, each numbered in
+ * the normal series and carrying the guest's lines, tax and share of the
+ * discounts and offers. All of them point at the order. Offers and the coupon
+ * are redeemed once for the order, against the first guest's invoice.
+ */
+export async function issueSplitInvoices(
+  storage: IStorage,
+  { order, orderItems, bill, guestBills }: { order: Order; orderItems: OrderItem[]; bill: BillBreakdown; guestBills: GuestBill[] },
+): Promise<Invoice[]> {
+  const { tableInfo, floorName } = await tableSnapshot(storage, order);
+  const orderDiscount = parseDiscount<AppliedDiscount>(order.discount);
+  const invoices: Invoice[] = [];
+
+  for (const { guest, lines, bill: guestBill } of guestBills) {
+    const items = lines.map(({ index, share }, position) => {
+      const item = orderItems[index];
+      return {
+        menuItemId: item.menuItemId,
+        name: share < 1 ? `${invoiceLineName(item)} (1/${Math.round(1 / share)} share)` : invoiceLineName(item),
+        quantity: item.quantity,
+        price: parseFloat(item.price) * share,
+        discountAmount: guestBill.itemDiscounts[position],
+        isVeg: item.isVeg,
+        notes: item.notes || undefined,
+        modifiers: item.modifiers && item.modifiers.length > 0 ? item.modifiers : undefined,
+        components: item.components && item.components.length > 0 ? item.components : undefined,
+        share: share < 1 ? share : undefined,
+      };
+    });
+
+    // Each guest's part of the order's discounts, so every sub-invoice still says who gave them and why
+    const shareOf = (amounts: number[]) => round2(lines.reduce((sum, { index, share }) => sum + (amounts[index] ?? 0) * share, 0));
+    const discounts: InvoiceDiscount[] = [];
+    if (orderDiscount && shareOf(bill.orderDiscountShares) > 0) {
+      discounts.push({ ...orderDiscount, scope: "order", itemName: null, amount: shareOf(bill.orderDiscountShares) });
+    }
+    lines.forEach(({ index, share }) => {
+      const itemDiscount = parseDiscount<AppliedDiscount>(orderItems[index].discount);
+      if (itemDiscount && bill.itemDiscounts[index] > 0) {
+        discounts.push({ ...itemDiscount, scope: "item", itemName: orderItems[index].name, amount: round2(bill.itemDiscounts[index] * share) });
+      }
+    });
+    const promotions: InvoicePromotion[] = bill.promotions
+      .map(({ lineAmounts, ...promotion }) => ({ ...promotion, amount: shareOf(lineAmounts) }))
+      .filter((promotion) => promotion.amount > 0);
+
+    invoices.push(
+      await storage.createInvoice(await invoiceNumberSeries(storage), {
+        orderId: order.id,
+        tableNumber: tableInfo?.tableNumber || null,
+        floorName,
+        customerName: guest.name || order.customerName,
+        customerPhone: order.customerPhone,
+        subtotal: guestBill.subtotal.toFixed(2),
+        tax: guestBill.taxes.toFixed(2),
+        discount: guestBill.discount.toFixed(2),
+        roundOff: guestBill.roundOff.toFixed(2),
+        total: guestBill.total.toFixed(2),
+        taxBreakdown: JSON.stringify(guestBill.taxBreakdown),
+        discounts: discounts.length > 0 ? JSON.stringify(discounts) : null,
+        promotions: promotions.length > 0 ? JSON.stringify(promotions) : null,
+        paymentMode: guest.paymentMode,
+        splitPayments: null,
+        guestNumber: guest.guest,
+        guestName: guest.name || null,
+        splitCount: guestBills.length,
+        status: "Paid",
+        items: JSON.stringify(items),
+        notes: null,
+      }),
+    );
+  }
+
+  if (invoices.length > 0) {
+    await recordRedemptions(storage, invoices[0], order, bill.promotions);
+  }
+  await supersedeProformas(storage, order.id);
+  return invoices;
+}
+
+/**
+ * Issues a credit note against an invoice and moves the invoice to
+ * "Partially Credited" or, once nothing is left to credit, "Cancelled".
+ * The original invoice figures are never touched.
+ */
+export async function issueCreditNote(
+  storage: IStorage,
+  invoice: Invoice,
+  { reason, lines, restock }: CreditNoteRequest,
+  user: SessionUser,
+): Promise<{ creditNote: CreditNote; invoice: Invoice }> {
+  if (invoice.status === "Cancelled") {
+    throw new Error("Invoice has already been cancelled");
+  }
+  if (isProforma(invoice)) {
+    throw new Error("A proforma bill is not a tax invoice and cannot be credited");
+  }
+
+  const previousNotes = await storage.getCreditNotesByInvoice(invoice.id);
+  const credit = calculateCredit(invoice, lines, previousNotes);
+  const { bill } = credit;
+
+  const creditNote = await storage.createCreditNote(await creditNoteNumberSeries(storage), {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    orderId: invoice.orderId,
+    reason,
+    items: JSON.stringify(credit.lines),
+    subtotal: bill.subtotal.toFixed(2),
+    discount: bill.discount.toFixed(2),
+    tax: bill.taxes.toFixed(2),
+    roundOff: bill.roundOff.toFixed(2),
+    total: bill.total.toFixed(2),
+    taxBreakdown: JSON.stringify(bill.taxBreakdown),
+    fullCancellation: credit.final && previousNotes.length === 0,
+    restocked: restock,
+    createdBy: user.id,
+    createdByName: user.fullName || user.username,
+  });
+
+  if (restock) {
+    await storage.restoreInventoryForItems(
+      credit.lines.flatMap((line) =>
+        // A shared dish is credited on each guest's invoice, so each puts back only its part
+        line.menuItemId
+          ? [{ menuItemId: line.menuItemId, quantity: line.quantity * (line.share ?? 1), modifiers: line.modifiers, components: line.components }]
+          : [],
+      ),
+      {
+        referenceType: "credit_note",
+        referenceId: creditNote.id,
+        by: user.id,
+        byName: user.fullName || user.username,
+        notes: `Credit note ${creditNote.creditNoteNumber}`,
+      },
+    );
+  }
+
+  const updatedInvoice = credit.final
+    ? await storage.updateInvoiceStatus(invoice.id, "Cancelled", reason)
+    : await storage.updateInvoiceStatus(invoice.id, "Partially Credited");
+
+  return { creditNote, invoice: updatedInvoice ?? invoice };
+}
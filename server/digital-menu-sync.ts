@@ -1,6 +1,12 @@
 import { mongodb } from './mongodb';
-import { type DigitalMenuOrder, type DigitalMenuCustomer } from '@shared/schema';
+import { type DigitalMenuOrder, type DigitalMenuCustomer, type OrderItemComponent } from '@shared/schema';
 import { type IStorage } from './storage';
+import { calculateOrderBill, issueInvoice } from './billing';
+import { claimCoupon } from './promotions';
+import { isCombo, resolveComboComponents } from '@shared/combos';
+import { routeOrderItem, sendToKitchen } from './kitchen';
+import { moveOrder, moveOrderItem, type Broadcast } from './orders';
+import { type OrderItemStatus } from '@shared/order-state';
 import { ObjectId } from 'mongodb';
 
 export class DigitalMenuSyncService {
@@ -10,16 +16,20 @@ export class DigitalMenuSyncService {
   private orderStatusMap: Map<string, string> = new Map();
   private orderPaymentStatusMap: Map<string, string> = new Map();
   private isRunning = false;
-  private broadcastFn: ((type: string, data: any) => void) | null = null;
+  private broadcastFn: Broadcast | null = null;
 
   constructor(storage: IStorage) {
     this.storage = storage;
   }
 
-  setBroadcastFunction(fn: (type: string, data: any) => void) {
+  setBroadcastFunction(fn: Broadcast) {
     this.broadcastFn = fn;
   }
 
+  private broadcast: Broadcast = (type, data) => {
+    this.broadcastFn?.(type, data);
+  };
+
   async start(intervalMs: number = 5000): Promise<void> {
     if (this.isRunning) {
       console.log('⚠️  Digital menu sync service is already running');
@@ -336,6 +346,17 @@ export class DigitalMenuSyncService {
       const itemPrice = (item.price || 0).toFixed(2);
       calculatedSubtotal += (item.price || 0) * (item.quantity || 0);
 
+      // The digital menu has no swaps, so combos come through with their default components
+      let components: OrderItemComponent[] = [];
+      if (menuItem && isCombo(menuItem)) {
+        const resolved = resolveComboComponents(menuItem, await this.storage.getMenuItems(), [], item.price || 0);
+        if ("error" in resolved) {
+          console.warn(`⚠️  Combo ${menuItem.name} on digital menu order: ${resolved.error}`);
+        } else {
+          components = resolved.components;
+        }
+      }
+
       const createdItem = await this.storage.createOrderItem({
         orderId: posOrder.id,
         menuItemId: menuItem?.id || 'unknown',
@@ -345,6 +366,7 @@ export class DigitalMenuSyncService {
         notes: notes,
         status: 'new',
         isVeg: menuItem?.isVeg ?? true,
+        ...(await routeOrderItem(this.storage, menuItem, components)),
       });
 
       // Broadcast order_item_added event so Kitchen Display shows items in real-time
@@ -363,6 +385,12 @@ export class DigitalMenuSyncService {
 
     await this.storage.updateOrderTotal(posOrder.id, orderTotal);
 
+    // Digital menu orders go straight to the kitchen, so they get their KOTs right away
+    const kots = await sendToKitchen(this.storage, posOrder, null);
+    if (kots.length > 0 && this.broadcastFn) {
+      this.broadcastFn('kot_created', { orderId: posOrder.id, kots });
+    }
+
     // Update customer's initial table status to "occupied" when order is first created
     if (digitalOrder.customerPhone) {
       await this.updateCustomerTableStatus(digitalOrder.customerPhone, 'occupied');
@@ -429,7 +457,7 @@ export class DigitalMenuSyncService {
       }
 
       // Map digital menu status to POS order item status
-      const statusMapping: Record<string, string> = {
+      const statusMapping: Record<string, OrderItemStatus> = {
         'pending': 'new',
         'confirmed': 'new',
         'preparing': 'preparing',
@@ -439,11 +467,17 @@ export class DigitalMenuSyncService {
 
       const newItemStatus = statusMapping[digitalOrder.status] || 'new';
 
-      // Update all order items for this order
+      // Update all order items for this order; lines the POS has already moved past this status are left alone
       const orderItems = await this.storage.getOrderItems(posOrder.id);
       for (const item of orderItems) {
         if (item.status !== newItemStatus) {
-          await this.storage.updateOrderItemStatus(item.id, newItemStatus as any);
+          const moved = await moveOrderItem(this.storage, item, newItemStatus, {
+            broadcast: this.broadcast,
+            user: null,
+          });
+          if (!moved.ok) {
+            console.warn(`⚠️  Skipped item ${item.id}: ${moved.error}`);
+          }
         }
       }
 
@@ -457,82 +491,48 @@ export class DigitalMenuSyncService {
     try {
       console.log(`💳 Auto-generating invoice for digital menu order ${digitalOrder._id}`);
 
-      // Get order items and calculate totals
       const orderItems = await this.storage.getOrderItems(posOrder.id);
-      const subtotal = orderItems.reduce((sum, item) => 
-        sum + parseFloat(item.price) * item.quantity, 0
-      );
-      const tax = subtotal * 0.05;
-      const total = subtotal + tax;
 
       // Get payment method from digital menu order, default to cash
       const paymentMode = (digitalOrder.paymentMethod || 'cash').toLowerCase();
 
-      // Checkout the order
-      const checkedOutOrder = await this.storage.checkoutOrder(posOrder.id, paymentMode);
-      if (!checkedOutOrder) {
-        console.error(`❌ Failed to checkout order ${posOrder.id}`);
+      // The customer has paid through the digital menu, so unserved lines don't hold the checkout up.
+      // An order that is already paid fails the move and is not invoiced a second time.
+      const moved = await moveOrder(this.storage, posOrder, 'paid', {
+        broadcast: this.broadcast,
+        override: true,
+        paymentMode,
+      });
+      if (!moved.ok) {
+        console.warn(`⚠️  Skipped checkout of order ${posOrder.id}: ${moved.error}`);
         return;
       }
-
-      // Update table status to free and remove order link
-      let tableInfo = null;
-      if (checkedOutOrder.tableId) {
-        tableInfo = await this.storage.getTable(checkedOutOrder.tableId);
-        await this.storage.updateTableOrder(checkedOutOrder.tableId, null);
-        await this.storage.updateTableStatus(checkedOutOrder.tableId, 'free');
-        
-        // Broadcast table update for real-time UI sync
-        const updatedTable = await this.storage.getTable(checkedOutOrder.tableId);
-        if (updatedTable && this.broadcastFn) {
-          this.broadcastFn('table_updated', updatedTable);
-        }
-      }
+      const checkedOutOrder = moved.order;
 
       // Update customer's table status to "free" in MongoDB
       if (checkedOutOrder.customerPhone) {
         await this.updateCustomerTableStatus(checkedOutOrder.customerPhone, 'free');
       }
 
-      // Generate invoice number
-      const invoices = await this.storage.getInvoices();
-      const invoiceNumber = `INV-${String(invoices.length + 1).padStart(4, '0')}`;
-
-      // Prepare invoice items data
-      const invoiceItemsData = orderItems.map(item => ({
-        name: item.name,
-        quantity: item.quantity,
-        price: parseFloat(item.price),
-        isVeg: item.isVeg,
-        notes: item.notes || undefined
-      }));
+      // The coupon use is taken before the invoice records its redemption.
+      // The customer has already paid, so an over-used coupon is only reported.
+      const bill = await calculateOrderBill(this.storage, checkedOutOrder, orderItems);
+      const couponError = await claimCoupon(this.storage, bill.promotions, checkedOutOrder);
+      if (couponError) {
+        console.warn(`⚠️ ${couponError} (order ${checkedOutOrder.id})`);
+      }
 
-      // Create invoice
-      const invoice = await this.storage.createInvoice({
-        invoiceNumber,
-        orderId: checkedOutOrder.id,
-        tableNumber: tableInfo?.tableNumber || null,
-        floorName: tableInfo?.floorId ? (await this.storage.getFloor(tableInfo.floorId))?.name || null : null,
-        customerName: checkedOutOrder.customerName,
-        customerPhone: checkedOutOrder.customerPhone,
-        subtotal: subtotal.toFixed(2),
-        tax: tax.toFixed(2),
-        discount: '0',
-        total: total.toFixed(2),
-        paymentMode: paymentMode,
-        splitPayments: null,
+      const { invoice } = await issueInvoice(this.storage, {
+        order: checkedOutOrder,
+        orderItems,
         status: 'Paid',
-        items: JSON.stringify(invoiceItemsData),
-        notes: null,
+        paymentMode,
+        bill,
       });
 
-      // Broadcast updates
-      if (this.broadcastFn) {
-        this.broadcastFn('order_paid', checkedOutOrder);
-        this.broadcastFn('invoice_created', invoice);
-      }
+      this.broadcast('invoice_created', invoice);
 
-      console.log(`✅ Auto-generated invoice ${invoiceNumber} for digital menu order ${digitalOrder._id}`);
+      console.log(`✅ Auto-generated invoice ${invoice.invoiceNumber} for digital menu order ${digitalOrder._id}`);
     } catch (error) {
       console.error(`❌ Failed to auto-generate invoice:`, error);
     }
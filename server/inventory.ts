@@ -0,0 +1,94 @@
+import type { IStorage } from "./storage";
+import type { InventoryItem, StockDeduction } from "@shared/schema";
+import { toStockUnit } from "@shared/units";
+import type { Broadcast } from "./orders";
+
+const DEDUCTION_TRIES = 3;
+// A deduction still pending after this long is taken to have died with its process and can be retried
+const STUCK_DEDUCTION_MS = 5 * 60 * 1000;
+
+type UnitCheck = { ok: true } | { ok: false; error: string; status: number };
+
+// Whether quantities given in `unit` can be booked against the inventory item's stock
+export async function checkStockUnit(storage: IStorage, inventoryItemId: string, unit: string): Promise<UnitCheck> {
+  const inventoryItem = await storage.getInventoryItem(inventoryItemId);
+  if (!inventoryItem) {
+    return { ok: false, error: "Inventory item not found", status: 404 };
+  }
+  const converted = toStockUnit(1, unit, inventoryItem);
+  return converted.ok ? { ok: true } : { ok: false, error: converted.error, status: 400 };
+}
+
+/**
+ * An item's unit can only change while nothing is measured in it yet. Its
+ * balance, its ledger and the unitless modifier ingredient quantities would
+ * all be read in the new unit otherwise, e.g. 2 kg turning into 2 g.
+ */
+export async function checkUnitChange(storage: IStorage, inventoryItem: InventoryItem, unit: string): Promise<UnitCheck> {
+  if (unit === inventoryItem.unit) {
+    return { ok: true };
+  }
+  const error = (reason: string) => ({
+    ok: false as const,
+    error: `The unit of ${inventoryItem.name} cannot change from ${inventoryItem.unit} to ${unit} because ${reason}; add a new item instead`,
+    status: 409,
+  });
+  if (parseFloat(inventoryItem.currentStock) !== 0 || (await storage.getStockMovements(inventoryItem.id)).length > 0) {
+    return error("it already has stock on the ledger");
+  }
+  const groups = await storage.getModifierGroups();
+  const usedByModifier = groups.some((group) =>
+    group.options.some((option) => option.ingredients.some((ingredient) => ingredient.inventoryItemId === inventoryItem.id)),
+  );
+  if (usedByModifier) {
+    return error("modifier options use it by quantity");
+  }
+  return { ok: true };
+}
+
+/**
+ * Takes a paid order's ingredients off stock. A few quick tries cover a
+ * passing database hiccup; after that the deduction is left failed, with the
+ * error, on the reconciliation list. Checkout never fails because of it.
+ * Returns undefined when the order's stock has already been deducted or
+ * another deduction for it is under way.
+ */
+export async function deductOrderStock(storage: IStorage, orderId: string, broadcast: Broadcast): Promise<StockDeduction | undefined> {
+  let claimed: StockDeduction | undefined;
+  try {
+    claimed = await storage.claimStockDeduction(orderId, new Date(Date.now() - STUCK_DEDUCTION_MS));
+  } catch (error) {
+    console.error("Error starting stock deduction for order:", error);
+    return undefined;
+  }
+  if (!claimed) {
+    return undefined;
+  }
+
+  let lastError = "";
+  for (let tried = 1; tried <= DEDUCTION_TRIES; tried++) {
+    try {
+      await storage.deductInventoryForOrder(orderId);
+      const done = await storage.finishStockDeduction(orderId, null);
+      broadcast("inventory_updated", { orderId });
+      return done;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      if (tried < DEDUCTION_TRIES) {
+        await new Promise((resolve) => setTimeout(resolve, 250 * tried));
+      }
+    }
+  }
+
+  console.error(`Stock deduction for order ${orderId} failed:`, lastError);
+  const failed = await storage.finishStockDeduction(orderId, lastError).catch(() => undefined);
+  broadcast("stock_deduction_failed", failed ?? { orderId, error: lastError });
+  return failed;
+}
+
+// Deductions that need someone to look at them: failed ones and ones that never finished
+export async function getUnreconciledDeductions(storage: IStorage): Promise<StockDeduction[]> {
+  const stuckBefore = Date.now() - STUCK_DEDUCTION_MS;
+  const deductions = await storage.getStockDeductions(["failed", "pending"]);
+  return deductions.filter((deduction) => deduction.status === "failed" || new Date(deduction.updatedAt).getTime() < stuckBefore);
+}
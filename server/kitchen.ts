@@ -0,0 +1,220 @@
+import type { IStorage } from "./storage";
+import {
+  kitchenSlaSettingsSchema,
+  type KitchenSlaSettings,
+  type Kot,
+  type KotLine,
+  type MenuItem,
+  type Order,
+  type OrderItem,
+  type OrderItemComponent,
+  type SessionUser,
+  type StatusActor,
+} from "@shared/schema";
+import { MAIN_KITCHEN, linesForStation, resolveStation, stationKeysFor } from "@shared/stations";
+import { KDS_STATUS_GROUPS, defaultKitchenSla, filterKdsTicket, type KdsFilter, type KdsTicket } from "@shared/kds";
+import { buildKitchenAnalytics, type KitchenAnalytics } from "@shared/kitchen-analytics";
+
+/**
+ * Picks the kitchen station for a new order line and for each of its combo
+ * components. The result is stored on the line so later changes to the
+ * station mapping do not move tickets already in the kitchen.
+ */
+export async function routeOrderItem(
+  storage: IStorage,
+  menuItem: MenuItem | undefined,
+  components: OrderItemComponent[],
+): Promise<{ stationId: string | null; components: OrderItemComponent[] }> {
+  const stations = await storage.getKitchenStations();
+  if (stations.length === 0) {
+    return { stationId: null, components };
+  }
+
+  const menuItems = components.length > 0 ? await storage.getMenuItems() : [];
+  return {
+    stationId: menuItem ? resolveStation(menuItem, stations)?.id ?? null : null,
+    components: components.map((component) => {
+      const componentItem = menuItems.find((item) => item.id === component.menuItemId);
+      return { ...component, stationId: componentItem ? resolveStation(componentItem, stations)?.id ?? null : null };
+    }),
+  };
+}
+
+// KOT numbers restart every day, the way kitchens call them out
+async function nextKotNumber(storage: IStorage, date = new Date()): Promise<number> {
+  const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+  return storage.nextSequence(`kot:${day}`);
+}
+
+function kotLine(item: OrderItem, components: OrderItemComponent[]): KotLine {
+  return {
+    orderItemId: item.id,
+    menuItemId: item.menuItemId,
+    name: item.name,
+    quantity: item.quantity,
+    notes: item.notes,
+    isVeg: item.isVeg,
+    modifiers: item.modifiers ?? [],
+    components,
+    seatNumber: item.seatNumber ?? null,
+    course: item.course ?? null,
+    voided: false,
+  };
+}
+
+/**
+ * Puts every line of the order that has not been to the kitchen yet on a new
+ * KOT, one per station. Lines already sent are left alone, so adding a dish
+ * to a running table prints only that dish, and held lines wait for their
+ * course to be fired. Given a course, only that course's lines go and the
+ * tickets are marked with it. Returns the KOTs created, which is empty when
+ * there was nothing new to send.
+ */
+export async function sendToKitchen(
+  storage: IStorage,
+  order: Order,
+  user: SessionUser | null,
+  course: number | null = null,
+): Promise<Kot[]> {
+  const unsent = (await storage.getOrderItems(order.id)).filter(
+    (item) => !item.sentAt && item.status !== "hold" && (course === null || item.course === course),
+  );
+  if (unsent.length === 0) {
+    return [];
+  }
+
+  const kots: Kot[] = [];
+  for (const key of stationKeysFor(unsent)) {
+    kots.push(
+      await storage.createKot({
+        kotNumber: await nextKotNumber(storage),
+        orderId: order.id,
+        stationId: key === MAIN_KITCHEN ? null : key,
+        kind: "order",
+        voidsKotId: null,
+        voidsKotNumber: null,
+        course,
+        items: linesForStation(unsent, key).map(({ item, components }) => kotLine(item, components)),
+        createdBy: user?.id ?? null,
+        createdByName: user ? user.fullName || user.username : null,
+      }),
+    );
+  }
+  await storage.markOrderItemsSent(unsent.map((item) => item.id), new Date());
+  return kots;
+}
+
+/**
+ * Voids a removed order item on every KOT it went out on and issues a void
+ * KOT per ticket so each station hears about it. A ticket whose lines are
+ * all voided is cancelled. Returns the void KOTs.
+ */
+export async function voidKotLines(storage: IStorage, item: OrderItem, user: SessionUser): Promise<Kot[]> {
+  // By item rather than by order: a line split onto another check keeps the tickets it went out on
+  const kots = await storage.getKotsByOrderItem(item.id);
+  const voids: Kot[] = [];
+
+  for (const kot of kots) {
+    if (kot.kind !== "order") continue;
+    const line = kot.items.find((kotItem) => kotItem.orderItemId === item.id && !kotItem.voided);
+    if (!line) continue;
+
+    const items = kot.items.map((kotItem) => (kotItem === line ? { ...kotItem, voided: true } : kotItem));
+    await storage.updateKotItems(kot.id, items, items.every((kotItem) => kotItem.voided) ? "cancelled" : "active");
+
+    voids.push(
+      await storage.createKot({
+        kotNumber: await nextKotNumber(storage),
+        orderId: item.orderId,
+        stationId: kot.stationId,
+        kind: "void",
+        voidsKotId: kot.id,
+        voidsKotNumber: kot.kotNumber,
+        course: kot.course ?? null,
+        items: [line],
+        createdBy: user.id,
+        createdByName: user.fullName || user.username,
+      }),
+    );
+  }
+  return voids;
+}
+
+/**
+ * Every order matching the filter, with its items, table and floor, loaded in a
+ * fixed number of queries however many tables are open.
+ */
+export async function getKdsFeed(storage: IStorage, filter: KdsFilter): Promise<KdsTicket[]> {
+  const orders = await storage.getOrdersByStatus(KDS_STATUS_GROUPS[filter.status]);
+  if (orders.length === 0) {
+    return [];
+  }
+  const [items, tables, floors] = await Promise.all([
+    storage.getOrderItemsForOrders(orders.map((order) => order.id)),
+    storage.getTables(),
+    storage.getFloors(),
+  ]);
+
+  const itemsByOrder = new Map<string, OrderItem[]>();
+  for (const item of items) {
+    itemsByOrder.set(item.orderId, [...(itemsByOrder.get(item.orderId) ?? []), item]);
+  }
+
+  return orders
+    .map((order) => {
+      const table = tables.find((t) => t.id === order.tableId);
+      return filterKdsTicket(
+        {
+          order,
+          items: itemsByOrder.get(order.id) ?? [],
+          tableNumber: table?.tableNumber ?? null,
+          floorName: floors.find((f) => f.id === table?.floorId)?.name ?? null,
+        },
+        filter,
+      );
+    })
+    .filter((ticket): ticket is KdsTicket => ticket !== null);
+}
+
+// One order as the feed would return it, unfiltered; null once the order is deleted
+export async function getKdsTicket(storage: IStorage, orderId: string): Promise<KdsTicket | null> {
+  const order = await storage.getOrder(orderId);
+  if (!order) {
+    return null;
+  }
+  const [items, table] = await Promise.all([
+    storage.getOrderItems(orderId),
+    order.tableId ? storage.getTable(order.tableId) : Promise.resolve(undefined),
+  ]);
+  const floor = table?.floorId ? await storage.getFloor(table.floorId) : undefined;
+  return { order, items, tableNumber: table?.tableNumber ?? null, floorName: floor?.name ?? null };
+}
+
+const KITCHEN_SLA_SETTING = "kitchen_sla";
+
+export async function getKitchenSlaSettings(storage: IStorage): Promise<KitchenSlaSettings> {
+  const stored = await storage.getSetting(KITCHEN_SLA_SETTING);
+  if (!stored) {
+    return defaultKitchenSla;
+  }
+  const parsed = kitchenSlaSettingsSchema.safeParse(JSON.parse(stored));
+  return parsed.success ? parsed.data : defaultKitchenSla;
+}
+
+export async function saveKitchenSlaSettings(storage: IStorage, settings: KitchenSlaSettings): Promise<void> {
+  await storage.setSetting(KITCHEN_SLA_SETTING, JSON.stringify(settings));
+}
+
+// Who to record against an order line status change
+export const statusActor = (user: SessionUser | null | undefined): StatusActor =>
+  user ? { by: user.id, byName: user.fullName || user.username } : { by: null, byName: null };
+
+export async function getKitchenAnalytics(storage: IStorage, from: Date, to: Date): Promise<KitchenAnalytics> {
+  const [items, menuItems, stations, sla] = await Promise.all([
+    storage.getOrderItemsSentBetween(from, to),
+    storage.getMenuItems(),
+    storage.getKitchenStations(),
+    getKitchenSlaSettings(storage),
+  ]);
+  return buildKitchenAnalytics(items, { from, to, menuItems, stations, sla });
+}
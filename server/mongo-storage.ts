@@ -2,15 +2,20 @@ import { mongodb } from './mongodb';
 import {
   type User,
   type InsertUser,
+  type Role,
+  type InsertRole,
   type Floor,
   type InsertFloor,
   type Table,
   type InsertTable,
   type MenuItem,
   type InsertMenuItem,
+  type TaxProfile,
+  type InsertTaxProfile,
   type Order,
   type InsertOrder,
   type OrderItem,
+  type StatusActor,
   type InsertOrderItem,
   type InventoryItem,
   type InsertInventoryItem,
@@ -26,8 +31,32 @@ import {
   type InsertPurchaseOrderItem,
   type Wastage,
   type InsertWastage,
+  type StockMovement,
+  type InsertStockMovement,
+  type StockMovementSource,
+  type StockDeduction,
+  type StockDeductionStatus,
+  type StockTake,
+  type InsertStockTake,
+  type StockTakeStatus,
+  type StockTakeCounts,
   type Invoice,
   type InsertInvoice,
+  type CreditNote,
+  type InsertCreditNote,
+  type Kot,
+  type InsertKot,
+  type KotLine,
+  type ItemAdjustment,
+  type InsertItemAdjustment,
+  type OrderItemComp,
+  type OrderItemVoid,
+  type Offer,
+  type InsertOffer,
+  type Coupon,
+  type InsertCoupon,
+  type PromotionRedemption,
+  type InsertPromotionRedemption,
   type Reservation,
   type InsertReservation,
   type Customer,
@@ -38,9 +67,53 @@ import {
   type InsertInventoryUsage,
   type DeliveryPerson,
   type InsertDeliveryPerson,
+  type ModifierGroup,
+  type InsertModifierGroup,
+  type ModifierOption,
+  type OrderItemModifier,
+  type OrderItemComponent,
+  type KitchenStation,
+  type InsertKitchenStation,
 } from "@shared/schema";
-import { IStorage } from './storage';
+import { toStockUnit } from "@shared/units";
+import { IStorage, type NumberSeries } from './storage';
 import { randomUUID } from 'crypto';
+import { MongoServerError, type ClientSession } from 'mongodb';
+
+// Existing options keep their ids so order lines and menus still point at them after an edit
+function withOptionIds(options: InsertModifierGroup["options"]): ModifierOption[] {
+  return options.map((option) => ({ ...option, id: option.id || randomUUID() }));
+}
+
+// Stock is only ever moved in the item's own unit; a quantity that will not convert is refused
+function stockQuantity(item: InventoryItem, quantity: number, unit: string): number {
+  const converted = toStockUnit(quantity, unit, item);
+  if (!converted.ok) {
+    throw new Error(converted.error);
+  }
+  return converted.quantity;
+}
+
+// Documents that must only ever be written once are given a known _id, which Mongo keeps unique
+const isDuplicateKey = (error: unknown) => error instanceof MongoServerError && error.code === 11000;
+
+// Stock figures are kept as strings; rounding stops float noise building up over thousands of entries
+const stockFigure = (value: number) => (Math.round(value * 1e6) / 1e6).toString();
+
+// Ledger entries that must be booked once however often they are retried: an order's sale of an
+// ingredient, and a wastage record's write-off and its reversal
+function movementKey(movement: InsertStockMovement): string | undefined {
+  if (!movement.referenceId) {
+    return undefined;
+  }
+  if (movement.type === "sale" && movement.referenceType === "order") {
+    return `sale:${movement.referenceId}:${movement.inventoryItemId}`;
+  }
+  if (movement.type === "wastage" && movement.referenceType === "wastage") {
+    return `wastage:${movement.referenceId}:${parseFloat(movement.quantity) < 0 ? "written-off" : "reversed"}`;
+  }
+  return undefined;
+}
 
 export class MongoStorage implements IStorage {
   private async ensureConnection() {
@@ -53,6 +126,12 @@ export class MongoStorage implements IStorage {
     return rest as Omit<T, '_id'>;
   }
 
+  async getUsers(): Promise<User[]> {
+    await this.ensureConnection();
+    const users = await mongodb.getCollection<User>('users').find().sort({ createdAt: 1 }).toArray();
+    return users;
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     await this.ensureConnection();
     const user = await mongodb.getCollection<User>('users').findOne({ id } as any);
@@ -68,11 +147,78 @@ export class MongoStorage implements IStorage {
   async createUser(user: InsertUser): Promise<User> {
     await this.ensureConnection();
     const id = randomUUID();
-    const newUser: User = { id, ...user };
+    const newUser: User = {
+      id,
+      username: user.username,
+      password: user.password,
+      fullName: user.fullName ?? null,
+      roleId: user.roleId,
+      active: user.active ?? true,
+      pin: user.pin ?? null,
+      createdAt: new Date(),
+      lastLoginAt: null,
+    };
     await mongodb.getCollection<User>('users').insertOne(newUser as any);
     return newUser;
   }
 
+  async updateUser(id: string, userData: Partial<InsertUser> & { lastLoginAt?: Date }): Promise<User | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<User>('users').findOneAndUpdate(
+      { id } as any,
+      { $set: userData },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async getRoles(): Promise<Role[]> {
+    await this.ensureConnection();
+    const roles = await mongodb.getCollection<Role>('roles').find().sort({ createdAt: 1 }).toArray();
+    return roles;
+  }
+
+  async getRole(id: string): Promise<Role | undefined> {
+    await this.ensureConnection();
+    const role = await mongodb.getCollection<Role>('roles').findOne({ id } as any);
+    return role ?? undefined;
+  }
+
+  async createRole(insertRole: InsertRole & { id?: string; isSystem?: boolean }): Promise<Role> {
+    await this.ensureConnection();
+    const role: Role = {
+      id: insertRole.id ?? randomUUID(),
+      name: insertRole.name,
+      description: insertRole.description ?? null,
+      permissions: insertRole.permissions ?? [],
+      maxDiscountPercent: insertRole.maxDiscountPercent ?? 0,
+      isSystem: insertRole.isSystem ?? false,
+      createdAt: new Date(),
+    };
+    await mongodb.getCollection<Role>('roles').insertOne(role as any);
+    return role;
+  }
+
+  async updateRole(id: string, roleData: Partial<InsertRole>): Promise<Role | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<Role>('roles').findOneAndUpdate(
+      { id } as any,
+      { $set: roleData },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async deleteRole(id: string): Promise<boolean> {
+    await this.ensureConnection();
+    const usersWithRole = await mongodb.getCollection<User>('users').countDocuments({ roleId: id } as any);
+    if (usersWithRole > 0) {
+      throw new Error(`Cannot delete role: ${usersWithRole} user(s) are assigned to this role`);
+    }
+    const result = await mongodb.getCollection<Role>('roles').deleteOne({ id, isSystem: { $ne: true } } as any);
+    return result.deletedCount > 0;
+  }
+
   async getFloors(): Promise<Floor[]> {
     await this.ensureConnection();
     const floors = await mongodb.getCollection<Floor>('floors').find().sort({ displayOrder: 1 }).toArray();
@@ -227,6 +373,10 @@ export class MongoStorage implements IStorage {
       image: item.image ?? null,
       description: item.description ?? null,
       quickCode: normalizedQuickCode,
+      taxProfileId: item.taxProfileId ?? null,
+      modifierGroupIds: item.modifierGroupIds ?? [],
+      comboComponents: item.comboComponents ?? [],
+      stationId: item.stationId ?? null,
     };
     await mongodb.getCollection<MenuItem>('menuItems').insertOne(menuItem as any);
     return menuItem;
@@ -266,6 +416,161 @@ export class MongoStorage implements IStorage {
     return result.deletedCount > 0;
   }
 
+  async getTaxProfiles(): Promise<TaxProfile[]> {
+    await this.ensureConnection();
+    const profiles = await mongodb.getCollection<TaxProfile>('taxProfiles').find().sort({ createdAt: 1 }).toArray();
+    return profiles;
+  }
+
+  async getTaxProfile(id: string): Promise<TaxProfile | undefined> {
+    await this.ensureConnection();
+    const profile = await mongodb.getCollection<TaxProfile>('taxProfiles').findOne({ id } as any);
+    return profile ?? undefined;
+  }
+
+  async createTaxProfile(insertProfile: InsertTaxProfile): Promise<TaxProfile> {
+    await this.ensureConnection();
+    const id = randomUUID();
+    const profile: TaxProfile = {
+      id,
+      name: insertProfile.name,
+      description: insertProfile.description ?? null,
+      components: insertProfile.components ?? [],
+      inclusive: insertProfile.inclusive ?? false,
+      categories: insertProfile.categories ?? [],
+      isDefault: insertProfile.isDefault ?? false,
+      createdAt: new Date(),
+    };
+    if (profile.isDefault) {
+      await this.clearDefaultTaxProfile();
+    }
+    await mongodb.getCollection<TaxProfile>('taxProfiles').insertOne(profile as any);
+    return profile;
+  }
+
+  async updateTaxProfile(id: string, profileData: Partial<InsertTaxProfile>): Promise<TaxProfile | undefined> {
+    await this.ensureConnection();
+    if (profileData.isDefault) {
+      await this.clearDefaultTaxProfile();
+    }
+    const result = await mongodb.getCollection<TaxProfile>('taxProfiles').findOneAndUpdate(
+      { id } as any,
+      { $set: profileData },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async deleteTaxProfile(id: string): Promise<boolean> {
+    await this.ensureConnection();
+    const assigned = await mongodb.getCollection<MenuItem>('menuItems').countDocuments({ taxProfileId: id } as any);
+    if (assigned > 0) {
+      throw new Error(`Tax profile is assigned to ${assigned} menu item(s)`);
+    }
+    const result = await mongodb.getCollection<TaxProfile>('taxProfiles').deleteOne({ id } as any);
+    return result.deletedCount > 0;
+  }
+
+  async getModifierGroups(): Promise<ModifierGroup[]> {
+    await this.ensureConnection();
+    const groups = await mongodb.getCollection<ModifierGroup>('modifierGroups').find().sort({ createdAt: 1 }).toArray();
+    return groups;
+  }
+
+  async getModifierGroup(id: string): Promise<ModifierGroup | undefined> {
+    await this.ensureConnection();
+    const group = await mongodb.getCollection<ModifierGroup>('modifierGroups').findOne({ id } as any);
+    return group ?? undefined;
+  }
+
+  async createModifierGroup(insertGroup: InsertModifierGroup): Promise<ModifierGroup> {
+    await this.ensureConnection();
+    const group: ModifierGroup = {
+      id: randomUUID(),
+      name: insertGroup.name,
+      minSelect: insertGroup.minSelect,
+      maxSelect: insertGroup.maxSelect,
+      options: withOptionIds(insertGroup.options),
+      createdAt: new Date(),
+    };
+    await mongodb.getCollection<ModifierGroup>('modifierGroups').insertOne(group as any);
+    return group;
+  }
+
+  async updateModifierGroup(id: string, insertGroup: InsertModifierGroup): Promise<ModifierGroup | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<ModifierGroup>('modifierGroups').findOneAndUpdate(
+      { id } as any,
+      { $set: { ...insertGroup, options: withOptionIds(insertGroup.options) } },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async deleteModifierGroup(id: string): Promise<boolean> {
+    await this.ensureConnection();
+    const assigned = await mongodb.getCollection<MenuItem>('menuItems').countDocuments({ modifierGroupIds: id } as any);
+    if (assigned > 0) {
+      throw new Error(`Modifier group is used by ${assigned} menu item(s)`);
+    }
+    const result = await mongodb.getCollection<ModifierGroup>('modifierGroups').deleteOne({ id } as any);
+    return result.deletedCount > 0;
+  }
+
+  async getKitchenStations(): Promise<KitchenStation[]> {
+    await this.ensureConnection();
+    const stations = await mongodb.getCollection<KitchenStation>('kitchenStations').find().sort({ createdAt: 1 }).toArray();
+    return stations;
+  }
+
+  async getKitchenStation(id: string): Promise<KitchenStation | undefined> {
+    await this.ensureConnection();
+    const station = await mongodb.getCollection<KitchenStation>('kitchenStations').findOne({ id } as any);
+    return station ?? undefined;
+  }
+
+  async createKitchenStation(insertStation: InsertKitchenStation): Promise<KitchenStation> {
+    await this.ensureConnection();
+    const station: KitchenStation = {
+      id: randomUUID(),
+      name: insertStation.name,
+      categories: insertStation.categories ?? [],
+      printerName: insertStation.printerName ?? null,
+      printerAddress: insertStation.printerAddress ?? null,
+      createdAt: new Date(),
+    };
+    await mongodb.getCollection<KitchenStation>('kitchenStations').insertOne(station as any);
+    return station;
+  }
+
+  async updateKitchenStation(id: string, stationData: Partial<InsertKitchenStation>): Promise<KitchenStation | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<KitchenStation>('kitchenStations').findOneAndUpdate(
+      { id } as any,
+      { $set: stationData },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async deleteKitchenStation(id: string): Promise<boolean> {
+    await this.ensureConnection();
+    const assigned = await mongodb.getCollection<MenuItem>('menuItems').countDocuments({ stationId: id } as any);
+    if (assigned > 0) {
+      throw new Error(`Kitchen station is assigned to ${assigned} menu item(s)`);
+    }
+    const result = await mongodb.getCollection<KitchenStation>('kitchenStations').deleteOne({ id } as any);
+    return result.deletedCount > 0;
+  }
+
+  // Only one profile may be the fallback for items without an item or category profile
+  private async clearDefaultTaxProfile(): Promise<void> {
+    await mongodb.getCollection<TaxProfile>('taxProfiles').updateMany(
+      { isDefault: true } as any,
+      { $set: { isDefault: false } }
+    );
+  }
+
   async getOrders(): Promise<Order[]> {
     await this.ensureConnection();
     const orders = await mongodb.getCollection<Order>('orders').find().toArray();
@@ -300,6 +605,14 @@ export class MongoStorage implements IStorage {
     return orders;
   }
 
+  async getOrdersByStatus(statuses: readonly string[]): Promise<Order[]> {
+    await this.ensureConnection();
+    const orders = await mongodb.getCollection<Order>('orders').find({
+      status: { $in: [...statuses] }
+    } as any).sort({ createdAt: 1 } as any).toArray();
+    return orders;
+  }
+
   async getDeliveryOrders(): Promise<Order[]> {
     await this.ensureConnection();
     const orders = await mongodb.getCollection<Order>('orders').find({
@@ -324,6 +637,8 @@ export class MongoStorage implements IStorage {
       waiterId: insertOrder.waiterId ?? null,
       deliveryPersonId: insertOrder.deliveryPersonId ?? null,
       expectedPickupTime: insertOrder.expectedPickupTime ?? null,
+      discount: null,
+      couponCode: null,
       createdAt: new Date(),
       completedAt: null,
       billedAt: null,
@@ -353,30 +668,60 @@ export class MongoStorage implements IStorage {
     return result ?? undefined;
   }
 
-  async completeOrder(id: string): Promise<Order | undefined> {
+  async updateOrderDiscount(id: string, discount: string | null): Promise<Order | undefined> {
     await this.ensureConnection();
     const result = await mongodb.getCollection<Order>('orders').findOneAndUpdate(
       { id } as any,
-      { $set: { status: "completed", completedAt: new Date() } },
+      { $set: { discount } },
       { returnDocument: 'after' }
     );
     return result ?? undefined;
   }
 
-  async billOrder(id: string): Promise<Order | undefined> {
+  async updateOrderCoupon(id: string, couponCode: string | null): Promise<Order | undefined> {
     await this.ensureConnection();
     const result = await mongodb.getCollection<Order>('orders').findOneAndUpdate(
       { id } as any,
-      { $set: { status: "billed", billedAt: new Date() } },
+      { $set: { couponCode } },
       { returnDocument: 'after' }
     );
     return result ?? undefined;
   }
 
-  async checkoutOrder(id: string, paymentMode?: string): Promise<Order | undefined> {
+  async updateOrderTable(id: string, tableId: string | null): Promise<Order | undefined> {
     await this.ensureConnection();
     const result = await mongodb.getCollection<Order>('orders').findOneAndUpdate(
       { id } as any,
+      { $set: { tableId } },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async completeOrder(id: string, from: readonly string[]): Promise<Order | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<Order>('orders').findOneAndUpdate(
+      { id, status: { $in: from } } as any,
+      { $set: { status: "completed", completedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async billOrder(id: string, from: readonly string[]): Promise<Order | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<Order>('orders').findOneAndUpdate(
+      { id, status: { $in: from } } as any,
+      { $set: { status: "billed", billedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async checkoutOrder(id: string, from: readonly string[], paymentMode?: string): Promise<Order | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<Order>('orders').findOneAndUpdate(
+      { id, status: { $in: from } } as any,
       { 
         $set: { 
           status: "paid", 
@@ -396,19 +741,34 @@ export class MongoStorage implements IStorage {
     return result.deletedCount > 0;
   }
 
-  async getOrderItems(orderId: string): Promise<OrderItem[]> {
+  async getOrderItems(orderId: string, includeVoided = false): Promise<OrderItem[]> {
+    await this.ensureConnection();
+    // Lines stored before voids were kept have no voided field at all
+    const filter = includeVoided ? { orderId } : { orderId, voided: { $in: [null] } };
+    const items = await mongodb.getCollection<OrderItem>('orderItems').find(filter as any).toArray();
+    return items;
+  }
+
+  async getOrderItemsForOrders(orderIds: string[]): Promise<OrderItem[]> {
     await this.ensureConnection();
-    const items = await mongodb.getCollection<OrderItem>('orderItems').find({ orderId } as any).toArray();
+    const items = await mongodb.getCollection<OrderItem>('orderItems')
+      .find({ orderId: { $in: orderIds }, voided: { $in: [null] } } as any)
+      .toArray();
     return items;
   }
 
+  async getOrderItemsSentBetween(from: Date, to: Date): Promise<OrderItem[]> {
+    await this.ensureConnection();
+    return await mongodb.getCollection<OrderItem>('orderItems').find({ sentAt: { $gte: from, $lt: to } } as any).toArray();
+  }
+
   async getOrderItem(id: string): Promise<OrderItem | undefined> {
     await this.ensureConnection();
     const item = await mongodb.getCollection<OrderItem>('orderItems').findOne({ id } as any);
     return item ?? undefined;
   }
 
-  async createOrderItem(item: InsertOrderItem): Promise<OrderItem> {
+  async createOrderItem(item: InsertOrderItem, actor: StatusActor = { by: null, byName: null }): Promise<OrderItem> {
     await this.ensureConnection();
     const id = randomUUID();
     const orderItem: OrderItem = {
@@ -421,16 +781,76 @@ export class MongoStorage implements IStorage {
       notes: item.notes ?? null,
       status: item.status ?? "new",
       isVeg: item.isVeg ?? true,
+      discount: null,
+      modifiers: item.modifiers ?? [],
+      components: item.components ?? [],
+      stationId: item.stationId ?? null,
+      comp: null,
+      voided: null,
+      seatNumber: item.seatNumber ?? null,
+      course: item.course ?? null,
+      sentAt: null,
+      statusHistory: [{ status: item.status ?? "new", at: new Date(), ...actor }],
     };
     await mongodb.getCollection<OrderItem>('orderItems').insertOne(orderItem as any);
     return orderItem;
   }
 
-  async updateOrderItemStatus(id: string, status: string): Promise<OrderItem | undefined> {
+  async updateOrderItemStatus(id: string, status: string, actor: StatusActor = { by: null, byName: null }): Promise<OrderItem | undefined> {
+    await this.ensureConnection();
+    const collection = mongodb.getCollection<OrderItem>('orderItems');
+    const change = { status, at: new Date(), ...actor };
+    // Only a real change is recorded; setting the status it already has leaves the history alone
+    const result = await collection.findOneAndUpdate(
+      { id, status: { $ne: status } } as any,
+      { $set: { status }, $push: { statusHistory: change } } as any,
+      { returnDocument: 'after' }
+    );
+    return result ?? (await collection.findOne({ id } as any)) ?? undefined;
+  }
+
+  async updateOrderItemDiscount(id: string, discount: string | null): Promise<OrderItem | undefined> {
     await this.ensureConnection();
     const result = await mongodb.getCollection<OrderItem>('orderItems').findOneAndUpdate(
       { id } as any,
-      { $set: { status } },
+      { $set: { discount } },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async markOrderItemsSent(ids: string[], sentAt: Date): Promise<void> {
+    await this.ensureConnection();
+    await mongodb.getCollection<OrderItem>('orderItems').updateMany(
+      { id: { $in: ids } } as any,
+      { $set: { sentAt } }
+    );
+  }
+
+  async moveOrderItems(ids: string[], orderId: string): Promise<void> {
+    await this.ensureConnection();
+    await mongodb.getCollection<OrderItem>('orderItems').updateMany(
+      { id: { $in: ids } } as any,
+      { $set: { orderId } }
+    );
+  }
+
+  async compOrderItem(id: string, comp: OrderItemComp): Promise<OrderItem | undefined> {
+    await this.ensureConnection();
+    // Lines stored before comps existed have no comp field at all
+    const result = await mongodb.getCollection<OrderItem>('orderItems').findOneAndUpdate(
+      { id, comp: { $in: [null] } } as any,
+      { $set: { price: "0.00", discount: null, comp } },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async voidOrderItem(id: string, voided: OrderItemVoid): Promise<OrderItem | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<OrderItem>('orderItems').findOneAndUpdate(
+      { id, voided: { $in: [null] } } as any,
+      { $set: { voided } },
       { returnDocument: 'after' }
     );
     return result ?? undefined;
@@ -442,6 +862,89 @@ export class MongoStorage implements IStorage {
     return result.deletedCount > 0;
   }
 
+  async createItemAdjustment(insertAdjustment: InsertItemAdjustment): Promise<ItemAdjustment> {
+    await this.ensureConnection();
+    const adjustment: ItemAdjustment = { ...insertAdjustment, id: randomUUID(), createdAt: new Date() };
+    await mongodb.getCollection<ItemAdjustment>('itemAdjustments').insertOne(adjustment as any);
+    return adjustment;
+  }
+
+  async getItemAdjustments(from: Date, to: Date): Promise<ItemAdjustment[]> {
+    await this.ensureConnection();
+    return await mongodb.getCollection<ItemAdjustment>('itemAdjustments')
+      .find({ createdAt: { $gte: from, $lt: to } } as any)
+      .sort({ createdAt: 1 })
+      .toArray();
+  }
+
+  async getKotsByOrder(orderId: string): Promise<Kot[]> {
+    await this.ensureConnection();
+    const kots = await mongodb.getCollection<Kot>('kots').find({ orderId } as any).sort({ createdAt: 1 }).toArray();
+    return kots;
+  }
+
+  async getKotsByOrderItem(orderItemId: string): Promise<Kot[]> {
+    await this.ensureConnection();
+    const kots = await mongodb.getCollection<Kot>('kots').find({ 'items.orderItemId': orderItemId } as any).sort({ createdAt: 1 }).toArray();
+    return kots;
+  }
+
+  async moveKots(fromOrderId: string, toOrderId: string): Promise<void> {
+    await this.ensureConnection();
+    await mongodb.getCollection<Kot>('kots').updateMany(
+      { orderId: fromOrderId } as any,
+      { $set: { orderId: toOrderId } }
+    );
+  }
+
+  async getKot(id: string): Promise<Kot | undefined> {
+    await this.ensureConnection();
+    const kot = await mongodb.getCollection<Kot>('kots').findOne({ id } as any);
+    return kot ?? undefined;
+  }
+
+  async createKot(insertKot: InsertKot): Promise<Kot> {
+    await this.ensureConnection();
+    const kot: Kot = {
+      id: randomUUID(),
+      kotNumber: insertKot.kotNumber,
+      orderId: insertKot.orderId,
+      stationId: insertKot.stationId,
+      kind: insertKot.kind,
+      voidsKotId: insertKot.voidsKotId,
+      voidsKotNumber: insertKot.voidsKotNumber,
+      course: insertKot.course,
+      status: "active",
+      items: insertKot.items,
+      printCount: 0,
+      createdBy: insertKot.createdBy,
+      createdByName: insertKot.createdByName,
+      createdAt: new Date(),
+    };
+    await mongodb.getCollection<Kot>('kots').insertOne(kot as any);
+    return kot;
+  }
+
+  async updateKotItems(id: string, items: KotLine[], status: Kot["status"]): Promise<Kot | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<Kot>('kots').findOneAndUpdate(
+      { id } as any,
+      { $set: { items, status } },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async recordKotPrint(id: string): Promise<Kot | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<Kot>('kots').findOneAndUpdate(
+      { id } as any,
+      { $inc: { printCount: 1 } },
+      { returnDocument: 'before' }
+    );
+    return result ?? undefined;
+  }
+
   async getInventoryItems(): Promise<InventoryItem[]> {
     await this.ensureConnection();
     const items = await mongodb.getCollection<InventoryItem>('inventory').find().toArray();
@@ -454,25 +957,33 @@ export class MongoStorage implements IStorage {
     return item ?? undefined;
   }
 
-  async createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem> {
+  async createInventoryItem(item: InsertInventoryItem, source: StockMovementSource = {}): Promise<InventoryItem> {
     await this.ensureConnection();
     const id = randomUUID();
     const inventoryItem: InventoryItem = {
       id,
       name: item.name,
       category: item.category,
-      currentStock: item.currentStock,
+      currentStock: "0",
       unit: item.unit,
       minStock: item.minStock ?? "0",
       supplierId: item.supplierId ?? null,
       costPerUnit: item.costPerUnit ?? "0",
+      image: item.image ?? null,
+      packSizes: item.packSizes ?? [],
+      parLevel: item.parLevel ?? "0",
+      reorderQuantity: item.reorderQuantity ?? "0",
       lastUpdated: new Date(),
     };
     await mongodb.getCollection<InventoryItem>('inventory').insertOne(inventoryItem as any);
+    if (parseFloat(item.currentStock) !== 0) {
+      const opening = await this.recordStockMovement({ ...source, inventoryItemId: id, type: "opening", quantity: item.currentStock });
+      inventoryItem.currentStock = opening?.balanceAfter ?? inventoryItem.currentStock;
+    }
     return inventoryItem;
   }
 
-  async updateInventoryItem(id: string, item: Partial<InsertInventoryItem>): Promise<InventoryItem | undefined> {
+  async updateInventoryItem(id: string, item: Partial<Omit<InsertInventoryItem, "currentStock">>): Promise<InventoryItem | undefined> {
     await this.ensureConnection();
     const result = await mongodb.getCollection<InventoryItem>('inventory').findOneAndUpdate(
       { id } as any,
@@ -482,14 +993,133 @@ export class MongoStorage implements IStorage {
     return result ?? undefined;
   }
 
-  async updateInventoryQuantity(id: string, quantity: string): Promise<InventoryItem | undefined> {
+  async getStockMovements(inventoryItemId?: string): Promise<StockMovement[]> {
     await this.ensureConnection();
-    const result = await mongodb.getCollection<InventoryItem>('inventory').findOneAndUpdate(
-      { id } as any,
-      { $set: { currentStock: quantity, lastUpdated: new Date() } },
-      { returnDocument: 'after' }
-    );
-    return result ?? undefined;
+    const filter = inventoryItemId ? { inventoryItemId } : {};
+    return mongodb.getCollection<StockMovement>('stockMovements').find(filter as any).sort({ createdAt: -1 }).toArray();
+  }
+
+  async getStockMovementsBetween(from: Date | null, to: Date): Promise<StockMovement[]> {
+    await this.ensureConnection();
+    const createdAt = from ? { $gte: from, $lt: to } : { $lt: to };
+    return mongodb.getCollection<StockMovement>('stockMovements').find({ createdAt } as any).sort({ createdAt: 1 }).toArray();
+  }
+
+  /**
+   * Appends an entry to the item's ledger and moves currentStock to the new
+   * balance. This is the only place stock changes, so the entries for an
+   * item always add up to its currentStock. The balance is changed in one
+   * update on the server rather than read, added to and written back, so two
+   * tills selling the same ingredient at once both count, and the entry and
+   * the balance are written in one transaction, so neither lands without the
+   * other.
+   *
+   * Entries with a `movementKey` (an order's sale of an ingredient, a wastage
+   * write-off) are stored under it, so recording one again, as a retry does,
+   * changes nothing and returns the entry already there.
+   */
+  async recordStockMovement(movement: InsertStockMovement): Promise<StockMovement | undefined> {
+    await this.ensureConnection();
+    const existing = await this.getInventoryItem(movement.inventoryItemId);
+    if (!existing) {
+      return undefined;
+    }
+    await this.openLedger(existing);
+
+    const movements = mongodb.getCollection<StockMovement>('stockMovements');
+    const key = movementKey(movement);
+    const change = parseFloat(movement.quantity);
+    try {
+      return await mongodb.withTransaction(async (session) => {
+        const id = randomUUID();
+        // Without a transaction the key is claimed before the balance moves, so a repeat stops here
+        if (key && !session) {
+          await movements.insertOne({ _id: key, id, inventoryItemId: existing.id, type: movement.type, createdAt: new Date() } as any);
+        }
+        const inventoryItem = await mongodb.getCollection<InventoryItem>('inventory').findOneAndUpdate(
+          { id: existing.id } as any,
+          [
+            {
+              $set: {
+                currentStock: { $toString: { $round: [{ $add: [{ $toDouble: "$currentStock" }, change] }, 6] } },
+                lastUpdated: "$$NOW",
+              },
+            },
+          ],
+          { returnDocument: 'after', session }
+        );
+        if (!inventoryItem) {
+          if (key && !session) {
+            await movements.deleteOne({ _id: key } as any);
+          }
+          return undefined;
+        }
+
+        const balanceAfter = parseFloat(inventoryItem.currentStock);
+        const entry: StockMovement = {
+          id,
+          inventoryItemId: inventoryItem.id,
+          itemName: inventoryItem.name,
+          type: movement.type,
+          quantity: stockFigure(change),
+          unit: inventoryItem.unit,
+          enteredQuantity: movement.enteredQuantity ?? null,
+          enteredUnit: movement.enteredUnit ?? null,
+          balanceBefore: stockFigure(balanceAfter - change),
+          balanceAfter: stockFigure(balanceAfter),
+          referenceType: movement.referenceType ?? null,
+          referenceId: movement.referenceId ?? null,
+          by: movement.by ?? null,
+          byName: movement.byName ?? null,
+          notes: movement.notes ?? null,
+          createdAt: new Date(),
+        };
+        if (key && !session) {
+          await movements.replaceOne({ _id: key } as any, entry);
+        } else {
+          await movements.insertOne((key ? { _id: key, ...entry } : entry) as any, { session });
+        }
+        return entry;
+      });
+    } catch (error) {
+      // The entry is already on the ledger; the balance was either rolled back with the insert or never moved
+      if (key && isDuplicateKey(error)) {
+        return (await movements.findOne({ _id: key } as any)) ?? undefined;
+      }
+      throw error;
+    }
+  }
+
+  // Items stocked before the ledger existed get an opening entry for what they held, dated when they were last changed
+  private async openLedger(inventoryItem: InventoryItem): Promise<void> {
+    const movements = mongodb.getCollection<StockMovement>('stockMovements');
+    if (parseFloat(inventoryItem.currentStock) === 0 || (await movements.findOne({ inventoryItemId: inventoryItem.id } as any))) {
+      return;
+    }
+    const opening: StockMovement = {
+      id: randomUUID(),
+      inventoryItemId: inventoryItem.id,
+      itemName: inventoryItem.name,
+      type: "opening",
+      quantity: inventoryItem.currentStock,
+      unit: inventoryItem.unit,
+      enteredQuantity: null,
+      enteredUnit: null,
+      balanceBefore: "0",
+      balanceAfter: inventoryItem.currentStock,
+      referenceType: null,
+      referenceId: null,
+      by: null,
+      byName: null,
+      notes: "Stock held before the ledger was started",
+      createdAt: inventoryItem.lastUpdated ?? new Date(),
+    };
+    try {
+      await movements.insertOne({ _id: `opening:${inventoryItem.id}`, ...opening } as any);
+    } catch (error) {
+      // Another movement on the same item got here first
+      if (!isDuplicateKey(error)) throw error;
+    }
   }
 
   async deleteInventoryItem(id: string): Promise<boolean> {
@@ -500,24 +1130,183 @@ export class MongoStorage implements IStorage {
 
   async deductInventoryForOrder(orderId: string): Promise<void> {
     await this.ensureConnection();
-    const orderItems = await this.getOrderItems(orderId);
-    
-    for (const orderItem of orderItems) {
-      const recipe = await this.getRecipeByMenuItemId(orderItem.menuItemId);
-      if (!recipe) continue;
-      
-      const recipeIngredients = await this.getRecipeIngredients(recipe.id);
-      
-      for (const ingredient of recipeIngredients) {
-        const inventoryItem = await this.getInventoryItem(ingredient.inventoryItemId);
-        if (!inventoryItem) continue;
-        
-        const quantityToDeduct = parseFloat(ingredient.quantity) * orderItem.quantity;
-        const newStock = parseFloat(inventoryItem.currentStock) - quantityToDeduct;
-        
-        await this.updateInventoryQuantity(ingredient.inventoryItemId, newStock.toString());
+    const usage = await this.inventoryUsage(await this.getOrderItems(orderId));
+    // A retry after a partial failure only takes off the ingredients the order has not been charged for yet.
+    // Each sale entry is keyed on the order and item as well, so two deductions racing each other still charge once.
+    const charged = await mongodb.getCollection<StockMovement>('stockMovements')
+      .find({ type: "sale", referenceType: "order", referenceId: orderId } as any)
+      .toArray();
+    const alreadyCharged = new Set(charged.map((movement) => movement.inventoryItemId));
+    for (const [inventoryItemId, quantity] of Array.from(usage)) {
+      if (alreadyCharged.has(inventoryItemId)) continue;
+      await this.recordStockMovement({
+        inventoryItemId,
+        type: "sale",
+        quantity: stockFigure(-quantity),
+        referenceType: "order",
+        referenceId: orderId,
+      });
+    }
+  }
+
+  async getStockDeductions(statuses: StockDeductionStatus[]): Promise<StockDeduction[]> {
+    await this.ensureConnection();
+    return mongodb.getCollection<StockDeduction>('stockDeductions')
+      .find({ status: { $in: statuses } } as any)
+      .sort({ updatedAt: -1 })
+      .toArray();
+  }
+
+  async claimStockDeduction(orderId: string, staleBefore: Date): Promise<StockDeduction | undefined> {
+    await this.ensureConnection();
+    const deductions = mongodb.getCollection<StockDeduction>('stockDeductions');
+    const now = new Date();
+    const deduction: StockDeduction = {
+      id: randomUUID(),
+      orderId,
+      status: "pending",
+      attempts: 1,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      // Keyed on the order, so only one checkout can start it
+      await deductions.insertOne({ _id: orderId, ...deduction } as any);
+      return deduction;
+    } catch (error) {
+      if (!isDuplicateKey(error)) throw error;
+    }
+    const retried = await deductions.findOneAndUpdate(
+      { orderId, $or: [{ status: "failed" }, { status: "pending", updatedAt: { $lt: staleBefore } }] } as any,
+      { $set: { status: "pending", updatedAt: now }, $inc: { attempts: 1 } },
+      { returnDocument: 'after' }
+    );
+    return retried ?? undefined;
+  }
+
+  async finishStockDeduction(orderId: string, error: string | null): Promise<StockDeduction | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<StockDeduction>('stockDeductions').findOneAndUpdate(
+      { orderId } as any,
+      { $set: { status: error ? "failed" : "done", error, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async getStockTakes(): Promise<StockTake[]> {
+    await this.ensureConnection();
+    return mongodb.getCollection<StockTake>('stockTakes').find().sort({ startedAt: -1 }).toArray();
+  }
+
+  async getStockTake(id: string): Promise<StockTake | undefined> {
+    await this.ensureConnection();
+    const stockTake = await mongodb.getCollection<StockTake>('stockTakes').findOne({ id } as any);
+    return stockTake ?? undefined;
+  }
+
+  async createStockTake(insertStockTake: InsertStockTake): Promise<StockTake> {
+    await this.ensureConnection();
+    const stockTake: StockTake = { ...insertStockTake, id: randomUUID() };
+    await mongodb.getCollection<StockTake>('stockTakes').insertOne(stockTake as any);
+    return stockTake;
+  }
+
+  async updateStockTake(id: string, data: Partial<InsertStockTake>, status?: StockTakeStatus): Promise<StockTake | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<StockTake>('stockTakes').findOneAndUpdate(
+      (status ? { id, status } : { id }) as any,
+      { $set: data },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async recordStockTakeCounts(id: string, counts: StockTakeCounts["counts"]): Promise<StockTake | undefined> {
+    await this.ensureConnection();
+    const stockTakes = mongodb.getCollection<StockTake>('stockTakes');
+    for (const { inventoryItemId, counted } of counts) {
+      const result = await stockTakes.updateOne(
+        { id, status: "counting" } as any,
+        { $set: { "lines.$[line].counted": counted } } as any,
+        { arrayFilters: [{ "line.inventoryItemId": inventoryItemId }] }
+      );
+      if (result.matchedCount === 0) {
+        return undefined;
       }
     }
+    return this.getStockTake(id);
+  }
+
+  async getInventoryUsage(
+    items: Array<{ menuItemId: string; quantity: number; modifiers?: OrderItemModifier[]; components?: OrderItemComponent[] }>,
+  ): Promise<Array<{ inventoryItemId: string; quantity: number }>> {
+    await this.ensureConnection();
+    const usage = await this.inventoryUsage(items);
+    return Array.from(usage).map(([inventoryItemId, quantity]) => ({ inventoryItemId, quantity }));
+  }
+
+  async restoreInventoryForItems(
+    items: Array<{ menuItemId: string; quantity: number; modifiers?: OrderItemModifier[]; components?: OrderItemComponent[] }>,
+    source: StockMovementSource,
+  ): Promise<void> {
+    await this.ensureConnection();
+    const usage = await this.inventoryUsage(items);
+    for (const [inventoryItemId, quantity] of Array.from(usage)) {
+      await this.recordStockMovement({ ...source, inventoryItemId, type: "return", quantity: stockFigure(quantity) });
+    }
+  }
+
+  /**
+   * Stock used by menu item quantities: the item's recipe, scaled by any size
+   * modifier, plus each modifier's own ingredients, plus the recipes of a
+   * combo's components. Recipe quantities are converted to each inventory
+   * item's unit, and the whole lot is worked out before any stock moves so a
+   * recipe in a unit that will not convert leaves every count as it was.
+   */
+  private async inventoryUsage(
+    items: Array<{ menuItemId: string; quantity: number; modifiers?: OrderItemModifier[]; components?: OrderItemComponent[] }>,
+  ): Promise<Map<string, number>> {
+    const usage = new Map<string, number>();
+    const use = (inventoryItemId: string, quantity: number) =>
+      usage.set(inventoryItemId, (usage.get(inventoryItemId) ?? 0) + quantity);
+    const inventoryItems = new Map<string, InventoryItem | undefined>();
+    const useIngredient = async (ingredient: RecipeIngredient, quantity: number) => {
+      if (!inventoryItems.has(ingredient.inventoryItemId)) {
+        inventoryItems.set(ingredient.inventoryItemId, await this.getInventoryItem(ingredient.inventoryItemId));
+      }
+      const inventoryItem = inventoryItems.get(ingredient.inventoryItemId);
+      if (inventoryItem) {
+        use(ingredient.inventoryItemId, stockQuantity(inventoryItem, parseFloat(ingredient.quantity) * quantity, ingredient.unit));
+      }
+    };
+
+    for (const item of items) {
+      const modifiers = item.modifiers ?? [];
+      const multiplier = modifiers.reduce((product, modifier) => product * (modifier.recipeMultiplier ?? 1), 1);
+
+      const recipe = await this.getRecipeByMenuItemId(item.menuItemId);
+      if (recipe) {
+        const recipeIngredients = await this.getRecipeIngredients(recipe.id);
+        for (const ingredient of recipeIngredients) {
+          await useIngredient(ingredient, item.quantity * multiplier);
+        }
+      }
+      for (const modifier of modifiers) {
+        for (const ingredient of modifier.ingredients ?? []) {
+          use(ingredient.inventoryItemId, ingredient.quantity * item.quantity);
+        }
+      }
+      for (const component of item.components ?? []) {
+        const componentRecipe = await this.getRecipeByMenuItemId(component.menuItemId);
+        if (!componentRecipe) continue;
+        for (const ingredient of await this.getRecipeIngredients(componentRecipe.id)) {
+          await useIngredient(ingredient, component.quantity * item.quantity);
+        }
+      }
+    }
+    return usage;
   }
 
   async getRecipes(): Promise<Recipe[]> {
@@ -624,6 +1413,7 @@ export class MongoStorage implements IStorage {
       email: insertSupplier.email ?? null,
       address: insertSupplier.address ?? null,
       status: insertSupplier.status ?? "active",
+      leadTimeDays: insertSupplier.leadTimeDays ?? 2,
       createdAt: new Date(),
     };
     await mongodb.getCollection<Supplier>('suppliers').insertOne(supplier as any);
@@ -687,24 +1477,46 @@ export class MongoStorage implements IStorage {
     return result ?? undefined;
   }
 
-  async receivePurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+  async receivePurchaseOrder(id: string, source: StockMovementSource = {}): Promise<PurchaseOrder | undefined> {
     await this.ensureConnection();
+    const purchaseOrder = await this.getPurchaseOrder(id);
+    if (!purchaseOrder) {
+      return undefined;
+    }
     
-    const purchaseOrderItems = await this.getPurchaseOrderItems(id);
-    for (const item of purchaseOrderItems) {
-      const inventoryItem = await this.getInventoryItem(item.inventoryItemId);
+    // Every line is converted before any is booked in, so a bad unit does not leave the order half received
+    const received: Array<{ line: PurchaseOrderItem; quantity: number }> = [];
+    for (const line of await this.getPurchaseOrderItems(id)) {
+      const inventoryItem = await this.getInventoryItem(line.inventoryItemId);
       if (inventoryItem) {
-        const newStock = parseFloat(inventoryItem.currentStock) + parseFloat(item.quantity);
-        await this.updateInventoryQuantity(item.inventoryItemId, newStock.toString());
+        received.push({ line, quantity: stockQuantity(inventoryItem, parseFloat(line.quantity), line.unit) });
       }
     }
-    
+
+    // Claimed before any stock is booked and only if not already received, so a
+    // second receipt (a retry, another screen) cannot book the goods again
     const result = await mongodb.getCollection<PurchaseOrder>('purchaseOrders').findOneAndUpdate(
-      { id } as any,
+      { id, status: { $ne: "received" } } as any,
       { $set: { status: "received", actualDeliveryDate: new Date() } },
       { returnDocument: 'after' }
     );
-    return result ?? undefined;
+    if (!result) {
+      return undefined;
+    }
+    for (const { line, quantity } of received) {
+      await this.recordStockMovement({
+        ...source,
+        inventoryItemId: line.inventoryItemId,
+        type: "purchase",
+        quantity: stockFigure(quantity),
+        enteredQuantity: line.quantity,
+        enteredUnit: line.unit,
+        referenceType: "purchase_order",
+        referenceId: id,
+        notes: `PO ${purchaseOrder.orderNumber}`,
+      });
+    }
+    return result;
   }
 
   async deletePurchaseOrder(id: string): Promise<boolean> {
@@ -770,7 +1582,7 @@ export class MongoStorage implements IStorage {
     return wastage ?? undefined;
   }
 
-  async createWastage(insertWastage: InsertWastage): Promise<Wastage> {
+  async createWastage(insertWastage: InsertWastage, source: StockMovementSource = {}): Promise<Wastage> {
     await this.ensureConnection();
     const id = randomUUID();
     const wastage: Wastage = {
@@ -785,17 +1597,54 @@ export class MongoStorage implements IStorage {
     };
     
     const inventoryItem = await this.getInventoryItem(insertWastage.inventoryItemId);
-    if (inventoryItem) {
-      const newStock = parseFloat(inventoryItem.currentStock) - parseFloat(insertWastage.quantity);
-      await this.updateInventoryQuantity(insertWastage.inventoryItemId, newStock.toString());
-    }
+    const wasted = inventoryItem ? stockQuantity(inventoryItem, parseFloat(insertWastage.quantity), insertWastage.unit) : 0;
     
     await mongodb.getCollection<Wastage>('wastages').insertOne(wastage as any);
+    if (inventoryItem) {
+      await this.recordStockMovement({
+        ...source,
+        inventoryItemId: inventoryItem.id,
+        type: "wastage",
+        quantity: stockFigure(-wasted),
+        enteredQuantity: insertWastage.quantity,
+        enteredUnit: insertWastage.unit,
+        referenceType: "wastage",
+        referenceId: id,
+        notes: insertWastage.reason,
+      });
+    }
     return wastage;
   }
 
-  async deleteWastage(id: string): Promise<boolean> {
+  /**
+   * Puts the written-off stock back with a reversing entry before the record
+   * goes, so the ledger still adds up to currentStock. The reversal is keyed
+   * on the record, so a delete retried after a failure does not return the
+   * stock twice.
+   */
+  async deleteWastage(id: string, source: StockMovementSource = {}): Promise<boolean> {
     await this.ensureConnection();
+    const wastage = await mongodb.getCollection<Wastage>('wastages').findOne({ id } as any);
+    if (!wastage) {
+      return false;
+    }
+    const entries = await mongodb.getCollection<StockMovement>('stockMovements')
+      .find({ type: "wastage", referenceType: "wastage", referenceId: id } as any)
+      .toArray();
+    const writtenOff = entries.filter((entry) => parseFloat(entry.quantity) < 0);
+    for (const entry of writtenOff) {
+      await this.recordStockMovement({
+        ...source,
+        inventoryItemId: entry.inventoryItemId,
+        type: "wastage",
+        quantity: stockFigure(-parseFloat(entry.quantity)),
+        enteredQuantity: entry.enteredQuantity,
+        enteredUnit: entry.enteredUnit,
+        referenceType: "wastage",
+        referenceId: id,
+        notes: `Wastage record deleted: ${wastage.reason}`,
+      });
+    }
     const result = await mongodb.getCollection<Wastage>('wastages').deleteOne({ id } as any);
     return result.deletedCount > 0;
   }
@@ -818,31 +1667,48 @@ export class MongoStorage implements IStorage {
     return invoice ?? undefined;
   }
 
-  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
-    await this.ensureConnection();
-    const id = randomUUID();
-    const invoice: Invoice = {
-      id,
-      invoiceNumber: insertInvoice.invoiceNumber,
-      orderId: insertInvoice.orderId,
-      tableNumber: insertInvoice.tableNumber ?? null,
-      floorName: insertInvoice.floorName ?? null,
-      customerName: insertInvoice.customerName ?? null,
-      customerPhone: insertInvoice.customerPhone ?? null,
-      subtotal: insertInvoice.subtotal,
-      tax: insertInvoice.tax,
-      discount: insertInvoice.discount ?? "0",
-      total: insertInvoice.total,
-      paymentMode: insertInvoice.paymentMode,
-      splitPayments: insertInvoice.splitPayments ?? null,
-      status: insertInvoice.status ?? "Paid",
-      items: insertInvoice.items,
-      notes: insertInvoice.notes ?? null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    await mongodb.getCollection<Invoice>('invoices').insertOne(invoice as any);
-    return invoice;
+  async getInvoicesByOrder(orderId: string): Promise<Invoice[]> {
+    await this.ensureConnection();
+    return await mongodb.getCollection<Invoice>('invoices').find({ orderId } as any).toArray();
+  }
+
+  async createInvoice(series: NumberSeries, insertInvoice: Omit<InsertInvoice, "invoiceNumber">): Promise<Invoice> {
+    await this.ensureConnection();
+    // Drawn and written together: if the insert fails the number goes back to the series
+    return mongodb.withTransaction(async (session) => {
+      const id = randomUUID();
+      const invoice: Invoice = {
+        id,
+        invoiceNumber: series.format(await this.drawSequence(series.counter, session)),
+        orderId: insertInvoice.orderId,
+        tableNumber: insertInvoice.tableNumber ?? null,
+        floorName: insertInvoice.floorName ?? null,
+        customerName: insertInvoice.customerName ?? null,
+        customerPhone: insertInvoice.customerPhone ?? null,
+        subtotal: insertInvoice.subtotal,
+        tax: insertInvoice.tax,
+        discount: insertInvoice.discount ?? "0",
+        roundOff: insertInvoice.roundOff ?? null,
+        total: insertInvoice.total,
+        paymentMode: insertInvoice.paymentMode,
+        splitPayments: insertInvoice.splitPayments ?? null,
+        status: insertInvoice.status ?? "Paid",
+        items: insertInvoice.items,
+        taxBreakdown: insertInvoice.taxBreakdown ?? null,
+        discounts: insertInvoice.discounts ?? null,
+        promotions: insertInvoice.promotions ?? null,
+        guestNumber: insertInvoice.guestNumber ?? null,
+        guestName: insertInvoice.guestName ?? null,
+        splitCount: insertInvoice.splitCount ?? null,
+        notes: insertInvoice.notes ?? null,
+        cancelledAt: null,
+        cancelReason: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await mongodb.getCollection<Invoice>('invoices').insertOne(invoice as any, { session });
+      return invoice;
+    });
   }
 
   async updateInvoice(id: string, invoiceData: Partial<InsertInvoice>): Promise<Invoice | undefined> {
@@ -855,12 +1721,231 @@ export class MongoStorage implements IStorage {
     return result ?? undefined;
   }
 
+  async updateInvoiceStatus(id: string, status: string, cancelReason?: string): Promise<Invoice | undefined> {
+    await this.ensureConnection();
+    const changes: Partial<Invoice> = { status, updatedAt: new Date() };
+    if (cancelReason !== undefined) {
+      changes.cancelledAt = new Date();
+      changes.cancelReason = cancelReason;
+    }
+    const result = await mongodb.getCollection<Invoice>('invoices').findOneAndUpdate(
+      { id } as any,
+      { $set: changes },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
   async deleteInvoice(id: string): Promise<boolean> {
     await this.ensureConnection();
     const result = await mongodb.getCollection<Invoice>('invoices').deleteOne({ id } as any);
     return result.deletedCount > 0;
   }
 
+  async getCreditNotes(): Promise<CreditNote[]> {
+    await this.ensureConnection();
+    const creditNotes = await mongodb.getCollection<CreditNote>('creditNotes').find().sort({ createdAt: -1 }).toArray();
+    return creditNotes;
+  }
+
+  async getCreditNotesByInvoice(invoiceId: string): Promise<CreditNote[]> {
+    await this.ensureConnection();
+    const creditNotes = await mongodb.getCollection<CreditNote>('creditNotes').find({ invoiceId } as any).sort({ createdAt: 1 }).toArray();
+    return creditNotes;
+  }
+
+  async createCreditNote(series: NumberSeries, insertCreditNote: Omit<InsertCreditNote, "creditNoteNumber">): Promise<CreditNote> {
+    await this.ensureConnection();
+    return mongodb.withTransaction(async (session) => {
+      const id = randomUUID();
+      const creditNote: CreditNote = {
+        id,
+        creditNoteNumber: series.format(await this.drawSequence(series.counter, session)),
+        invoiceId: insertCreditNote.invoiceId,
+        invoiceNumber: insertCreditNote.invoiceNumber,
+        orderId: insertCreditNote.orderId,
+        reason: insertCreditNote.reason,
+        items: insertCreditNote.items,
+        subtotal: insertCreditNote.subtotal,
+        discount: insertCreditNote.discount ?? "0",
+        tax: insertCreditNote.tax,
+        roundOff: insertCreditNote.roundOff ?? "0",
+        total: insertCreditNote.total,
+        taxBreakdown: insertCreditNote.taxBreakdown,
+        fullCancellation: insertCreditNote.fullCancellation,
+        restocked: insertCreditNote.restocked ?? false,
+        createdBy: insertCreditNote.createdBy ?? null,
+        createdByName: insertCreditNote.createdByName ?? null,
+        createdAt: new Date(),
+      };
+      await mongodb.getCollection<CreditNote>('creditNotes').insertOne(creditNote as any, { session });
+      return creditNote;
+    });
+  }
+
+  async getOffers(): Promise<Offer[]> {
+    await this.ensureConnection();
+    const offers = await mongodb.getCollection<Offer>('offers').find().sort({ createdAt: -1 }).toArray();
+    return offers;
+  }
+
+  async getOffer(id: string): Promise<Offer | undefined> {
+    await this.ensureConnection();
+    const offer = await mongodb.getCollection<Offer>('offers').findOne({ id } as any);
+    return offer ?? undefined;
+  }
+
+  async createOffer(insertOffer: InsertOffer): Promise<Offer> {
+    await this.ensureConnection();
+    const id = randomUUID();
+    const offer: Offer = {
+      id,
+      name: insertOffer.name,
+      description: insertOffer.description ?? null,
+      active: insertOffer.active ?? true,
+      kind: insertOffer.kind,
+      value: insertOffer.value,
+      maxDiscount: insertOffer.maxDiscount ?? null,
+      minBillAmount: insertOffer.minBillAmount ?? 0,
+      categories: insertOffer.categories ?? [],
+      menuItemIds: insertOffer.menuItemIds ?? [],
+      buyQuantity: insertOffer.buyQuantity ?? 1,
+      getQuantity: insertOffer.getQuantity ?? 1,
+      happyHours: insertOffer.happyHours ?? [],
+      validFrom: insertOffer.validFrom ?? null,
+      validUntil: insertOffer.validUntil ?? null,
+      createdAt: new Date(),
+    };
+    await mongodb.getCollection<Offer>('offers').insertOne(offer as any);
+    return offer;
+  }
+
+  async updateOffer(id: string, offerData: Partial<InsertOffer>): Promise<Offer | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<Offer>('offers').findOneAndUpdate(
+      { id } as any,
+      { $set: offerData },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async deleteOffer(id: string): Promise<boolean> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<Offer>('offers').deleteOne({ id } as any);
+    return result.deletedCount > 0;
+  }
+
+  async getCoupons(): Promise<Coupon[]> {
+    await this.ensureConnection();
+    const coupons = await mongodb.getCollection<Coupon>('coupons').find().sort({ createdAt: -1 }).toArray();
+    return coupons;
+  }
+
+  async getCoupon(id: string): Promise<Coupon | undefined> {
+    await this.ensureConnection();
+    const coupon = await mongodb.getCollection<Coupon>('coupons').findOne({ id } as any);
+    return coupon ?? undefined;
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | undefined> {
+    await this.ensureConnection();
+    const coupon = await mongodb.getCollection<Coupon>('coupons').findOne({ code } as any);
+    return coupon ?? undefined;
+  }
+
+  async createCoupon(insertCoupon: InsertCoupon): Promise<Coupon> {
+    await this.ensureConnection();
+    const id = randomUUID();
+    const coupon: Coupon = {
+      id,
+      code: insertCoupon.code,
+      description: insertCoupon.description ?? null,
+      active: insertCoupon.active ?? true,
+      usageLimit: insertCoupon.usageLimit ?? null,
+      perCustomerLimit: insertCoupon.perCustomerLimit ?? null,
+      usedCount: 0,
+      kind: insertCoupon.kind,
+      value: insertCoupon.value,
+      maxDiscount: insertCoupon.maxDiscount ?? null,
+      minBillAmount: insertCoupon.minBillAmount ?? 0,
+      categories: insertCoupon.categories ?? [],
+      menuItemIds: insertCoupon.menuItemIds ?? [],
+      buyQuantity: insertCoupon.buyQuantity ?? 1,
+      getQuantity: insertCoupon.getQuantity ?? 1,
+      happyHours: insertCoupon.happyHours ?? [],
+      validFrom: insertCoupon.validFrom ?? null,
+      validUntil: insertCoupon.validUntil ?? null,
+      createdAt: new Date(),
+    };
+    await mongodb.getCollection<Coupon>('coupons').insertOne(coupon as any);
+    return coupon;
+  }
+
+  async updateCoupon(id: string, couponData: Partial<InsertCoupon>): Promise<Coupon | undefined> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<Coupon>('coupons').findOneAndUpdate(
+      { id } as any,
+      { $set: couponData },
+      { returnDocument: 'after' }
+    );
+    return result ?? undefined;
+  }
+
+  async deleteCoupon(id: string): Promise<boolean> {
+    await this.ensureConnection();
+    const result = await mongodb.getCollection<Coupon>('coupons').deleteOne({ id } as any);
+    return result.deletedCount > 0;
+  }
+
+  async claimCouponUse(id: string): Promise<boolean> {
+    await this.ensureConnection();
+    // The limit is part of the filter, so two tills cannot both take the last use
+    const result = await mongodb.getCollection<Coupon>('coupons').findOneAndUpdate(
+      {
+        id,
+        $or: [
+          { usageLimit: null },
+          { $expr: { $lt: ['$usedCount', '$usageLimit'] } },
+        ],
+      } as any,
+      { $inc: { usedCount: 1 } },
+      { returnDocument: 'after' }
+    );
+    return !!result;
+  }
+
+  async releaseCouponUse(id: string): Promise<void> {
+    await this.ensureConnection();
+    await mongodb.getCollection<Coupon>('coupons').updateOne(
+      { id, usedCount: { $gt: 0 } } as any,
+      { $inc: { usedCount: -1 } }
+    );
+  }
+
+  async getPromotionRedemptions(): Promise<PromotionRedemption[]> {
+    await this.ensureConnection();
+    const redemptions = await mongodb.getCollection<PromotionRedemption>('promotionRedemptions').find().sort({ createdAt: -1 }).toArray();
+    return redemptions;
+  }
+
+  async countPromotionRedemptions(promotionId: string, customerPhone?: string): Promise<number> {
+    await this.ensureConnection();
+    const filter = customerPhone ? { promotionId, customerPhone } : { promotionId };
+    return mongodb.getCollection<PromotionRedemption>('promotionRedemptions').countDocuments(filter as any);
+  }
+
+  async createPromotionRedemption(insertRedemption: InsertPromotionRedemption): Promise<PromotionRedemption> {
+    await this.ensureConnection();
+    const redemption: PromotionRedemption = {
+      id: randomUUID(),
+      ...insertRedemption,
+      createdAt: new Date(),
+    };
+    await mongodb.getCollection<PromotionRedemption>('promotionRedemptions').insertOne(redemption as any);
+    return redemption;
+  }
+
   async getReservations(): Promise<Reservation[]> {
     await this.ensureConnection();
     const reservations = await mongodb.getCollection<Reservation>('reservations').find().sort({ timeSlot: 1 }).toArray();
@@ -1014,6 +2099,30 @@ export class MongoStorage implements IStorage {
     );
   }
 
+  async nextSequence(name: string): Promise<number> {
+    await this.ensureConnection();
+    return this.drawSequence(name);
+  }
+
+  // A single $inc with upsert is atomic, and counters.name is unique, so concurrent
+  // draws can never share a value or start a second counter for a new series
+  private async drawSequence(name: string, session?: ClientSession): Promise<number> {
+    const counters = mongodb.getCollection<{ name: string; value: number }>('counters');
+    const draw = () =>
+      counters.findOneAndUpdate(
+        { name } as any,
+        { $inc: { value: 1 } },
+        { upsert: true, returnDocument: 'after', session }
+      );
+    try {
+      return (await draw())!.value;
+    } catch (error) {
+      // Two first draws raced to create the counter; the loser increments the winner's
+      if (session || !isDuplicateKey(error)) throw error;
+      return (await draw())!.value;
+    }
+  }
+
   async getInventoryUsages(): Promise<InventoryUsage[]> {
     await this.ensureConnection();
     const usages = await mongodb.getCollection<InventoryUsage>('inventoryUsages').find().sort({ usedAt: -1 }).toArray();
@@ -1046,13 +2155,14 @@ export class MongoStorage implements IStorage {
 
   async getMostUsedItems(limit: number = 10): Promise<Array<{ itemId: string; itemName: string; totalQuantity: string; count: number }>> {
     await this.ensureConnection();
-    const usages = await mongodb.getCollection<InventoryUsage>('inventoryUsages').find().toArray();
+    // Sales and logged usage from the ledger, so items used by orders count as well as manual entries
+    const usages = await mongodb.getCollection<StockMovement>('stockMovements').find({ type: { $in: ["sale", "usage"] } } as any).toArray();
     
     const itemMap = new Map<string, { itemName: string; totalQuantity: number; count: number }>();
     
     for (const usage of usages) {
       const key = usage.inventoryItemId;
-      const qty = parseFloat(usage.quantity) || 0;
+      const qty = -parseFloat(usage.quantity) || 0;
       
       if (!itemMap.has(key)) {
         itemMap.set(key, { itemName: usage.itemName, totalQuantity: qty, count: 1 });
@@ -1069,7 +2179,7 @@ export class MongoStorage implements IStorage {
       .map(([itemId, data]) => ({
         itemId,
         itemName: data.itemName,
-        totalQuantity: data.totalQuantity.toString(),
+        totalQuantity: stockFigure(data.totalQuantity),
         count: data.count,
       }));
     
@@ -1093,6 +2203,7 @@ export class MongoStorage implements IStorage {
       email: "john@freshfoods.com",
       address: "123 Market Street, City, State 12345",
       status: "active",
+      leadTimeDays: 1,
     });
 
     const supplier2 = await this.createSupplier({
@@ -1102,6 +2213,7 @@ export class MongoStorage implements IStorage {
       email: "sarah@qualityingredients.com",
       address: "456 Supply Lane, City, State 12345",
       status: "active",
+      leadTimeDays: 3,
     });
 
     // Create inventory items
@@ -1129,7 +2241,7 @@ export class MongoStorage implements IStorage {
 
     const inventoryItems: InventoryItem[] = [];
     for (const itemData of inventoryItemsData) {
-      const item = await this.createInventoryItem(itemData);
+      const item = await this.createInventoryItem({ ...itemData, packSizes: [], parLevel: "0", reorderQuantity: "0" });
       inventoryItems.push(item);
     }
 
@@ -1,8 +1,10 @@
-import { MongoClient, Db, Collection, Document } from 'mongodb';
+import { MongoClient, Db, Collection, Document, ClientSession } from 'mongodb';
 
 class MongoDBService {
   private client: MongoClient | null = null;
   private db: Db | null = null;
+  // Standalone servers have no transactions; replica sets and sharded clusters do
+  private transactions = false;
 
   async connect(): Promise<void> {
     if (this.client && this.db) {
@@ -19,15 +21,35 @@ class MongoDBService {
       await this.client.connect();
       
       const dbName = this.extractDatabaseName(uri);
-      this.db = this.client.db(dbName);
+      const db = this.client.db(dbName);
+      await this.ensureIndexes(db);
+      this.transactions = await this.supportsTransactions(db);
+      this.db = db;
       
       console.log(`✅ Connected to MongoDB database: ${dbName}`);
+      if (!this.transactions) {
+        console.warn('⚠️  MongoDB is a standalone server: stock and invoice writes run without transactions. Use a replica set in production.');
+      }
     } catch (error) {
       console.error('❌ MongoDB connection error:', error);
       throw error;
     }
   }
 
+  // Without a unique name, two first draws from a new series could each create a counter and hand out the same numbers
+  private async ensureIndexes(db: Db): Promise<void> {
+    try {
+      await db.collection('counters').createIndex({ name: 1 }, { unique: true });
+    } catch (error) {
+      throw new Error(`Could not make counters.name unique; merge any duplicate counters by hand first (${error instanceof Error ? error.message : error})`);
+    }
+  }
+
+  private async supportsTransactions(db: Db): Promise<boolean> {
+    const hello = await db.admin().command({ hello: 1 });
+    return !!hello.setName || hello.msg === 'isdbgrid';
+  }
+
   private extractDatabaseName(uri: string): string {
     try {
       const url = new URL(uri);
@@ -52,6 +74,24 @@ class MongoDBService {
     return this.getDatabase().collection<T>(name);
   }
 
+  // Writes made through the session commit together or not at all. A
+  // standalone server has no transactions, so there fn gets no session and
+  // its writes land one by one; callers keep them safe to repeat.
+  async withTransaction<T>(fn: (session?: ClientSession) => Promise<T>): Promise<T> {
+    if (!this.client) {
+      throw new Error('Database not connected. Call connect() first.');
+    }
+    if (!this.transactions) {
+      return fn();
+    }
+    const session = this.client.startSession();
+    try {
+      return await session.withTransaction(() => fn(session));
+    } finally {
+      await session.endSession();
+    }
+  }
+
   async disconnect(): Promise<void> {
     if (this.client) {
       await this.client.close();
@@ -0,0 +1,335 @@
+import type { IStorage } from "./storage";
+import type { Kot, Order, OrderItem, SessionUser, Table } from "@shared/schema";
+import {
+  checkItemMove,
+  checkOrderMove,
+  isSettled,
+  orderStatusesInto,
+  tableStatusFor,
+  type MoveCheck,
+  type OrderItemStatus,
+  type OrderStatus,
+} from "@shared/order-state";
+import { courseLabel } from "@shared/courses";
+import { sendToKitchen, statusActor } from "./kitchen";
+import { deductOrderStock } from "./inventory";
+
+// Sends a websocket event to every connected client; the payload is serialised as is
+export type Broadcast = (type: string, data: unknown) => void;
+
+type MoveFailure = Extract<MoveCheck, { ok: false }>;
+
+// The table follows the lines on its order; a table since given to another order is left alone
+export async function syncTableStatus(storage: IStorage, order: Order, broadcast: Broadcast): Promise<void> {
+  if (!order.tableId) {
+    return;
+  }
+  const table = await storage.getTable(order.tableId);
+  if (!table || (table.currentOrderId && table.currentOrderId !== order.id)) {
+    return;
+  }
+  const status = tableStatusFor(await storage.getOrderItems(order.id));
+  const updated = table.status === status ? table : await storage.updateTableStatus(table.id, status);
+  if (updated) {
+    broadcast("table_updated", updated);
+  }
+}
+
+async function releaseTable(storage: IStorage, order: Order, broadcast: Broadcast): Promise<void> {
+  if (!order.tableId) {
+    return;
+  }
+  // A paid order completed later may have lost its table to the next guests already
+  const current = await storage.getTable(order.tableId);
+  if (!current || (current.currentOrderId && current.currentOrderId !== order.id)) {
+    return;
+  }
+  await storage.updateTableOrder(order.tableId, null);
+  const table = await storage.updateTableStatus(order.tableId, "free");
+  if (table) {
+    broadcast("table_updated", table);
+  }
+}
+
+// Points the table at the order and shows the order's kitchen progress on it
+async function seatOrder(storage: IStorage, order: Order, tableId: string, broadcast: Broadcast): Promise<void> {
+  await storage.updateTableOrder(tableId, order.id);
+  const table = await storage.updateTableStatus(tableId, tableStatusFor(await storage.getOrderItems(order.id)));
+  if (table) {
+    broadcast("table_updated", table);
+  }
+}
+
+export async function refreshOrderTotal(storage: IStorage, orderId: string): Promise<Order | undefined> {
+  const items = await storage.getOrderItems(orderId);
+  const total = items.reduce((sum, item) => sum + parseFloat(item.price) * item.quantity, 0);
+  return storage.updateOrderTotal(orderId, total.toFixed(2));
+}
+
+export interface OrderMoveOptions {
+  broadcast: Broadcast;
+  // Settle even though the kitchen has lines still out
+  override?: boolean;
+  paymentMode?: string;
+}
+
+/**
+ * Moves an order through the state machine and carries out what goes with
+ * the new status: billed/paid/completed timestamps, freeing the table, stock
+ * deduction on payment and the WebSocket broadcast. KOTs and invoices stay
+ * with their routes, which call this for the status change itself.
+ */
+export async function moveOrder(
+  storage: IStorage,
+  order: Order,
+  to: OrderStatus,
+  { broadcast, override = false, paymentMode }: OrderMoveOptions,
+): Promise<{ ok: true; order: Order } | MoveFailure> {
+  const check = checkOrderMove(order, await storage.getOrderItems(order.id), to, override);
+  if (!check.ok) {
+    return check;
+  }
+
+  // The check above ran on the order as the caller read it, so the write re-checks the status it finds
+  let updated: Order | undefined;
+  if (to === "billed") {
+    updated = await storage.billOrder(order.id, orderStatusesInto(to));
+  } else if (to === "paid") {
+    updated = await storage.checkoutOrder(order.id, orderStatusesInto(to), paymentMode);
+  } else if (to === "completed") {
+    updated = await storage.completeOrder(order.id, orderStatusesInto(to));
+  } else {
+    updated = order.status === to ? order : await storage.updateOrderStatus(order.id, to);
+  }
+  if (!updated) {
+    return (await storage.getOrder(order.id))
+      ? { ok: false, error: "The order was changed on another device; reload it and try again" }
+      : { ok: false, error: "Order not found" };
+  }
+
+  if (to === "paid" || to === "completed") {
+    await releaseTable(storage, updated, broadcast);
+  }
+  if (to === "paid") {
+    await deductOrderStock(storage, updated.id, broadcast);
+  }
+
+  broadcast(to === "paid" ? "order_paid" : to === "completed" ? "order_completed" : "order_updated", updated);
+  return { ok: true, order: updated };
+}
+
+export async function moveOrderItem(
+  storage: IStorage,
+  item: OrderItem,
+  to: OrderItemStatus,
+  { broadcast, user }: { broadcast: Broadcast; user: SessionUser | null | undefined },
+): Promise<{ ok: true; item: OrderItem } | MoveFailure> {
+  const order = await storage.getOrder(item.orderId);
+  if (!order) {
+    return { ok: false, error: "Order not found" };
+  }
+  const check = checkItemMove(order, item, to);
+  if (!check.ok) {
+    return check;
+  }
+
+  const updated = await storage.updateOrderItemStatus(item.id, to, statusActor(user));
+  if (!updated) {
+    return { ok: false, error: "Order item not found" };
+  }
+  await syncTableStatus(storage, order, broadcast);
+  broadcast("order_item_updated", updated);
+  return { ok: true, item: updated };
+}
+
+type TableOpResult = { ok: true; order: Order } | { ok: false; error: string };
+
+const isFree = (table: Table) => table.status === "free" && !table.currentOrderId;
+
+const notDineIn = (order: Order): TableOpResult => ({
+  ok: false,
+  error: `A ${order.orderType} order cannot be seated at a table`,
+});
+
+/**
+ * Moves a party to another table. The order keeps its items, KOTs and
+ * status; the old table is freed and the new one takes over the order.
+ */
+export async function transferOrder(
+  storage: IStorage,
+  order: Order,
+  table: Table,
+  broadcast: Broadcast,
+): Promise<TableOpResult> {
+  if (isSettled(order)) {
+    return { ok: false, error: "The order has already been settled" };
+  }
+  if (order.orderType !== "dine-in") {
+    return notDineIn(order);
+  }
+  if (order.tableId === table.id) {
+    return { ok: false, error: `The order is already at table ${table.tableNumber}` };
+  }
+  if (!isFree(table)) {
+    return { ok: false, error: `Table ${table.tableNumber} is not free; merge the orders instead` };
+  }
+
+  const moved = await storage.updateOrderTable(order.id, table.id);
+  if (!moved) {
+    return { ok: false, error: "Order not found" };
+  }
+  await releaseTable(storage, order, broadcast);
+  await seatOrder(storage, moved, table.id, broadcast);
+  broadcast("order_updated", moved);
+  return { ok: true, order: moved };
+}
+
+/**
+ * Folds other orders into one check, for tables pushed together for a large
+ * group. Their items and KOTs move across unchanged, so the kitchen keeps
+ * working the same tickets, and the emptied orders are deleted. Their tables
+ * are freed.
+ */
+export async function mergeOrders(
+  storage: IStorage,
+  target: Order,
+  sources: Order[],
+  broadcast: Broadcast,
+): Promise<TableOpResult> {
+  for (const order of [target, ...sources]) {
+    if (isSettled(order)) {
+      return { ok: false, error: "Settled orders cannot be merged" };
+    }
+  }
+  if (sources.some((order) => order.id === target.id)) {
+    return { ok: false, error: "An order cannot be merged into itself" };
+  }
+  // An order-level discount or coupon was approved for that check alone
+  if (sources.some((order) => order.discount || order.couponCode)) {
+    return { ok: false, error: "Remove the discount or coupon from an order before merging it" };
+  }
+
+  let sent = false;
+  for (const source of sources) {
+    const items = await storage.getOrderItems(source.id);
+    sent = sent || items.some((item) => item.sentAt);
+    await storage.moveOrderItems(items.map((item) => item.id), target.id);
+    await storage.moveKots(source.id, target.id);
+    await releaseTable(storage, source, broadcast);
+    await storage.deleteOrder(source.id);
+    broadcast("order_deleted", { id: source.id });
+  }
+
+  let merged = (await refreshOrderTotal(storage, target.id)) ?? target;
+  // Lines already in the kitchen must stay on the KDS under their new check
+  if (sent && merged.status === "saved") {
+    const moved = await moveOrder(storage, merged, "sent_to_kitchen", { broadcast });
+    if (moved.ok) {
+      merged = moved.order;
+    }
+  }
+  await syncTableStatus(storage, merged, broadcast);
+  broadcast("order_updated", merged);
+  return { ok: true, order: merged };
+}
+
+/**
+ * Moves the chosen lines onto a new order for a separate bill, either on the
+ * same table or seated at a free one. Lines keep their kitchen status, and
+ * the KOTs they went out on stay with the original order as printed.
+ */
+export async function splitOrder(
+  storage: IStorage,
+  order: Order,
+  orderItemIds: string[],
+  table: Table | null,
+  broadcast: Broadcast,
+): Promise<TableOpResult> {
+  if (isSettled(order)) {
+    return { ok: false, error: "The order has already been settled" };
+  }
+  const items = await storage.getOrderItems(order.id);
+  const ids = new Set(orderItemIds);
+  const moving = items.filter((item) => ids.has(item.id));
+  if (moving.length === 0 || moving.length !== ids.size) {
+    return { ok: false, error: "Choose items from this order to split off" };
+  }
+  if (moving.length === items.length) {
+    return { ok: false, error: "Leave at least one item on the order; to move all of it, transfer the table" };
+  }
+  if (table && order.orderType !== "dine-in") {
+    return notDineIn(order);
+  }
+  if (table && !isFree(table)) {
+    return { ok: false, error: `Table ${table.tableNumber} is not free` };
+  }
+
+  const created = await storage.createOrder({
+    tableId: table?.id ?? order.tableId,
+    orderType: order.orderType,
+    status: "saved",
+    total: "0",
+    customerName: order.customerName,
+    customerPhone: order.customerPhone,
+    customerAddress: order.customerAddress,
+    paymentMode: null,
+    waiterId: order.waiterId,
+    deliveryPersonId: order.deliveryPersonId,
+    expectedPickupTime: order.expectedPickupTime,
+  });
+  await storage.moveOrderItems(moving.map((item) => item.id), created.id);
+  broadcast("order_created", created);
+
+  let split = (await refreshOrderTotal(storage, created.id)) ?? created;
+  if (moving.some((item) => item.sentAt)) {
+    const moved = await moveOrder(storage, split, "sent_to_kitchen", { broadcast });
+    if (moved.ok) {
+      split = moved.order;
+    }
+  }
+  if (table) {
+    await seatOrder(storage, split, table.id, broadcast);
+  }
+
+  const remaining = (await refreshOrderTotal(storage, order.id)) ?? order;
+  await syncTableStatus(storage, remaining, broadcast);
+  broadcast("order_updated", remaining);
+  return { ok: true, order: split };
+}
+
+/**
+ * Releases a held course to the kitchen: its lines go back to new, the order
+ * moves to the kitchen if it was not there yet, and the lines go out on their
+ * own KOT marked with the course.
+ */
+export async function fireCourse(
+  storage: IStorage,
+  order: Order,
+  course: number,
+  { broadcast, user }: { broadcast: Broadcast; user: SessionUser | null | undefined },
+): Promise<{ ok: true; order: Order; kots: Kot[] } | MoveFailure> {
+  if (isSettled(order)) {
+    return { ok: false, error: "The order has already been settled" };
+  }
+  const held = (await storage.getOrderItems(order.id)).filter((item) => item.status === "hold" && item.course === course);
+  if (held.length === 0) {
+    return { ok: false, error: `Nothing is being held for ${courseLabel(course)}` };
+  }
+
+  const moved = await moveOrder(storage, order, "sent_to_kitchen", { broadcast });
+  if (!moved.ok) {
+    return moved;
+  }
+  for (const item of held) {
+    const released = await storage.updateOrderItemStatus(item.id, "new", statusActor(user));
+    if (released) {
+      broadcast("order_item_updated", released);
+    }
+  }
+  const kots = await sendToKitchen(storage, moved.order, user ?? null, course);
+  if (kots.length > 0) {
+    broadcast("kot_created", { orderId: order.id, kots });
+  }
+  await syncTableStatus(storage, moved.order, broadcast);
+  return { ok: true, order: moved.order, kots };
+}
@@ -0,0 +1,156 @@
+import type { IStorage } from "./storage";
+import type { Coupon, Invoice, MenuItem, Order, OrderItem } from "@shared/schema";
+import { applyCoupon, applyOffers, defaultTimeZone, type AppliedPromotion, type PromotionLine } from "@shared/promotions";
+
+// Happy hours are restaurant time, not the clock of whichever machine runs the server or the till
+function configuredTimeZone(): string {
+  const timeZone = process.env.RESTAURANT_TIME_ZONE || defaultTimeZone;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    console.warn(`⚠️  RESTAURANT_TIME_ZONE "${timeZone}" is not a known timezone; using ${defaultTimeZone}`);
+    return defaultTimeZone;
+  }
+}
+
+export const restaurantTimeZone = configuredTimeZone();
+
+export function promotionLines(orderItems: OrderItem[], menuById: Map<string, MenuItem>): PromotionLine[] {
+  return orderItems.map((item) => ({
+    menuItemId: item.menuItemId,
+    category: menuById.get(item.menuItemId)?.category ?? null,
+    price: parseFloat(item.price),
+    quantity: item.quantity,
+  }));
+}
+
+/**
+ * Offers the order qualifies for right now, plus its coupon if the coupon's
+ * rules still hold. A coupon that stops qualifying (items removed, happy hour
+ * over) simply drops off the bill; it stays on the order so it comes back if
+ * the bill qualifies again.
+ */
+export async function getOrderPromotions(
+  storage: IStorage,
+  order: Order,
+  lines: PromotionLine[],
+  at = new Date(),
+): Promise<AppliedPromotion[]> {
+  const [offers, coupon] = await Promise.all([
+    storage.getOffers(),
+    order.couponCode ? storage.getCouponByCode(order.couponCode) : Promise.resolve(undefined),
+  ]);
+
+  const promotions = applyOffers(offers, lines, at, restaurantTimeZone);
+  if (coupon) {
+    const applied = applyCoupon(coupon, lines, at, restaurantTimeZone);
+    if ("promotion" in applied) {
+      promotions.push(applied.promotion);
+    }
+  }
+  return promotions;
+}
+
+// Usage limits depend on redemptions already recorded, so only the server can check them
+async function checkCouponLimits(storage: IStorage, coupon: Coupon, customerPhone: string | null): Promise<string | null> {
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    return `Coupon ${coupon.code} has been fully redeemed`;
+  }
+  if (coupon.perCustomerLimit !== null) {
+    if (!customerPhone) {
+      return `Coupon ${coupon.code} needs the customer's phone number on the order`;
+    }
+    const used = await storage.countPromotionRedemptions(coupon.id, customerPhone);
+    if (used >= coupon.perCustomerLimit) {
+      return `This customer has already used coupon ${coupon.code}`;
+    }
+  }
+  return null;
+}
+
+export type CouponValidation =
+  | { ok: true; coupon: Coupon; promotion: AppliedPromotion }
+  | { ok: false; error: string };
+
+export async function validateOrderCoupon(
+  storage: IStorage,
+  code: string,
+  order: Order,
+  orderItems: OrderItem[],
+): Promise<CouponValidation> {
+  const coupon = await storage.getCouponByCode(code);
+  if (!coupon) {
+    return { ok: false, error: `Coupon ${code} does not exist` };
+  }
+
+  const menuItems = await storage.getMenuItems();
+  const lines = promotionLines(orderItems, new Map(menuItems.map((menuItem) => [menuItem.id, menuItem])));
+  const applied = applyCoupon(coupon, lines, new Date(), restaurantTimeZone);
+  if ("error" in applied) {
+    return { ok: false, error: applied.error };
+  }
+
+  const limitError = await checkCouponLimits(storage, coupon, order.customerPhone);
+  if (limitError) {
+    return { ok: false, error: limitError };
+  }
+  return { ok: true, coupon, promotion: applied.promotion };
+}
+
+/**
+ * Takes one use of the coupon a bill is about to be settled with. The total
+ * limit is claimed atomically; the per-customer limit is re-checked first.
+ */
+export async function claimCoupon(storage: IStorage, promotions: AppliedPromotion[], order: Order): Promise<string | null> {
+  const applied = promotions.find((promotion) => promotion.type === "coupon");
+  if (!applied) {
+    return null;
+  }
+  const coupon = await storage.getCoupon(applied.id);
+  if (!coupon) {
+    return `Coupon ${applied.code} no longer exists`;
+  }
+  const limitError = await checkCouponLimits(storage, coupon, order.customerPhone);
+  if (limitError) {
+    return limitError;
+  }
+  return (await storage.claimCouponUse(coupon.id)) ? null : `Coupon ${coupon.code} has been fully redeemed`;
+}
+
+// Undoes claimCoupon when the bill it was claimed for is not settled after all
+export async function releaseCoupon(storage: IStorage, promotions: AppliedPromotion[]): Promise<void> {
+  const applied = promotions.find((promotion) => promotion.type === "coupon");
+  if (applied) {
+    await storage.releaseCouponUse(applied.id);
+  }
+}
+
+export async function recordRedemptions(
+  storage: IStorage,
+  invoice: Invoice,
+  order: Order,
+  promotions: AppliedPromotion[],
+): Promise<void> {
+  const redeemed = promotions.filter((promotion) => promotion.amount > 0);
+  if (redeemed.length === 0) {
+    return;
+  }
+  const customer = order.customerPhone ? await storage.getCustomerByPhone(order.customerPhone) : undefined;
+
+  for (const promotion of redeemed) {
+    await storage.createPromotionRedemption({
+      promotionType: promotion.type,
+      promotionId: promotion.id,
+      code: promotion.code,
+      name: promotion.name,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      orderId: order.id,
+      customerId: customer?.id ?? null,
+      customerName: order.customerName || customer?.name || null,
+      customerPhone: order.customerPhone,
+      amount: promotion.amount.toFixed(2),
+    });
+  }
+}
@@ -0,0 +1,141 @@
+import type { IStorage } from "./storage";
+import type { DraftPurchaseOrders, InventoryItem, PurchaseOrder, Supplier } from "@shared/schema";
+import { DEFAULT_LEAD_TIME_DAYS, suggestReorder, type ReorderSuggestion, type ReorderSuggestions } from "@shared/reorder";
+import { toStockUnit } from "@shared/units";
+import type { Broadcast } from "./orders";
+
+// Days of sales the usage rate is averaged over
+export const USAGE_WINDOW_DAYS = 28;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Anything not yet received is still on its way, drafts included, so generating drafts twice does not double up
+const isOpen = (order: PurchaseOrder) => order.status !== "received" && order.status !== "cancelled";
+
+// Stock on open purchase orders, in each item's own unit
+async function stockOnOrder(storage: IStorage, items: Map<string, InventoryItem>): Promise<Map<string, number>> {
+  const onOrder = new Map<string, number>();
+  for (const order of (await storage.getPurchaseOrders()).filter(isOpen)) {
+    for (const line of await storage.getPurchaseOrderItems(order.id)) {
+      const item = items.get(line.inventoryItemId);
+      const converted = item && toStockUnit(parseFloat(line.quantity), line.unit, item);
+      if (converted && converted.ok) {
+        onOrder.set(line.inventoryItemId, (onOrder.get(line.inventoryItemId) ?? 0) + converted.quantity);
+      }
+    }
+  }
+  return onOrder;
+}
+
+// Average daily sales deductions per item over the usage window; returns of sold stock count against them
+async function dailySales(storage: IStorage, now: Date): Promise<Map<string, number>> {
+  const movements = await storage.getStockMovementsBetween(new Date(now.getTime() - USAGE_WINDOW_DAYS * DAY_MS), now);
+  const sold = new Map<string, number>();
+  for (const movement of movements) {
+    if (movement.type !== "sale" && movement.type !== "return") continue;
+    sold.set(movement.inventoryItemId, (sold.get(movement.inventoryItemId) ?? 0) - parseFloat(movement.quantity));
+  }
+  const daily = new Map<string, number>();
+  for (const [inventoryItemId, quantity] of Array.from(sold)) {
+    daily.set(inventoryItemId, Math.max(quantity, 0) / USAGE_WINDOW_DAYS);
+  }
+  return daily;
+}
+
+export async function getReorderSuggestions(storage: IStorage, now = new Date()): Promise<ReorderSuggestions> {
+  const [inventoryItems, suppliers] = await Promise.all([storage.getInventoryItems(), storage.getSuppliers()]);
+  const items = new Map(inventoryItems.map((item) => [item.id, item] as const));
+  const supplierById = new Map(suppliers.map((supplier) => [supplier.id, supplier] as const));
+  const [onOrder, daily] = await Promise.all([stockOnOrder(storage, items), dailySales(storage, now)]);
+
+  const suggestions = inventoryItems
+    .map((item) =>
+      suggestReorder(item, item.supplierId ? supplierById.get(item.supplierId) : undefined, {
+        dailyUsage: daily.get(item.id) ?? 0,
+        onOrder: onOrder.get(item.id) ?? 0,
+      }),
+    )
+    .filter((suggestion): suggestion is ReorderSuggestion => suggestion !== null)
+    .sort((a, b) => (a.supplierName ?? "~").localeCompare(b.supplierName ?? "~") || a.itemName.localeCompare(b.itemName));
+
+  return { usageDays: USAGE_WINDOW_DAYS, suggestions };
+}
+
+export interface DraftPurchaseOrdersResult {
+  purchaseOrders: PurchaseOrder[];
+  // Items that could not go on a draft, with why
+  skipped: Array<{ inventoryItemId: string; itemName: string; reason: string }>;
+}
+
+// PO numbers follow the PO-0001 series the purchase orders page uses, skipping any already taken
+function numberAllocator(existing: PurchaseOrder[]) {
+  const taken = new Set(existing.map((order) => order.orderNumber));
+  let next = existing.length + 1;
+  return () => {
+    while (taken.has(`PO-${String(next).padStart(4, "0")}`)) next++;
+    const orderNumber = `PO-${String(next).padStart(4, "0")}`;
+    taken.add(orderNumber);
+    return orderNumber;
+  };
+}
+
+/**
+ * One draft purchase order per supplier for the chosen items, at each
+ * item's cost per unit and due after the supplier's lead time. Items with
+ * no supplier set are left out and reported back.
+ */
+export async function createDraftPurchaseOrders(
+  storage: IStorage,
+  { items: picked }: DraftPurchaseOrders,
+  broadcast: Broadcast,
+): Promise<DraftPurchaseOrdersResult> {
+  const skipped: DraftPurchaseOrdersResult["skipped"] = [];
+  const bySupplier = new Map<string, Array<{ item: InventoryItem; quantity: number }>>();
+  const suppliers = new Map<string, Supplier>();
+
+  for (const { inventoryItemId, quantity } of picked) {
+    const item = await storage.getInventoryItem(inventoryItemId);
+    if (!item) {
+      skipped.push({ inventoryItemId, itemName: inventoryItemId, reason: "Inventory item not found" });
+      continue;
+    }
+    const supplier = item.supplierId ? suppliers.get(item.supplierId) ?? (await storage.getSupplier(item.supplierId)) : undefined;
+    if (!supplier) {
+      skipped.push({ inventoryItemId, itemName: item.name, reason: "No supplier set for this item" });
+      continue;
+    }
+    suppliers.set(supplier.id, supplier);
+    bySupplier.set(supplier.id, [...(bySupplier.get(supplier.id) ?? []), { item, quantity: parseFloat(quantity) }]);
+  }
+
+  const nextNumber = numberAllocator(await storage.getPurchaseOrders());
+  const purchaseOrders: PurchaseOrder[] = [];
+  const now = new Date();
+  for (const [supplierId, lines] of Array.from(bySupplier)) {
+    const supplier = suppliers.get(supplierId)!;
+    const lineCost = (line: { item: InventoryItem; quantity: number }) => line.quantity * (parseFloat(line.item.costPerUnit) || 0);
+    const order = await storage.createPurchaseOrder({
+      orderNumber: nextNumber(),
+      supplierId,
+      orderDate: now,
+      expectedDeliveryDate: new Date(now.getTime() + (supplier.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS) * DAY_MS),
+      status: "draft",
+      totalAmount: lines.reduce((sum, line) => sum + lineCost(line), 0).toFixed(2),
+      notes: "Drafted from reorder suggestions",
+    });
+    for (const line of lines) {
+      await storage.createPurchaseOrderItem({
+        purchaseOrderId: order.id,
+        inventoryItemId: line.item.id,
+        quantity: line.quantity.toString(),
+        unit: line.item.unit,
+        costPerUnit: line.item.costPerUnit,
+        totalCost: lineCost(line).toFixed(2),
+      });
+    }
+    broadcast("purchase_order_created", order);
+    purchaseOrders.push(order);
+  }
+
+  return { purchaseOrders, skipped };
+}
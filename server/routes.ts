@@ -7,7 +7,11 @@ import {
   insertTableSchema,
   insertMenuItemSchema,
   insertOrderSchema,
-  insertOrderItemSchema,
+  addOrderItemSchema,
+  insertModifierGroupSchema,
+  type Order,
+  type OrderItemModifier,
+  type OrderItemComponent,
   insertInventoryItemSchema,
   insertRecipeSchema,
   insertRecipeIngredientSchema,
@@ -15,39 +19,156 @@ import {
   insertPurchaseOrderSchema,
   insertPurchaseOrderItemSchema,
   insertWastageSchema,
-  insertInvoiceSchema,
+  invoiceSeriesSettingsSchema,
+  kitchenSlaSettingsSchema,
+  updateInvoiceDetailsSchema,
+  creditNoteRequestSchema,
+  discountRequestSchema,
+  insertOfferSchema,
+  insertCouponSchema,
+  couponCodeSchema,
+  validateCouponSchema,
   insertReservationSchema,
   insertCustomerSchema,
   insertFeedbackSchema,
   insertInventoryUsageSchema,
+  insertRoleSchema,
+  insertTaxProfileSchema,
+  insertKitchenStationSchema,
+  insertUserSchema,
+  PERMISSIONS,
+  type Permission,
+  permissionDefinitions,
+  voidItemRequestSchema,
+  compItemRequestSchema,
+  startStockTakeSchema,
+  draftPurchaseOrdersSchema,
+  stockTakeCountsSchema,
 } from "@shared/schema";
 import { z } from "zod";
 import { fetchMenuItemsFromMongoDB } from "./mongodbService";
 import { generateInvoicePDF } from "./utils/invoiceGenerator";
 import { generateKOTPDF } from "./utils/kotGenerator";
+import {
+  calculateOrderBill,
+  calculateSplitBills,
+  getInvoiceSeriesSettings,
+  issueCreditNote,
+  issueInvoice,
+  issueSplitInvoices,
+  isProforma,
+  prepareItemDiscount,
+  prepareOrderDiscount,
+  saveInvoiceSeriesSettings,
+} from "./billing";
+import { claimCoupon, releaseCoupon, restaurantTimeZone, validateOrderCoupon } from "./promotions";
+import { modifiersPrice, resolveModifiers } from "@shared/modifiers";
+import { checkComboDefinition, isCombo, resolveComboComponents } from "@shared/combos";
+import { linesForStation, stationKey, stationName } from "@shared/stations";
+import { isKdsStatus, type KdsPatch } from "@shared/kds";
+import {
+  getKdsFeed,
+  getKdsTicket,
+  getKitchenAnalytics,
+  getKitchenSlaSettings,
+  routeOrderItem,
+  saveKitchenSlaSettings,
+  sendToKitchen,
+  statusActor,
+} from "./kitchen";
 import { DigitalMenuSyncService } from "./digital-menu-sync";
+import {
+  mergeOrders,
+  moveOrder,
+  moveOrderItem,
+  refreshOrderTotal,
+  fireCourse,
+  splitOrder,
+  syncTableStatus,
+  transferOrder,
+} from "./orders";
+import { compOrderItem, getVoidReport, voidOrderItem } from "./voids";
+import { createDraftPurchaseOrders, getReorderSuggestions } from "./reorder";
+import { cancelStockTake, getStockTakeVariance, postStockTake, recordStockTakeCounts, startStockTake } from "./stock-take";
+import { checkStockUnit, checkUnitChange, deductOrderStock, getUnreconciledDeductions } from "./inventory";
+import { checkPackSizes, toStockUnit } from "@shared/units";
+import {
+  ORDER_ITEM_STATUSES,
+  ORDER_STATUSES,
+  checkOrderMove,
+  isOrderItemStatus,
+  isOrderStatus,
+  isSettled,
+  type OrderStatus,
+} from "@shared/order-state";
+import {
+  setupAuth,
+  authenticateUpgrade,
+  requirePermission,
+  hashPassword,
+  toPublicUser,
+  isWithinAuthority,
+  ADMIN_ROLE_ID,
+} from "./auth";
 
 const orderActionSchema = z.object({
   print: z.boolean().optional().default(false),
 });
 
+const transferOrderSchema = z.object({
+  tableId: z.string(),
+});
+
+const mergeOrdersSchema = z.object({
+  orderIds: z.array(z.string()).min(1),
+});
+
+// With no tableId the split-off check stays at the same table
+const splitOrderSchema = z.object({
+  orderItemIds: z.array(z.string()).min(1),
+  tableId: z.string().nullable().optional(),
+});
+
+const fireCourseSchema = z.object({
+  course: z.number().int().positive(),
+  print: z.boolean().optional().default(false),
+});
+
+// override settles an order whose lines have not all been served, after the cashier confirms
 const checkoutSchema = z.object({
   paymentMode: z.string().optional(),
   print: z.boolean().optional().default(false),
+  override: z.boolean().optional().default(false),
   splitPayments: z.array(z.object({
     person: z.number(),
     amount: z.number(),
     paymentMode: z.string(),
   })).optional(),
+  // Each guest pays for the items assigned to them and gets their own invoice
+  itemSplit: z.object({
+    guests: z.array(z.object({
+      guest: z.number().int().positive(),
+      name: z.string().nullable().optional(),
+      paymentMode: z.string(),
+    })).min(2),
+    assignments: z.array(z.object({
+      orderItemId: z.string(),
+      guests: z.array(z.number().int().positive()).min(1),
+    })),
+  }).optional(),
 });
 
 let wss: WebSocketServer;
 
-function broadcastUpdate(type: string, data: any) {
+function broadcastUpdate(type: string, data: unknown) {
   if (!wss) {
     console.log('[WebSocket] No WSS instance, cannot broadcast');
     return;
   }
+  const orderId = kdsOrderId(type, data);
+  if (orderId) {
+    scheduleKdsPatch(orderId);
+  }
   const message = JSON.stringify({ type, data });
   const clientCount = Array.from(wss.clients).filter(c => c.readyState === WebSocket.OPEN).length;
   console.log(`[WebSocket] Broadcasting ${type} to ${clientCount} clients`);
@@ -58,7 +179,193 @@ function broadcastUpdate(type: string, data: any) {
   });
 }
 
+// The order an order or order item event is about. Those events also patch
+// the kitchen displays, so screens never have to refetch the whole feed.
+function kdsOrderId(type: string, data: unknown): string | undefined {
+  const payload = data as { id?: string; orderId?: string } | null | undefined;
+  if (type.startsWith("order_item_")) return payload?.orderId;
+  if (type.startsWith("order_")) return payload?.id;
+  return undefined;
+}
+
+// Several events for one order in the same request collapse into one patch
+const pendingKdsPatches = new Map<string, NodeJS.Timeout>();
+
+function scheduleKdsPatch(orderId: string) {
+  if (pendingKdsPatches.has(orderId)) return;
+  pendingKdsPatches.set(orderId, setTimeout(async () => {
+    pendingKdsPatches.delete(orderId);
+    try {
+      const patch: KdsPatch = { orderId, ticket: await getKdsTicket(storage, orderId) };
+      broadcastUpdate("kds_patch", patch);
+    } catch (error) {
+      console.error("[WebSocket] Failed to build KDS patch for order", orderId, error);
+    }
+  }, 50));
+}
+
+// Reads are open to every role whose screens show the data, which is wider
+// than who may change it: the menu editor picks recipe ingredients from
+// inventory, and the GST and item reports read invoices. Floors, tables, the
+// menu, tax profiles and kitchen stations stay readable by any signed-in
+// user, since every screen draws on them and they carry no customer or sales data.
+const ORDER_READERS: Permission[] = [
+  PERMISSIONS.ORDERS_MANAGE,
+  PERMISSIONS.BILLING_CHECKOUT,
+  PERMISSIONS.TABLES_MANAGE,
+  PERMISSIONS.KITCHEN_MANAGE,
+  PERMISSIONS.DELIVERY_MANAGE,
+  PERMISSIONS.REPORTS_VIEW,
+];
+const INVOICE_READERS: Permission[] = [PERMISSIONS.INVOICES_MANAGE, PERMISSIONS.BILLING_CHECKOUT, PERMISSIONS.REPORTS_VIEW];
+const PROMOTION_READERS: Permission[] = [PERMISSIONS.SETTINGS_MANAGE, PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.BILLING_CHECKOUT];
+const STOCK_READERS: Permission[] = [PERMISSIONS.INVENTORY_MANAGE, PERMISSIONS.MENU_EDIT, PERMISSIONS.PURCHASE_ORDERS_RECEIVE];
+const PURCHASING_READERS: Permission[] = [PERMISSIONS.INVENTORY_MANAGE, PERMISSIONS.PURCHASE_ORDERS_RECEIVE];
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Must run before any other /api route so unauthenticated calls are rejected
+  setupAuth(app);
+
+  // ==================== USERS & ROLES ====================
+
+  app.get("/api/permissions", async (req, res) => {
+    res.json(permissionDefinitions);
+  });
+
+  app.get("/api/roles", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+    const roles = await storage.getRoles();
+    res.json(roles);
+  });
+
+  app.post("/api/roles", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+    const result = insertRoleSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const existing = (await storage.getRoles()).find(
+      (role) => role.name.toLowerCase() === result.data.name.toLowerCase()
+    );
+    if (existing) {
+      return res.status(409).json({ error: "A role with this name already exists" });
+    }
+    if (!isWithinAuthority(req.user!, { id: "", ...result.data })) {
+      return res.status(403).json({ error: "You cannot grant permissions or a discount limit beyond your own" });
+    }
+    const role = await storage.createRole(result.data);
+    broadcastUpdate("role_created", role);
+    res.json(role);
+  });
+
+  app.patch("/api/roles/:id", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+    if (req.params.id === ADMIN_ROLE_ID) {
+      return res.status(400).json({ error: "The Admin role always has every permission" });
+    }
+    const result = insertRoleSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const existing = await storage.getRole(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Role not found" });
+    }
+    if (!isWithinAuthority(req.user!, existing) || !isWithinAuthority(req.user!, { ...existing, ...result.data })) {
+      return res.status(403).json({ error: "You cannot grant permissions or a discount limit beyond your own" });
+    }
+    const role = await storage.updateRole(req.params.id, result.data);
+    if (!role) {
+      return res.status(404).json({ error: "Role not found" });
+    }
+    broadcastUpdate("role_updated", role);
+    res.json(role);
+  });
+
+  app.delete("/api/roles/:id", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+    try {
+      const role = await storage.getRole(req.params.id);
+      if (!role) {
+        return res.status(404).json({ error: "Role not found" });
+      }
+      if (role.isSystem) {
+        return res.status(400).json({ error: "Built-in roles cannot be deleted" });
+      }
+      if (!isWithinAuthority(req.user!, role)) {
+        return res.status(403).json({ error: "You cannot grant permissions or a discount limit beyond your own" });
+      }
+      await storage.deleteRole(req.params.id);
+      broadcastUpdate("role_deleted", { id: req.params.id });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to delete role" });
+    }
+  });
+
+  app.get("/api/users", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+    const users = await storage.getUsers();
+    res.json(users.map(toPublicUser));
+  });
+
+  app.post("/api/users", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+    const result = insertUserSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    if (await storage.getUserByUsername(result.data.username)) {
+      return res.status(409).json({ error: "Username is already taken" });
+    }
+    const role = await storage.getRole(result.data.roleId);
+    if (!role) {
+      return res.status(400).json({ error: "Role not found" });
+    }
+    if (!isWithinAuthority(req.user!, role)) {
+      return res.status(403).json({ error: "You cannot grant permissions or a discount limit beyond your own" });
+    }
+    const user = await storage.createUser({
+      ...result.data,
+      password: await hashPassword(result.data.password),
+      pin: result.data.pin ? await hashPassword(result.data.pin) : null,
+    });
+    broadcastUpdate("user_created", toPublicUser(user));
+    res.json(toPublicUser(user));
+  });
+
+  app.patch("/api/users/:id", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+    const result = insertUserSchema.omit({ username: true }).partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    if (req.params.id === req.user!.id && (result.data.active === false || (result.data.roleId && result.data.roleId !== req.user!.roleId))) {
+      return res.status(400).json({ error: "You cannot deactivate yourself or change your own role" });
+    }
+    const target = await storage.getUser(req.params.id);
+    if (!target) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const newRole = result.data.roleId ? await storage.getRole(result.data.roleId) : undefined;
+    if (result.data.roleId && !newRole) {
+      return res.status(400).json({ error: "Role not found" });
+    }
+    // Neither the user's current role nor the one they are moved to may outrank the editor
+    const currentRole = await storage.getRole(target.roleId);
+    if ((currentRole && !isWithinAuthority(req.user!, currentRole)) || (newRole && !isWithinAuthority(req.user!, newRole))) {
+      return res.status(403).json({ error: "You cannot edit users whose role has permissions or a discount limit beyond your own" });
+    }
+    const update = { ...result.data };
+    if (update.password) {
+      update.password = await hashPassword(update.password);
+    }
+    if (update.pin) {
+      update.pin = await hashPassword(update.pin);
+    }
+    const user = await storage.updateUser(req.params.id, update);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    broadcastUpdate("user_updated", toPublicUser(user));
+    res.json(toPublicUser(user));
+  });
+
+  // ==================== END USERS & ROLES ====================
+
   app.get("/api/floors", async (req, res) => {
     const floors = await storage.getFloors();
     res.json(floors);
@@ -72,7 +379,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(floor);
   });
 
-  app.post("/api/floors", async (req, res) => {
+  app.post("/api/floors", requirePermission(PERMISSIONS.TABLES_MANAGE), async (req, res) => {
     const result = insertFloorSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
@@ -82,7 +389,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(floor);
   });
 
-  app.patch("/api/floors/:id", async (req, res) => {
+  app.patch("/api/floors/:id", requirePermission(PERMISSIONS.TABLES_MANAGE), async (req, res) => {
     const floor = await storage.updateFloor(req.params.id, req.body);
     if (!floor) {
       return res.status(404).json({ error: "Floor not found" });
@@ -91,7 +398,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(floor);
   });
 
-  app.delete("/api/floors/:id", async (req, res) => {
+  app.delete("/api/floors/:id", requirePermission(PERMISSIONS.TABLES_MANAGE), async (req, res) => {
     const success = await storage.deleteFloor(req.params.id);
     if (!success) {
       return res.status(404).json({ error: "Floor not found" });
@@ -113,7 +420,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(table);
   });
 
-  app.post("/api/tables", async (req, res) => {
+  app.post("/api/tables", requirePermission(PERMISSIONS.TABLES_MANAGE), async (req, res) => {
     const result = insertTableSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
@@ -123,7 +430,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(table);
   });
 
-  app.patch("/api/tables/:id", async (req, res) => {
+  app.patch("/api/tables/:id", requirePermission(PERMISSIONS.TABLES_MANAGE), async (req, res) => {
     const table = await storage.updateTable(req.params.id, req.body);
     if (!table) {
       return res.status(404).json({ error: "Table not found" });
@@ -132,7 +439,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(table);
   });
 
-  app.delete("/api/tables/:id", async (req, res) => {
+  app.delete("/api/tables/:id", requirePermission(PERMISSIONS.TABLES_MANAGE), async (req, res) => {
     const success = await storage.deleteTable(req.params.id);
     if (!success) {
       return res.status(404).json({ error: "Table not found" });
@@ -141,7 +448,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true });
   });
 
-  app.patch("/api/tables/:id/status", async (req, res) => {
+  app.patch("/api/tables/:id/status", requirePermission(PERMISSIONS.TABLES_MANAGE, PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
     const { status } = req.body;
     const table = await storage.updateTableStatus(req.params.id, status);
     if (!table) {
@@ -151,7 +458,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(table);
   });
 
-  app.patch("/api/tables/:id/order", async (req, res) => {
+  app.patch("/api/tables/:id/order", requirePermission(PERMISSIONS.TABLES_MANAGE, PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
     const { orderId } = req.body;
     const table = await storage.updateTableOrder(req.params.id, orderId);
     if (!table) {
@@ -161,6 +468,136 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(table);
   });
 
+  // ==================== TAX PROFILES ====================
+
+  app.get("/api/tax-profiles", async (req, res) => {
+    const profiles = await storage.getTaxProfiles();
+    res.json(profiles);
+  });
+
+  app.post("/api/tax-profiles", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const result = insertTaxProfileSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const profile = await storage.createTaxProfile(result.data);
+    broadcastUpdate("tax_profile_created", profile);
+    res.json(profile);
+  });
+
+  app.patch("/api/tax-profiles/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const result = insertTaxProfileSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const profile = await storage.updateTaxProfile(req.params.id, result.data);
+    if (!profile) {
+      return res.status(404).json({ error: "Tax profile not found" });
+    }
+    broadcastUpdate("tax_profile_updated", profile);
+    res.json(profile);
+  });
+
+  app.delete("/api/tax-profiles/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const success = await storage.deleteTaxProfile(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Tax profile not found" });
+      }
+      broadcastUpdate("tax_profile_deleted", { id: req.params.id });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to delete tax profile" });
+    }
+  });
+
+  // ==================== KITCHEN STATIONS ====================
+
+  app.get("/api/kitchen-stations", async (req, res) => {
+    const stations = await storage.getKitchenStations();
+    res.json(stations);
+  });
+
+  app.post("/api/kitchen-stations", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const result = insertKitchenStationSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const station = await storage.createKitchenStation(result.data);
+    broadcastUpdate("kitchen_station_created", station);
+    res.json(station);
+  });
+
+  app.patch("/api/kitchen-stations/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const result = insertKitchenStationSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const station = await storage.updateKitchenStation(req.params.id, result.data);
+    if (!station) {
+      return res.status(404).json({ error: "Kitchen station not found" });
+    }
+    broadcastUpdate("kitchen_station_updated", station);
+    res.json(station);
+  });
+
+  app.delete("/api/kitchen-stations/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const success = await storage.deleteKitchenStation(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Kitchen station not found" });
+      }
+      broadcastUpdate("kitchen_station_deleted", { id: req.params.id });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to delete kitchen station" });
+    }
+  });
+
+  // ==================== MODIFIER GROUPS ====================
+
+  app.get("/api/modifier-groups", async (req, res) => {
+    const groups = await storage.getModifierGroups();
+    res.json(groups);
+  });
+
+  app.post("/api/modifier-groups", requirePermission(PERMISSIONS.MENU_EDIT), async (req, res) => {
+    const result = insertModifierGroupSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const group = await storage.createModifierGroup(result.data);
+    broadcastUpdate("modifier_group_created", group);
+    res.json(group);
+  });
+
+  // Groups are saved whole: the option list and its selection limits are checked together
+  app.put("/api/modifier-groups/:id", requirePermission(PERMISSIONS.MENU_EDIT), async (req, res) => {
+    const result = insertModifierGroupSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const group = await storage.updateModifierGroup(req.params.id, result.data);
+    if (!group) {
+      return res.status(404).json({ error: "Modifier group not found" });
+    }
+    broadcastUpdate("modifier_group_updated", group);
+    res.json(group);
+  });
+
+  app.delete("/api/modifier-groups/:id", requirePermission(PERMISSIONS.MENU_EDIT), async (req, res) => {
+    try {
+      const success = await storage.deleteModifierGroup(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Modifier group not found" });
+      }
+      broadcastUpdate("modifier_group_deleted", { id: req.params.id });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to delete modifier group" });
+    }
+  });
+
   app.get("/api/menu", async (req, res) => {
     const items = await storage.getMenuItems();
     res.json(items);
@@ -180,17 +617,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(item);
   });
 
-  app.post("/api/menu", async (req, res) => {
+  app.post("/api/menu", requirePermission(PERMISSIONS.MENU_EDIT), async (req, res) => {
     const result = insertMenuItemSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
     }
+    if (result.data.comboComponents?.length) {
+      const comboError = checkComboDefinition(null, result.data.comboComponents, await storage.getMenuItems());
+      if (comboError) {
+        return res.status(400).json({ error: comboError });
+      }
+    }
     const item = await storage.createMenuItem(result.data);
     broadcastUpdate("menu_updated", item);
     res.json(item);
   });
 
-  app.patch("/api/menu/:id", async (req, res) => {
+  app.patch("/api/menu/:id", requirePermission(PERMISSIONS.MENU_EDIT), async (req, res) => {
+    if (req.body.comboComponents !== undefined) {
+      const result = insertMenuItemSchema.shape.comboComponents.safeParse(req.body.comboComponents);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      const menuItems = await storage.getMenuItems();
+      const comboError = checkComboDefinition(req.params.id, result.data ?? [], menuItems);
+      if (comboError) {
+        return res.status(400).json({ error: comboError });
+      }
+      const usedIn = menuItems.find((item) => item.comboComponents?.some((c) => c.menuItemId === req.params.id || c.choices.includes(req.params.id)));
+      if (usedIn && result.data?.length) {
+        return res.status(400).json({ error: `This item is part of ${usedIn.name} and cannot become a combo itself` });
+      }
+      req.body.comboComponents = result.data;
+    }
     const item = await storage.updateMenuItem(req.params.id, req.body);
     if (!item) {
       return res.status(404).json({ error: "Menu item not found" });
@@ -199,7 +658,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(item);
   });
 
-  app.delete("/api/menu/:id", async (req, res) => {
+  app.delete("/api/menu/:id", requirePermission(PERMISSIONS.MENU_EDIT), async (req, res) => {
+    const combo = (await storage.getMenuItems()).find((item) =>
+      item.comboComponents?.some((c) => c.menuItemId === req.params.id || c.choices.includes(req.params.id)),
+    );
+    if (combo) {
+      return res.status(400).json({ error: `Menu item is part of the ${combo.name} combo` });
+    }
     const success = await storage.deleteMenuItem(req.params.id);
     if (!success) {
       return res.status(404).json({ error: "Menu item not found" });
@@ -208,7 +673,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true });
   });
 
-  app.post("/api/menu/generate-quick-codes", async (req, res) => {
+  app.post("/api/menu/generate-quick-codes", requirePermission(PERMISSIONS.MENU_EDIT), async (req, res) => {
     try {
       const items = await storage.getMenuItems();
       const usedCodes = new Set<string>();
@@ -248,7 +713,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/menu/seed-sample-recipes", async (req, res) => {
+  app.post("/api/menu/seed-sample-recipes", requirePermission(PERMISSIONS.MENU_EDIT), async (req, res) => {
     try {
       const recipes = [
         {
@@ -399,32 +864,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/orders", async (req, res) => {
+  app.get("/api/orders", requirePermission(...ORDER_READERS), async (req, res) => {
     const orders = await storage.getOrders();
     res.json(orders);
   });
 
-  app.get("/api/orders/active", async (req, res) => {
+  app.get("/api/orders/active", requirePermission(...ORDER_READERS), async (req, res) => {
     const orders = await storage.getActiveOrders();
     res.json(orders);
   });
 
-  app.get("/api/orders/completed", async (req, res) => {
+  app.get("/api/orders/completed", requirePermission(...ORDER_READERS), async (req, res) => {
     const orders = await storage.getCompletedOrders();
     res.json(orders);
   });
 
-  app.get("/api/orders/delivery", async (req, res) => {
+  // Orders with their items, table and floor in one call, for kitchen and floor screens.
+  // ?status=active (default) | completed | open, and ?station=<id|main> for one station's lines
+  app.get("/api/kds", requirePermission(PERMISSIONS.KITCHEN_MANAGE), async (req, res) => {
+    const status = req.query.status ?? "active";
+    if (!isKdsStatus(status)) {
+      return res.status(400).json({ error: "status must be active, completed or open" });
+    }
+    const station = typeof req.query.station === "string" && req.query.station ? req.query.station : undefined;
+    res.json(await getKdsFeed(storage, { status, station }));
+  });
+
+  // Prep time percentiles for lines sent to the kitchen in [from, to); defaults to today so far
+  app.get("/api/reports/kitchen", requirePermission(PERMISSIONS.REPORTS_VIEW), async (req, res) => {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const from = typeof req.query.from === "string" ? new Date(req.query.from) : startOfToday;
+    const to = typeof req.query.to === "string" ? new Date(req.query.to) : new Date();
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({ error: "from and to must be dates with from before to" });
+    }
+    res.json(await getKitchenAnalytics(storage, from, to));
+  });
+
+  app.get("/api/reports/voids", requirePermission(PERMISSIONS.REPORTS_VIEW), async (req, res) => {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const from = typeof req.query.from === "string" ? new Date(req.query.from) : startOfToday;
+    const to = typeof req.query.to === "string" ? new Date(req.query.to) : new Date();
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({ error: "from and to must be dates with from before to" });
+    }
+    res.json(await getVoidReport(storage, from, to));
+  });
+
+  app.get("/api/orders/delivery", requirePermission(...ORDER_READERS), async (req, res) => {
     const orders = await storage.getDeliveryOrders();
     res.json(orders);
   });
 
-  app.get("/api/delivery-persons", async (req, res) => {
+  app.get("/api/delivery-persons", requirePermission(PERMISSIONS.DELIVERY_MANAGE), async (req, res) => {
     const persons = await storage.getDeliveryPersons();
     res.json(persons);
   });
 
-  app.get("/api/delivery-persons/:id", async (req, res) => {
+  app.get("/api/delivery-persons/:id", requirePermission(PERMISSIONS.DELIVERY_MANAGE), async (req, res) => {
     const person = await storage.getDeliveryPerson(req.params.id);
     if (!person) {
       return res.status(404).json({ error: "Delivery person not found" });
@@ -432,7 +931,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(person);
   });
 
-  app.post("/api/delivery-persons", async (req, res) => {
+  app.post("/api/delivery-persons", requirePermission(PERMISSIONS.DELIVERY_MANAGE), async (req, res) => {
     try {
       const person = await storage.createDeliveryPerson(req.body);
       res.status(201).json(person);
@@ -441,7 +940,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/delivery-persons/:id", async (req, res) => {
+  app.patch("/api/delivery-persons/:id", requirePermission(PERMISSIONS.DELIVERY_MANAGE), async (req, res) => {
     const person = await storage.updateDeliveryPerson(req.params.id, req.body);
     if (!person) {
       return res.status(404).json({ error: "Delivery person not found" });
@@ -449,7 +948,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(person);
   });
 
-  app.delete("/api/delivery-persons/:id", async (req, res) => {
+  app.delete("/api/delivery-persons/:id", requirePermission(PERMISSIONS.DELIVERY_MANAGE), async (req, res) => {
     const success = await storage.deleteDeliveryPerson(req.params.id);
     if (!success) {
       return res.status(404).json({ error: "Delivery person not found" });
@@ -457,7 +956,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(204).send();
   });
 
-  app.patch("/api/orders/:id/assign-driver", async (req, res) => {
+  app.patch("/api/orders/:id/assign-driver", requirePermission(PERMISSIONS.DELIVERY_MANAGE), async (req, res) => {
     const { deliveryPersonId } = req.body;
     
     const existingOrder = await storage.getOrder(req.params.id);
@@ -483,7 +982,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(order);
   });
 
-  app.get("/api/orders/:id/invoice/pdf", async (req, res) => {
+  app.get("/api/orders/:id/invoice/pdf", requirePermission(...INVOICE_READERS), async (req, res) => {
     try {
       const order = await storage.getOrder(req.params.id);
       if (!order) {
@@ -518,18 +1017,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/orders/:id/kot/pdf", async (req, res) => {
+  // Name and printer a station's tickets go to; unknown keys print as the main kitchen
+  const stationPrintTarget = async (stationId: string) => {
+    const stations = await storage.getKitchenStations();
+    const target = stations.find((s) => s.id === stationId);
+    return {
+      name: stationName(stationId, stations),
+      printerName: target?.printerName ?? null,
+      printerAddress: target?.printerAddress ?? null,
+    };
+  };
+
+  app.get("/api/orders/:id/kot/pdf", requirePermission(PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.KITCHEN_MANAGE), async (req, res) => {
     try {
       const order = await storage.getOrder(req.params.id);
       if (!order) {
         return res.status(404).json({ error: "Order not found" });
       }
 
-      const orderItems = await storage.getOrderItems(req.params.id);
+      let orderItems = await storage.getOrderItems(req.params.id);
       if (!orderItems || orderItems.length === 0) {
         return res.status(400).json({ error: "No items in order" });
       }
 
+      // ?station=<id> (or "main") prints just the lines routed to that station
+      const stationParam = typeof req.query.station === "string" ? req.query.station : undefined;
+      let station: Awaited<ReturnType<typeof stationPrintTarget>> | undefined;
+      if (stationParam) {
+        station = await stationPrintTarget(stationParam);
+        orderItems = linesForStation(orderItems, stationParam).map(({ item, components }) => ({ ...item, components }));
+        if (orderItems.length === 0) {
+          return res.status(400).json({ error: `No items for ${station.name}` });
+        }
+      }
+
       let tableInfo = null;
       if (order.tableId) {
         tableInfo = await storage.getTable(order.tableId);
@@ -540,11 +1061,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         orderItems,
         tableNumber: tableInfo?.tableNumber || undefined,
         floorName: tableInfo?.floorId ? (await storage.getFloor(tableInfo.floorId))?.name || undefined : undefined,
-        restaurantName: "Restaurant POS"
+        restaurantName: "Restaurant POS",
+        station,
       });
 
+      const suffix = station ? `-${station.name.replace(/[^A-Za-z0-9]+/g, "-")}` : "";
       res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="KOT-${order.id.substring(0, 8)}.pdf"`);
+      res.setHeader('Content-Disposition', `attachment; filename="KOT-${order.id.substring(0, 8)}${suffix}.pdf"`);
       res.send(pdfBuffer);
     } catch (error) {
       console.error("Error generating KOT PDF:", error);
@@ -552,7 +1075,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/orders/:id", async (req, res) => {
+  app.get("/api/orders/:id", requirePermission(...ORDER_READERS), async (req, res) => {
     const order = await storage.getOrder(req.params.id);
     if (!order) {
       return res.status(404).json({ error: "Order not found" });
@@ -560,16 +1083,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(order);
   });
 
-  app.get("/api/orders/:id/items", async (req, res) => {
+  app.get("/api/orders/:id/items", requirePermission(...ORDER_READERS), async (req, res) => {
     const items = await storage.getOrderItems(req.params.id);
     res.json(items);
   });
 
-  app.post("/api/orders", async (req, res) => {
+  app.post("/api/orders", requirePermission(PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
     const result = insertOrderSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
     }
+    if (result.data.status !== "saved") {
+      return res.status(400).json({ error: "New orders start as saved; send a KOT or check out to move them on" });
+    }
     const order = await storage.createOrder(result.data);
 
     if (order.tableId) {
@@ -581,144 +1107,284 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(order);
   });
 
-  app.post("/api/orders/:id/items", async (req, res) => {
-    const result = insertOrderItemSchema.safeParse(req.body);
+  app.post("/api/orders/:id/items", requirePermission(PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
+    const result = addOrderItemSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
     }
-    console.log('[Server] Creating order item for order:', req.params.id);
-    const item = await storage.createOrderItem(result.data);
+    const { modifiers: selections, components: choices, hold, ...itemData } = result.data;
+    // A held line waits for its course to be fired, so it has to be in one
+    if (hold && !itemData.course) {
+      return res.status(400).json({ error: "Put the item in a course to hold it" });
+    }
 
-    const orderItems = await storage.getOrderItems(req.params.id);
-    const total = orderItems.reduce((sum, item) => {
-      return sum + parseFloat(item.price) * item.quantity;
-    }, 0);
+    const order = await storage.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if (isSettled(order)) {
+      return res.status(409).json({ error: "Cannot add items to an order that has already been settled" });
+    }
 
-    await storage.updateOrderTotal(req.params.id, total.toFixed(2));
+    // Priced from the menu, never the till; price cuts go through the discount limits and approval
+    const menuItem = await storage.getMenuItem(itemData.menuItemId);
+    if (!menuItem) {
+      return res.status(400).json({ error: "Menu item not found" });
+    }
 
-    const order = await storage.getOrder(req.params.id);
-    if (order && order.tableId) {
-      const hasNew = orderItems.some((i) => i.status === "new");
-      const hasPreparing = orderItems.some((i) => i.status === "preparing");
-      const allReady = orderItems.every((i) => i.status === "ready" || i.status === "served");
-      const allServed = orderItems.every((i) => i.status === "served");
-
-      if (allServed) {
-        await storage.updateTableStatus(order.tableId, "served");
-      } else if (allReady) {
-        await storage.updateTableStatus(order.tableId, "ready");
-      } else if (hasPreparing) {
-        await storage.updateTableStatus(order.tableId, "preparing");
-      } else if (hasNew) {
-        await storage.updateTableStatus(order.tableId, "occupied");
-      }
-
-      const updatedTable = await storage.getTable(order.tableId);
-      if (updatedTable) {
-        broadcastUpdate("table_updated", updatedTable);
+    let modifiers: OrderItemModifier[] = [];
+    let components: OrderItemComponent[] = [];
+    const groupIds = menuItem.modifierGroupIds ?? [];
+    if (selections.length > 0 || groupIds.length > 0) {
+      const allGroups = await storage.getModifierGroups();
+      const groups = groupIds.flatMap((groupId) => allGroups.filter((group) => group.id === groupId));
+      const resolved = resolveModifiers(groups, selections);
+      if ("error" in resolved) {
+        return res.status(400).json({ error: resolved.error });
+      }
+      modifiers = resolved.modifiers;
+    }
+    const unitPrice = parseFloat(menuItem.price) + modifiersPrice(modifiers);
+
+    if (isCombo(menuItem)) {
+      const resolved = resolveComboComponents(menuItem, await storage.getMenuItems(), choices, unitPrice);
+      if ("error" in resolved) {
+        return res.status(400).json({ error: resolved.error });
       }
+      components = resolved.components;
+    } else if (choices.length > 0) {
+      return res.status(400).json({ error: "Only combos take component choices" });
     }
 
+    const routing = await routeOrderItem(storage, menuItem, components);
+
+    console.log('[Server] Creating order item for order:', req.params.id);
+    // Every line starts its way through the kitchen as new, unless its course is held back.
+    // The line goes on the order in the URL, the one checked above, whatever the body says.
+    const item = await storage.createOrderItem(
+      { ...itemData, orderId: req.params.id, price: unitPrice.toFixed(2), status: hold ? "hold" : "new", modifiers, ...routing },
+      statusActor(req.user),
+    );
+
+    await refreshOrderTotal(storage, req.params.id);
+    await syncTableStatus(storage, order, broadcastUpdate);
+
     console.log('[Server] Broadcasting order_item_added for orderId:', req.params.id);
     broadcastUpdate("order_item_added", { orderId: req.params.id, item });
     res.json(item);
   });
 
-  app.patch("/api/orders/:id/status", async (req, res) => {
+  // Statuses that need more than a status change (a KOT, an invoice, a payment) have their own endpoints
+  const orderStatusEndpoints: Partial<Record<OrderStatus, string>> = {
+    saved: "save",
+    sent_to_kitchen: "kot",
+    billed: "bill",
+    paid: "checkout",
+    completed: "complete",
+  };
+
+  app.patch("/api/orders/:id/status", requirePermission(PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
     const { status } = req.body;
-    const order = await storage.updateOrderStatus(req.params.id, status);
+    if (!isOrderStatus(status)) {
+      return res.status(400).json({ error: `status must be one of ${ORDER_STATUSES.join(", ")}` });
+    }
+    const endpoint = orderStatusEndpoints[status];
+    if (endpoint) {
+      return res.status(400).json({ error: `Use POST /api/orders/:id/${endpoint} to move an order to ${status}` });
+    }
+    const order = await storage.getOrder(req.params.id);
     if (!order) {
       return res.status(404).json({ error: "Order not found" });
     }
-    broadcastUpdate("order_updated", order);
-    res.json(order);
+    const moved = await moveOrder(storage, order, status, { broadcast: broadcastUpdate });
+    if (!moved.ok) {
+      return res.status(409).json(moved);
+    }
+    res.json(moved.order);
   });
 
-  app.post("/api/orders/:id/complete", async (req, res) => {
-    const order = await storage.completeOrder(req.params.id);
+  // Handing over a paid pickup or delivery order is done from the kitchen display as well as the till
+  app.post("/api/orders/:id/complete", requirePermission(PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.KITCHEN_MANAGE), async (req, res) => {
+    const order = await storage.getOrder(req.params.id);
     if (!order) {
       return res.status(404).json({ error: "Order not found" });
     }
+    const moved = await moveOrder(storage, order, "completed", {
+      broadcast: broadcastUpdate,
+      override: req.body?.override === true,
+    });
+    if (!moved.ok) {
+      return res.status(409).json(moved);
+    }
+    res.json(moved.order);
+  });
 
-    if (order.tableId) {
-      await storage.updateTableOrder(order.tableId, null);
-      await storage.updateTableStatus(order.tableId, "free");
+  app.post("/api/orders/:id/transfer", requirePermission(PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
+    const result = transferOrderSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const order = await storage.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
     }
+    const table = await storage.getTable(result.data.tableId);
+    if (!table) {
+      return res.status(404).json({ error: "Table not found" });
+    }
+    const moved = await transferOrder(storage, order, table, broadcastUpdate);
+    if (!moved.ok) {
+      return res.status(409).json(moved);
+    }
+    res.json(moved.order);
+  });
 
-    broadcastUpdate("order_completed", order);
-    res.json(order);
+  app.post("/api/orders/:id/merge", requirePermission(PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
+    const result = mergeOrdersSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const order = await storage.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    const sources = await Promise.all(Array.from(new Set(result.data.orderIds)).map((id) => storage.getOrder(id)));
+    if (sources.some((source) => !source)) {
+      return res.status(404).json({ error: "Order to merge not found" });
+    }
+    const merged = await mergeOrders(storage, order, sources as Order[], broadcastUpdate);
+    if (!merged.ok) {
+      return res.status(409).json(merged);
+    }
+    res.json(merged.order);
   });
 
-  app.post("/api/orders/:id/kot", async (req, res) => {
+  app.post("/api/orders/:id/split", requirePermission(PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
+    const result = splitOrderSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const order = await storage.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    const table = result.data.tableId ? await storage.getTable(result.data.tableId) : null;
+    if (table === undefined) {
+      return res.status(404).json({ error: "Table not found" });
+    }
+    const split = await splitOrder(storage, order, result.data.orderItemIds, table, broadcastUpdate);
+    if (!split.ok) {
+      return res.status(409).json(split);
+    }
+    res.json(split.order);
+  });
+
+  app.post("/api/orders/:id/kot", requirePermission(PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
     const result = orderActionSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
     }
     
     console.log('[Server] Sending order to kitchen:', req.params.id);
-    const order = await storage.updateOrderStatus(req.params.id, "sent_to_kitchen");
+    const current = await storage.getOrder(req.params.id);
+    if (!current) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    const moved = await moveOrder(storage, current, "sent_to_kitchen", { broadcast: broadcastUpdate });
+    if (!moved.ok) {
+      return res.status(409).json(moved);
+    }
+    const { order } = moved;
+    // Only lines added since the last send go out; kots is empty when nothing is new
+    const kots = await sendToKitchen(storage, order, req.user ?? null);
+    if (kots.length > 0) {
+      broadcastUpdate("kot_created", { orderId: order.id, kots });
+    }
+    res.json({ order, kots, shouldPrint: result.data.print });
+  });
+
+  app.post("/api/orders/:id/fire", requirePermission(PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
+    const result = fireCourseSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const order = await storage.getOrder(req.params.id);
     if (!order) {
       return res.status(404).json({ error: "Order not found" });
     }
-    console.log('[Server] Broadcasting order_updated for KOT, orderId:', order.id, 'status:', order.status);
-    broadcastUpdate("order_updated", order);
-    res.json({ order, shouldPrint: result.data.print });
+    const fired = await fireCourse(storage, order, result.data.course, { broadcast: broadcastUpdate, user: req.user });
+    if (!fired.ok) {
+      return res.status(409).json(fired);
+    }
+    res.json({ order: fired.order, kots: fired.kots, shouldPrint: result.data.print });
+  });
+
+  // ==================== KOTS ====================
+
+  app.get("/api/orders/:id/kots", requirePermission(...ORDER_READERS), async (req, res) => {
+    const kots = await storage.getKotsByOrder(req.params.id);
+    res.json(kots);
   });
 
-  app.post("/api/orders/:id/save", async (req, res) => {
+  // The first print of a KOT is the original; every later one is stamped DUPLICATE
+  app.get("/api/kots/:id/pdf", requirePermission(PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.KITCHEN_MANAGE), async (req, res) => {
+    try {
+      const kot = await storage.recordKotPrint(req.params.id);
+      if (!kot) {
+        return res.status(404).json({ error: "KOT not found" });
+      }
+      const order = await storage.getOrder(kot.orderId);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      const table = order.tableId ? await storage.getTable(order.tableId) : undefined;
+      const stations = await storage.getKitchenStations();
+      const pdfBuffer = generateKOTPDF({
+        order,
+        orderItems: kot.items,
+        tableNumber: table?.tableNumber || undefined,
+        floorName: table?.floorId ? (await storage.getFloor(table.floorId))?.name || undefined : undefined,
+        restaurantName: "Restaurant POS",
+        // A kitchen without stations keeps its plain single ticket
+        station: stations.length > 0 ? await stationPrintTarget(stationKey(kot.stationId)) : undefined,
+        kot: {
+          kotNumber: kot.kotNumber,
+          kind: kot.kind,
+          voidsKotNumber: kot.voidsKotNumber,
+          course: kot.course,
+          duplicate: kot.printCount > 0,
+        },
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="KOT-${kot.kotNumber}${kot.kind === "void" ? "-VOID" : ""}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Error generating KOT PDF:", error);
+      res.status(500).json({ error: "Failed to generate KOT PDF" });
+    }
+  });
+
+  app.post("/api/orders/:id/save", requirePermission(PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
     const result = orderActionSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
     }
     
-    const order = await storage.updateOrderStatus(req.params.id, "saved");
+    const order = await storage.getOrder(req.params.id);
     if (!order) {
       return res.status(404).json({ error: "Order not found" });
     }
+    // Saving keeps an order where it is; one already in the kitchen or billed is not sent back to saved
+    if (isSettled(order)) {
+      return res.status(409).json({ error: "Cannot save an order that has already been settled" });
+    }
 
     let invoice = null;
     if (result.data.print) {
       const orderItems = await storage.getOrderItems(req.params.id);
-      const subtotal = orderItems.reduce((sum, item) => 
-        sum + parseFloat(item.price) * item.quantity, 0
-      );
-      const tax = subtotal * 0.05;
-      const total = subtotal + tax;
-
-      let tableInfo = null;
-      if (order.tableId) {
-        tableInfo = await storage.getTable(order.tableId);
-      }
-
-      const invoiceCount = (await storage.getInvoices()).length;
-      const invoiceNumber = `INV-${String(invoiceCount + 1).padStart(4, '0')}`;
-
-      const invoiceItemsData = orderItems.map(item => ({
-        name: item.name,
-        quantity: item.quantity,
-        price: parseFloat(item.price),
-        isVeg: item.isVeg,
-        notes: item.notes || undefined
-      }));
-
-      invoice = await storage.createInvoice({
-        invoiceNumber,
-        orderId: order.id,
-        tableNumber: tableInfo?.tableNumber || null,
-        floorName: tableInfo?.floorId ? (await storage.getFloor(tableInfo.floorId))?.name || null : null,
-        customerName: order.customerName,
-        customerPhone: order.customerPhone,
-        subtotal: subtotal.toFixed(2),
-        tax: tax.toFixed(2),
-        discount: "0",
-        total: total.toFixed(2),
-        paymentMode: order.paymentMode || "cash",
-        splitPayments: null,
-        status: "Saved",
-        items: JSON.stringify(invoiceItemsData),
-        notes: null,
-      });
-
+      invoice = (await issueInvoice(storage, { order, orderItems, status: "Saved" })).invoice;
       broadcastUpdate("invoice_created", invoice);
     }
 
@@ -726,65 +1392,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ order, invoice, shouldPrint: result.data.print });
   });
 
-  app.post("/api/orders/:id/bill", async (req, res) => {
+  // Current bill for an open order, priced exactly as the invoice will be
+  app.get("/api/orders/:id/bill", requirePermission(PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.BILLING_CHECKOUT), async (req, res) => {
+    const order = await storage.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    const orderItems = await storage.getOrderItems(req.params.id);
+    const bill = await calculateOrderBill(storage, order, orderItems);
+    res.json(bill);
+  });
+
+  app.post("/api/orders/:id/bill", requirePermission(PERMISSIONS.BILLING_CHECKOUT), async (req, res) => {
     const result = orderActionSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
     }
     
-    const order = await storage.billOrder(req.params.id);
-    if (!order) {
+    const current = await storage.getOrder(req.params.id);
+    if (!current) {
       return res.status(404).json({ error: "Order not found" });
     }
+    const moved = await moveOrder(storage, current, "billed", { broadcast: broadcastUpdate });
+    if (!moved.ok) {
+      return res.status(409).json(moved);
+    }
+    const { order } = moved;
 
     const orderItems = await storage.getOrderItems(req.params.id);
-    
-    const subtotal = orderItems.reduce((sum, item) => 
-      sum + parseFloat(item.price) * item.quantity, 0
-    );
-    const tax = subtotal * 0.05;
-    const total = subtotal + tax;
-
-    let tableInfo = null;
-    if (order.tableId) {
-      tableInfo = await storage.getTable(order.tableId);
-    }
-
-    const invoiceCount = (await storage.getInvoices()).length;
-    const invoiceNumber = `INV-${String(invoiceCount + 1).padStart(4, '0')}`;
-
-    const invoiceItemsData = orderItems.map(item => ({
-      name: item.name,
-      quantity: item.quantity,
-      price: parseFloat(item.price),
-      isVeg: item.isVeg,
-      notes: item.notes || undefined
-    }));
-
-    const invoice = await storage.createInvoice({
-      invoiceNumber,
-      orderId: order.id,
-      tableNumber: tableInfo?.tableNumber || null,
-      floorName: tableInfo?.floorId ? (await storage.getFloor(tableInfo.floorId))?.name || null : null,
-      customerName: order.customerName,
-      customerPhone: order.customerPhone,
-      subtotal: subtotal.toFixed(2),
-      tax: tax.toFixed(2),
-      discount: "0",
-      total: total.toFixed(2),
-      paymentMode: order.paymentMode || "cash",
-      splitPayments: null,
-      status: "Billed",
-      items: JSON.stringify(invoiceItemsData),
-      notes: null,
-    });
+    const { invoice, bill } = await issueInvoice(storage, { order, orderItems, status: "Billed" });
 
-    broadcastUpdate("order_updated", order);
     broadcastUpdate("invoice_created", invoice);
-    res.json({ order, invoice, shouldPrint: result.data.print });
+    res.json({ order, invoice, bill, shouldPrint: result.data.print });
   });
 
-  app.post("/api/orders/:id/checkout", async (req, res) => {
+  app.post("/api/orders/:id/checkout", requirePermission(PERMISSIONS.BILLING_CHECKOUT), async (req, res) => {
     const result = checkoutSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
@@ -796,12 +1438,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     const orderItems = await storage.getOrderItems(req.params.id);
-    
-    const subtotal = orderItems.reduce((sum, item) => 
-      sum + parseFloat(item.price) * item.quantity, 0
-    );
-    const tax = subtotal * 0.05;
-    const total = subtotal + tax;
+    // Checked before the coupon is claimed so a refused checkout does not use it up
+    const check = checkOrderMove(order, orderItems, "paid", result.data.override);
+    if (!check.ok) {
+      return res.status(409).json(check);
+    }
+    const { itemSplit } = result.data;
+    if (itemSplit && result.data.splitPayments && result.data.splitPayments.length > 0) {
+      return res.status(400).json({ error: "Split by amount or by item, not both" });
+    }
+    const split = itemSplit
+      ? await calculateSplitBills(storage, order, orderItems, itemSplit.guests, itemSplit.assignments)
+      : null;
+    if (split && !split.ok) {
+      return res.status(400).json({ error: split.error });
+    }
+    const bill = split?.ok ? split.bill : await calculateOrderBill(storage, order, orderItems);
+    const { total } = bill;
 
     if (result.data.splitPayments && result.data.splitPayments.length > 0) {
       const splitSum = result.data.splitPayments.reduce((sum, split) => sum + split.amount, 0);
@@ -820,66 +1473,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     }
 
-    const checkedOutOrder = await storage.checkoutOrder(req.params.id, result.data.paymentMode);
-    if (!checkedOutOrder) {
-      return res.status(500).json({ error: "Failed to checkout order" });
+    const couponError = await claimCoupon(storage, bill.promotions, order);
+    if (couponError) {
+      return res.status(400).json({ error: `${couponError}. Remove the coupon to continue.` });
     }
 
-    let tableInfo = null;
-    if (checkedOutOrder.tableId) {
-      tableInfo = await storage.getTable(checkedOutOrder.tableId);
-      await storage.updateTableOrder(checkedOutOrder.tableId, null);
-      await storage.updateTableStatus(checkedOutOrder.tableId, "free");
+    const moved = await moveOrder(storage, order, "paid", {
+      broadcast: broadcastUpdate,
+      override: result.data.override,
+      paymentMode: result.data.paymentMode,
+    });
+    if (!moved.ok) {
+      // Another till may have settled the order since the check above; the coupon use goes back
+      await releaseCoupon(storage, bill.promotions);
+      return res.status(409).json(moved);
     }
+    const checkedOutOrder = moved.order;
 
     // Update customer's table status to "free" for digital menu orders
     if (checkedOutOrder.customerPhone) {
       await digitalMenuSync.updateCustomerTableStatus(checkedOutOrder.customerPhone, 'free');
     }
 
-    const invoiceCount = (await storage.getInvoices()).length;
-    const invoiceNumber = `INV-${String(invoiceCount + 1).padStart(4, '0')}`;
-
-    const invoiceItemsData = orderItems.map(item => ({
-      name: item.name,
-      quantity: item.quantity,
-      price: parseFloat(item.price),
-      isVeg: item.isVeg,
-      notes: item.notes || undefined
-    }));
-
-    const invoice = await storage.createInvoice({
-      invoiceNumber,
-      orderId: checkedOutOrder.id,
-      tableNumber: tableInfo?.tableNumber || null,
-      floorName: tableInfo?.floorId ? (await storage.getFloor(tableInfo.floorId))?.name || null : null,
-      customerName: checkedOutOrder.customerName,
-      customerPhone: checkedOutOrder.customerPhone,
-      subtotal: subtotal.toFixed(2),
-      tax: tax.toFixed(2),
-      discount: "0",
-      total: total.toFixed(2),
-      paymentMode: result.data.paymentMode || "cash",
-      splitPayments: result.data.splitPayments ? JSON.stringify(result.data.splitPayments) : null,
-      status: "Paid",
-      items: JSON.stringify(invoiceItemsData),
-      notes: null,
-    });
-
-    // Auto-deduct inventory for order
-    try {
-      await storage.deductInventoryForOrder(checkedOutOrder.id);
-      broadcastUpdate("inventory_updated", { orderId: checkedOutOrder.id });
-    } catch (error) {
-      console.error("Error deducting inventory for order:", error);
-    }
+    const invoices = split?.ok
+      ? await issueSplitInvoices(storage, { order: checkedOutOrder, orderItems, bill, guestBills: split.guestBills })
+      : [
+          (await issueInvoice(storage, {
+            order: checkedOutOrder,
+            orderItems,
+            status: "Paid",
+            paymentMode: result.data.paymentMode,
+            splitPayments: result.data.splitPayments,
+            bill,
+          })).invoice,
+        ];
 
-    broadcastUpdate("order_paid", checkedOutOrder);
-    broadcastUpdate("invoice_created", invoice);
-    res.json({ order: checkedOutOrder, invoice, shouldPrint: result.data.print });
+    invoices.forEach((invoice) => broadcastUpdate("invoice_created", invoice));
+    res.json({ order: checkedOutOrder, invoice: invoices[0], invoices, bill, shouldPrint: result.data.print });
   });
 
-  app.get("/api/invoices/:id/pdf", async (req, res) => {
+  app.get("/api/invoices/:id/pdf", requirePermission(...INVOICE_READERS), async (req, res) => {
     try {
       const invoice = await storage.getInvoice(req.params.id);
       if (!invoice) {
@@ -912,104 +1545,337 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/order-items/:id/status", async (req, res) => {
-    const { status } = req.body;
-    const item = await storage.updateOrderItemStatus(req.params.id, status);
+  app.patch("/api/order-items/:id/status", requirePermission(PERMISSIONS.KITCHEN_MANAGE, PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
+    const { status } = req.body;
+    if (!isOrderItemStatus(status)) {
+      return res.status(400).json({ error: `status must be one of ${ORDER_ITEM_STATUSES.join(", ")}` });
+    }
+    const item = await storage.getOrderItem(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: "Order item not found" });
+    }
+    if (item.voided) {
+      return res.status(409).json({ error: "This item has been voided" });
+    }
+    // Released lines need their course KOT, which only firing the course prints
+    if (item.status === "hold") {
+      return res.status(400).json({ error: "Use POST /api/orders/:id/fire to release a held course" });
+    }
+    const moved = await moveOrderItem(storage, item, status, { broadcast: broadcastUpdate, user: req.user });
+    if (!moved.ok) {
+      return res.status(409).json(moved);
+    }
+
+    // Sync table status to digital menu customer if this is a digital menu order
+    const order = await storage.getOrder(item.orderId);
+    if (order && order.customerPhone) {
+      await digitalMenuSync.syncTableStatusFromPOSOrder(item.orderId);
+    }
+
+    res.json(moved.item);
+  });
+
+  // Lines are voided or comped rather than deleted, so every one taken off a bill is on record
+  app.post("/api/order-items/:id/void", requirePermission(PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.ORDERS_VOID_ITEM), async (req, res) => {
+    const result = voidItemRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const item = await storage.getOrderItem(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: "Order item not found" });
+    }
+
+    const voided = await voidOrderItem(storage, item, result.data, req.user!, broadcastUpdate);
+    if (!voided.ok) {
+      return res.status(voided.requiresApproval ? 403 : 409).json(voided);
+    }
+    res.json({ adjustment: voided.adjustment, kots: voided.kots, wastage: voided.wastage });
+  });
+
+  app.post("/api/order-items/:id/comp", requirePermission(PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.ORDERS_VOID_ITEM), async (req, res) => {
+    const result = compItemRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const item = await storage.getOrderItem(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: "Order item not found" });
+    }
+
+    const comped = await compOrderItem(storage, item, result.data, req.user!, broadcastUpdate);
+    if (!comped.ok) {
+      return res.status(comped.requiresApproval ? 403 : 409).json(comped);
+    }
+    res.json(comped.item);
+  });
+
+  // ==================== DISCOUNTS ====================
+
+  app.put("/api/orders/:id/discount", requirePermission(PERMISSIONS.ORDERS_APPLY_DISCOUNT), async (req, res) => {
+    const result = discountRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const order = await storage.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if (isSettled(order)) {
+      return res.status(400).json({ error: "Cannot discount an order that has already been settled" });
+    }
+
+    const orderItems = await storage.getOrderItems(order.id);
+    const prepared = await prepareOrderDiscount(storage, result.data, order, orderItems, req.user!);
+    if (!prepared.ok) {
+      return res.status(prepared.requiresApproval ? 403 : 400).json({ error: prepared.error, requiresApproval: prepared.requiresApproval });
+    }
+
+    const updated = await storage.updateOrderDiscount(order.id, JSON.stringify(prepared.discount));
+    if (!updated) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    broadcastUpdate("order_updated", updated);
+    res.json({ order: updated, bill: await calculateOrderBill(storage, updated, orderItems) });
+  });
+
+  app.delete("/api/orders/:id/discount", requirePermission(PERMISSIONS.ORDERS_APPLY_DISCOUNT), async (req, res) => {
+    const order = await storage.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if (isSettled(order)) {
+      return res.status(400).json({ error: "Cannot change the discount on an order that has already been settled" });
+    }
+    const updated = await storage.updateOrderDiscount(order.id, null);
+    if (!updated) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    const orderItems = await storage.getOrderItems(order.id);
+    broadcastUpdate("order_updated", updated);
+    res.json({ order: updated, bill: await calculateOrderBill(storage, updated, orderItems) });
+  });
+
+  app.put("/api/order-items/:id/discount", requirePermission(PERMISSIONS.ORDERS_APPLY_DISCOUNT), async (req, res) => {
+    const result = discountRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const item = await storage.getOrderItem(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: "Order item not found" });
+    }
+    if (item.voided) {
+      return res.status(409).json({ error: "This item has been voided" });
+    }
+    const order = await storage.getOrder(item.orderId);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if (isSettled(order)) {
+      return res.status(400).json({ error: "Cannot discount an order that has already been settled" });
+    }
+
+    const prepared = await prepareItemDiscount(storage, result.data, order, await storage.getOrderItems(order.id), item, req.user!);
+    if (!prepared.ok) {
+      return res.status(prepared.requiresApproval ? 403 : 400).json({ error: prepared.error, requiresApproval: prepared.requiresApproval });
+    }
+
+    const updated = await storage.updateOrderItemDiscount(item.id, JSON.stringify(prepared.discount));
+    if (!updated) {
+      return res.status(404).json({ error: "Order item not found" });
+    }
+    const orderItems = await storage.getOrderItems(order.id);
+    broadcastUpdate("order_item_updated", updated);
+    res.json({ item: updated, bill: await calculateOrderBill(storage, order, orderItems) });
+  });
+
+  app.delete("/api/order-items/:id/discount", requirePermission(PERMISSIONS.ORDERS_APPLY_DISCOUNT), async (req, res) => {
+    const item = await storage.getOrderItem(req.params.id);
     if (!item) {
       return res.status(404).json({ error: "Order item not found" });
     }
-
+    if (item.voided) {
+      return res.status(409).json({ error: "This item has been voided" });
+    }
     const order = await storage.getOrder(item.orderId);
-    if (order && order.tableId) {
-      const allItems = await storage.getOrderItems(item.orderId);
-      const hasNew = allItems.some((i) => i.status === "new");
-      const hasPreparing = allItems.some((i) => i.status === "preparing");
-      const allReady = allItems.every((i) => i.status === "ready" || i.status === "served");
-      const allServed = allItems.every((i) => i.status === "served");
-
-      let newTableStatus = null;
-      if (allServed) {
-        newTableStatus = "served";
-        await storage.updateTableStatus(order.tableId, "served");
-      } else if (allReady) {
-        newTableStatus = "ready";
-        await storage.updateTableStatus(order.tableId, "ready");
-      } else if (hasPreparing) {
-        newTableStatus = "preparing";
-        await storage.updateTableStatus(order.tableId, "preparing");
-      } else if (hasNew) {
-        newTableStatus = "occupied";
-        await storage.updateTableStatus(order.tableId, "occupied");
-      }
-
-      if (newTableStatus) {
-        const updatedTable = await storage.getTable(order.tableId);
-        if (updatedTable) {
-          broadcastUpdate("table_updated", updatedTable);
-        }
-      }
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
     }
-
-    // Sync table status to digital menu customer if this is a digital menu order
-    if (order && order.customerPhone) {
-      await digitalMenuSync.syncTableStatusFromPOSOrder(item.orderId);
+    if (isSettled(order)) {
+      return res.status(400).json({ error: "Cannot change the discount on an order that has already been settled" });
+    }
+    const updated = await storage.updateOrderItemDiscount(item.id, null);
+    if (!updated) {
+      return res.status(404).json({ error: "Order item not found" });
     }
+    const orderItems = await storage.getOrderItems(order.id);
+    broadcastUpdate("order_item_updated", updated);
+    res.json({ item: updated, bill: await calculateOrderBill(storage, order, orderItems) });
+  });
 
-    broadcastUpdate("order_item_updated", item);
-    res.json(item);
+  // ==================== END DISCOUNTS ====================
+
+  // ==================== OFFERS & COUPONS ====================
+
+  app.get("/api/offers", requirePermission(...PROMOTION_READERS), async (req, res) => {
+    const offers = await storage.getOffers();
+    res.json(offers);
   });
 
-  app.delete("/api/order-items/:id", async (req, res) => {
-    const item = await storage.getOrderItem(req.params.id);
-    if (!item) {
-      return res.status(404).json({ error: "Order item not found" });
+  app.post("/api/offers", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const result = insertOfferSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const offer = await storage.createOffer(result.data);
+    broadcastUpdate("offer_created", offer);
+    res.json(offer);
+  });
+
+  app.patch("/api/offers/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const result = insertOfferSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const offer = await storage.updateOffer(req.params.id, result.data);
+    if (!offer) {
+      return res.status(404).json({ error: "Offer not found" });
     }
+    broadcastUpdate("offer_updated", offer);
+    res.json(offer);
+  });
 
-    const success = await storage.deleteOrderItem(req.params.id);
+  app.delete("/api/offers/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const success = await storage.deleteOffer(req.params.id);
     if (!success) {
-      return res.status(500).json({ error: "Failed to delete order item" });
+      return res.status(404).json({ error: "Offer not found" });
     }
+    broadcastUpdate("offer_deleted", { id: req.params.id });
+    res.json({ success: true });
+  });
+
+  app.get("/api/coupons", requirePermission(...PROMOTION_READERS), async (req, res) => {
+    const coupons = await storage.getCoupons();
+    res.json(coupons);
+  });
 
-    const orderItems = await storage.getOrderItems(item.orderId);
-    const total = orderItems.reduce((sum, orderItem) => {
-      return sum + parseFloat(orderItem.price) * orderItem.quantity;
-    }, 0);
+  app.post("/api/coupons", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const result = insertCouponSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    if (await storage.getCouponByCode(result.data.code)) {
+      return res.status(409).json({ error: `Coupon code ${result.data.code} is already in use` });
+    }
+    const coupon = await storage.createCoupon(result.data);
+    broadcastUpdate("coupon_created", coupon);
+    res.json(coupon);
+  });
 
-    await storage.updateOrderTotal(item.orderId, total.toFixed(2));
+  app.patch("/api/coupons/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const result = insertCouponSchema.partial().safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    if (result.data.code) {
+      const existing = await storage.getCouponByCode(result.data.code);
+      if (existing && existing.id !== req.params.id) {
+        return res.status(409).json({ error: `Coupon code ${result.data.code} is already in use` });
+      }
+    }
+    const coupon = await storage.updateCoupon(req.params.id, result.data);
+    if (!coupon) {
+      return res.status(404).json({ error: "Coupon not found" });
+    }
+    broadcastUpdate("coupon_updated", coupon);
+    res.json(coupon);
+  });
 
-    broadcastUpdate("order_item_deleted", { id: req.params.id, orderId: item.orderId });
+  app.delete("/api/coupons/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const success = await storage.deleteCoupon(req.params.id);
+    if (!success) {
+      return res.status(404).json({ error: "Coupon not found" });
+    }
+    broadcastUpdate("coupon_deleted", { id: req.params.id });
     res.json({ success: true });
   });
 
-  app.get("/api/inventory", async (req, res) => {
-    const items = await storage.getInventoryItems();
-    res.json(items);
+  app.get("/api/promotion-redemptions", requirePermission(PERMISSIONS.SETTINGS_MANAGE, PERMISSIONS.REPORTS_VIEW), async (req, res) => {
+    const redemptions = await storage.getPromotionRedemptions();
+    res.json(redemptions);
   });
 
-  app.post("/api/inventory", async (req, res) => {
-    const result = insertInventoryItemSchema.safeParse(req.body);
+  // Checks a code against an order without applying it, for the billing cart
+  app.post("/api/coupons/validate", requirePermission(PERMISSIONS.BILLING_CHECKOUT, PERMISSIONS.ORDERS_APPLY_DISCOUNT), async (req, res) => {
+    const result = validateCouponSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
     }
-    const item = await storage.createInventoryItem(result.data);
-    res.json(item);
+    const order = await storage.getOrder(result.data.orderId);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    const orderItems = await storage.getOrderItems(order.id);
+    const validation = await validateOrderCoupon(storage, result.data.code, order, orderItems);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+    res.json({ coupon: validation.coupon, amount: validation.promotion.amount });
   });
 
-  app.patch("/api/inventory/:id", async (req, res) => {
-    const { quantity } = req.body;
-    const item = await storage.updateInventoryQuantity(req.params.id, quantity);
-    if (!item) {
-      return res.status(404).json({ error: "Inventory item not found" });
+  app.put("/api/orders/:id/coupon", requirePermission(PERMISSIONS.BILLING_CHECKOUT, PERMISSIONS.ORDERS_APPLY_DISCOUNT), async (req, res) => {
+    const result = couponCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
     }
-    res.json(item);
+    const order = await storage.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if (isSettled(order)) {
+      return res.status(400).json({ error: "Cannot apply a coupon to an order that has already been settled" });
+    }
+
+    const orderItems = await storage.getOrderItems(order.id);
+    const validation = await validateOrderCoupon(storage, result.data.code, order, orderItems);
+    if (!validation.ok) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const updated = await storage.updateOrderCoupon(order.id, validation.coupon.code);
+    if (!updated) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    broadcastUpdate("order_updated", updated);
+    res.json({ order: updated, bill: await calculateOrderBill(storage, updated, orderItems) });
+  });
+
+  app.delete("/api/orders/:id/coupon", requirePermission(PERMISSIONS.BILLING_CHECKOUT, PERMISSIONS.ORDERS_APPLY_DISCOUNT), async (req, res) => {
+    const order = await storage.getOrder(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    if (isSettled(order)) {
+      return res.status(400).json({ error: "Cannot change the coupon on an order that has already been settled" });
+    }
+    const updated = await storage.updateOrderCoupon(order.id, null);
+    if (!updated) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+    const orderItems = await storage.getOrderItems(order.id);
+    broadcastUpdate("order_updated", updated);
+    res.json({ order: updated, bill: await calculateOrderBill(storage, updated, orderItems) });
   });
 
-  app.get("/api/invoices", async (req, res) => {
+  // ==================== END OFFERS & COUPONS ====================
+
+  app.get("/api/invoices", requirePermission(...INVOICE_READERS), async (req, res) => {
     const invoices = await storage.getInvoices();
     res.json(invoices);
   });
 
-  app.get("/api/invoices/:id", async (req, res) => {
+  app.get("/api/invoices/:id", requirePermission(...INVOICE_READERS), async (req, res) => {
     const invoice = await storage.getInvoice(req.params.id);
     if (!invoice) {
       return res.status(404).json({ error: "Invoice not found" });
@@ -1017,7 +1883,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(invoice);
   });
 
-  app.get("/api/invoices/number/:invoiceNumber", async (req, res) => {
+  app.get("/api/invoices/number/:invoiceNumber", requirePermission(...INVOICE_READERS), async (req, res) => {
     const invoice = await storage.getInvoiceByNumber(req.params.invoiceNumber);
     if (!invoice) {
       return res.status(404).json({ error: "Invoice not found" });
@@ -1025,18 +1891,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(invoice);
   });
 
-  app.post("/api/invoices", async (req, res) => {
-    const result = insertInvoiceSchema.safeParse(req.body);
+  app.post("/api/invoices", (req, res) => {
+    // Invoices are only issued by the billing routes, which price the order themselves
+    res.status(405).json({ error: "Invoices are issued by billing an order, not created directly" });
+  });
+
+  app.patch("/api/invoices/:id", requirePermission(PERMISSIONS.INVOICES_MANAGE), async (req, res) => {
+    // Amounts and items are fixed once issued; corrections go through a credit note
+    const result = updateInvoiceDetailsSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
     }
-    const invoice = await storage.createInvoice(result.data);
-    broadcastUpdate("invoice_created", invoice);
-    res.json(invoice);
-  });
-
-  app.patch("/api/invoices/:id", async (req, res) => {
-    const invoice = await storage.updateInvoice(req.params.id, req.body);
+    const invoice = await storage.updateInvoice(req.params.id, result.data);
     if (!invoice) {
       return res.status(404).json({ error: "Invoice not found" });
     }
@@ -1044,21 +1910,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(invoice);
   });
 
-  app.delete("/api/invoices/:id", async (req, res) => {
-    const success = await storage.deleteInvoice(req.params.id);
-    if (!success) {
+  app.delete("/api/invoices/:id", (req, res) => {
+    // Deleting would leave a hole in the numbered series; issued invoices are cancelled instead
+    res.status(405).json({ error: "Issued invoices cannot be deleted, issue a credit note instead" });
+  });
+
+  // ==================== CREDIT NOTES ====================
+
+  app.get("/api/credit-notes", requirePermission(...INVOICE_READERS), async (req, res) => {
+    const creditNotes = await storage.getCreditNotes();
+    res.json(creditNotes);
+  });
+
+  app.get("/api/invoices/:id/credit-notes", requirePermission(...INVOICE_READERS), async (req, res) => {
+    const creditNotes = await storage.getCreditNotesByInvoice(req.params.id);
+    res.json(creditNotes);
+  });
+
+  app.post("/api/invoices/:id/credit-notes", requirePermission(PERMISSIONS.INVOICES_MANAGE), async (req, res) => {
+    const result = creditNoteRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const invoice = await storage.getInvoice(req.params.id);
+    if (!invoice) {
       return res.status(404).json({ error: "Invoice not found" });
     }
-    broadcastUpdate("invoice_deleted", { id: req.params.id });
-    res.json({ success: true });
+
+    try {
+      const { creditNote, invoice: updatedInvoice } = await issueCreditNote(storage, invoice, result.data, req.user!);
+      if (creditNote.restocked) {
+        broadcastUpdate("inventory_updated", { creditNoteId: creditNote.id });
+      }
+      broadcastUpdate("credit_note_created", creditNote);
+      broadcastUpdate("invoice_updated", updatedInvoice);
+      res.json({ creditNote, invoice: updatedInvoice });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to issue credit note" });
+    }
   });
 
-  app.get("/api/reservations", async (req, res) => {
+  app.get("/api/reservations", requirePermission(PERMISSIONS.TABLES_MANAGE, PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
     const reservations = await storage.getReservations();
     res.json(reservations);
   });
 
-  app.get("/api/reservations/:id", async (req, res) => {
+  app.get("/api/reservations/:id", requirePermission(PERMISSIONS.TABLES_MANAGE, PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
     const reservation = await storage.getReservation(req.params.id);
     if (!reservation) {
       return res.status(404).json({ error: "Reservation not found" });
@@ -1066,12 +1964,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(reservation);
   });
 
-  app.get("/api/reservations/table/:tableId", async (req, res) => {
+  app.get("/api/reservations/table/:tableId", requirePermission(PERMISSIONS.TABLES_MANAGE, PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
     const reservations = await storage.getReservationsByTable(req.params.tableId);
     res.json(reservations);
   });
 
-  app.post("/api/reservations", async (req, res) => {
+  app.post("/api/reservations", requirePermission(PERMISSIONS.TABLES_MANAGE), async (req, res) => {
     console.log("=== SERVER: CREATE RESERVATION ===");
     console.log("Received body:", req.body);
     console.log("Body type:", typeof req.body);
@@ -1108,7 +2006,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(reservation);
   });
 
-  app.patch("/api/reservations/:id", async (req, res) => {
+  app.patch("/api/reservations/:id", requirePermission(PERMISSIONS.TABLES_MANAGE), async (req, res) => {
     const existingReservation = await storage.getReservation(req.params.id);
     if (!existingReservation) {
       return res.status(404).json({ error: "Reservation not found" });
@@ -1168,7 +2066,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(reservation);
   });
 
-  app.delete("/api/reservations/:id", async (req, res) => {
+  app.delete("/api/reservations/:id", requirePermission(PERMISSIONS.TABLES_MANAGE), async (req, res) => {
     const reservation = await storage.getReservation(req.params.id);
     if (!reservation) {
       return res.status(404).json({ error: "Reservation not found" });
@@ -1191,7 +2089,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true });
   });
 
-  app.post("/api/admin/clear-data", async (req, res) => {
+  app.post("/api/admin/clear-data", requirePermission(PERMISSIONS.DATA_CLEAR), async (req, res) => {
     try {
       const { types = ['all'] } = req.body;
       const cleared: string[] = [];
@@ -1199,7 +2097,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (types.includes('orderItems') || types.includes('all')) {
         const orders = await storage.getOrders();
         for (const order of orders) {
-          const orderItems = await storage.getOrderItems(order.id);
+          const orderItems = await storage.getOrderItems(order.id, true);
           for (const item of orderItems) {
             await storage.deleteOrderItem(item.id);
           }
@@ -1231,12 +2129,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/customers", async (req, res) => {
+  app.get("/api/customers", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const customers = await storage.getCustomers();
     res.json(customers);
   });
 
-  app.get("/api/customers/:id/stats", async (req, res) => {
+  app.get("/api/customers/:id/stats", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const customer = await storage.getCustomer(req.params.id);
     if (!customer) {
       return res.status(404).json({ error: "Customer not found" });
@@ -1247,9 +2145,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const totalOrders = customerOrders.length;
 
     const invoices = await storage.getInvoices();
+    // Proformas repeat the paid invoice's total, so only tax invoices count towards spend
     const customerInvoices = invoices.filter(inv => {
       const order = customerOrders.find(o => o.id === inv.orderId);
-      return !!order;
+      return !!order && !isProforma(inv);
     });
     const actualTotalSpent = customerInvoices.reduce((sum, inv) => sum + parseFloat(inv.total || '0'), 0);
 
@@ -1264,7 +2163,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  app.get("/api/customers/phone/:phone", async (req, res) => {
+  app.get("/api/customers/phone/:phone", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const customer = await storage.getCustomerByPhone(req.params.phone);
     if (!customer) {
       return res.status(404).json({ error: "Customer not found" });
@@ -1272,7 +2171,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(customer);
   });
 
-  app.get("/api/customers/:id", async (req, res) => {
+  app.get("/api/customers/:id", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const customer = await storage.getCustomer(req.params.id);
     if (!customer) {
       return res.status(404).json({ error: "Customer not found" });
@@ -1280,7 +2179,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(customer);
   });
 
-  app.post("/api/customers", async (req, res) => {
+  app.post("/api/customers", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const result = insertCustomerSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
@@ -1294,7 +2193,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(customer);
   });
 
-  app.patch("/api/customers/:id", async (req, res) => {
+  app.patch("/api/customers/:id", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const customer = await storage.updateCustomer(req.params.id, req.body);
     if (!customer) {
       return res.status(404).json({ error: "Customer not found" });
@@ -1303,7 +2202,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(customer);
   });
 
-  app.delete("/api/customers/:id", async (req, res) => {
+  app.delete("/api/customers/:id", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const success = await storage.deleteCustomer(req.params.id);
     if (!success) {
       return res.status(404).json({ error: "Customer not found" });
@@ -1312,12 +2211,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true });
   });
 
-  app.get("/api/feedbacks", async (req, res) => {
+  app.get("/api/feedbacks", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const feedbacks = await storage.getFeedbacks();
     res.json(feedbacks);
   });
 
-  app.get("/api/feedbacks/:id", async (req, res) => {
+  app.get("/api/feedbacks/:id", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const feedback = await storage.getFeedback(req.params.id);
     if (!feedback) {
       return res.status(404).json({ error: "Feedback not found" });
@@ -1325,7 +2224,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(feedback);
   });
 
-  app.post("/api/feedbacks", async (req, res) => {
+  app.post("/api/feedbacks", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const result = insertFeedbackSchema.safeParse(req.body);
     if (!result.success) {
       return res.status(400).json({ error: result.error });
@@ -1335,7 +2234,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(feedback);
   });
 
-  app.delete("/api/feedbacks/:id", async (req, res) => {
+  app.delete("/api/feedbacks/:id", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     const success = await storage.deleteFeedback(req.params.id);
     if (!success) {
       return res.status(404).json({ error: "Feedback not found" });
@@ -1344,12 +2243,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true });
   });
 
-  app.get("/api/settings/mongodb-uri", async (req, res) => {
+  app.get("/api/settings/invoice-series", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const settings = await getInvoiceSeriesSettings(storage);
+    res.json(settings);
+  });
+
+  app.put("/api/settings/invoice-series", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const result = invoiceSeriesSettingsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    await saveInvoiceSeriesSettings(storage, result.data);
+    broadcastUpdate("invoice_series_updated", result.data);
+    res.json(result.data);
+  });
+
+  // The kitchen display reads the thresholds, so kitchen staff may see them but not change them
+  app.get("/api/settings/kitchen-sla", requirePermission(PERMISSIONS.KITCHEN_MANAGE, PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    res.json(await getKitchenSlaSettings(storage));
+  });
+
+  app.put("/api/settings/kitchen-sla", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    const result = kitchenSlaSettingsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    const categories = result.data.categories.map((override) => override.category);
+    if (new Set(categories).size !== categories.length) {
+      return res.status(400).json({ error: "Each category can only have one override" });
+    }
+    await saveKitchenSlaSettings(storage, result.data);
+    broadcastUpdate("kitchen_sla_updated", result.data);
+    res.json(result.data);
+  });
+
+  // The till previews happy-hour offers, so anyone signed in may read the restaurant's timezone
+  app.get("/api/settings/time-zone", async (req, res) => {
+    res.json({ timeZone: restaurantTimeZone });
+  });
+
+  app.get("/api/settings/mongodb-uri", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     const uri = await storage.getSetting("mongodb_uri");
     res.json({ uri: uri || null, hasUri: !!uri });
   });
 
-  app.post("/api/settings/mongodb-uri", async (req, res) => {
+  app.post("/api/settings/mongodb-uri", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     const { uri } = req.body;
     if (!uri || typeof uri !== "string") {
       return res.status(400).json({ error: "MongoDB URI is required" });
@@ -1358,7 +2296,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ success: true });
   });
 
-  app.post("/api/menu/sync-from-mongodb", async (req, res) => {
+  app.post("/api/menu/sync-from-mongodb", requirePermission(PERMISSIONS.MENU_EDIT), async (req, res) => {
     try {
       const mongoUri = await storage.getSetting("mongodb_uri");
       if (!mongoUri) {
@@ -1399,7 +2337,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ==================== INVENTORY MANAGEMENT API ROUTES ====================
 
   // Inventory Items
-  app.get("/api/inventory", async (req, res) => {
+  app.get("/api/inventory", requirePermission(...STOCK_READERS), async (req, res) => {
     try {
       let items = await storage.getInventoryItems();
       
@@ -1437,7 +2375,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/inventory/:id", async (req, res) => {
+  app.get("/api/inventory/reorder-suggestions", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      res.json(await getReorderSuggestions(storage));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to work out reorder suggestions" });
+    }
+  });
+
+  app.get("/api/inventory/:id/movements", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const item = await storage.getInventoryItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ error: "Inventory item not found" });
+      }
+      res.json(await storage.getStockMovements(item.id));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch stock movements" });
+    }
+  });
+
+  app.get("/api/inventory/:id", requirePermission(...STOCK_READERS), async (req, res) => {
     try {
       const item = await storage.getInventoryItem(req.params.id);
       if (!item) {
@@ -1449,13 +2407,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/inventory", async (req, res) => {
+  app.post("/api/inventory", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const result = insertInventoryItemSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ error: result.error });
       }
-      const item = await storage.createInventoryItem(result.data);
+      const packError = checkPackSizes(result.data.unit, result.data.packSizes);
+      if (packError) {
+        return res.status(400).json({ error: packError });
+      }
+      const item = await storage.createInventoryItem(result.data, statusActor(req.user));
       broadcastUpdate("inventory_created", item);
       res.json(item);
     } catch (error) {
@@ -1463,9 +2425,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/inventory/:id", async (req, res) => {
+  app.patch("/api/inventory/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
-      const item = await storage.updateInventoryItem(req.params.id, req.body);
+      const result = insertInventoryItemSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      const existing = await storage.getInventoryItem(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Inventory item not found" });
+      }
+      if (result.data.unit !== undefined) {
+        const unitChange = await checkUnitChange(storage, existing, result.data.unit);
+        if (!unitChange.ok) {
+          return res.status(unitChange.status).json({ error: unitChange.error });
+        }
+      }
+      const packError = checkPackSizes(result.data.unit ?? existing.unit, result.data.packSizes ?? existing.packSizes ?? []);
+      if (packError) {
+        return res.status(400).json({ error: packError });
+      }
+      // A new stock figure is a manual count: it goes in the ledger as the difference from the current balance
+      const { currentStock, ...changes } = result.data;
+      if (currentStock !== undefined && parseFloat(currentStock) !== parseFloat(existing.currentStock)) {
+        await storage.recordStockMovement({
+          ...statusActor(req.user),
+          inventoryItemId: existing.id,
+          type: "adjustment",
+          quantity: (parseFloat(currentStock) - parseFloat(existing.currentStock)).toString(),
+          notes: `Stock set to ${currentStock} ${existing.unit}`,
+        });
+      }
+      const item = await storage.updateInventoryItem(req.params.id, changes);
       if (!item) {
         return res.status(404).json({ error: "Inventory item not found" });
       }
@@ -1476,7 +2467,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/inventory/:id", async (req, res) => {
+  app.delete("/api/inventory/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const success = await storage.deleteInventoryItem(req.params.id);
       if (!success) {
@@ -1490,7 +2481,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Recipes & Ingredients
-  app.get("/api/recipes/menu-item/:menuItemId", async (req, res) => {
+  app.get("/api/recipes/menu-item/:menuItemId", requirePermission(PERMISSIONS.INVENTORY_MANAGE, PERMISSIONS.MENU_EDIT), async (req, res) => {
     try {
       const recipe = await storage.getRecipeByMenuItemId(req.params.menuItemId);
       if (!recipe) {
@@ -1517,7 +2508,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/recipes", async (req, res) => {
+  app.post("/api/recipes", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const result = insertRecipeSchema.safeParse(req.body);
       if (!result.success) {
@@ -1531,13 +2522,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/recipes/:recipeId/ingredients", async (req, res) => {
+  app.post("/api/recipes/:recipeId/ingredients", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const bodySchema = insertRecipeIngredientSchema.omit({ recipeId: true });
       const result = bodySchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ error: result.error });
       }
+      const unitCheck = await checkStockUnit(storage, result.data.inventoryItemId, result.data.unit);
+      if (!unitCheck.ok) {
+        return res.status(unitCheck.status).json({ error: unitCheck.error });
+      }
       const ingredient = await storage.createRecipeIngredient({
         ...result.data,
         recipeId: req.params.recipeId,
@@ -1549,9 +2544,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/recipes/:recipeId/ingredients/:id", async (req, res) => {
+  app.patch("/api/recipes/:recipeId/ingredients/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
-      const ingredient = await storage.updateRecipeIngredient(req.params.id, req.body);
+      const result = insertRecipeIngredientSchema.omit({ recipeId: true }).partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      const existing = (await storage.getRecipeIngredients(req.params.recipeId)).find((ingredient) => ingredient.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Recipe ingredient not found" });
+      }
+      const unitCheck = await checkStockUnit(
+        storage,
+        result.data.inventoryItemId ?? existing.inventoryItemId,
+        result.data.unit ?? existing.unit,
+      );
+      if (!unitCheck.ok) {
+        return res.status(unitCheck.status).json({ error: unitCheck.error });
+      }
+      const ingredient = await storage.updateRecipeIngredient(req.params.id, result.data);
       if (!ingredient) {
         return res.status(404).json({ error: "Recipe ingredient not found" });
       }
@@ -1562,7 +2573,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/recipes/:recipeId/ingredients/:id", async (req, res) => {
+  app.delete("/api/recipes/:recipeId/ingredients/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const success = await storage.deleteRecipeIngredient(req.params.id);
       if (!success) {
@@ -1575,7 +2586,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/recipes/:id", async (req, res) => {
+  app.delete("/api/recipes/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const success = await storage.deleteRecipe(req.params.id);
       if (!success) {
@@ -1589,7 +2600,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Suppliers
-  app.get("/api/suppliers", async (req, res) => {
+  app.get("/api/suppliers", requirePermission(...PURCHASING_READERS), async (req, res) => {
     try {
       const suppliers = await storage.getSuppliers();
       res.json(suppliers);
@@ -1598,7 +2609,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/suppliers", async (req, res) => {
+  app.post("/api/suppliers", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const result = insertSupplierSchema.safeParse(req.body);
       if (!result.success) {
@@ -1612,7 +2623,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/suppliers/:id", async (req, res) => {
+  app.patch("/api/suppliers/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const supplier = await storage.updateSupplier(req.params.id, req.body);
       if (!supplier) {
@@ -1625,7 +2636,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/suppliers/:id", async (req, res) => {
+  app.delete("/api/suppliers/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const success = await storage.deleteSupplier(req.params.id);
       if (!success) {
@@ -1639,7 +2650,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Purchase Orders
-  app.get("/api/purchase-orders", async (req, res) => {
+  app.get("/api/purchase-orders", requirePermission(...PURCHASING_READERS), async (req, res) => {
     try {
       const orders = await storage.getPurchaseOrders();
       const ordersWithItems = await Promise.all(
@@ -1668,7 +2679,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/purchase-orders/:id", async (req, res) => {
+  app.get("/api/purchase-orders/:id", requirePermission(...PURCHASING_READERS), async (req, res) => {
     try {
       const order = await storage.getPurchaseOrder(req.params.id);
       if (!order) {
@@ -1697,7 +2708,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/purchase-orders", async (req, res) => {
+  app.post("/api/purchase-orders", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const result = insertPurchaseOrderSchema.safeParse(req.body);
       if (!result.success) {
@@ -1711,12 +2722,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/purchase-orders/:id/items", async (req, res) => {
+  app.post("/api/purchase-orders/drafts", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const result = draftPurchaseOrdersSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.json(await createDraftPurchaseOrders(storage, result.data, broadcastUpdate));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to create draft purchase orders" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/items", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const result = insertPurchaseOrderItemSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ error: result.error });
       }
+      const unitCheck = await checkStockUnit(storage, result.data.inventoryItemId, result.data.unit);
+      if (!unitCheck.ok) {
+        return res.status(unitCheck.status).json({ error: unitCheck.error });
+      }
       const item = await storage.createPurchaseOrderItem({
         ...result.data,
         purchaseOrderId: req.params.id,
@@ -1728,8 +2755,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/purchase-orders/:id", async (req, res) => {
+  app.patch("/api/purchase-orders/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
+      const existing = await storage.getPurchaseOrder(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Purchase order not found" });
+      }
+      // Stock is only booked by /receive, and a received order cannot be reopened to book it twice
+      if (req.body.status !== undefined && req.body.status !== existing.status && (existing.status === "received" || req.body.status === "received")) {
+        return res.status(409).json({ error: "Purchase orders are received with Receive, and a received order cannot be reopened" });
+      }
       const order = await storage.updatePurchaseOrder(req.params.id, req.body);
       if (!order) {
         return res.status(404).json({ error: "Purchase order not found" });
@@ -1741,12 +2776,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/purchase-orders/:id/receive", async (req, res) => {
+  app.post("/api/purchase-orders/:id/receive", requirePermission(PERMISSIONS.PURCHASE_ORDERS_RECEIVE), async (req, res) => {
     try {
-      const order = await storage.receivePurchaseOrder(req.params.id);
-      if (!order) {
+      const existing = await storage.getPurchaseOrder(req.params.id);
+      if (!existing) {
         return res.status(404).json({ error: "Purchase order not found" });
       }
+      if (existing.status === "received") {
+        return res.status(409).json({ error: "This purchase order has already been received" });
+      }
+      const order = await storage.receivePurchaseOrder(req.params.id, statusActor(req.user));
+      if (!order) {
+        return res.status(409).json({ error: "This purchase order has already been received" });
+      }
       broadcastUpdate("purchase_order_received", order);
       broadcastUpdate("inventory_updated", { purchaseOrderId: req.params.id });
       res.json(order);
@@ -1755,7 +2797,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/purchase-orders/:id", async (req, res) => {
+  app.delete("/api/purchase-orders/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const success = await storage.deletePurchaseOrder(req.params.id);
       if (!success) {
@@ -1769,7 +2811,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Wastage
-  app.get("/api/wastage", async (req, res) => {
+  app.get("/api/wastage", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const wastages = await storage.getWastages();
       const wastagesWithDetails = await Promise.all(
@@ -1787,27 +2829,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/wastage", async (req, res) => {
+  app.post("/api/wastage", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const result = insertWastageSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ error: result.error });
       }
       
-      // Auto-deduct from inventory
       const inventoryItem = await storage.getInventoryItem(result.data.inventoryItemId);
       if (!inventoryItem) {
         return res.status(404).json({ error: "Inventory item not found" });
       }
-      
-      const newStock = parseFloat(inventoryItem.currentStock) - parseFloat(result.data.quantity);
-      if (newStock < 0) {
+      const wasted = toStockUnit(parseFloat(result.data.quantity), result.data.unit, inventoryItem);
+      if (!wasted.ok) {
+        return res.status(400).json({ error: wasted.error });
+      }
+      if (parseFloat(inventoryItem.currentStock) - wasted.quantity < 0) {
         return res.status(400).json({ error: "Insufficient stock for wastage entry" });
       }
-      
-      await storage.updateInventoryQuantity(result.data.inventoryItemId, newStock.toString());
-      
-      const wastage = await storage.createWastage(result.data);
+
+      // Recording the wastage takes it off the stock, in the item's unit
+      const wastage = await storage.createWastage(result.data, statusActor(req.user));
       broadcastUpdate("wastage_created", wastage);
       broadcastUpdate("inventory_updated", { wastageId: wastage.id });
       res.json(wastage);
@@ -1816,21 +2858,163 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/wastage/:id", async (req, res) => {
+  app.delete("/api/wastage/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
-      const success = await storage.deleteWastage(req.params.id);
+      const success = await storage.deleteWastage(req.params.id, statusActor(req.user));
       if (!success) {
         return res.status(404).json({ error: "Wastage record not found" });
       }
       broadcastUpdate("wastage_deleted", { id: req.params.id });
+      broadcastUpdate("inventory_updated", { wastageId: req.params.id });
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to delete wastage record" });
     }
   });
 
+  // Stock takes
+  app.get("/api/stock-takes", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      res.json(await storage.getStockTakes());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch stock takes" });
+    }
+  });
+
+  app.get("/api/stock-takes/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const stockTake = await storage.getStockTake(req.params.id);
+      if (!stockTake) {
+        return res.status(404).json({ error: "Stock take not found" });
+      }
+      res.json(stockTake);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch stock take" });
+    }
+  });
+
+  app.get("/api/stock-takes/:id/variance", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const stockTake = await storage.getStockTake(req.params.id);
+      if (!stockTake) {
+        return res.status(404).json({ error: "Stock take not found" });
+      }
+      res.json(await getStockTakeVariance(storage, stockTake));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to work out stock take variance" });
+    }
+  });
+
+  app.post("/api/stock-takes", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const result = startStockTakeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      const started = await startStockTake(storage, result.data, req.user!, broadcastUpdate);
+      if (!started.ok) {
+        return res.status(started.status).json({ error: started.error });
+      }
+      res.json(started.stockTake);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to start stock take" });
+    }
+  });
+
+  app.patch("/api/stock-takes/:id/counts", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const result = stockTakeCountsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+      const stockTake = await storage.getStockTake(req.params.id);
+      if (!stockTake) {
+        return res.status(404).json({ error: "Stock take not found" });
+      }
+      const recorded = await recordStockTakeCounts(storage, stockTake, result.data, broadcastUpdate);
+      if (!recorded.ok) {
+        return res.status(recorded.status).json({ error: recorded.error });
+      }
+      res.json(recorded.stockTake);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to save counts" });
+    }
+  });
+
+  app.post("/api/stock-takes/:id/post", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const stockTake = await storage.getStockTake(req.params.id);
+      if (!stockTake) {
+        return res.status(404).json({ error: "Stock take not found" });
+      }
+      const posted = await postStockTake(storage, stockTake, req.user!, broadcastUpdate);
+      if (!posted.ok) {
+        return res.status(posted.status).json({ error: posted.error });
+      }
+      res.json(posted.stockTake);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to post stock take" });
+    }
+  });
+
+  app.post("/api/stock-takes/:id/cancel", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const stockTake = await storage.getStockTake(req.params.id);
+      if (!stockTake) {
+        return res.status(404).json({ error: "Stock take not found" });
+      }
+      const cancelled = await cancelStockTake(storage, stockTake, broadcastUpdate);
+      if (!cancelled.ok) {
+        return res.status(cancelled.status).json({ error: cancelled.error });
+      }
+      res.json(cancelled.stockTake);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to cancel stock take" });
+    }
+  });
+
+  // Stock ledger across every item, newest first
+  app.get("/api/stock-movements", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      res.json(await storage.getStockMovements());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch stock movements" });
+    }
+  });
+
+  // Paid orders whose stock deduction failed or never finished
+  app.get("/api/stock-deductions", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      res.json(await getUnreconciledDeductions(storage));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch stock deductions" });
+    }
+  });
+
+  app.post("/api/stock-deductions/:orderId/retry", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.orderId);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (order.status !== "paid" && order.status !== "completed") {
+        return res.status(409).json({ error: "Stock is only deducted once an order is paid" });
+      }
+      const deduction = await deductOrderStock(storage, order.id, broadcastUpdate);
+      if (!deduction) {
+        return res.status(409).json({ error: "Stock for this order has already been deducted or is being deducted now" });
+      }
+      if (deduction.status === "failed") {
+        return res.status(500).json({ error: deduction.error ?? "Failed to deduct stock" });
+      }
+      res.json(deduction);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to retry stock deduction" });
+    }
+  });
+
   // Inventory Usage Tracking
-  app.get("/api/inventory-usage", async (req, res) => {
+  app.get("/api/inventory-usage", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const usages = await storage.getInventoryUsages();
       res.json(usages);
@@ -1839,7 +3023,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/inventory-usage/item/:itemId", async (req, res) => {
+  app.get("/api/inventory-usage/item/:itemId", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const usages = await storage.getInventoryUsagesByItem(req.params.itemId);
       res.json(usages);
@@ -1848,7 +3032,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/inventory-usage/most-used", async (req, res) => {
+  app.get("/api/inventory-usage/most-used", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
       const mostUsed = await storage.getMostUsedItems(limit);
@@ -1858,14 +3042,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/inventory-usage", async (req, res) => {
+  app.post("/api/inventory-usage", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const result = insertInventoryUsageSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ error: result.error });
       }
+      const inventoryItem = await storage.getInventoryItem(result.data.inventoryItemId);
+      if (!inventoryItem) {
+        return res.status(404).json({ error: "Inventory item not found" });
+      }
+      const used = toStockUnit(parseFloat(result.data.quantity), result.data.unit, inventoryItem);
+      if (!used.ok) {
+        return res.status(400).json({ error: used.error });
+      }
       const usage = await storage.createInventoryUsage(result.data);
+      await storage.recordStockMovement({
+        ...statusActor(req.user),
+        inventoryItemId: inventoryItem.id,
+        type: "usage",
+        quantity: (-used.quantity).toString(),
+        enteredQuantity: result.data.quantity,
+        enteredUnit: result.data.unit,
+        referenceType: "usage",
+        referenceId: usage.id,
+        notes: result.data.notes ?? null,
+      });
       broadcastUpdate("inventory_usage_created", usage);
+      broadcastUpdate("inventory_updated", { inventoryUsageId: usage.id });
       res.json(usage);
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to create inventory usage record" });
@@ -1873,7 +3077,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Seed Inventory and Recipes (admin endpoint)
-  app.post("/api/inventory/seed", async (req, res) => {
+  app.post("/api/inventory/seed", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       if (typeof storage.seedInventoryAndRecipes !== 'function') {
         return res.status(400).json({ error: "Seeding is only available with MongoDB storage" });
@@ -1897,7 +3101,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const digitalMenuSync = new DigitalMenuSyncService(storage);
   digitalMenuSync.setBroadcastFunction(broadcastUpdate);
   
-  app.post("/api/digital-menu/sync-start", async (req, res) => {
+  app.post("/api/digital-menu/sync-start", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
       const intervalMs = req.body.intervalMs || 5000;
       await digitalMenuSync.start(intervalMs);
@@ -1907,7 +3111,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/digital-menu/sync-stop", async (req, res) => {
+  app.post("/api/digital-menu/sync-stop", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
       digitalMenuSync.stop();
       res.json({ success: true, message: "Digital menu sync service stopped" });
@@ -1916,7 +3120,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/digital-menu/sync-now", async (req, res) => {
+  app.post("/api/digital-menu/sync-now", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
       const synced = await digitalMenuSync.syncOrders();
       broadcastUpdate("digital_menu_synced", { count: synced });
@@ -1926,7 +3130,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/digital-menu/status", async (req, res) => {
+  app.get("/api/digital-menu/status", requirePermission(PERMISSIONS.ORDERS_MANAGE, PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
       const status = digitalMenuSync.getSyncStatus();
       res.json(status);
@@ -1935,7 +3139,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/digital-menu/orders", async (req, res) => {
+  app.get("/api/digital-menu/orders", requirePermission(PERMISSIONS.ORDERS_MANAGE), async (req, res) => {
     try {
       const orders = await digitalMenuSync.getDigitalMenuOrders();
       res.json(orders);
@@ -1944,7 +3148,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/digital-menu/customers", async (req, res) => {
+  app.get("/api/digital-menu/customers", requirePermission(PERMISSIONS.CUSTOMERS_MANAGE), async (req, res) => {
     try {
       const customers = await digitalMenuSync.getDigitalMenuCustomers();
       res.json(customers);
@@ -1957,7 +3161,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
-  wss = new WebSocketServer({ server: httpServer, path: "/api/ws" });
+  wss = new WebSocketServer({
+    server: httpServer,
+    path: "/api/ws",
+    verifyClient: (info, done) => {
+      authenticateUpgrade(info.req)
+        .then((authenticated) => done(authenticated, 401, "Unauthorized"))
+        .catch(() => done(false, 500));
+    },
+  });
 
   wss.on("connection", (ws) => {
     ws.on("error", console.error);
@@ -0,0 +1,136 @@
+import type { IStorage } from "./storage";
+import type { SessionUser, StartStockTake, StockTake, StockTakeCounts, StockTakeLine } from "@shared/schema";
+import { buildStockTakeVariance, lineVariance, type StockTakeVariance } from "@shared/stock-take";
+import type { Broadcast } from "./orders";
+
+export type StockTakeResult<T = { stockTake: StockTake }> = ({ ok: true } & T) | { ok: false; error: string; status: number };
+
+const nameOf = (user: SessionUser) => user.fullName || user.username;
+
+// Freezes the current stock figures of the items being counted
+export async function startStockTake(
+  storage: IStorage,
+  request: StartStockTake,
+  user: SessionUser,
+  broadcast: Broadcast,
+): Promise<StockTakeResult> {
+  const open = (await storage.getStockTakes()).find((stockTake) => stockTake.status === "counting");
+  if (open) {
+    return { ok: false, error: "Post or cancel the stock take already in progress first", status: 409 };
+  }
+
+  const items = (await storage.getInventoryItems())
+    .filter((item) => request.categories.length === 0 || request.categories.includes(item.category))
+    .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+  if (items.length === 0) {
+    return { ok: false, error: "No inventory items in the chosen categories", status: 400 };
+  }
+
+  const lines: StockTakeLine[] = items.map((item) => ({
+    inventoryItemId: item.id,
+    itemName: item.name,
+    category: item.category,
+    unit: item.unit,
+    theoretical: item.currentStock,
+    counted: null,
+    costPerUnit: item.costPerUnit,
+  }));
+  const stockTake = await storage.createStockTake({
+    status: "counting",
+    categories: request.categories,
+    lines,
+    notes: request.notes ?? null,
+    startedBy: user.id,
+    startedByName: nameOf(user),
+    startedAt: new Date(),
+    postedBy: null,
+    postedByName: null,
+    postedAt: null,
+  });
+  broadcast("stock_take_updated", stockTake);
+  return { ok: true, stockTake };
+}
+
+export async function recordStockTakeCounts(
+  storage: IStorage,
+  stockTake: StockTake,
+  { counts }: StockTakeCounts,
+  broadcast: Broadcast,
+): Promise<StockTakeResult> {
+  if (stockTake.status !== "counting") {
+    return { ok: false, error: "This stock take is no longer being counted", status: 409 };
+  }
+  const unknown = counts.find((count) => !stockTake.lines.some((line) => line.inventoryItemId === count.inventoryItemId));
+  if (unknown) {
+    return { ok: false, error: "That item is not part of this stock take", status: 400 };
+  }
+  const updated = await storage.recordStockTakeCounts(stockTake.id, counts);
+  if (!updated) {
+    return { ok: false, error: "This stock take is no longer being counted", status: 409 };
+  }
+  broadcast("stock_take_updated", updated);
+  return { ok: true, stockTake: updated };
+}
+
+/**
+ * Closes the count and books each counted variance into the ledger as an
+ * adjustment. The variance is against the snapshot, so sales since the
+ * count started still come off on top of it. Items nobody counted are left
+ * as they are.
+ */
+export async function postStockTake(
+  storage: IStorage,
+  stockTake: StockTake,
+  user: SessionUser,
+  broadcast: Broadcast,
+): Promise<StockTakeResult> {
+  if (!stockTake.lines.some((line) => line.counted !== null)) {
+    return { ok: false, error: "Count at least one item before posting", status: 400 };
+  }
+  const posted = await storage.updateStockTake(
+    stockTake.id,
+    { status: "posted", postedBy: user.id, postedByName: nameOf(user), postedAt: new Date() },
+    "counting",
+  );
+  if (!posted) {
+    return { ok: false, error: "This stock take is no longer being counted", status: 409 };
+  }
+
+  for (const line of posted.lines) {
+    const variance = lineVariance(line);
+    if (!variance || variance.variance === 0) continue;
+    await storage.recordStockMovement({
+      inventoryItemId: line.inventoryItemId,
+      type: "adjustment",
+      quantity: variance.variance.toString(),
+      referenceType: "stock_take",
+      referenceId: posted.id,
+      by: user.id,
+      byName: nameOf(user),
+      notes: `Stock take: counted ${line.counted} against ${line.theoretical} ${line.unit}`,
+    });
+  }
+  broadcast("stock_take_updated", posted);
+  broadcast("inventory_updated", { stockTakeId: posted.id });
+  return { ok: true, stockTake: posted };
+}
+
+export async function cancelStockTake(storage: IStorage, stockTake: StockTake, broadcast: Broadcast): Promise<StockTakeResult> {
+  const cancelled = await storage.updateStockTake(stockTake.id, { status: "cancelled" }, "counting");
+  if (!cancelled) {
+    return { ok: false, error: "Only a stock take still being counted can be cancelled", status: 409 };
+  }
+  broadcast("stock_take_updated", cancelled);
+  return { ok: true, stockTake: cancelled };
+}
+
+// Usage is measured from the previous posted count, or the start of the ledger for the first one
+export async function getStockTakeVariance(storage: IStorage, stockTake: StockTake): Promise<StockTakeVariance> {
+  const startedAt = new Date(stockTake.startedAt);
+  const previous = (await storage.getStockTakes()).find(
+    (other) => other.status === "posted" && other.id !== stockTake.id && new Date(other.startedAt) < startedAt,
+  );
+  const from = previous ? new Date(previous.startedAt) : null;
+  const movements = await storage.getStockMovementsBetween(from, startedAt);
+  return buildStockTakeVariance(stockTake, movements, from);
+}
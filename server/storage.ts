@@ -1,15 +1,26 @@
 import {
   type User,
   type InsertUser,
+  type Role,
+  type InsertRole,
   type Floor,
   type InsertFloor,
   type Table,
   type InsertTable,
   type MenuItem,
   type InsertMenuItem,
+  type TaxProfile,
+  type InsertTaxProfile,
+  type ModifierGroup,
+  type InsertModifierGroup,
+  type OrderItemModifier,
+  type OrderItemComponent,
+  type KitchenStation,
+  type InsertKitchenStation,
   type Order,
   type InsertOrder,
   type OrderItem,
+  type StatusActor,
   type InsertOrderItem,
   type InventoryItem,
   type InsertInventoryItem,
@@ -27,6 +38,21 @@ import {
   type InsertWastage,
   type Invoice,
   type InsertInvoice,
+  type CreditNote,
+  type InsertCreditNote,
+  type Kot,
+  type InsertKot,
+  type KotLine,
+  type ItemAdjustment,
+  type InsertItemAdjustment,
+  type OrderItemComp,
+  type OrderItemVoid,
+  type Offer,
+  type InsertOffer,
+  type Coupon,
+  type InsertCoupon,
+  type PromotionRedemption,
+  type InsertPromotionRedemption,
   type Reservation,
   type InsertReservation,
   type Customer,
@@ -35,15 +61,38 @@ import {
   type InsertFeedback,
   type InventoryUsage,
   type InsertInventoryUsage,
+  type StockMovement,
+  type InsertStockMovement,
+  type StockMovementSource,
+  type StockDeduction,
+  type StockDeductionStatus,
+  type StockTake,
+  type InsertStockTake,
+  type StockTakeStatus,
+  type StockTakeCounts,
   type DeliveryPerson,
   type InsertDeliveryPerson,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 
+// A gap-free document number series: the counter it draws from and how a drawn value is printed
+export interface NumberSeries {
+  counter: string;
+  format: (sequence: number) => string;
+}
+
 export interface IStorage {
+  getUsers(): Promise<User[]>;
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<InsertUser> & { lastLoginAt?: Date }): Promise<User | undefined>;
+
+  getRoles(): Promise<Role[]>;
+  getRole(id: string): Promise<Role | undefined>;
+  createRole(role: InsertRole & { id?: string; isSystem?: boolean }): Promise<Role>;
+  updateRole(id: string, role: Partial<InsertRole>): Promise<Role | undefined>;
+  deleteRole(id: string): Promise<boolean>;
 
   getFloors(): Promise<Floor[]>;
   getFloor(id: string): Promise<Floor | undefined>;
@@ -66,33 +115,114 @@ export interface IStorage {
   updateMenuItem(id: string, item: Partial<InsertMenuItem>): Promise<MenuItem | undefined>;
   deleteMenuItem(id: string): Promise<boolean>;
 
+  getModifierGroups(): Promise<ModifierGroup[]>;
+  getModifierGroup(id: string): Promise<ModifierGroup | undefined>;
+  createModifierGroup(group: InsertModifierGroup): Promise<ModifierGroup>;
+  updateModifierGroup(id: string, group: InsertModifierGroup): Promise<ModifierGroup | undefined>;
+  // Refuses while any menu item still offers the group
+  deleteModifierGroup(id: string): Promise<boolean>;
+
+  getTaxProfiles(): Promise<TaxProfile[]>;
+  getTaxProfile(id: string): Promise<TaxProfile | undefined>;
+  createTaxProfile(profile: InsertTaxProfile): Promise<TaxProfile>;
+  updateTaxProfile(id: string, profile: Partial<InsertTaxProfile>): Promise<TaxProfile | undefined>;
+  deleteTaxProfile(id: string): Promise<boolean>;
+
+  getKitchenStations(): Promise<KitchenStation[]>;
+  getKitchenStation(id: string): Promise<KitchenStation | undefined>;
+  createKitchenStation(station: InsertKitchenStation): Promise<KitchenStation>;
+  updateKitchenStation(id: string, station: Partial<InsertKitchenStation>): Promise<KitchenStation | undefined>;
+  // Refuses while any menu item is assigned to the station
+  deleteKitchenStation(id: string): Promise<boolean>;
+
   getOrders(): Promise<Order[]>;
   getOrder(id: string): Promise<Order | undefined>;
   getOrdersByTable(tableId: string): Promise<Order[]>;
   getActiveOrders(): Promise<Order[]>;
   getCompletedOrders(): Promise<Order[]>;
+  getOrdersByStatus(statuses: readonly string[]): Promise<Order[]>;
   getDeliveryOrders(): Promise<Order[]>;
   createOrder(order: InsertOrder): Promise<Order>;
   updateOrderStatus(id: string, status: string): Promise<Order | undefined>;
   updateOrderTotal(id: string, total: string): Promise<Order | undefined>;
-  completeOrder(id: string): Promise<Order | undefined>;
-  billOrder(id: string): Promise<Order | undefined>;
-  checkoutOrder(id: string, paymentMode?: string): Promise<Order | undefined>;
+  updateOrderDiscount(id: string, discount: string | null): Promise<Order | undefined>;
+  updateOrderCoupon(id: string, couponCode: string | null): Promise<Order | undefined>;
+  updateOrderTable(id: string, tableId: string | null): Promise<Order | undefined>;
+  // The status moves only while the order is still in one of `from`; undefined otherwise,
+  // so two tills settling the same order cannot both go through
+  completeOrder(id: string, from: readonly string[]): Promise<Order | undefined>;
+  billOrder(id: string, from: readonly string[]): Promise<Order | undefined>;
+  checkoutOrder(id: string, from: readonly string[], paymentMode?: string): Promise<Order | undefined>;
   deleteOrder(id: string): Promise<boolean>;
 
-  getOrderItems(orderId: string): Promise<OrderItem[]>;
+  // Voided lines are left out unless asked for; they stay stored for the record only
+  getOrderItems(orderId: string, includeVoided?: boolean): Promise<OrderItem[]>;
+  // Live items of many orders in one round trip, for the kitchen display feed
+  getOrderItemsForOrders(orderIds: string[]): Promise<OrderItem[]>;
+  // Lines that went to the kitchen in [from, to), voided ones included, for kitchen analytics
+  getOrderItemsSentBetween(from: Date, to: Date): Promise<OrderItem[]>;
   getOrderItem(id: string): Promise<OrderItem | undefined>;
-  createOrderItem(item: InsertOrderItem): Promise<OrderItem>;
-  updateOrderItemStatus(id: string, status: string): Promise<OrderItem | undefined>;
+  // The actor is recorded as the first status change; omitted for orders nobody on staff entered
+  createOrderItem(item: InsertOrderItem, actor?: StatusActor): Promise<OrderItem>;
+  updateOrderItemStatus(id: string, status: string, actor?: StatusActor): Promise<OrderItem | undefined>;
+  updateOrderItemDiscount(id: string, discount: string | null): Promise<OrderItem | undefined>;
+  // Stamps sentAt on lines that have just gone out on a KOT
+  markOrderItemsSent(ids: string[], sentAt: Date): Promise<void>;
+  // Reassigns lines to another order as they are, kitchen status and history included
+  moveOrderItems(ids: string[], orderId: string): Promise<void>;
+  // Prices the line at zero and records the comp on it; undefined if it was already comped
+  compOrderItem(id: string, comp: OrderItemComp): Promise<OrderItem | undefined>;
+  // Marks the line voided and keeps it; undefined if it was already voided
+  voidOrderItem(id: string, voided: OrderItemVoid): Promise<OrderItem | undefined>;
   deleteOrderItem(id: string): Promise<boolean>;
 
+  createItemAdjustment(adjustment: InsertItemAdjustment): Promise<ItemAdjustment>;
+  // Voids and comps recorded in [from, to), oldest first
+  getItemAdjustments(from: Date, to: Date): Promise<ItemAdjustment[]>;
+
+  getKotsByOrder(orderId: string): Promise<Kot[]>;
+  // Tickets the order item went out on, whichever order they were printed for
+  getKotsByOrderItem(orderItemId: string): Promise<Kot[]>;
+  moveKots(fromOrderId: string, toOrderId: string): Promise<void>;
+  getKot(id: string): Promise<Kot | undefined>;
+  createKot(kot: InsertKot): Promise<Kot>;
+  updateKotItems(id: string, items: KotLine[], status: Kot["status"]): Promise<Kot | undefined>;
+  // Counts a print and returns the KOT as it was before, so the caller knows whether this one is a duplicate
+  recordKotPrint(id: string): Promise<Kot | undefined>;
+
   getInventoryItems(): Promise<InventoryItem[]>;
   getInventoryItem(id: string): Promise<InventoryItem | undefined>;
-  createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem>;
-  updateInventoryItem(id: string, item: Partial<InsertInventoryItem>): Promise<InventoryItem | undefined>;
-  updateInventoryQuantity(id: string, quantity: string): Promise<InventoryItem | undefined>;
+  // A starting stock is booked in as the item's opening ledger entry
+  createInventoryItem(item: InsertInventoryItem, source?: StockMovementSource): Promise<InventoryItem>;
+  // Stock only changes through recordStockMovement, so it cannot be set here
+  updateInventoryItem(id: string, item: Partial<Omit<InsertInventoryItem, "currentStock">>): Promise<InventoryItem | undefined>;
   deleteInventoryItem(id: string): Promise<boolean>;
+  // Newest first, for one item or all of them
+  getStockMovements(inventoryItemId?: string): Promise<StockMovement[]>;
+  // Oldest first, from `from` (or the start of the ledger) up to but not including `to`
+  getStockMovementsBetween(from: Date | null, to: Date): Promise<StockMovement[]>;
+  // Undefined when the inventory item does not exist
+  recordStockMovement(movement: InsertStockMovement): Promise<StockMovement | undefined>;
+  // Charges the order's ingredients it has not already been charged for, so it is safe to run again
   deductInventoryForOrder(orderId: string): Promise<void>;
+  getStockDeductions(statuses: StockDeductionStatus[]): Promise<StockDeduction[]>;
+  // Starts the order's deduction unless it is done or another one started after staleBefore is still running
+  claimStockDeduction(orderId: string, staleBefore: Date): Promise<StockDeduction | undefined>;
+  // Done without an error, failed with one
+  finishStockDeduction(orderId: string, error: string | null): Promise<StockDeduction | undefined>;
+
+  // Newest first
+  getStockTakes(): Promise<StockTake[]>;
+  getStockTake(id: string): Promise<StockTake | undefined>;
+  createStockTake(stockTake: InsertStockTake): Promise<StockTake>;
+  // With `status`, only updates a stock take that is still in it, so two people cannot post the same count
+  updateStockTake(id: string, data: Partial<InsertStockTake>, status?: StockTakeStatus): Promise<StockTake | undefined>;
+  // Sets each line's count on its own, so tablets counting different categories do not overwrite each other
+  recordStockTakeCounts(id: string, counts: StockTakeCounts["counts"]): Promise<StockTake | undefined>;
+  // Stock the given menu item quantities use, by inventory item, without touching it
+  getInventoryUsage(items: Array<{ menuItemId: string; quantity: number; modifiers?: OrderItemModifier[]; components?: OrderItemComponent[] }>): Promise<Array<{ inventoryItemId: string; quantity: number }>>;
+  // Puts back the recipe and modifier ingredients consumed by the given menu item quantities
+  restoreInventoryForItems(items: Array<{ menuItemId: string; quantity: number; modifiers?: OrderItemModifier[]; components?: OrderItemComponent[] }>, source: StockMovementSource): Promise<void>;
 
   getRecipes(): Promise<Recipe[]>;
   getRecipe(id: string): Promise<Recipe | undefined>;
@@ -116,7 +246,7 @@ export interface IStorage {
   getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
   createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder>;
   updatePurchaseOrder(id: string, order: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined>;
-  receivePurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  receivePurchaseOrder(id: string, source?: StockMovementSource): Promise<PurchaseOrder | undefined>;
   deletePurchaseOrder(id: string): Promise<boolean>;
 
   getPurchaseOrderItems(purchaseOrderId: string): Promise<PurchaseOrderItem[]>;
@@ -127,16 +257,45 @@ export interface IStorage {
 
   getWastages(): Promise<Wastage[]>;
   getWastage(id: string): Promise<Wastage | undefined>;
-  createWastage(wastage: InsertWastage): Promise<Wastage>;
-  deleteWastage(id: string): Promise<boolean>;
+  createWastage(wastage: InsertWastage, source?: StockMovementSource): Promise<Wastage>;
+  deleteWastage(id: string, source?: StockMovementSource): Promise<boolean>;
 
   getInvoices(): Promise<Invoice[]>;
   getInvoice(id: string): Promise<Invoice | undefined>;
   getInvoiceByNumber(invoiceNumber: string): Promise<Invoice | undefined>;
-  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  getInvoicesByOrder(orderId: string): Promise<Invoice[]>;
+  // The number is drawn from the series in the same write as the invoice, so a failed insert leaves no gap
+  createInvoice(series: NumberSeries, invoice: Omit<InsertInvoice, "invoiceNumber">): Promise<Invoice>;
   updateInvoice(id: string, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined>;
+  // Passing a cancel reason also stamps cancelledAt
+  updateInvoiceStatus(id: string, status: string, cancelReason?: string): Promise<Invoice | undefined>;
   deleteInvoice(id: string): Promise<boolean>;
 
+  getCreditNotes(): Promise<CreditNote[]>;
+  getCreditNotesByInvoice(invoiceId: string): Promise<CreditNote[]>;
+  createCreditNote(series: NumberSeries, creditNote: Omit<InsertCreditNote, "creditNoteNumber">): Promise<CreditNote>;
+
+  getOffers(): Promise<Offer[]>;
+  getOffer(id: string): Promise<Offer | undefined>;
+  createOffer(offer: InsertOffer): Promise<Offer>;
+  updateOffer(id: string, offer: Partial<InsertOffer>): Promise<Offer | undefined>;
+  deleteOffer(id: string): Promise<boolean>;
+
+  getCoupons(): Promise<Coupon[]>;
+  getCoupon(id: string): Promise<Coupon | undefined>;
+  getCouponByCode(code: string): Promise<Coupon | undefined>;
+  createCoupon(coupon: InsertCoupon): Promise<Coupon>;
+  updateCoupon(id: string, coupon: Partial<InsertCoupon>): Promise<Coupon | undefined>;
+  deleteCoupon(id: string): Promise<boolean>;
+  // Takes one use of the coupon; false once its usage limit is reached
+  claimCouponUse(id: string): Promise<boolean>;
+  // Gives back a use taken for a checkout that did not go through
+  releaseCouponUse(id: string): Promise<void>;
+
+  getPromotionRedemptions(): Promise<PromotionRedemption[]>;
+  countPromotionRedemptions(promotionId: string, customerPhone?: string): Promise<number>;
+  createPromotionRedemption(redemption: InsertPromotionRedemption): Promise<PromotionRedemption>;
+
   getReservations(): Promise<Reservation[]>;
   getReservation(id: string): Promise<Reservation | undefined>;
   getReservationsByTable(tableId: string): Promise<Reservation[]>;
@@ -158,6 +317,8 @@ export interface IStorage {
 
   getSetting(key: string): Promise<string | undefined>;
   setSetting(key: string, value: string): Promise<void>;
+  // Atomically increments the named counter and returns the new value (first call returns 1)
+  nextSequence(name: string): Promise<number>;
   
   getInventoryUsages(): Promise<InventoryUsage[]>;
   getInventoryUsagesByItem(inventoryItemId: string): Promise<InventoryUsage[]>;
@@ -185,7 +346,9 @@ export class MemStorage implements IStorage {
   private invoices: Map<string, Invoice>;
   private reservations: Map<string, Reservation>;
   private settings: Map<string, string>;
+  private sequences: Map<string, number>;
   private deliveryPersons: Map<string, DeliveryPerson>;
+  private itemAdjustments: Map<string, ItemAdjustment>;
 
   constructor() {
     this.users = new Map();
@@ -198,7 +361,9 @@ export class MemStorage implements IStorage {
     this.invoices = new Map();
     this.reservations = new Map();
     this.settings = new Map();
+    this.sequences = new Map();
     this.deliveryPersons = new Map();
+    this.itemAdjustments = new Map();
     this.seedData();
   }
 
@@ -229,14 +394,14 @@ export class MemStorage implements IStorage {
     });
 
     const menuData: Omit<MenuItem, "id">[] = [
-      { name: "Chicken Burger", category: "Burgers", price: "199.00", cost: "80.00", available: true, isVeg: false, variants: ["Regular", "Large"], image: null, description: null, quickCode: "1" },
-      { name: "Veggie Pizza", category: "Pizza", price: "299.00", cost: "120.00", available: true, isVeg: true, variants: null, image: null, description: null, quickCode: "2" },
-      { name: "French Fries", category: "Fast Food", price: "99.00", cost: "35.00", available: true, isVeg: true, variants: ["Small", "Medium", "Large"], image: null, description: null, quickCode: "3" },
-      { name: "Coca Cola", category: "Beverages", price: "50.00", cost: "20.00", available: true, isVeg: true, variants: null, image: null, description: null, quickCode: "4" },
-      { name: "Caesar Salad", category: "Salads", price: "149.00", cost: "60.00", available: true, isVeg: true, variants: null, image: null, description: null, quickCode: "5" },
-      { name: "Pasta Alfredo", category: "Pasta", price: "249.00", cost: "100.00", available: true, isVeg: true, variants: null, image: null, description: null, quickCode: "6" },
-      { name: "Chocolate Cake", category: "Desserts", price: "129.00", cost: "50.00", available: true, isVeg: true, variants: null, image: null, description: null, quickCode: "7" },
-      { name: "Ice Cream", category: "Desserts", price: "79.00", cost: "30.00", available: true, isVeg: true, variants: ["Vanilla", "Chocolate", "Strawberry"], image: null, description: null, quickCode: "8" },
+      { name: "Chicken Burger", category: "Burgers", price: "199.00", cost: "80.00", available: true, isVeg: false, variants: ["Regular", "Large"], image: null, description: null, quickCode: "1", taxProfileId: null, modifierGroupIds: [], comboComponents: [], stationId: null },
+      { name: "Veggie Pizza", category: "Pizza", price: "299.00", cost: "120.00", available: true, isVeg: true, variants: null, image: null, description: null, quickCode: "2", taxProfileId: null, modifierGroupIds: [], comboComponents: [], stationId: null },
+      { name: "French Fries", category: "Fast Food", price: "99.00", cost: "35.00", available: true, isVeg: true, variants: ["Small", "Medium", "Large"], image: null, description: null, quickCode: "3", taxProfileId: null, modifierGroupIds: [], comboComponents: [], stationId: null },
+      { name: "Coca Cola", category: "Beverages", price: "50.00", cost: "20.00", available: true, isVeg: true, variants: null, image: null, description: null, quickCode: "4", taxProfileId: null, modifierGroupIds: [], comboComponents: [], stationId: null },
+      { name: "Caesar Salad", category: "Salads", price: "149.00", cost: "60.00", available: true, isVeg: true, variants: null, image: null, description: null, quickCode: "5", taxProfileId: null, modifierGroupIds: [], comboComponents: [], stationId: null },
+      { name: "Pasta Alfredo", category: "Pasta", price: "249.00", cost: "100.00", available: true, isVeg: true, variants: null, image: null, description: null, quickCode: "6", taxProfileId: null, modifierGroupIds: [], comboComponents: [], stationId: null },
+      { name: "Chocolate Cake", category: "Desserts", price: "129.00", cost: "50.00", available: true, isVeg: true, variants: null, image: null, description: null, quickCode: "7", taxProfileId: null, modifierGroupIds: [], comboComponents: [], stationId: null },
+      { name: "Ice Cream", category: "Desserts", price: "79.00", cost: "30.00", available: true, isVeg: true, variants: ["Vanilla", "Chocolate", "Strawberry"], image: null, description: null, quickCode: "8", taxProfileId: null, modifierGroupIds: [], comboComponents: [], stationId: null },
     ];
 
     menuData.forEach((item) => {
@@ -253,11 +418,19 @@ export class MemStorage implements IStorage {
         image: item.image,
         description: item.description,
         quickCode: item.quickCode,
+        taxProfileId: item.taxProfileId,
+        modifierGroupIds: item.modifierGroupIds,
+        comboComponents: item.comboComponents,
+        stationId: item.stationId,
       };
       this.menuItems.set(id, menuItem);
     });
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -270,11 +443,29 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      id,
+      username: insertUser.username,
+      password: insertUser.password,
+      fullName: insertUser.fullName ?? null,
+      roleId: insertUser.roleId,
+      active: insertUser.active ?? true,
+      pin: insertUser.pin ?? null,
+      createdAt: new Date(),
+      lastLoginAt: null,
+    };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUser(id: string, userData: Partial<InsertUser> & { lastLoginAt?: Date }): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated: User = { ...user, ...userData };
+    this.users.set(id, updated);
+    return updated;
+  }
+
   async getFloors(): Promise<Floor[]> {
     return Array.from(this.floors.values()).sort((a, b) => a.displayOrder - b.displayOrder);
   }
@@ -408,6 +599,10 @@ export class MemStorage implements IStorage {
       image: item.image ?? null,
       description: item.description ?? null,
       quickCode: item.quickCode ?? null,
+      taxProfileId: item.taxProfileId ?? null,
+      modifierGroupIds: item.modifierGroupIds ?? [],
+      comboComponents: item.comboComponents ?? [],
+      stationId: item.stationId ?? null,
     };
     this.menuItems.set(id, menuItem);
     return menuItem;
@@ -439,6 +634,10 @@ export class MemStorage implements IStorage {
       image: item.image !== undefined ? item.image : existing.image,
       description: item.description !== undefined ? item.description : existing.description,
       quickCode: item.quickCode !== undefined ? item.quickCode : existing.quickCode,
+      taxProfileId: item.taxProfileId !== undefined ? item.taxProfileId : existing.taxProfileId,
+      modifierGroupIds: item.modifierGroupIds ?? existing.modifierGroupIds,
+      comboComponents: item.comboComponents ?? existing.comboComponents,
+      stationId: item.stationId !== undefined ? item.stationId : existing.stationId,
     };
     this.menuItems.set(id, updated);
     return updated;
@@ -472,6 +671,10 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getOrdersByStatus(statuses: readonly string[]): Promise<Order[]> {
+    return Array.from(this.orders.values()).filter((o) => statuses.includes(o.status));
+  }
+
   async getDeliveryOrders(): Promise<Order[]> {
     return Array.from(this.orders.values())
       .filter((o) => o.orderType === "delivery")
@@ -493,6 +696,8 @@ export class MemStorage implements IStorage {
       waiterId: insertOrder.waiterId ?? null,
       deliveryPersonId: insertOrder.deliveryPersonId ?? null,
       expectedPickupTime: insertOrder.expectedPickupTime ?? null,
+      discount: null,
+      couponCode: null,
       createdAt: new Date(),
       completedAt: null,
       billedAt: null,
@@ -518,9 +723,33 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async completeOrder(id: string): Promise<Order | undefined> {
+  async updateOrderDiscount(id: string, discount: string | null): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+    const updated: Order = { ...order, discount };
+    this.orders.set(id, updated);
+    return updated;
+  }
+
+  async updateOrderCoupon(id: string, couponCode: string | null): Promise<Order | undefined> {
     const order = this.orders.get(id);
     if (!order) return undefined;
+    const updated: Order = { ...order, couponCode };
+    this.orders.set(id, updated);
+    return updated;
+  }
+
+  async updateOrderTable(id: string, tableId: string | null): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+    const updated: Order = { ...order, tableId };
+    this.orders.set(id, updated);
+    return updated;
+  }
+
+  async completeOrder(id: string, from: readonly string[]): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order || !from.includes(order.status)) return undefined;
     const updated: Order = {
       ...order,
       status: "completed",
@@ -530,9 +759,9 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async billOrder(id: string): Promise<Order | undefined> {
+  async billOrder(id: string, from: readonly string[]): Promise<Order | undefined> {
     const order = this.orders.get(id);
-    if (!order) return undefined;
+    if (!order || !from.includes(order.status)) return undefined;
     const updated: Order = {
       ...order,
       status: "billed",
@@ -542,9 +771,9 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async checkoutOrder(id: string, paymentMode?: string): Promise<Order | undefined> {
+  async checkoutOrder(id: string, from: readonly string[], paymentMode?: string): Promise<Order | undefined> {
     const order = this.orders.get(id);
-    if (!order) return undefined;
+    if (!order || !from.includes(order.status)) return undefined;
     const updated: Order = {
       ...order,
       status: "paid",
@@ -560,15 +789,25 @@ export class MemStorage implements IStorage {
     return this.orders.delete(id);
   }
 
-  async getOrderItems(orderId: string): Promise<OrderItem[]> {
-    return Array.from(this.orderItems.values()).filter((item) => item.orderId === orderId);
+  async getOrderItems(orderId: string, includeVoided = false): Promise<OrderItem[]> {
+    return Array.from(this.orderItems.values()).filter((item) => item.orderId === orderId && (includeVoided || !item.voided));
+  }
+
+  async getOrderItemsForOrders(orderIds: string[]): Promise<OrderItem[]> {
+    return Array.from(this.orderItems.values()).filter((item) => orderIds.includes(item.orderId) && !item.voided);
+  }
+
+  async getOrderItemsSentBetween(from: Date, to: Date): Promise<OrderItem[]> {
+    return Array.from(this.orderItems.values()).filter(
+      (item) => item.sentAt !== null && item.sentAt >= from && item.sentAt < to
+    );
   }
 
   async getOrderItem(id: string): Promise<OrderItem | undefined> {
     return this.orderItems.get(id);
   }
 
-  async createOrderItem(item: InsertOrderItem): Promise<OrderItem> {
+  async createOrderItem(item: InsertOrderItem, actor: StatusActor = { by: null, byName: null }): Promise<OrderItem> {
     const id = randomUUID();
     const orderItem: OrderItem = {
       id,
@@ -580,15 +819,72 @@ export class MemStorage implements IStorage {
       notes: item.notes ?? null,
       status: item.status ?? "new",
       isVeg: item.isVeg ?? true,
+      discount: null,
+      modifiers: item.modifiers ?? [],
+      components: item.components ?? [],
+      stationId: item.stationId ?? null,
+      comp: null,
+      voided: null,
+      seatNumber: item.seatNumber ?? null,
+      course: item.course ?? null,
+      sentAt: null,
+      statusHistory: [{ status: item.status ?? "new", at: new Date(), ...actor }],
     };
     this.orderItems.set(id, orderItem);
     return orderItem;
   }
 
-  async updateOrderItemStatus(id: string, status: string): Promise<OrderItem | undefined> {
+  async updateOrderItemStatus(id: string, status: string, actor: StatusActor = { by: null, byName: null }): Promise<OrderItem | undefined> {
+    const orderItem = this.orderItems.get(id);
+    if (!orderItem) return undefined;
+    if (orderItem.status === status) return orderItem;
+    const updated: OrderItem = {
+      ...orderItem,
+      status,
+      statusHistory: [...(orderItem.statusHistory ?? []), { status, at: new Date(), ...actor }],
+    };
+    this.orderItems.set(id, updated);
+    return updated;
+  }
+
+  async updateOrderItemDiscount(id: string, discount: string | null): Promise<OrderItem | undefined> {
     const orderItem = this.orderItems.get(id);
     if (!orderItem) return undefined;
-    const updated: OrderItem = { ...orderItem, status };
+    const updated: OrderItem = { ...orderItem, discount };
+    this.orderItems.set(id, updated);
+    return updated;
+  }
+
+  async markOrderItemsSent(ids: string[], sentAt: Date): Promise<void> {
+    for (const id of ids) {
+      const orderItem = this.orderItems.get(id);
+      if (orderItem) {
+        this.orderItems.set(id, { ...orderItem, sentAt });
+      }
+    }
+  }
+
+  async moveOrderItems(ids: string[], orderId: string): Promise<void> {
+    for (const id of ids) {
+      const orderItem = this.orderItems.get(id);
+      if (orderItem) {
+        this.orderItems.set(id, { ...orderItem, orderId });
+      }
+    }
+  }
+
+  async compOrderItem(id: string, comp: OrderItemComp): Promise<OrderItem | undefined> {
+    const orderItem = this.orderItems.get(id);
+    if (!orderItem || orderItem.comp) return undefined;
+    const updated: OrderItem = { ...orderItem, price: "0.00", discount: null, comp };
+    this.orderItems.set(id, updated);
+    return updated;
+  }
+
+  async voidOrderItem(id: string, voided: OrderItemVoid): Promise<OrderItem | undefined> {
+    const orderItem = this.orderItems.get(id);
+    if (!orderItem || orderItem.voided) return undefined;
+    const updated: OrderItem = { ...orderItem, voided };
     this.orderItems.set(id, updated);
     return updated;
   }
@@ -597,6 +893,18 @@ export class MemStorage implements IStorage {
     return this.orderItems.delete(id);
   }
 
+  async createItemAdjustment(insertAdjustment: InsertItemAdjustment): Promise<ItemAdjustment> {
+    const adjustment: ItemAdjustment = { ...insertAdjustment, id: randomUUID(), createdAt: new Date() };
+    this.itemAdjustments.set(adjustment.id, adjustment);
+    return adjustment;
+  }
+
+  async getItemAdjustments(from: Date, to: Date): Promise<ItemAdjustment[]> {
+    return Array.from(this.itemAdjustments.values())
+      .filter((adjustment) => adjustment.createdAt >= from && adjustment.createdAt < to)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
   async getInventoryItems(): Promise<InventoryItem[]> {
     return Array.from(this.inventoryItems.values());
   }
@@ -616,13 +924,17 @@ export class MemStorage implements IStorage {
       minStock: item.minStock ?? "0",
       supplierId: item.supplierId ?? null,
       costPerUnit: item.costPerUnit ?? "0",
+      image: item.image ?? null,
+      packSizes: item.packSizes ?? [],
+      parLevel: item.parLevel ?? "0",
+      reorderQuantity: item.reorderQuantity ?? "0",
       lastUpdated: new Date(),
     };
     this.inventoryItems.set(id, inventoryItem);
     return inventoryItem;
   }
 
-  async updateInventoryItem(id: string, data: Partial<InsertInventoryItem>): Promise<InventoryItem | undefined> {
+  async updateInventoryItem(id: string, data: Partial<Omit<InsertInventoryItem, "currentStock">>): Promise<InventoryItem | undefined> {
     const item = this.inventoryItems.get(id);
     if (!item) return undefined;
     const updated: InventoryItem = { ...item, ...data, lastUpdated: new Date() };
@@ -630,22 +942,62 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async updateInventoryQuantity(id: string, quantity: string): Promise<InventoryItem | undefined> {
-    const item = this.inventoryItems.get(id);
-    if (!item) return undefined;
-    const updated: InventoryItem = { ...item, currentStock: quantity, lastUpdated: new Date() };
-    this.inventoryItems.set(id, updated);
-    return updated;
-  }
-
   async deleteInventoryItem(id: string): Promise<boolean> {
     return this.inventoryItems.delete(id);
   }
 
+  async getStockMovements(): Promise<StockMovement[]> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
+  async getStockMovementsBetween(): Promise<StockMovement[]> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
+  async recordStockMovement(): Promise<StockMovement | undefined> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
   async deductInventoryForOrder(orderId: string): Promise<void> {
     throw new Error("Not implemented in MemStorage - use MongoStorage");
   }
 
+  async getInventoryUsage(): Promise<Array<{ inventoryItemId: string; quantity: number }>> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
+  async getStockDeductions(): Promise<StockDeduction[]> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
+  async claimStockDeduction(): Promise<StockDeduction | undefined> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
+  async finishStockDeduction(): Promise<StockDeduction | undefined> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
+  async getStockTakes(): Promise<StockTake[]> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
+  async getStockTake(): Promise<StockTake | undefined> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
+  async createStockTake(): Promise<StockTake> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
+  async updateStockTake(): Promise<StockTake | undefined> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
+  async recordStockTakeCounts(): Promise<StockTake | undefined> {
+    throw new Error("Not implemented in MemStorage - use MongoStorage");
+  }
+
   async getRecipes(): Promise<Recipe[]> {
     throw new Error("Not implemented in MemStorage - use MongoStorage");
   }
@@ -762,7 +1114,7 @@ export class MemStorage implements IStorage {
     throw new Error("Not implemented in MemStorage - use MongoStorage");
   }
 
-  async deleteWastage(id: string): Promise<boolean> {
+  async deleteWastage(id: string, source?: StockMovementSource): Promise<boolean> {
     throw new Error("Not implemented in MemStorage - use MongoStorage");
   }
 
@@ -780,11 +1132,15 @@ export class MemStorage implements IStorage {
     return Array.from(this.invoices.values()).find((inv) => inv.invoiceNumber === invoiceNumber);
   }
 
-  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+  async getInvoicesByOrder(orderId: string): Promise<Invoice[]> {
+    return Array.from(this.invoices.values()).filter((inv) => inv.orderId === orderId);
+  }
+
+  async createInvoice(series: NumberSeries, insertInvoice: Omit<InsertInvoice, "invoiceNumber">): Promise<Invoice> {
     const id = randomUUID();
     const invoice: Invoice = {
       id,
-      invoiceNumber: insertInvoice.invoiceNumber,
+      invoiceNumber: series.format(await this.nextSequence(series.counter)),
       orderId: insertInvoice.orderId,
       tableNumber: insertInvoice.tableNumber ?? null,
       floorName: insertInvoice.floorName ?? null,
@@ -793,12 +1149,21 @@ export class MemStorage implements IStorage {
       subtotal: insertInvoice.subtotal,
       tax: insertInvoice.tax,
       discount: insertInvoice.discount ?? "0",
+      roundOff: insertInvoice.roundOff ?? null,
       total: insertInvoice.total,
       paymentMode: insertInvoice.paymentMode,
       splitPayments: insertInvoice.splitPayments ?? null,
       status: insertInvoice.status ?? "Paid",
       items: insertInvoice.items,
+      taxBreakdown: insertInvoice.taxBreakdown ?? null,
+      discounts: insertInvoice.discounts ?? null,
+      promotions: insertInvoice.promotions ?? null,
+      guestNumber: insertInvoice.guestNumber ?? null,
+      guestName: insertInvoice.guestName ?? null,
+      splitCount: insertInvoice.splitCount ?? null,
       notes: insertInvoice.notes ?? null,
+      cancelledAt: null,
+      cancelReason: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -884,6 +1249,12 @@ export class MemStorage implements IStorage {
     this.settings.set(key, value);
   }
 
+  async nextSequence(name: string): Promise<number> {
+    const value = (this.sequences.get(name) ?? 0) + 1;
+    this.sequences.set(name, value);
+    return value;
+  }
+
   async getDeliveryPersons(): Promise<DeliveryPerson[]> {
     return Array.from(this.deliveryPersons.values());
   }
@@ -982,6 +1353,22 @@ async function initializeStorage(): Promise<IStorage> {
     console.log('✅ Initial data seeded successfully');
   }
   
+  const taxProfiles = await storage.getTaxProfiles();
+  if (taxProfiles.length === 0) {
+    // Matches the flat 5% the POS charged before tax profiles existed
+    await storage.createTaxProfile({
+      name: "GST 5%",
+      description: "Restaurant service - CGST 2.5% + SGST 2.5%",
+      components: [
+        { code: "CGST", name: "CGST", rate: 2.5, kind: "tax" },
+        { code: "SGST", name: "SGST", rate: 2.5, kind: "tax" },
+      ],
+      inclusive: false,
+      categories: [],
+      isDefault: true,
+    });
+  }
+  
   return storage;
 }
 
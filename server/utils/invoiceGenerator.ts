@@ -1,6 +1,10 @@
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import type { Order, OrderItem, Invoice } from "@shared/schema";
+import { formatTaxLabel, parseTaxBreakdown } from "@shared/tax";
+import { formatModifiers } from "@shared/modifiers";
+import { formatComponents } from "@shared/combos";
+import { formatRoundOff, parseInvoiceLines } from "@shared/billing";
 
 interface InvoiceData {
   invoice: Invoice;
@@ -71,6 +75,15 @@ export function generateInvoicePDF(data: InvoiceData): Buffer {
   
   doc.text(`Invoice No: ${invoice.invoiceNumber}`, 15, yPosition);
   doc.text(`Date: ${invoiceDate.toLocaleString()}`, pageWidth - 15, yPosition, { align: "right" });
+
+  if (invoice.guestNumber && invoice.splitCount) {
+    yPosition += 7;
+    doc.text(
+      `Guest ${invoice.guestNumber} of ${invoice.splitCount}${invoice.guestName ? ` - ${invoice.guestName}` : ""}`,
+      15,
+      yPosition,
+    );
+  }
   
   yPosition += 7;
 
@@ -93,8 +106,13 @@ export function generateInvoicePDF(data: InvoiceData): Buffer {
   
   yPosition += 10;
 
-  const tableData = orderItems.map(item => [
-    item.name + (item.isVeg ? " 🌱" : ""),
+  // A guest's sub-invoice lists only their share of the order
+  const lines = invoice.splitCount
+    ? parseInvoiceLines(invoice).map((line) => ({ ...line, price: line.price.toString(), isVeg: line.isVeg ?? false }))
+    : orderItems;
+  const tableData = lines.map(item => [
+    item.name + (item.isVeg ? " 🌱" : "") + (item.modifiers?.length ? `\n(${formatModifiers(item.modifiers)})` : "") +
+      (item.components?.length ? `\n${formatComponents(item.components)}` : ""),
     item.quantity.toString(),
     `₹${parseFloat(item.price).toFixed(2)}`,
     `₹${(parseFloat(item.price) * item.quantity).toFixed(2)}`,
@@ -120,6 +138,7 @@ export function generateInvoicePDF(data: InvoiceData): Buffer {
   const subtotal = parseFloat(invoice.subtotal);
   const tax = parseFloat(invoice.tax);
   const discount = parseFloat(invoice.discount || "0");
+  const roundOff = parseFloat(invoice.roundOff || "0");
   const total = parseFloat(invoice.total);
 
   doc.setFontSize(11);
@@ -128,15 +147,31 @@ export function generateInvoicePDF(data: InvoiceData): Buffer {
   doc.text("Subtotal:", summaryX, yPosition);
   doc.text(`₹${subtotal.toFixed(2)}`, pageWidth - 15, yPosition, { align: "right" });
   
-  yPosition += 7;
-  doc.text("Tax (5%):", summaryX, yPosition);
-  doc.text(`₹${tax.toFixed(2)}`, pageWidth - 15, yPosition, { align: "right" });
+  const taxBreakdown = parseTaxBreakdown(invoice.taxBreakdown);
+  if (taxBreakdown.length > 0) {
+    for (const line of taxBreakdown) {
+      yPosition += 7;
+      doc.text(`${formatTaxLabel(line)}:`, summaryX, yPosition);
+      doc.text(`₹${line.amount.toFixed(2)}`, pageWidth - 15, yPosition, { align: "right" });
+    }
+  } else {
+    // Invoices issued before tax profiles only carry the combined figure
+    yPosition += 7;
+    doc.text("Tax:", summaryX, yPosition);
+    doc.text(`₹${tax.toFixed(2)}`, pageWidth - 15, yPosition, { align: "right" });
+  }
   
   if (discount > 0) {
     yPosition += 7;
     doc.text("Discount:", summaryX, yPosition);
     doc.text(`-₹${discount.toFixed(2)}`, pageWidth - 15, yPosition, { align: "right" });
   }
+
+  if (roundOff !== 0) {
+    yPosition += 7;
+    doc.text("Round Off:", summaryX, yPosition);
+    doc.text(formatRoundOff(roundOff), pageWidth - 15, yPosition, { align: "right" });
+  }
   
   yPosition += 10;
   doc.setFont("helvetica", "bold");
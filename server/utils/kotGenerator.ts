@@ -1,17 +1,37 @@
 import { jsPDF } from "jspdf";
-import autoTable from "jspdf-autotable";
-import type { Order, OrderItem } from "@shared/schema";
+import autoTable, { type RowInput } from "jspdf-autotable";
+import type { KotKind, Order, OrderItem, OrderItemVoid } from "@shared/schema";
+import { courseLabel, groupByCourse, hasCourses } from "@shared/courses";
+
+// A KOT line, or an order item when printing the whole order; either one is crossed out once voided
+type KOTLine = Pick<OrderItem, "name" | "quantity" | "notes" | "isVeg" | "modifiers" | "components"> &
+  Partial<Pick<OrderItem, "seatNumber" | "course">> & { voided?: boolean | OrderItemVoid | null };
 
 interface KOTData {
   order: Order;
-  orderItems: OrderItem[];
+  orderItems: KOTLine[];
   tableNumber?: string;
   floorName?: string;
   restaurantName?: string;
+  // Set when the ticket carries only one station's lines
+  station?: {
+    name: string;
+    printerName: string | null;
+    printerAddress: string | null;
+  };
+  // Set when printing a stored KOT rather than the whole order
+  kot?: {
+    kotNumber: number;
+    kind: KotKind;
+    voidsKotNumber: number | null;
+    // Set when the ticket fires one held course
+    course?: number | null;
+    duplicate: boolean;
+  };
 }
 
 export function generateKOTPDF(data: KOTData): Buffer {
-  const { order, orderItems, tableNumber, floorName, restaurantName = "Restaurant POS" } = data;
+  const { order, orderItems, tableNumber, floorName, restaurantName = "Restaurant POS", station, kot } = data;
   
   if (!order || !orderItems || orderItems.length === 0) {
     throw new Error("Missing required data for KOT generation");
@@ -27,7 +47,37 @@ export function generateKOTPDF(data: KOTData): Buffer {
   
   yPosition += 10;
   doc.setFontSize(18);
-  doc.text("KITCHEN ORDER TICKET", pageWidth / 2, yPosition, { align: "center" });
+  doc.text(kot?.kind === "void" ? "VOID - KITCHEN ORDER TICKET" : "KITCHEN ORDER TICKET", pageWidth / 2, yPosition, { align: "center" });
+
+  if (kot) {
+    yPosition += 9;
+    doc.setFontSize(16);
+    const against = kot.voidsKotNumber !== null ? ` (cancels KOT #${kot.voidsKotNumber})` : "";
+    doc.text(`KOT #${kot.kotNumber}${against}`, pageWidth / 2, yPosition, { align: "center" });
+    if (kot.course) {
+      yPosition += 9;
+      doc.text(`FIRE ${courseLabel(kot.course).toUpperCase()}`, pageWidth / 2, yPosition, { align: "center" });
+    }
+    if (kot.duplicate) {
+      yPosition += 9;
+      doc.setFontSize(14);
+      doc.text("*** DUPLICATE ***", pageWidth / 2, yPosition, { align: "center" });
+    }
+  }
+
+  if (station) {
+    yPosition += 9;
+    doc.setFontSize(16);
+    doc.text(station.name.toUpperCase(), pageWidth / 2, yPosition, { align: "center" });
+    const printer = [station.printerName, station.printerAddress].filter(Boolean).join(" - ");
+    if (printer) {
+      yPosition += 6;
+      doc.setFontSize(9);
+      doc.setFont("helvetica", "normal");
+      doc.text(`Printer: ${printer}`, pageWidth / 2, yPosition, { align: "center" });
+      doc.setFont("helvetica", "bold");
+    }
+  }
   
   yPosition += 10;
   doc.setLineWidth(0.5);
@@ -85,12 +135,29 @@ export function generateKOTPDF(data: KOTData): Buffer {
   
   yPosition += 12;
 
-  const tableData = orderItems.map(item => [
-    item.name + (item.isVeg ? " 🌱" : " 🍖"),
-    item.quantity.toString(),
-    item.notes || "-"
+  // Modifiers go on their own lines under the item so the cook reads them with it;
+  // a combo's components get rows of their own since each is made separately
+  const itemRows = (items: KOTLine[]): RowInput[] => items.flatMap(item => [
+    [
+      (item.voided ? "[VOID] " : "") + (item.seatNumber ? `S${item.seatNumber} ` : "") + item.name + (item.isVeg ? " 🌱" : " 🍖") + (item.modifiers ?? []).map(modifier => `\n  + ${modifier.name}`).join(""),
+      item.quantity.toString(),
+      item.notes || "-"
+    ],
+    ...(item.components ?? []).map(component => [
+      `  - ${component.name}` + (component.isVeg ? " 🌱" : " 🍖"),
+      (component.quantity * item.quantity).toString(),
+      ""
+    ]),
   ]);
 
+  // Lines are grouped under a heading per course so the pass knows what goes out together
+  const tableData: RowInput[] = hasCourses(orderItems)
+    ? groupByCourse(orderItems).flatMap(({ course, items }) => [
+        [{ content: courseLabel(course).toUpperCase(), colSpan: 3, styles: { fontStyle: "bold", fillColor: [240, 240, 240] } }],
+        ...itemRows(items),
+      ])
+    : itemRows(orderItems);
+
   autoTable(doc, {
     startY: yPosition,
     head: [["Item", "Qty", "Notes"]],
@@ -114,7 +181,7 @@ export function generateKOTPDF(data: KOTData): Buffer {
 
   doc.setFontSize(10);
   doc.setFont("helvetica", "italic");
-  doc.text(`Total Items: ${orderItems.reduce((sum, item) => sum + item.quantity, 0)}`, 15, yPosition);
+  doc.text(`Total Items: ${orderItems.reduce((sum, item) => sum + (item.voided ? 0 : item.quantity), 0)}`, 15, yPosition);
 
   if (order.orderType === "delivery") {
     yPosition += 10;
@@ -135,7 +202,12 @@ export function generateKOTPDF(data: KOTData): Buffer {
   
   doc.setFontSize(9);
   doc.setFont("helvetica", "italic");
-  doc.text("Please prepare items as per order specifications", pageWidth / 2, yPosition, { align: "center" });
+  doc.text(
+    kot?.kind === "void" ? "Stop preparing the items above" : "Please prepare items as per order specifications",
+    pageWidth / 2,
+    yPosition,
+    { align: "center" },
+  );
   
   yPosition += 5;
   doc.setFontSize(8);
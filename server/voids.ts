@@ -0,0 +1,199 @@
+import type { IStorage } from "./storage";
+import type {
+  CompItemRequest,
+  ItemAdjustment,
+  Kot,
+  OrderItem,
+  PublicUser,
+  SessionUser,
+  VoidItemRequest,
+  Wastage,
+} from "@shared/schema";
+import { isSettled } from "@shared/order-state";
+import { buildVoidReport, type VoidReport } from "@shared/void-report";
+import { authoriseVoid } from "./auth";
+import { voidKotLines } from "./kitchen";
+import { refreshOrderTotal, type Broadcast } from "./orders";
+
+export type AdjustmentResult<T> =
+  | ({ ok: true; adjustment: ItemAdjustment } & T)
+  | { ok: false; error: string; requiresApproval?: boolean };
+
+const nameOf = (user: SessionUser | PublicUser) => user.fullName || user.username;
+
+const lineAmount = (item: OrderItem) => (parseFloat(item.price) * item.quantity).toFixed(2);
+
+// Writes off what the recipe used for a line the kitchen may already have cooked
+async function logRecipeWastage(storage: IStorage, item: OrderItem, user: SessionUser): Promise<Wastage[]> {
+  const usage = await storage.getInventoryUsage([item]);
+  const wastage: Wastage[] = [];
+  for (const { inventoryItemId, quantity } of usage) {
+    const inventoryItem = await storage.getInventoryItem(inventoryItemId);
+    if (!inventoryItem || quantity <= 0) continue;
+    wastage.push(
+      await storage.createWastage({
+        inventoryItemId,
+        quantity: quantity.toString(),
+        unit: inventoryItem.unit,
+        reason: "Voided item",
+        reportedBy: nameOf(user),
+        notes: `${item.quantity} × ${item.name} voided on order #${item.orderId.slice(-6).toUpperCase()}`,
+      }, { by: user.id, byName: nameOf(user) }),
+    );
+  }
+  return wastage;
+}
+
+/**
+ * Takes a line off the bill and keeps a record of it. The line stays on the
+ * order marked voided, so the kitchen figures and the audit trail still see
+ * it. Lines not yet sent come off with just a reason; once the kitchen has
+ * the line it needs void rights or a manager's PIN, every KOT it went out on
+ * gets a void ticket, and the recipe can be written off as wastage.
+ */
+export async function voidOrderItem(
+  storage: IStorage,
+  item: OrderItem,
+  request: VoidItemRequest,
+  user: SessionUser,
+  broadcast: Broadcast,
+): Promise<AdjustmentResult<{ kots: Kot[]; wastage: Wastage[] }>> {
+  const order = await storage.getOrder(item.orderId);
+  if (!order) {
+    return { ok: false, error: "Order not found" };
+  }
+  if (isSettled(order)) {
+    return { ok: false, error: "The order has already been settled" };
+  }
+  if (item.voided) {
+    return { ok: false, error: "This item has already been voided" };
+  }
+  const afterKot = !!item.sentAt;
+  if (request.logWastage && !afterKot) {
+    return { ok: false, error: "Only items sent to the kitchen can be written off as wastage" };
+  }
+
+  let approver: PublicUser | null = null;
+  if (afterKot) {
+    const authorisation = await authoriseVoid(user, request.managerPin);
+    if (!authorisation.allowed) {
+      return { ok: false, error: authorisation.error, requiresApproval: true };
+    }
+    approver = authorisation.approver;
+  }
+
+  const voided = await storage.voidOrderItem(item.id, {
+    reasonCode: request.reasonCode,
+    byName: nameOf(user),
+    approvedByName: approver ? nameOf(approver) : null,
+    at: new Date(),
+  });
+  if (!voided) {
+    return { ok: false, error: "This item has already been voided" };
+  }
+  await refreshOrderTotal(storage, item.orderId);
+
+  const kots = afterKot ? await voidKotLines(storage, item, user) : [];
+  const wastage = request.logWastage ? await logRecipeWastage(storage, item, user) : [];
+
+  const adjustment = await storage.createItemAdjustment({
+    kind: "void",
+    orderId: item.orderId,
+    orderItemId: item.id,
+    menuItemId: item.menuItemId,
+    name: item.name,
+    quantity: item.quantity,
+    amount: lineAmount(item),
+    afterKot,
+    reasonCode: request.reasonCode,
+    note: request.note || null,
+    by: user.id,
+    byName: nameOf(user),
+    approvedBy: approver?.id ?? null,
+    approvedByName: approver ? nameOf(approver) : null,
+    wastageIds: wastage.map((entry) => entry.id),
+  });
+
+  if (kots.length > 0) {
+    broadcast("kot_created", { orderId: item.orderId, kots });
+  }
+  for (const entry of wastage) {
+    broadcast("wastage_created", entry);
+  }
+  if (wastage.length > 0) {
+    broadcast("inventory_updated", { orderItemId: item.id });
+  }
+  broadcast("order_item_updated", voided);
+  broadcast("item_adjustment_created", adjustment);
+  return { ok: true, adjustment, kots, wastage };
+}
+
+/**
+ * Gives a line away: it stays on the order and the kitchen carries on with
+ * it, but it is priced at zero from now on. Comps always need void rights
+ * or a manager's PIN, sent or not.
+ */
+export async function compOrderItem(
+  storage: IStorage,
+  item: OrderItem,
+  request: CompItemRequest,
+  user: SessionUser,
+  broadcast: Broadcast,
+): Promise<AdjustmentResult<{ item: OrderItem }>> {
+  const order = await storage.getOrder(item.orderId);
+  if (!order) {
+    return { ok: false, error: "Order not found" };
+  }
+  if (isSettled(order)) {
+    return { ok: false, error: "The order has already been settled" };
+  }
+  if (item.voided) {
+    return { ok: false, error: "This item has been voided" };
+  }
+  if (item.comp) {
+    return { ok: false, error: "This item is already complimentary" };
+  }
+
+  const authorisation = await authoriseVoid(user, request.managerPin);
+  if (!authorisation.allowed) {
+    return { ok: false, error: authorisation.error, requiresApproval: true };
+  }
+  const { approver } = authorisation;
+
+  const updated = await storage.compOrderItem(item.id, {
+    reasonCode: request.reasonCode,
+    originalPrice: item.price,
+    byName: nameOf(user),
+    approvedByName: approver ? nameOf(approver) : null,
+  });
+  if (!updated) {
+    return { ok: false, error: "This item is already complimentary" };
+  }
+  await refreshOrderTotal(storage, item.orderId);
+
+  const adjustment = await storage.createItemAdjustment({
+    kind: "comp",
+    orderId: item.orderId,
+    orderItemId: item.id,
+    menuItemId: item.menuItemId,
+    name: item.name,
+    quantity: item.quantity,
+    amount: lineAmount(item),
+    afterKot: !!item.sentAt,
+    reasonCode: request.reasonCode,
+    note: request.note || null,
+    by: user.id,
+    byName: nameOf(user),
+    approvedBy: approver?.id ?? null,
+    approvedByName: approver ? nameOf(approver) : null,
+    wastageIds: [],
+  });
+
+  broadcast("order_item_updated", updated);
+  broadcast("item_adjustment_created", adjustment);
+  return { ok: true, adjustment, item: updated };
+}
+
+export async function getVoidReport(storage: IStorage, from: Date, to: Date): Promise<VoidReport> {
+  return buildVoidReport(await storage.getItemAdjustments(from, to), { from, to });
+}
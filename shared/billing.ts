@@ -0,0 +1,365 @@
+import type {
+  TaxProfile,
+  TaxBreakdownLine,
+  InvoiceSeriesSettings,
+  Invoice,
+  CreditNote,
+  CreditNoteLine,
+  DiscountRule,
+  InvoiceDiscount,
+  InvoicePromotion,
+  OrderItemComponent,
+  OrderItemModifier,
+} from "./schema";
+import { calculateTax, parseTaxBreakdown, type TaxableLine } from "./tax";
+import type { AppliedPromotion } from "./promotions";
+
+// The figures printed on an invoice or credit note
+export interface BillTotals {
+  subtotal: number;
+  discount: number;
+  charges: number;
+  taxes: number;
+  taxBreakdown: TaxBreakdownLine[];
+  roundOff: number;
+  total: number;
+}
+
+// The complete bill for a set of lines. Computed by the same function in the
+// cart preview and on the server, so the two can never disagree.
+export interface BillBreakdown extends BillTotals {
+  // Menu-price value taken off by each line's own discount, in line order
+  itemDiscounts: number[];
+  // Offers and coupon as actually applied, and their total on each line
+  promotions: AppliedPromotion[];
+  promotionDiscounts: number[];
+  // Menu-price value taken off by the order discount, and its share of each line
+  orderDiscount: number;
+  orderDiscountShares: number[];
+}
+
+export interface BillLine extends TaxableLine {
+  discount?: DiscountRule | null;
+}
+
+export interface BillOptions {
+  orderDiscount?: DiscountRule | null;
+  promotions?: AppliedPromotion[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// A discount never takes a line (or the order) below zero
+export function discountAmount(discount: DiscountRule | null | undefined, base: number): number {
+  if (!discount || base <= 0) {
+    return 0;
+  }
+  const amount = discount.type === "percent" ? (base * discount.value) / 100 : discount.value;
+  return round2(Math.min(Math.max(amount, 0), base));
+}
+
+// The discount as a share of what it applies to, used for role limits
+export function discountPercent(discount: DiscountRule, base: number): number {
+  if (discount.type === "percent") {
+    return discount.value;
+  }
+  return base > 0 ? Math.min((discount.value / base) * 100, 100) : 100;
+}
+
+export function parseDiscount<T extends DiscountRule>(json: string | null | undefined): T | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Item discounts come off their own line first, then offers and the coupon,
+ * then the order discount is spread over what is left in proportion to each
+ * line's value. Tax is charged on what the customer actually pays, so each
+ * line is re-priced before the tax engine sees it.
+ *
+ * Bills are settled in whole rupees; the difference is shown as a round-off
+ * line rather than silently dropped.
+ */
+export function calculateBill(
+  lines: BillLine[],
+  profiles: TaxProfile[],
+  { orderDiscount, promotions: requestedPromotions = [] }: BillOptions = {},
+): BillBreakdown {
+  const undiscounted = calculateTax(lines, profiles);
+
+  const itemDiscounts = lines.map((line) => discountAmount(line.discount, line.price * line.quantity));
+  const afterItems = lines.map((line, index) => line.price * line.quantity - itemDiscounts[index]);
+
+  // Promotions that overlap on a line are scaled back so the line never goes below zero
+  const requested = lines.map((_, index) =>
+    requestedPromotions.reduce((sum, promotion) => sum + (promotion.lineAmounts[index] ?? 0), 0),
+  );
+  const promotionDiscounts = requested.map((amount, index) => round2(Math.min(amount, afterItems[index])));
+  const promotions = requestedPromotions.map((promotion) => {
+    const lineAmounts = lines.map((_, index) =>
+      requested[index] > 0 ? round2(((promotion.lineAmounts[index] ?? 0) * promotionDiscounts[index]) / requested[index]) : 0,
+    );
+    return { ...promotion, lineAmounts, amount: round2(lineAmounts.reduce((sum, value) => sum + value, 0)) };
+  });
+  const afterPromotions = afterItems.map((value, index) => value - promotionDiscounts[index]);
+
+  const base = afterPromotions.reduce((sum, value) => sum + value, 0);
+  const orderAmount = discountAmount(orderDiscount, round2(base));
+  const orderDiscountShares = afterPromotions.map((value) => (base > 0 ? round2((orderAmount * value) / base) : 0));
+
+  const tax = calculateTax(
+    lines.map((line, index) => ({
+      price: afterPromotions[index] - orderDiscountShares[index],
+      quantity: 1,
+      category: line.category,
+      taxProfileId: line.taxProfileId,
+    })),
+    profiles,
+  );
+
+  // Kept net of tax so that subtotal - discount is the taxable value
+  const discount = round2(undiscounted.subtotal - tax.subtotal);
+  const beforeRounding = round2(undiscounted.subtotal - discount + tax.chargeTotal + tax.taxTotal);
+  const total = Math.round(beforeRounding);
+
+  return {
+    subtotal: undiscounted.subtotal,
+    discount,
+    charges: tax.chargeTotal,
+    taxes: tax.taxTotal,
+    taxBreakdown: tax.breakdown,
+    roundOff: round2(total - beforeRounding),
+    total,
+    itemDiscounts,
+    promotions,
+    promotionDiscounts,
+    orderDiscount: orderAmount,
+    orderDiscountShares,
+  };
+}
+
+export function formatRoundOff(roundOff: number | string): string {
+  const value = typeof roundOff === "string" ? parseFloat(roundOff) : roundOff;
+  return `${value > 0 ? "+" : "-"}₹${Math.abs(value).toFixed(2)}`;
+}
+
+export const defaultInvoiceSeries: InvoiceSeriesSettings = {
+  outletCode: "A",
+  prefixFormat: "FY{FY}/{OUTLET}/",
+  digits: 6,
+  fiscalYearStartMonth: 4,
+};
+
+/**
+ * Short fiscal year label for a date, e.g. "26-27" for any date from
+ * 1 April 2026 to 31 March 2027 when the year starts in April.
+ */
+export function fiscalYearLabel(date: Date, startMonth: number): string {
+  const startYear = date.getMonth() + 1 >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+  const short = (year: number) => String(year % 100).padStart(2, "0");
+  return startMonth === 1 ? short(startYear) : `${short(startYear)}-${short(startYear + 1)}`;
+}
+
+export function invoiceSeriesPrefix(settings: InvoiceSeriesSettings, date: Date): string {
+  return settings.prefixFormat
+    .replace(/\{FY\}/g, fiscalYearLabel(date, settings.fiscalYearStartMonth))
+    .replace(/\{OUTLET\}/g, settings.outletCode);
+}
+
+export function formatInvoiceNumber(prefix: string, sequence: number, digits: number): string {
+  return `${prefix}${String(sequence).padStart(digits, "0")}`;
+}
+
+export interface InvoiceLine {
+  menuItemId?: string;
+  name: string;
+  quantity: number;
+  price: number;
+  // Item and order discount taken off the whole line, at menu prices
+  discountAmount?: number;
+  isVeg?: boolean;
+  // Options the line was ordered with; price already includes them
+  modifiers?: OrderItemModifier[];
+  // For combos, with each component's share of the price
+  components?: OrderItemComponent[];
+  // Set on a guest's invoice when the line was shared on an item-wise split: the part of each unit billed here
+  share?: number;
+}
+
+export interface CreditCalculation {
+  lines: CreditNoteLine[];
+  bill: BillTotals;
+  // True when this note leaves nothing on the invoice to credit
+  final: boolean;
+}
+
+// Invoices that book a sale. A cancelled one still counts, since its credit notes take it back out;
+// proformas (saved, billed or superseded printouts) never do.
+export const SETTLED_INVOICE_STATUSES = ["Paid", "Partially Credited", "Cancelled"];
+
+export const isSettledInvoice = (invoice: Pick<Invoice, "status">) => SETTLED_INVOICE_STATUSES.includes(invoice.status);
+
+export function parseInvoiceLines(invoice: Pick<Invoice, "items">): InvoiceLine[] {
+  return JSON.parse(invoice.items) as InvoiceLine[];
+}
+
+export function parseInvoiceDiscounts(invoice: Pick<Invoice, "discounts">): InvoiceDiscount[] {
+  return invoice.discounts ? (JSON.parse(invoice.discounts) as InvoiceDiscount[]) : [];
+}
+
+export function parseInvoicePromotions(invoice: Pick<Invoice, "promotions">): InvoicePromotion[] {
+  return invoice.promotions ? (JSON.parse(invoice.promotions) as InvoicePromotion[]) : [];
+}
+
+/**
+ * Quantity of each invoice line (by index) still available to credit after
+ * the given credit notes.
+ */
+export function remainingCreditQuantities(invoice: Pick<Invoice, "items">, creditNotes: CreditNote[]): number[] {
+  const remaining = parseInvoiceLines(invoice).map((line) => line.quantity);
+  for (const note of creditNotes) {
+    for (const line of JSON.parse(note.items) as CreditNoteLine[]) {
+      remaining[line.index] -= line.quantity;
+    }
+  }
+  return remaining;
+}
+
+function figuresOf(document: Pick<Invoice, "subtotal" | "discount" | "tax" | "total" | "taxBreakdown"> & { roundOff: string | null }): BillTotals {
+  const taxBreakdown = parseTaxBreakdown(document.taxBreakdown);
+  return {
+    subtotal: parseFloat(document.subtotal),
+    discount: parseFloat(document.discount || "0"),
+    charges: round2(taxBreakdown.filter((line) => line.kind === "charge").reduce((sum, line) => sum + line.amount, 0)),
+    taxes: parseFloat(document.tax),
+    taxBreakdown,
+    roundOff: parseFloat(document.roundOff || "0"),
+    total: parseFloat(document.total),
+  };
+}
+
+/**
+ * Prices a credit note against the invoice's own figures rather than today's
+ * tax profiles, so a refund always reverses exactly what was charged. Partial
+ * notes are pro-rated by line value; the note that clears the invoice takes
+ * whatever is left, which keeps the credited total equal to the invoice total
+ * to the paisa.
+ */
+export function calculateCredit(
+  invoice: Invoice,
+  requested: Array<{ index: number; quantity: number }> | undefined,
+  previousNotes: CreditNote[],
+): CreditCalculation {
+  const invoiceLines = parseInvoiceLines(invoice);
+  const remaining = remainingCreditQuantities(invoice, previousNotes);
+
+  const quantities = new Map<number, number>();
+  if (requested) {
+    for (const line of requested) {
+      if (!invoiceLines[line.index]) {
+        throw new Error(`Invoice has no line ${line.index + 1}`);
+      }
+      quantities.set(line.index, (quantities.get(line.index) ?? 0) + line.quantity);
+    }
+  } else {
+    remaining.forEach((quantity, index) => {
+      if (quantity > 0) quantities.set(index, quantity);
+    });
+  }
+
+  const lines: CreditNoteLine[] = [];
+  quantities.forEach((quantity, index) => {
+    const invoiceLine = invoiceLines[index];
+    if (quantity > remaining[index]) {
+      throw new Error(`Only ${remaining[index]} of ${invoiceLine.name} left to credit`);
+    }
+    lines.push({
+      index,
+      menuItemId: invoiceLine.menuItemId,
+      name: invoiceLine.name,
+      quantity,
+      price: invoiceLine.price,
+      modifiers: invoiceLine.modifiers,
+      components: invoiceLine.components,
+      share: invoiceLine.share,
+    });
+  });
+  lines.sort((a, b) => a.index - b.index);
+
+  if (lines.length === 0) {
+    throw new Error("Nothing left to credit on this invoice");
+  }
+
+  const final = remaining.every((quantity, index) => quantity === (quantities.get(index) ?? 0));
+  const invoiced = figuresOf(invoice);
+
+  if (final) {
+    // Whatever earlier notes did not already reverse
+    const credited = previousNotes.map(figuresOf);
+    const less = (pick: (figures: BillTotals) => number) =>
+      round2(pick(invoiced) - credited.reduce((sum, figures) => sum + pick(figures), 0));
+    const lineAmount = (figures: BillTotals, line: TaxBreakdownLine, field: "taxableAmount" | "amount") =>
+      figures.taxBreakdown.find((l) => l.kind === line.kind && l.code === line.code && l.rate === line.rate)?.[field] ?? 0;
+
+    return {
+      lines,
+      final,
+      bill: {
+        subtotal: less((f) => f.subtotal),
+        discount: less((f) => f.discount),
+        charges: less((f) => f.charges),
+        taxes: less((f) => f.taxes),
+        taxBreakdown: invoiced.taxBreakdown.map((line) => ({
+          ...line,
+          taxableAmount: less((f) => lineAmount(f, line, "taxableAmount")),
+          amount: less((f) => lineAmount(f, line, "amount")),
+        })),
+        roundOff: less((f) => f.roundOff),
+        total: less((f) => f.total),
+      },
+    };
+  }
+
+  // What the customer paid for a quantity of an invoice line, after its discounts
+  const paidFor = (index: number, quantity: number) => {
+    const line = invoiceLines[index];
+    return (line.price * line.quantity - (line.discountAmount ?? 0)) * (quantity / line.quantity);
+  };
+  const invoiceValue = invoiceLines.reduce((sum, line, index) => sum + paidFor(index, line.quantity), 0);
+  const ratio = invoiceValue > 0
+    ? lines.reduce((sum, line) => sum + paidFor(line.index, line.quantity), 0) / invoiceValue
+    : 0;
+
+  const taxBreakdown = invoiced.taxBreakdown.map((line) => ({
+    ...line,
+    taxableAmount: round2(line.taxableAmount * ratio),
+    amount: round2(line.amount * ratio),
+  }));
+  const subtotal = round2(invoiced.subtotal * ratio);
+  const discount = round2(invoiced.discount * ratio);
+  const charges = round2(taxBreakdown.filter((line) => line.kind === "charge").reduce((sum, line) => sum + line.amount, 0));
+  // Invoices issued before tax profiles only carry the combined tax figure
+  const taxes = invoiced.taxBreakdown.length > 0
+    ? round2(taxBreakdown.filter((line) => line.kind === "tax").reduce((sum, line) => sum + line.amount, 0))
+    : round2(invoiced.taxes * ratio);
+
+  return {
+    lines,
+    final,
+    bill: {
+      subtotal,
+      discount,
+      charges,
+      taxes,
+      taxBreakdown,
+      roundOff: 0,
+      total: round2(subtotal - discount + charges + taxes),
+    },
+  };
+}
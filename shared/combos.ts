@@ -0,0 +1,109 @@
+import type { ComboChoice, MenuItem, OrderItemComponent } from "./schema";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const isCombo = (menuItem: Pick<MenuItem, "comboComponents">) => (menuItem.comboComponents ?? []).length > 0;
+
+/**
+ * Builds the components of one combo as ordered: applies the guest's swaps and
+ * splits `unitPrice` across the components in proportion to their own menu
+ * prices, so each component's revenue can be reported separately.
+ */
+export function resolveComboComponents(
+  combo: Pick<MenuItem, "name" | "comboComponents">,
+  menuItems: MenuItem[],
+  choices: ComboChoice[],
+  unitPrice: number,
+): { components: OrderItemComponent[] } | { error: string } {
+  const menuById = new Map(menuItems.map((item) => [item.id, item]));
+  const slots = combo.comboComponents ?? [];
+  const picked: Array<{ item: MenuItem; quantity: number }> = [];
+
+  for (const choice of choices) {
+    if (!slots[choice.index]) {
+      return { error: `${combo.name} has no component ${choice.index + 1}` };
+    }
+  }
+
+  for (let index = 0; index < slots.length; index++) {
+    const slot = slots[index];
+    const menuItemId = choices.find((choice) => choice.index === index)?.menuItemId ?? slot.menuItemId;
+    if (menuItemId !== slot.menuItemId && !slot.choices.includes(menuItemId)) {
+      return { error: `That swap is not offered in ${combo.name}` };
+    }
+    const item = menuById.get(menuItemId);
+    if (!item) {
+      return { error: `A component of ${combo.name} is no longer on the menu` };
+    }
+    if (!item.available) {
+      return { error: `${item.name} is unavailable; swap it for another choice` };
+    }
+    picked.push({ item, quantity: slot.quantity });
+  }
+
+  // Menu prices weight the split; fall back to quantities if every component is free
+  const weights = picked.map(({ item, quantity }) => parseFloat(item.price) * quantity);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = totalWeight > 0 ? weights : picked.map(({ quantity }) => quantity);
+  const totalShares = shares.reduce((sum, share) => sum + share, 0);
+
+  let allocated = 0;
+  const components = picked.map(({ item, quantity }, index) => {
+    // The last component takes the rounding remainder so the split adds up exactly
+    const allocatedPrice =
+      index === picked.length - 1 ? round2(unitPrice - allocated) : round2((unitPrice * shares[index]) / totalShares);
+    allocated = round2(allocated + allocatedPrice);
+    return { menuItemId: item.id, name: item.name, quantity, isVeg: item.isVeg, allocatedPrice };
+  });
+
+  return { components };
+}
+
+/**
+ * Splits revenue taken on a combo line across its components in the same
+ * proportions the order allocated its price.
+ */
+export function splitComboRevenue(components: OrderItemComponent[], amount: number): number[] {
+  const total = components.reduce((sum, component) => sum + component.allocatedPrice, 0);
+  if (total === 0) {
+    return components.map(() => round2(amount / components.length));
+  }
+  return components.map((component) => round2((amount * component.allocatedPrice) / total));
+}
+
+export function formatComponents(components: Pick<OrderItemComponent, "name" | "quantity">[] | null | undefined): string {
+  return (components ?? [])
+    .map((component) => (component.quantity > 1 ? `${component.quantity} × ${component.name}` : component.name))
+    .join(", ");
+}
+
+// Cart lines for the same combo only merge when the same swaps were made
+export function sameComponents(
+  a: Pick<OrderItemComponent, "menuItemId">[] | null | undefined,
+  b: Pick<OrderItemComponent, "menuItemId">[] | null | undefined,
+): boolean {
+  const key = (components: Pick<OrderItemComponent, "menuItemId">[] | null | undefined) =>
+    (components ?? []).map((component) => component.menuItemId).join("|");
+  return key(a) === key(b);
+}
+
+// Combos are one level deep: components and their swaps must be plain menu items
+export function checkComboDefinition(
+  comboId: string | null,
+  components: Array<{ menuItemId: string; choices: string[] }>,
+  menuItems: MenuItem[],
+): string | null {
+  const menuById = new Map(menuItems.map((item) => [item.id, item]));
+  for (const component of components) {
+    for (const menuItemId of [component.menuItemId, ...component.choices]) {
+      const item = menuById.get(menuItemId);
+      if (!item || menuItemId === comboId) {
+        return "Combo components must be other menu items";
+      }
+      if (isCombo(item)) {
+        return `${item.name} is itself a combo and cannot be part of another`;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,32 @@
+// Courses a server can put a line in; numbers beyond the named ones are still accepted
+export const COURSE_NAMES = ["Starters", "Mains", "Desserts"] as const;
+
+export const courseLabel = (course: number | null | undefined) =>
+  course ? COURSE_NAMES[course - 1] ?? `Course ${course}` : "No course";
+
+export interface CourseGroup<T> {
+  course: number | null;
+  items: T[];
+}
+
+/**
+ * Lines grouped by course, in the order they are served. Lines without a
+ * course come first since they go out with the first send, and within a
+ * course the lines keep their order on the ticket.
+ */
+export function groupByCourse<T extends { course?: number | null }>(items: T[]): CourseGroup<T>[] {
+  const groups: CourseGroup<T>[] = [];
+  for (const item of items) {
+    const course = item.course ?? null;
+    const group = groups.find((existing) => existing.course === course);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.push({ course, items: [item] });
+    }
+  }
+  return groups.sort((a, b) => (a.course ?? 0) - (b.course ?? 0));
+}
+
+// Whether a ticket needs course headings at all; a ticket with a single unsequenced group reads as before
+export const hasCourses = (items: { course?: number | null }[]) => items.some((item) => item.course);
@@ -0,0 +1,133 @@
+import type { KitchenSlaSettings, KitchenSlaThreshold, Order, OrderItem } from "./schema";
+import { linesForStation } from "./stations";
+
+// Order statuses behind each status filter of the kitchen display feed
+export const KDS_STATUS_GROUPS = {
+  // In the kitchen or waiting to be settled
+  active: ["sent_to_kitchen", "ready_to_bill", "billed"],
+  completed: ["paid", "completed"],
+  // Everything still holding a table, including orders saved but not yet sent
+  open: ["saved", "sent_to_kitchen", "ready_to_bill", "billed"],
+} as const;
+
+export type KdsStatus = keyof typeof KDS_STATUS_GROUPS;
+
+export const isKdsStatus = (value: unknown): value is KdsStatus =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(KDS_STATUS_GROUPS, value);
+
+export interface KdsTicket {
+  order: Order;
+  items: OrderItem[];
+  tableNumber: string | null;
+  floorName: string | null;
+}
+
+export interface KdsFilter {
+  status: KdsStatus;
+  // Station id or MAIN_KITCHEN; omitted for every station
+  station?: string;
+}
+
+/**
+ * Pushed over the WebSocket whenever an order or its items change. The ticket
+ * is unfiltered so each screen applies its own filter; null means the order
+ * is gone.
+ */
+export interface KdsPatch {
+  orderId: string;
+  ticket: KdsTicket | null;
+}
+
+export const kdsQueryUrl = ({ status, station }: KdsFilter) =>
+  `/api/kds?status=${status}${station ? `&station=${encodeURIComponent(station)}` : ""}`;
+
+/**
+ * The ticket as a screen with this filter sees it, or null when nothing on it
+ * belongs there. Held lines stay off every screen until their course is fired.
+ */
+export function filterKdsTicket(ticket: KdsTicket, { status, station }: KdsFilter): KdsTicket | null {
+  if (!(KDS_STATUS_GROUPS[status] as readonly string[]).includes(ticket.order.status)) {
+    return null;
+  }
+  const released = ticket.items.filter((item) => item.status !== "hold");
+  const items = station
+    ? linesForStation(released, station).map(({ item, components }) => ({ ...item, components }))
+    : released;
+  return items.length > 0 ? { ...ticket, items } : null;
+}
+
+// Replaces, inserts or drops the patched order, keeping the feed in order of creation
+export function applyKdsPatch(feed: KdsTicket[], patch: KdsPatch, filter: KdsFilter): KdsTicket[] {
+  const rest = feed.filter((ticket) => ticket.order.id !== patch.orderId);
+  const ticket = patch.ticket ? filterKdsTicket(patch.ticket, filter) : null;
+  if (!ticket) {
+    return rest;
+  }
+  const time = (t: KdsTicket) => new Date(t.order.createdAt).getTime();
+  const index = rest.findIndex((other) => time(other) > time(ticket));
+  return index === -1 ? [...rest, ticket] : [...rest.slice(0, index), ticket, ...rest.slice(index)];
+}
+
+export const defaultKitchenSla: KitchenSlaSettings = {
+  warnMinutes: 10,
+  lateMinutes: 20,
+  categories: [],
+};
+
+export type SlaLevel = "ok" | "warn" | "late";
+
+const slaRank: Record<SlaLevel, number> = { ok: 0, warn: 1, late: 2 };
+
+export const worstSlaLevel = (levels: SlaLevel[]): SlaLevel =>
+  levels.reduce<SlaLevel>((worst, level) => (slaRank[level] > slaRank[worst] ? level : worst), "ok");
+
+export function slaThreshold(settings: KitchenSlaSettings, category: string | undefined): KitchenSlaThreshold {
+  return settings.categories.find((override) => override.category === category) ?? settings;
+}
+
+export function slaLevel(elapsedSeconds: number, threshold: KitchenSlaThreshold): SlaLevel {
+  const minutes = elapsedSeconds / 60;
+  return minutes >= threshold.lateMinutes ? "late" : minutes >= threshold.warnMinutes ? "warn" : "ok";
+}
+
+// Lines still being worked on: everything not yet ready or served
+export const isPendingLine = (item: Pick<OrderItem, "status">) => item.status === "new" || item.status === "preparing";
+
+// A line's clock starts when it went to the kitchen; lines from before KOT records count from the order
+export const kitchenStart = (item: Pick<OrderItem, "sentAt">, order: Pick<Order, "createdAt">) =>
+  new Date(item.sentAt ?? order.createdAt).getTime();
+
+export interface LineTiming {
+  elapsedSeconds: number;
+  level: SlaLevel;
+}
+
+export interface TicketTiming {
+  // Keyed by order item id, for the lines still cooking
+  lines: Record<string, LineTiming>;
+  // Age of the oldest line still cooking; null once everything is ready
+  elapsedSeconds: number | null;
+  level: SlaLevel;
+}
+
+// A ticket is as old, and as late, as its worst line still in the kitchen
+export function ticketTiming(
+  order: Pick<Order, "createdAt">,
+  items: OrderItem[],
+  now: number,
+  thresholdFor: (item: OrderItem) => KitchenSlaThreshold,
+): TicketTiming {
+  const lines: Record<string, LineTiming> = {};
+  let elapsedSeconds: number | null = null;
+  for (const item of items.filter(isPendingLine)) {
+    const elapsed = (now - kitchenStart(item, order)) / 1000;
+    lines[item.id] = { elapsedSeconds: elapsed, level: slaLevel(elapsed, thresholdFor(item)) };
+    elapsedSeconds = Math.max(elapsedSeconds ?? 0, elapsed);
+  }
+  return { lines, elapsedSeconds, level: worstSlaLevel(Object.values(lines).map((line) => line.level)) };
+}
+
+export function formatElapsed(seconds: number): string {
+  const clamped = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(clamped / 60)}:${String(clamped % 60).padStart(2, "0")}`;
+}
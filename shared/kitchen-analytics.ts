@@ -0,0 +1,155 @@
+import type { KitchenSlaSettings, KitchenStation, MenuItem, OrderItem } from "./schema";
+import { slaThreshold } from "./kds";
+import { stationName } from "./stations";
+
+// Prep times in seconds over a group of lines
+export interface PrepTimeStats {
+  count: number;
+  average: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  // Lines that took longer than the red SLA threshold for their category
+  late: number;
+}
+
+export interface ItemPrepStats extends PrepTimeStats {
+  menuItemId: string;
+  name: string;
+}
+
+export interface StationPrepStats extends PrepTimeStats {
+  stationId: string | null;
+  name: string;
+}
+
+export interface HourPrepStats extends PrepTimeStats {
+  // 0-23, in the server's local time
+  hour: number;
+}
+
+export interface KitchenAnalytics {
+  from: string;
+  to: string;
+  overall: PrepTimeStats;
+  // Lines sent in the period that have not been made ready yet
+  pending: number;
+  // Lines sent in the period and voided before they were made ready
+  voided: number;
+  byItem: ItemPrepStats[];
+  byStation: StationPrepStats[];
+  byHour: HourPrepStats[];
+  slowest: ItemPrepStats[];
+}
+
+interface PrepSample {
+  item: OrderItem;
+  seconds: number;
+  late: boolean;
+}
+
+const SLOWEST_LIMIT = 10;
+// A dish needs a few samples before it is ranked among the slowest
+const SLOWEST_MIN_COUNT = 3;
+
+const timeOf = (date: Date | string) => new Date(date).getTime();
+
+/**
+ * How long the kitchen took over a line: from the KOT to the last time it
+ * was marked ready (a recall followed by a second bump counts the second),
+ * or to being served if it skipped ready. Null while it is still cooking.
+ */
+export function prepSeconds(item: OrderItem): number | null {
+  if (!item.sentAt) {
+    return null;
+  }
+  const history = item.statusHistory ?? [];
+  const ready = history.filter((change) => change.status === "ready").pop();
+  const done = ready ?? history.find((change) => change.status === "served");
+  return done ? Math.max(0, (timeOf(done.at) - timeOf(item.sentAt)) / 1000) : null;
+}
+
+// Nearest-rank percentile of values already sorted ascending
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function statsOf(samples: PrepSample[]): PrepTimeStats {
+  const sorted = samples.map((sample) => sample.seconds).sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    average: sorted.length > 0 ? sorted.reduce((total, seconds) => total + seconds, 0) / sorted.length : 0,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    late: samples.filter((sample) => sample.late).length,
+  };
+}
+
+function groupBy<K>(samples: PrepSample[], keyOf: (sample: PrepSample) => K): Array<[K, PrepSample[]]> {
+  const groups = new Map<K, PrepSample[]>();
+  for (const sample of samples) {
+    const key = keyOf(sample);
+    groups.set(key, [...(groups.get(key) ?? []), sample]);
+  }
+  return Array.from(groups.entries());
+}
+
+export function buildKitchenAnalytics(
+  items: OrderItem[],
+  { from, to, menuItems, stations, sla }: {
+    from: Date;
+    to: Date;
+    menuItems: MenuItem[];
+    stations: KitchenStation[];
+    sla: KitchenSlaSettings;
+  },
+): KitchenAnalytics {
+  const categories = new Map(menuItems.map((menuItem) => [menuItem.id, menuItem.category]));
+  const samples: PrepSample[] = [];
+  let pending = 0;
+  let voided = 0;
+  for (const item of items) {
+    // Lines from before status history was kept can't be timed either way
+    if (!item.statusHistory?.length) {
+      continue;
+    }
+    const seconds = prepSeconds(item);
+    if (seconds === null) {
+      if (item.voided) {
+        voided++;
+      } else {
+        pending++;
+      }
+      continue;
+    }
+    const { lateMinutes } = slaThreshold(sla, categories.get(item.menuItemId));
+    samples.push({ item, seconds, late: seconds >= lateMinutes * 60 });
+  }
+
+  const byItem = groupBy(samples, (sample) => sample.item.menuItemId)
+    .map(([menuItemId, group]) => ({ menuItemId, name: group[0].item.name, ...statsOf(group) }))
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    overall: statsOf(samples),
+    pending,
+    voided,
+    byItem,
+    byStation: groupBy(samples, (sample) => sample.item.stationId)
+      .map(([stationId, group]) => ({ stationId, name: stationName(stationId, stations), ...statsOf(group) }))
+      .sort((a, b) => b.count - a.count),
+    byHour: groupBy(samples, (sample) => new Date(sample.item.sentAt!).getHours())
+      .map(([hour, group]) => ({ hour, ...statsOf(group) }))
+      .sort((a, b) => a.hour - b.hour),
+    slowest: byItem
+      .filter((item) => item.count >= SLOWEST_MIN_COUNT)
+      .sort((a, b) => b.p50 - a.p50)
+      .slice(0, SLOWEST_LIMIT),
+  };
+}
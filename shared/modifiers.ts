@@ -0,0 +1,81 @@
+import type { ModifierGroup, ModifierSelection, OrderItemModifier } from "./schema";
+
+// Shared by the POS modifier picker and the order-item route so both enforce the same rules
+
+export function describeSelectionRule(group: Pick<ModifierGroup, "minSelect" | "maxSelect">): string {
+  if (group.minSelect === 0) {
+    return group.maxSelect === 1 ? "Optional" : `Optional, up to ${group.maxSelect}`;
+  }
+  if (group.minSelect === group.maxSelect) {
+    return group.minSelect === 1 ? "Required" : `Choose ${group.minSelect}`;
+  }
+  return `Choose ${group.minSelect} to ${group.maxSelect}`;
+}
+
+/**
+ * Turns the options picked for a menu item into order-line modifiers, checking
+ * each of the item's groups gets between its minimum and maximum selections.
+ */
+export function resolveModifiers(
+  groups: ModifierGroup[],
+  selections: ModifierSelection[],
+): { modifiers: OrderItemModifier[] } | { error: string } {
+  const groupsById = new Map(groups.map((group) => [group.id, group]));
+  const modifiers: OrderItemModifier[] = [];
+  const seen = new Set<string>();
+
+  for (const selection of selections) {
+    const group = groupsById.get(selection.groupId);
+    const option = group?.options.find((o) => o.id === selection.optionId);
+    if (!group || !option) {
+      return { error: "Selected modifier is not offered for this item" };
+    }
+    const key = `${group.id}:${option.id}`;
+    if (seen.has(key)) {
+      return { error: `${option.name} was selected twice` };
+    }
+    seen.add(key);
+    modifiers.push({
+      groupId: group.id,
+      groupName: group.name,
+      optionId: option.id,
+      name: option.name,
+      priceDelta: option.priceDelta,
+      ingredients: option.ingredients,
+      recipeMultiplier: option.recipeMultiplier,
+    });
+  }
+
+  for (const group of groups) {
+    const count = modifiers.filter((modifier) => modifier.groupId === group.id).length;
+    if (count < group.minSelect) {
+      return { error: `${group.name}: choose at least ${group.minSelect}` };
+    }
+    if (count > group.maxSelect) {
+      return { error: `${group.name}: choose at most ${group.maxSelect}` };
+    }
+  }
+
+  // Keep the menu's group order regardless of the order options were tapped in
+  const groupOrder = groups.map((group) => group.id);
+  modifiers.sort((a, b) => groupOrder.indexOf(a.groupId) - groupOrder.indexOf(b.groupId));
+  return { modifiers };
+}
+
+export function modifiersPrice(modifiers: Pick<OrderItemModifier, "priceDelta">[]): number {
+  return Math.round(modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0) * 100) / 100;
+}
+
+export function formatModifiers(modifiers: Pick<OrderItemModifier, "name">[] | null | undefined): string {
+  return (modifiers ?? []).map((modifier) => modifier.name).join(", ");
+}
+
+// Lines only merge in the cart when they carry exactly the same options
+export function sameModifiers(
+  a: Pick<OrderItemModifier, "optionId">[] | null | undefined,
+  b: Pick<OrderItemModifier, "optionId">[] | null | undefined,
+): boolean {
+  const key = (modifiers: Pick<OrderItemModifier, "optionId">[] | null | undefined) =>
+    (modifiers ?? []).map((modifier) => modifier.optionId).sort().join("|");
+  return key(a) === key(b);
+}
@@ -0,0 +1,135 @@
+import type { Order, OrderItem } from "./schema";
+
+export const ORDER_STATUSES = ["saved", "sent_to_kitchen", "ready_to_bill", "billed", "paid", "completed"] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const ORDER_ITEM_STATUSES = ["hold", "new", "preparing", "ready", "served"] as const;
+export type OrderItemStatus = typeof ORDER_ITEM_STATUSES[number];
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+  typeof value === "string" && (ORDER_STATUSES as readonly string[]).includes(value);
+
+export const isOrderItemStatus = (value: unknown): value is OrderItemStatus =>
+  typeof value === "string" && (ORDER_ITEM_STATUSES as readonly string[]).includes(value);
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  saved: "Saved",
+  sent_to_kitchen: "Sent to kitchen",
+  ready_to_bill: "Ready to bill",
+  billed: "Billed",
+  paid: "Paid",
+  completed: "Completed",
+};
+
+/**
+ * Where an order may go next. Staying put is listed where it is a real
+ * action: another KOT round on an order already in the kitchen, or a fresh
+ * bill for a billed order. More items can be sent after billing, which
+ * reopens the order. Only a paid order can be completed, so nothing is
+ * closed off without its invoice and stock deduction.
+ */
+const orderTransitions: Record<OrderStatus, readonly OrderStatus[]> = {
+  saved: ["saved", "sent_to_kitchen", "billed", "paid"],
+  sent_to_kitchen: ["sent_to_kitchen", "ready_to_bill", "billed", "paid"],
+  ready_to_bill: ["sent_to_kitchen", "ready_to_bill", "billed", "paid"],
+  billed: ["sent_to_kitchen", "billed", "paid"],
+  paid: ["completed"],
+  completed: [],
+};
+
+/**
+ * Lines move forward through the kitchen, and back one bump at a time when
+ * the display recalls them. A held line is released to new when its course
+ * is fired; only a line the kitchen has not been sent can be put on hold.
+ */
+const itemTransitions: Record<OrderItemStatus, readonly OrderItemStatus[]> = {
+  hold: ["new"],
+  new: ["hold", "preparing", "ready", "served"],
+  preparing: ["new", "ready", "served"],
+  ready: ["new", "preparing", "served"],
+  served: [],
+};
+
+// The statuses an order may move to `to` from; storage only moves orders still in one of them
+export function orderStatusesInto(to: OrderStatus): OrderStatus[] {
+  return ORDER_STATUSES.filter((from) => orderTransitions[from].includes(to));
+}
+
+export const SETTLED_ORDER_STATUSES: readonly OrderStatus[] = ["paid", "completed"];
+
+export const isSettled = (order: Pick<Order, "status">) => (SETTLED_ORDER_STATUSES as readonly string[]).includes(order.status);
+
+export type MoveCheck = { ok: true } | { ok: false; error: string; requiresOverride?: boolean };
+
+/**
+ * Lines the guest is still waiting on: held for a later course, or sent to
+ * the kitchen and not yet served. Takeaway lines count as handed over once
+ * they are ready, since nobody marks a bag as served.
+ */
+export function undeliveredItems<T extends Pick<OrderItem, "status" | "sentAt">>(
+  order: Pick<Order, "orderType">,
+  items: T[],
+): T[] {
+  const delivered: string[] = order.orderType === "dine-in" ? ["served"] : ["ready", "served"];
+  return items.filter((item) => item.status === "hold" || (item.sentAt && !delivered.includes(item.status)));
+}
+
+export function checkOrderMove(
+  order: Pick<Order, "status" | "orderType">,
+  items: Pick<OrderItem, "status" | "sentAt">[],
+  to: OrderStatus,
+  override = false,
+): MoveCheck {
+  const allowed = isOrderStatus(order.status) ? orderTransitions[order.status] : [];
+  if (!allowed.includes(to)) {
+    const from = isOrderStatus(order.status) ? orderStatusLabels[order.status] : order.status;
+    return { ok: false, error: `Cannot move an order from ${from} to ${orderStatusLabels[to]}` };
+  }
+  // Settling while the kitchen still owes the guest something needs someone to confirm it
+  if ((to === "paid" || to === "completed") && !override) {
+    const waiting = undeliveredItems(order, items).length;
+    if (waiting > 0) {
+      return {
+        ok: false,
+        error: `${waiting} ${waiting === 1 ? "item has" : "items have"} not been served yet`,
+        requiresOverride: true,
+      };
+    }
+  }
+  return { ok: true };
+}
+
+export function checkItemMove(
+  order: Pick<Order, "status">,
+  item: Pick<OrderItem, "status" | "sentAt">,
+  to: OrderItemStatus,
+): MoveCheck {
+  if (isSettled(order)) {
+    return { ok: false, error: "The order has already been settled" };
+  }
+  if (item.status === to) {
+    return { ok: true };
+  }
+  const allowed = isOrderItemStatus(item.status) ? itemTransitions[item.status] : [];
+  if (!allowed.includes(to)) {
+    return { ok: false, error: `Cannot move an item from ${item.status} to ${to}` };
+  }
+  if (to === "hold" && item.sentAt) {
+    return { ok: false, error: "The kitchen already has this item; it can no longer be held" };
+  }
+  return { ok: true };
+}
+
+// What the floor plan shows for a table, from the lines on its order
+export function tableStatusFor(items: Pick<OrderItem, "status">[]): "occupied" | "preparing" | "ready" | "served" {
+  if (items.length === 0) {
+    return "occupied";
+  }
+  if (items.every((item) => item.status === "served")) {
+    return "served";
+  }
+  if (items.every((item) => item.status === "ready" || item.status === "served")) {
+    return "ready";
+  }
+  return items.some((item) => item.status === "preparing") ? "preparing" : "occupied";
+}
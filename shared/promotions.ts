@@ -0,0 +1,205 @@
+import type { Coupon, HappyHourWindow, InvoicePromotion, Offer, PromotionRules } from "./schema";
+
+// Promotion rules are evaluated by the cart preview and by the server with the
+// same functions, so an offer the cashier sees is the offer that gets billed.
+
+export interface PromotionLine {
+  menuItemId: string;
+  category?: string | null;
+  price: number;
+  quantity: number;
+}
+
+// A promotion priced against a set of lines, with its share of each line
+export interface AppliedPromotion extends InvoicePromotion {
+  lineAmounts: number[];
+}
+
+export type PromotionCheck =
+  | { eligible: true; amount: number; lineAmounts: number[] }
+  | { eligible: false; reason: string };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Used when the server has no RESTAURANT_TIME_ZONE configured
+export const defaultTimeZone = "Asia/Kolkata";
+
+const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Day of the week and minutes past midnight on the restaurant's clock, whatever the machine's own timezone
+function restaurantClock(at: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((entry) => entry.type === type)?.value ?? "";
+  return { day: weekdays.indexOf(part("weekday")), minutes: Number(part("hour")) * 60 + Number(part("minute")) };
+}
+
+export function isWithinHappyHours(windows: HappyHourWindow[], at: Date, timeZone: string): boolean {
+  if (windows.length === 0) {
+    return true;
+  }
+  const { day, minutes } = restaurantClock(at, timeZone);
+  const previousDay = (day + 6) % 7;
+
+  return windows.some((window) => {
+    const start = minutesOf(window.start);
+    const end = minutesOf(window.end);
+    if (start <= end) {
+      return window.days.includes(day) && minutes >= start && minutes < end;
+    }
+    // After midnight still belongs to the window that opened the day before
+    return (window.days.includes(day) && minutes >= start) || (window.days.includes(previousDay) && minutes < end);
+  });
+}
+
+function isTargeted(rules: PromotionRules, line: PromotionLine): boolean {
+  if (rules.categories.length === 0 && rules.menuItemIds.length === 0) {
+    return true;
+  }
+  return rules.menuItemIds.includes(line.menuItemId) || (!!line.category && rules.categories.includes(line.category));
+}
+
+// Splits an amount over the given line values, putting the rounding remainder on the last one
+function spread(amount: number, values: number[]): number[] {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const lastIndex = values.reduce((last, value, index) => (value > 0 ? index : last), -1);
+  let allocated = 0;
+  return values.map((value, index) => {
+    if (value <= 0 || total <= 0) {
+      return 0;
+    }
+    if (index === lastIndex) {
+      return round2(amount - allocated);
+    }
+    const share = round2((amount * value) / total);
+    allocated += share;
+    return share;
+  });
+}
+
+/**
+ * Every (buy + get) eligible units form a group, most expensive first, and
+ * the cheapest `get` units of each group are discounted.
+ */
+function buyXGetY(rules: PromotionRules, lines: PromotionLine[], targeted: boolean[]): number[] {
+  const units = lines
+    .flatMap((line, index) => (targeted[index] ? Array.from({ length: line.quantity }, () => ({ index, price: line.price })) : []))
+    .sort((a, b) => b.price - a.price);
+  const groupSize = rules.buyQuantity + rules.getQuantity;
+  const percent = Math.min(rules.value, 100);
+
+  const lineAmounts = lines.map(() => 0);
+  for (let group = 0; (group + 1) * groupSize <= units.length; group++) {
+    for (let offset = rules.buyQuantity; offset < groupSize; offset++) {
+      const unit = units[group * groupSize + offset];
+      lineAmounts[unit.index] += (unit.price * percent) / 100;
+    }
+  }
+  return lineAmounts.map(round2);
+}
+
+export function checkPromotion(rules: PromotionRules, lines: PromotionLine[], at: Date, timeZone: string): PromotionCheck {
+  if (rules.validFrom && at < new Date(rules.validFrom)) {
+    return { eligible: false, reason: "is not valid yet" };
+  }
+  if (rules.validUntil && at > new Date(rules.validUntil)) {
+    return { eligible: false, reason: "has expired" };
+  }
+  if (!isWithinHappyHours(rules.happyHours, at, timeZone)) {
+    return { eligible: false, reason: "is only valid during its happy hours" };
+  }
+
+  const values = lines.map((line) => line.price * line.quantity);
+  const billValue = values.reduce((sum, value) => sum + value, 0);
+  if (billValue < rules.minBillAmount) {
+    return { eligible: false, reason: `needs a bill of at least ₹${rules.minBillAmount.toFixed(2)}` };
+  }
+
+  const targeted = lines.map((line) => isTargeted(rules, line));
+  if (!targeted.some(Boolean)) {
+    return { eligible: false, reason: "does not apply to any item on this bill" };
+  }
+
+  let lineAmounts: number[];
+  if (rules.kind === "buy_x_get_y") {
+    lineAmounts = buyXGetY(rules, lines, targeted);
+    if (lineAmounts.every((amount) => amount === 0)) {
+      return { eligible: false, reason: `needs ${rules.buyQuantity + rules.getQuantity} eligible items` };
+    }
+  } else {
+    const targetedValues = values.map((value, index) => (targeted[index] ? value : 0));
+    const base = targetedValues.reduce((sum, value) => sum + value, 0);
+    const amount = rules.kind === "percent" ? (base * Math.min(rules.value, 100)) / 100 : Math.min(rules.value, base);
+    lineAmounts = spread(round2(amount), targetedValues);
+  }
+
+  let amount = round2(lineAmounts.reduce((sum, value) => sum + value, 0));
+  if (rules.maxDiscount && amount > rules.maxDiscount) {
+    lineAmounts = spread(rules.maxDiscount, lineAmounts);
+    amount = rules.maxDiscount;
+  }
+  return { eligible: true, amount, lineAmounts };
+}
+
+// Every active offer the bill qualifies for applies on its own
+export function applyOffers(offers: Offer[], lines: PromotionLine[], at: Date, timeZone: string): AppliedPromotion[] {
+  return offers.flatMap((offer) => {
+    if (!offer.active) {
+      return [];
+    }
+    const check = checkPromotion(offer, lines, at, timeZone);
+    return check.eligible && check.amount > 0
+      ? [{ type: "offer" as const, id: offer.id, name: offer.name, code: null, amount: check.amount, lineAmounts: check.lineAmounts }]
+      : [];
+  });
+}
+
+/**
+ * The coupon's own rules only; usage limits need the redemption history and
+ * are checked by the server.
+ */
+export function applyCoupon(
+  coupon: Coupon,
+  lines: PromotionLine[],
+  at: Date,
+  timeZone: string,
+): { promotion: AppliedPromotion } | { error: string } {
+  if (!coupon.active) {
+    return { error: `Coupon ${coupon.code} is not active` };
+  }
+  const check = checkPromotion(coupon, lines, at, timeZone);
+  if (!check.eligible) {
+    return { error: `Coupon ${coupon.code} ${check.reason}` };
+  }
+  return {
+    promotion: {
+      type: "coupon",
+      id: coupon.id,
+      name: coupon.description || coupon.code,
+      code: coupon.code,
+      amount: check.amount,
+      lineAmounts: check.lineAmounts,
+    },
+  };
+}
+
+export function describePromotion(rules: Pick<PromotionRules, "kind" | "value" | "buyQuantity" | "getQuantity" | "maxDiscount">): string {
+  switch (rules.kind) {
+    case "percent":
+      return `${rules.value}% off${rules.maxDiscount ? ` (up to ₹${rules.maxDiscount})` : ""}`;
+    case "flat":
+      return `₹${rules.value} off`;
+    case "buy_x_get_y":
+      return `Buy ${rules.buyQuantity} get ${rules.getQuantity} ${rules.value >= 100 ? "free" : `${rules.value}% off`}`;
+  }
+}
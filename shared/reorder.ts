@@ -0,0 +1,87 @@
+import { standardUnits, type InventoryItem, type Supplier } from "./schema";
+
+// Used for suppliers saved before lead times were recorded
+export const DEFAULT_LEAD_TIME_DAYS = 2;
+
+export interface ReorderSuggestion {
+  inventoryItemId: string;
+  itemName: string;
+  category: string;
+  unit: string;
+  supplierId: string | null;
+  supplierName: string | null;
+  currentStock: number;
+  // Still to arrive on purchase orders that have not been received
+  onOrder: number;
+  minStock: number;
+  parLevel: number;
+  // Average taken off by sales per day over the usage window
+  dailyUsage: number;
+  leadTimeDays: number;
+  // What should be left when an order placed now arrives
+  projectedStock: number;
+  suggestedQuantity: number;
+  costPerUnit: number;
+  estimatedCost: number;
+}
+
+export interface ReorderSuggestions {
+  usageDays: number;
+  suggestions: ReorderSuggestion[];
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Whether and how much of an item to order. It is due once the stock
+ * expected at delivery (on hand, plus on order, less sales over the
+ * supplier's lead time) is at or below minStock, and the order brings it
+ * back up to the par level, or minStock when no par is set, rounded up to
+ * whole reorder lots.
+ */
+export function suggestReorder(
+  item: InventoryItem,
+  supplier: Supplier | undefined,
+  { dailyUsage, onOrder }: { dailyUsage: number; onOrder: number },
+): ReorderSuggestion | null {
+  const currentStock = parseFloat(item.currentStock);
+  const minStock = parseFloat(item.minStock) || 0;
+  const parLevel = parseFloat(item.parLevel ?? "0") || 0;
+  const lot = parseFloat(item.reorderQuantity ?? "0") || 0;
+  const leadTimeDays = supplier?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+
+  const projectedStock = currentStock + onOrder - dailyUsage * leadTimeDays;
+  if (projectedStock > minStock) {
+    return null;
+  }
+  const needed = Math.max(parLevel, minStock) - projectedStock;
+  if (needed <= 0) {
+    return null;
+  }
+
+  let suggestedQuantity = lot > 0 ? Math.ceil(needed / lot) * lot : needed;
+  if (standardUnits[item.unit]?.dimension === "count") {
+    suggestedQuantity = Math.ceil(suggestedQuantity);
+  }
+  suggestedQuantity = round(suggestedQuantity);
+  const costPerUnit = parseFloat(item.costPerUnit) || 0;
+
+  return {
+    inventoryItemId: item.id,
+    itemName: item.name,
+    category: item.category,
+    unit: item.unit,
+    supplierId: item.supplierId,
+    supplierName: supplier?.name ?? null,
+    currentStock,
+    onOrder: round(onOrder),
+    minStock,
+    parLevel,
+    dailyUsage: round(dailyUsage),
+    leadTimeDays,
+    projectedStock: round(projectedStock),
+    suggestedQuantity,
+    costPerUnit,
+    estimatedCost: Math.round(suggestedQuantity * costPerUnit * 100) / 100,
+  };
+}
@@ -1,19 +1,116 @@
 import { z } from "zod";
 
+// Permission keys - one per guarded capability
+export const PERMISSIONS = {
+  ORDERS_MANAGE: "orders.manage",
+  ORDERS_VOID_ITEM: "orders.void_item",
+  ORDERS_APPLY_DISCOUNT: "orders.apply_discount",
+  BILLING_CHECKOUT: "billing.checkout",
+  INVOICES_MANAGE: "invoices.manage",
+  KITCHEN_MANAGE: "kitchen.manage",
+  TABLES_MANAGE: "tables.manage",
+  MENU_EDIT: "menu.edit",
+  INVENTORY_MANAGE: "inventory.manage",
+  PURCHASE_ORDERS_RECEIVE: "purchase_orders.receive",
+  CUSTOMERS_MANAGE: "customers.manage",
+  DELIVERY_MANAGE: "delivery.manage",
+  REPORTS_VIEW: "reports.view",
+  SETTINGS_MANAGE: "settings.manage",
+  USERS_MANAGE: "users.manage",
+  DATA_CLEAR: "data.clear",
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[];
+
+export const permissionDefinitions: Array<{ key: Permission; label: string; group: string }> = [
+  { key: PERMISSIONS.ORDERS_MANAGE, label: "Take orders & send KOT", group: "Orders" },
+  { key: PERMISSIONS.ORDERS_VOID_ITEM, label: "Void items", group: "Orders" },
+  { key: PERMISSIONS.ORDERS_APPLY_DISCOUNT, label: "Apply discounts", group: "Orders" },
+  { key: PERMISSIONS.BILLING_CHECKOUT, label: "Bill & checkout", group: "Billing" },
+  { key: PERMISSIONS.INVOICES_MANAGE, label: "Edit & cancel invoices", group: "Billing" },
+  { key: PERMISSIONS.KITCHEN_MANAGE, label: "Kitchen display", group: "Kitchen" },
+  { key: PERMISSIONS.TABLES_MANAGE, label: "Floors, tables & reservations", group: "Operations" },
+  { key: PERMISSIONS.DELIVERY_MANAGE, label: "Delivery & drivers", group: "Operations" },
+  { key: PERMISSIONS.CUSTOMERS_MANAGE, label: "Customers & feedback", group: "Operations" },
+  { key: PERMISSIONS.MENU_EDIT, label: "Edit menu", group: "Menu & Inventory" },
+  { key: PERMISSIONS.INVENTORY_MANAGE, label: "Inventory, recipes & suppliers", group: "Menu & Inventory" },
+  { key: PERMISSIONS.PURCHASE_ORDERS_RECEIVE, label: "Receive purchase orders", group: "Menu & Inventory" },
+  { key: PERMISSIONS.REPORTS_VIEW, label: "View reports", group: "Administration" },
+  { key: PERMISSIONS.SETTINGS_MANAGE, label: "System settings", group: "Administration" },
+  { key: PERMISSIONS.USERS_MANAGE, label: "Users & roles", group: "Administration" },
+  { key: PERMISSIONS.DATA_CLEAR, label: "Clear data", group: "Administration" },
+];
+
+// Role types
+export interface Role {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  // Largest discount (as a % of the discounted amount) members may give without approval
+  maxDiscountPercent: number;
+  isSystem: boolean;
+  createdAt: Date;
+}
+
+export const insertRoleSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  permissions: z.array(z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]])).default([]),
+  maxDiscountPercent: z.number().min(0).max(100).default(0),
+});
+
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+
 // User types
 export interface User {
   id: string;
   username: string;
   password: string;
+  fullName: string | null;
+  roleId: string;
+  active: boolean;
+  // Hashed approval PIN, used to authorise another user's discount
+  pin: string | null;
+  createdAt: Date;
+  lastLoginAt: Date | null;
 }
 
+// User as returned by the API - password and PIN hashes never leave the server
+export type PublicUser = Omit<User, "password" | "pin"> & { hasPin: boolean };
+
+// Signed-in user with the role's permissions resolved
+export type SessionUser = PublicUser & {
+  roleName: string;
+  permissions: string[];
+  maxDiscountPercent: number;
+};
+
 export const insertUserSchema = z.object({
-  username: z.string(),
-  password: z.string(),
+  username: z.string().min(3),
+  password: z.string().min(6),
+  fullName: z.string().nullable().optional(),
+  roleId: z.string(),
+  active: z.boolean().default(true),
+  pin: z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits").nullable().optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export const loginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+  rememberMe: z.boolean().optional().default(false),
+});
+
+export type LoginCredentials = z.infer<typeof loginSchema>;
+
+export function hasPermission(user: { permissions: string[] } | null | undefined, permission: Permission): boolean {
+  return !!user && user.permissions.includes(permission);
+}
+
 // Floor types
 export interface Floor {
   id: string;
@@ -48,6 +145,21 @@ export const insertTableSchema = z.object({
 
 export type InsertTable = z.infer<typeof insertTableSchema>;
 
+// Combo types - a menu item sold as a bundle of other menu items at one price
+export interface ComboComponent {
+  menuItemId: string;
+  // Per combo
+  quantity: number;
+  // Other menu items the guest may swap in; empty when the component is fixed
+  choices: string[];
+}
+
+const comboComponentSchema = z.object({
+  menuItemId: z.string(),
+  quantity: z.number().int().positive().default(1),
+  choices: z.array(z.string()).default([]),
+});
+
 // MenuItem types
 export interface MenuItem {
   id: string;
@@ -61,6 +173,13 @@ export interface MenuItem {
   image: string | null;
   description: string | null;
   quickCode: string | null;
+  taxProfileId: string | null;
+  // Modifier groups offered when the item is ordered, in display order
+  modifierGroupIds: string[];
+  // Non-empty for combos and thalis
+  comboComponents: ComboComponent[];
+  // Overrides the station its category is mapped to
+  stationId: string | null;
 }
 
 export const insertMenuItemSchema = z.object({
@@ -74,10 +193,229 @@ export const insertMenuItemSchema = z.object({
   image: z.string().nullable().optional(),
   description: z.string().nullable().optional(),
   quickCode: z.string().nullable().optional(),
+  taxProfileId: z.string().nullable().optional(),
+  modifierGroupIds: z.array(z.string()).optional(),
+  comboComponents: z.array(comboComponentSchema).optional(),
+  stationId: z.string().nullable().optional(),
 });
 
 export type InsertMenuItem = z.infer<typeof insertMenuItemSchema>;
 
+// Modifier types - reusable option groups (size, crust, add-ons) shared between menu items
+export interface ModifierIngredient {
+  inventoryItemId: string;
+  // Per unit of the menu item, in the inventory item's unit
+  quantity: number;
+}
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  priceDelta: number;
+  // Stock used on top of the item's recipe, e.g. the cheese for "Extra Cheese"
+  ingredients: ModifierIngredient[];
+  // Scales the item's own recipe, e.g. 1.5 for a large
+  recipeMultiplier: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  minSelect: number;
+  maxSelect: number;
+  options: ModifierOption[];
+  createdAt: Date;
+}
+
+const modifierIngredientSchema = z.object({
+  inventoryItemId: z.string(),
+  quantity: z.number().positive(),
+});
+
+const modifierOptionSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1),
+  priceDelta: z.number().default(0),
+  ingredients: z.array(modifierIngredientSchema).default([]),
+  recipeMultiplier: z.number().positive().default(1),
+});
+
+export const insertModifierGroupSchema = z.object({
+  name: z.string().trim().min(1),
+  minSelect: z.number().int().min(0).default(0),
+  maxSelect: z.number().int().min(1).default(1),
+  options: z.array(modifierOptionSchema).min(1),
+}).refine((group) => group.minSelect <= group.maxSelect, {
+  message: "Minimum selections cannot exceed the maximum",
+  path: ["minSelect"],
+}).refine((group) => group.minSelect <= group.options.length, {
+  message: "Minimum selections cannot exceed the number of options",
+  path: ["minSelect"],
+});
+
+export type InsertModifierGroup = z.infer<typeof insertModifierGroupSchema>;
+
+export const modifierSelectionSchema = z.object({
+  groupId: z.string(),
+  optionId: z.string(),
+});
+
+export type ModifierSelection = z.infer<typeof modifierSelectionSchema>;
+
+// A chosen option copied onto the order line, so later menu edits do not change it
+export interface OrderItemModifier {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  name: string;
+  priceDelta: number;
+  ingredients: ModifierIngredient[];
+  recipeMultiplier: number;
+}
+
+const orderItemModifierSchema = modifierSelectionSchema.extend({
+  groupName: z.string(),
+  name: z.string(),
+  priceDelta: z.number(),
+  ingredients: z.array(modifierIngredientSchema),
+  recipeMultiplier: z.number().positive(),
+});
+
+// The guest's pick for a swappable combo component, by its position in the combo
+export const comboChoiceSchema = z.object({
+  index: z.number().int().min(0),
+  menuItemId: z.string(),
+});
+
+export type ComboChoice = z.infer<typeof comboChoiceSchema>;
+
+// A combo component as ordered, after any swap
+export interface OrderItemComponent {
+  menuItemId: string;
+  name: string;
+  // Per combo
+  quantity: number;
+  isVeg: boolean;
+  // Share of one combo's price, split by the components' menu prices
+  allocatedPrice: number;
+  // Kitchen station that makes this component; null for the main kitchen
+  stationId?: string | null;
+}
+
+const orderItemComponentSchema = z.object({
+  menuItemId: z.string(),
+  name: z.string(),
+  quantity: z.number().int().positive(),
+  isVeg: z.boolean(),
+  allocatedPrice: z.number(),
+  stationId: z.string().nullable().optional(),
+});
+
+// Kitchen station types - where a KOT line is made and printed (tandoor, Chinese, bar, dessert)
+export interface KitchenStation {
+  id: string;
+  name: string;
+  // Menu categories routed here unless the item names its own station
+  categories: string[];
+  // Where this station's KOTs print, as set up in printer configuration
+  printerName: string | null;
+  printerAddress: string | null;
+  createdAt: Date;
+}
+
+export const insertKitchenStationSchema = z.object({
+  name: z.string().trim().min(1),
+  categories: z.array(z.string()).default([]),
+  printerName: z.string().nullable().optional(),
+  printerAddress: z.string().nullable().optional(),
+});
+
+export type InsertKitchenStation = z.infer<typeof insertKitchenStationSchema>;
+
+// Kitchen SLA - minutes a line may wait before the display turns it amber (warn) and then red (late)
+export interface KitchenSlaThreshold {
+  warnMinutes: number;
+  lateMinutes: number;
+}
+
+export interface KitchenSlaSettings extends KitchenSlaThreshold {
+  // Overrides for slower or faster categories, e.g. tandoor breads vs drinks
+  categories: (KitchenSlaThreshold & { category: string })[];
+}
+
+const kitchenSlaThresholdSchema = z
+  .object({
+    warnMinutes: z.number().positive(),
+    lateMinutes: z.number().positive(),
+  })
+  .refine((threshold) => threshold.lateMinutes > threshold.warnMinutes, {
+    message: "Late must be after the warning",
+    path: ["lateMinutes"],
+  });
+
+export const kitchenSlaSettingsSchema = z
+  .object({
+    warnMinutes: z.number().positive().default(10),
+    lateMinutes: z.number().positive().default(20),
+    categories: z.array(kitchenSlaThresholdSchema.and(z.object({ category: z.string().trim().min(1) }))).default([]),
+  })
+  .refine((settings) => settings.lateMinutes > settings.warnMinutes, {
+    message: "Late must be after the warning",
+    path: ["lateMinutes"],
+  });
+
+// Tax profile types
+export const taxComponentKinds = ["tax", "charge"] as const;
+export type TaxComponentKind = typeof taxComponentKinds[number];
+
+// One line of a profile, e.g. CGST 2.5%, IGST 18%, VAT 20% or a 10% service charge.
+// "charge" components are always added on top of the net amount, even for inclusive profiles.
+export interface TaxComponent {
+  code: string;
+  name: string;
+  rate: number;
+  kind: TaxComponentKind;
+}
+
+export interface TaxProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  components: TaxComponent[];
+  inclusive: boolean;
+  categories: string[];
+  isDefault: boolean;
+  createdAt: Date;
+}
+
+export const taxComponentSchema = z.object({
+  code: z.string().min(1),
+  name: z.string().min(1),
+  rate: z.number().min(0).max(100),
+  kind: z.enum(taxComponentKinds).default("tax"),
+});
+
+export const insertTaxProfileSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  components: z.array(taxComponentSchema).default([]),
+  inclusive: z.boolean().default(false),
+  categories: z.array(z.string()).default([]),
+  isDefault: z.boolean().default(false),
+});
+
+export type InsertTaxProfile = z.infer<typeof insertTaxProfileSchema>;
+
+// Stored on invoices (JSON) - one entry per component code and rate
+export interface TaxBreakdownLine {
+  code: string;
+  name: string;
+  rate: number;
+  kind: TaxComponentKind;
+  taxableAmount: number;
+  amount: number;
+}
+
 // Order types
 export interface Order {
   id: string;
@@ -92,6 +430,9 @@ export interface Order {
   waiterId: string | null;
   deliveryPersonId: string | null;
   expectedPickupTime: Date | null;
+  // JSON AppliedDiscount for the whole order
+  discount: string | null;
+  couponCode: string | null;
   createdAt: Date;
   completedAt: Date | null;
   billedAt: Date | null;
@@ -114,7 +455,151 @@ export const insertOrderSchema = z.object({
 
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
+// Discount types
+export const discountTypes = ["percent", "flat"] as const;
+export type DiscountType = typeof discountTypes[number];
+
+export const discountReasons = {
+  REGULAR: "Regular customer",
+  SERVICE_RECOVERY: "Service recovery",
+  COMPLAINT: "Food or service complaint",
+  STAFF_MEAL: "Staff meal",
+  PROMOTION: "In-store promotion",
+  OTHER: "Other",
+} as const;
+
+export type DiscountReasonCode = keyof typeof discountReasons;
+
+export interface DiscountRule {
+  type: DiscountType;
+  value: number;
+}
+
+export interface AppliedDiscount extends DiscountRule {
+  reasonCode: DiscountReasonCode;
+  note: string | null;
+  appliedBy: string;
+  appliedByName: string;
+  // Set when the discount was above the cashier's limit and a manager's PIN authorised it
+  approvedBy: string | null;
+  approvedByName: string | null;
+  appliedAt: string;
+}
+
+export const discountRequestSchema = z
+  .object({
+    type: z.enum(discountTypes),
+    value: z.number().positive(),
+    reasonCode: z.enum(Object.keys(discountReasons) as [DiscountReasonCode, ...DiscountReasonCode[]]),
+    note: z.string().trim().max(200).nullable().optional(),
+    managerPin: z.string().optional(),
+  })
+  .refine((discount) => discount.type !== "percent" || discount.value <= 100, {
+    message: "A percentage discount cannot exceed 100%",
+    path: ["value"],
+  });
+
+export type DiscountRequest = z.infer<typeof discountRequestSchema>;
+
+// Void and comp types - a line taken off the bill is kept on record with who did it, why and who approved it
+export const voidReasons = {
+  ENTRY_ERROR: "Entered by mistake",
+  CHANGED_MIND: "Customer changed their mind",
+  QUALITY: "Food quality",
+  WRONG_ITEM: "Made wrong",
+  LONG_WAIT: "Took too long",
+  OTHER: "Other",
+} as const;
+
+export type VoidReasonCode = keyof typeof voidReasons;
+
+export const compReasons = {
+  SERVICE_RECOVERY: "Service recovery",
+  COMPLAINT: "Food or service complaint",
+  HOUSE_GUEST: "House guest / VIP",
+  STAFF_MEAL: "Staff meal",
+  TASTING: "Tasting or sample",
+  OTHER: "Other",
+} as const;
+
+export type CompReasonCode = keyof typeof compReasons;
+
+export const itemAdjustmentKinds = ["void", "comp"] as const;
+export type ItemAdjustmentKind = typeof itemAdjustmentKinds[number];
+
+export interface ItemAdjustment {
+  id: string;
+  kind: ItemAdjustmentKind;
+  orderId: string;
+  orderItemId: string;
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  // What the line was worth when it was voided or given away
+  amount: string;
+  // The kitchen already had the line, so it may have been made
+  afterKot: boolean;
+  // A VoidReasonCode or CompReasonCode, depending on kind
+  reasonCode: string;
+  note: string | null;
+  by: string;
+  byName: string;
+  // Set when a manager keyed in their PIN for someone without void rights
+  approvedBy: string | null;
+  approvedByName: string | null;
+  // Wastage entries written for the recipe of a cooked void
+  wastageIds: string[];
+  createdAt: Date;
+}
+
+export type InsertItemAdjustment = Omit<ItemAdjustment, "id" | "createdAt">;
+
+export const voidItemRequestSchema = z.object({
+  reasonCode: z.enum(Object.keys(voidReasons) as [VoidReasonCode, ...VoidReasonCode[]]),
+  note: z.string().trim().max(200).nullable().optional(),
+  managerPin: z.string().optional(),
+  // Write the recipe off as wastage; only for lines the kitchen already had
+  logWastage: z.boolean().default(false),
+});
+
+export type VoidItemRequest = z.infer<typeof voidItemRequestSchema>;
+
+export const compItemRequestSchema = z.object({
+  reasonCode: z.enum(Object.keys(compReasons) as [CompReasonCode, ...CompReasonCode[]]),
+  note: z.string().trim().max(200).nullable().optional(),
+  managerPin: z.string().optional(),
+});
+
+export type CompItemRequest = z.infer<typeof compItemRequestSchema>;
+
+// Kept on a comped line, whose price is then zero
+export interface OrderItemComp {
+  reasonCode: CompReasonCode;
+  originalPrice: string;
+  byName: string;
+  approvedByName: string | null;
+}
+
+// Kept on a voided line, which stays on the order for the record but is no longer billed, cooked or charged to stock
+export interface OrderItemVoid {
+  reasonCode: VoidReasonCode;
+  byName: string;
+  approvedByName: string | null;
+  at: Date;
+}
+
 // OrderItem types
+// One step in an order line's life in the kitchen, oldest first
+export interface OrderItemStatusChange {
+  status: string;
+  at: Date;
+  // null when nobody signed in made the change, e.g. a digital menu order or its status sync
+  by: string | null;
+  byName: string | null;
+}
+
+export type StatusActor = Pick<OrderItemStatusChange, "by" | "byName">;
+
 export interface OrderItem {
   id: string;
   orderId: string;
@@ -125,21 +610,130 @@ export interface OrderItem {
   notes: string | null;
   status: string;
   isVeg: boolean;
+  // JSON AppliedDiscount for this line
+  discount: string | null;
+  // Price above already includes each modifier's priceDelta
+  modifiers: OrderItemModifier[];
+  // Set when the line is a combo; the kitchen makes and stock is drawn per component
+  components: OrderItemComponent[];
+  // Station the line was routed to when ordered; null for the main kitchen
+  stationId: string | null;
+  // Set once the line has been given away
+  comp: OrderItemComp | null;
+  // Set once the line has been voided
+  voided: OrderItemVoid | null;
+  // Guest seat at the table, counted from 1; null when the line is for the table
+  seatNumber: number | null;
+  // Course the line is served in, counted from 1; null goes out with whatever is sent
+  course: number | null;
+  // When the line first went out on a KOT; null while it is still unsent
+  sentAt: Date | null;
+  // Every status the line has had, starting with "new" when it was ordered
+  statusHistory: OrderItemStatusChange[];
 }
 
 export const insertOrderItemSchema = z.object({
   orderId: z.string(),
   menuItemId: z.string(),
   name: z.string(),
-  quantity: z.number(),
+  quantity: z.number().int().positive(),
   price: z.string(),
   notes: z.string().nullable().optional(),
   status: z.string().default("new"),
   isVeg: z.boolean().default(true),
+  modifiers: z.array(orderItemModifierSchema).optional(),
+  components: z.array(orderItemComponentSchema).optional(),
+  stationId: z.string().nullable().optional(),
+  seatNumber: z.number().int().positive().nullable().optional(),
+  course: z.number().int().positive().nullable().optional(),
 });
 
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 
+// What the POS sends: the options and combo swaps picked. The order comes from the URL
+// and the price from the menu, so the till cannot set either.
+export const addOrderItemSchema = insertOrderItemSchema.omit({ orderId: true, price: true }).extend({
+  modifiers: z.array(modifierSelectionSchema).default([]),
+  components: z.array(comboChoiceSchema).default([]),
+  // Keep the line out of the kitchen until its course is fired
+  hold: z.boolean().default(false),
+});
+
+// KOT types - one kitchen send to one station, holding only the lines that were new at the time
+export const kotKinds = ["order", "void"] as const;
+export type KotKind = typeof kotKinds[number];
+
+export interface KotLine {
+  orderItemId: string;
+  menuItemId: string;
+  name: string;
+  quantity: number;
+  notes: string | null;
+  isVeg: boolean;
+  modifiers: OrderItemModifier[];
+  // For a combo, only the components made at this KOT's station
+  components: OrderItemComponent[];
+  seatNumber: number | null;
+  course: number | null;
+  // The order item was removed after this ticket went out
+  voided: boolean;
+}
+
+export interface Kot {
+  id: string;
+  // Runs per calendar day across all orders, as printed on the ticket
+  kotNumber: number;
+  orderId: string;
+  stationId: string | null;
+  // A "void" KOT tells the kitchen to stop making lines of an earlier ticket
+  kind: KotKind;
+  voidsKotId: string | null;
+  voidsKotNumber: number | null;
+  // Set when a held course was fired on its own
+  course: number | null;
+  // "cancelled" once every line on it has been voided
+  status: "active" | "cancelled";
+  items: KotLine[];
+  // Every print after the first is marked DUPLICATE
+  printCount: number;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: Date;
+}
+
+export type InsertKot = Omit<Kot, "id" | "status" | "printCount" | "createdAt">;
+
+// Unit of measure types - every quantity of stock converts to the item's own unit through these
+export const unitDimensions = ["mass", "volume", "count"] as const;
+export type UnitDimension = typeof unitDimensions[number];
+
+// Units that mean the same for every item, sized in g, ml or pcs
+export const standardUnits: Record<string, { dimension: UnitDimension; factor: number }> = {
+  g: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  lb: { dimension: "mass", factor: 453.59237 },
+  ml: { dimension: "volume", factor: 1 },
+  L: { dimension: "volume", factor: 1000 },
+  pcs: { dimension: "count", factor: 1 },
+  dozen: { dimension: "count", factor: 12 },
+};
+
+// Units from categoryUnits whose size depends on the item, set per item as a pack size
+export const packUnits = ["box", "crate", "bag", "bottle", "jar", "can", "bunch"] as const;
+
+// One `unit` of this item holds `quantity` of `of`, e.g. 1 crate = 30 pcs
+export interface PackSize {
+  unit: string;
+  quantity: number;
+  of: string;
+}
+
+export const packSizeSchema = z.object({
+  unit: z.string().trim().min(1),
+  quantity: z.number().positive(),
+  of: z.string().refine((unit) => unit in standardUnits, { message: "A pack size must be given in g, kg, lb, ml, L, pcs or dozen" }),
+});
+
 // InventoryItem types
 export interface InventoryItem {
   id: string;
@@ -151,6 +745,12 @@ export interface InventoryItem {
   supplierId: string | null;
   costPerUnit: string;
   image: string | null;
+  // What the item's pack units hold; stored before unit conversion existed as missing
+  packSizes: PackSize[];
+  // Stock to be back up to once a delivery arrives; zero to order back up to minStock
+  parLevel: string;
+  // Orders are rounded up to a whole number of these (a supplier's case size); zero for any quantity
+  reorderQuantity: string;
   lastUpdated: Date;
 }
 
@@ -163,6 +763,9 @@ export const insertInventoryItemSchema = z.object({
   supplierId: z.string().nullable().optional(),
   costPerUnit: z.string().default("0"),
   image: z.string().nullable().optional(),
+  packSizes: z.array(packSizeSchema).default([]),
+  parLevel: z.string().default("0"),
+  reorderQuantity: z.string().default("0"),
 });
 
 export type InsertInventoryItem = z.infer<typeof insertInventoryItemSchema>;
@@ -207,6 +810,8 @@ export interface Supplier {
   email: string | null;
   address: string | null;
   status: string;
+  // Days from ordering to delivery, which reorder suggestions have to cover
+  leadTimeDays: number;
   createdAt: Date;
 }
 
@@ -217,6 +822,7 @@ export const insertSupplierSchema = z.object({
   email: z.string().nullable().optional(),
   address: z.string().nullable().optional(),
   status: z.string().default("active"),
+  leadTimeDays: z.number().int().min(0).max(90).default(2),
 });
 
 export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
@@ -269,6 +875,21 @@ export const insertPurchaseOrderItemSchema = z.object({
 
 export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
 
+// Reorder suggestions picked (and possibly changed) by the buyer, to become draft POs per supplier
+export const draftPurchaseOrdersSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        inventoryItemId: z.string(),
+        // In the item's own unit
+        quantity: z.string().regex(/^\d+(\.\d+)?$/, "Quantities must be numbers").refine((value) => parseFloat(value) > 0, "Quantities must be more than zero"),
+      }),
+    )
+    .min(1, "Pick at least one item to order"),
+});
+
+export type DraftPurchaseOrders = z.infer<typeof draftPurchaseOrdersSchema>;
+
 // Wastage types
 export interface Wastage {
   id: string;
@@ -304,12 +925,24 @@ export interface Invoice {
   subtotal: string;
   tax: string;
   discount: string;
+  roundOff: string | null;
   total: string;
   paymentMode: string;
   splitPayments: string | null;
   status: string;
   items: string;
+  taxBreakdown: string | null;
+  // JSON InvoiceDiscount[] - what was discounted, by whom and why
+  discounts: string | null;
+  // JSON InvoicePromotion[] - offers and coupon that priced this invoice
+  promotions: string | null;
+  // Set on each sub-invoice of an item-wise split: whose share it is, out of how many
+  guestNumber: number | null;
+  guestName: string | null;
+  splitCount: number | null;
   notes: string | null;
+  cancelledAt: Date | null;
+  cancelReason: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -324,16 +957,254 @@ export const insertInvoiceSchema = z.object({
   subtotal: z.string(),
   tax: z.string(),
   discount: z.string().default("0"),
+  roundOff: z.string().nullable().optional(),
   total: z.string(),
   paymentMode: z.string(),
   splitPayments: z.string().nullable().optional(),
   status: z.string().default("Paid"),
   items: z.string(),
+  taxBreakdown: z.string().nullable().optional(),
+  discounts: z.string().nullable().optional(),
+  promotions: z.string().nullable().optional(),
+  guestNumber: z.number().int().positive().nullable().optional(),
+  guestName: z.string().nullable().optional(),
+  splitCount: z.number().int().positive().nullable().optional(),
   notes: z.string().nullable().optional(),
 });
 
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 
+export interface InvoiceDiscount extends AppliedDiscount {
+  scope: "order" | "item";
+  itemName: string | null;
+  amount: number;
+}
+
+// Issued invoices are immutable apart from who they were made out to
+export const updateInvoiceDetailsSchema = insertInvoiceSchema
+  .pick({ customerName: true, customerPhone: true, notes: true })
+  .strict();
+
+// Credit note types - reverse all or part of an issued invoice
+export interface CreditNoteLine {
+  // Position of the line in the invoice's item list
+  index: number;
+  menuItemId?: string;
+  name: string;
+  quantity: number;
+  price: number;
+  // Carried over so a restock puts back the modifier ingredients too
+  modifiers?: OrderItemModifier[];
+  components?: OrderItemComponent[];
+  // And only this invoice's part of a line shared between guests
+  share?: number;
+}
+
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  orderId: string;
+  reason: string;
+  items: string;
+  subtotal: string;
+  discount: string;
+  tax: string;
+  roundOff: string;
+  total: string;
+  taxBreakdown: string;
+  fullCancellation: boolean;
+  restocked: boolean;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: Date;
+}
+
+export const insertCreditNoteSchema = z.object({
+  creditNoteNumber: z.string(),
+  invoiceId: z.string(),
+  invoiceNumber: z.string(),
+  orderId: z.string(),
+  reason: z.string(),
+  items: z.string(),
+  subtotal: z.string(),
+  discount: z.string().default("0"),
+  tax: z.string(),
+  roundOff: z.string().default("0"),
+  total: z.string(),
+  taxBreakdown: z.string(),
+  fullCancellation: z.boolean(),
+  restocked: z.boolean().default(false),
+  createdBy: z.string().nullable().optional(),
+  createdByName: z.string().nullable().optional(),
+});
+
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+
+// Omitting lines credits everything not already credited, i.e. cancels the invoice
+export const creditNoteRequestSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+  lines: z
+    .array(z.object({ index: z.number().int().min(0), quantity: z.number().int().positive() }))
+    .min(1)
+    .optional(),
+  restock: z.boolean().default(false),
+});
+
+export type CreditNoteRequest = z.infer<typeof creditNoteRequestSchema>;
+
+// Invoice numbering. The prefix template is expanded per invoice date, and
+// every distinct prefix keeps its own counter, so each fiscal year and outlet
+// runs an unbroken sequence.
+export interface InvoiceSeriesSettings {
+  outletCode: string;
+  prefixFormat: string;
+  digits: number;
+  fiscalYearStartMonth: number;
+}
+
+export const invoiceSeriesSettingsSchema = z.object({
+  outletCode: z.string().trim().min(1).max(10).regex(/^[A-Za-z0-9-]+$/, "Use letters, digits or hyphens"),
+  prefixFormat: z.string().min(1).default("FY{FY}/{OUTLET}/"),
+  digits: z.number().int().min(1).max(12).default(6),
+  fiscalYearStartMonth: z.number().int().min(1).max(12).default(4),
+});
+
+// Promotion types - offers price the bill automatically, coupons need a code
+export const promotionKinds = ["percent", "flat", "buy_x_get_y"] as const;
+export type PromotionKind = typeof promotionKinds[number];
+
+// Restaurant time on the given days (0 = Sunday); an end before the start runs past midnight
+export interface HappyHourWindow {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+export const happyHourWindowSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1),
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM"),
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM"),
+});
+
+export interface PromotionRules {
+  kind: PromotionKind;
+  // Percent or rupees off; for buy-X-get-Y, the percent off the "get" items (100 = free)
+  value: number;
+  maxDiscount: number | null;
+  minBillAmount: number;
+  // Empty targets mean the whole bill
+  categories: string[];
+  menuItemIds: string[];
+  buyQuantity: number;
+  getQuantity: number;
+  happyHours: HappyHourWindow[];
+  validFrom: Date | null;
+  validUntil: Date | null;
+}
+
+const promotionRulesSchema = z.object({
+  kind: z.enum(promotionKinds),
+  value: z.number().positive(),
+  maxDiscount: z.number().positive().nullable().optional(),
+  minBillAmount: z.number().min(0).default(0),
+  categories: z.array(z.string()).default([]),
+  menuItemIds: z.array(z.string()).default([]),
+  buyQuantity: z.number().int().min(1).default(1),
+  getQuantity: z.number().int().min(1).default(1),
+  happyHours: z.array(happyHourWindowSchema).default([]),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+});
+
+export interface Offer extends PromotionRules {
+  id: string;
+  name: string;
+  description: string | null;
+  active: boolean;
+  createdAt: Date;
+}
+
+export const insertOfferSchema = promotionRulesSchema.extend({
+  name: z.string().trim().min(1),
+  description: z.string().nullable().optional(),
+  active: z.boolean().default(true),
+});
+
+export type InsertOffer = z.infer<typeof insertOfferSchema>;
+
+export interface Coupon extends PromotionRules {
+  id: string;
+  code: string;
+  description: string | null;
+  active: boolean;
+  // Total redemptions allowed across all customers; null = unlimited
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  usedCount: number;
+  createdAt: Date;
+}
+
+export const insertCouponSchema = promotionRulesSchema.extend({
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9_-]{3,20}$/, "Use 3 to 20 letters, digits, - or _"),
+  description: z.string().nullable().optional(),
+  active: z.boolean().default(true),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  perCustomerLimit: z.number().int().positive().nullable().optional(),
+});
+
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+
+export const couponCodeSchema = z.object({
+  code: z.string().trim().toUpperCase().min(1),
+});
+
+export const validateCouponSchema = couponCodeSchema.extend({
+  orderId: z.string(),
+});
+
+// A promotion as it priced one bill
+export interface InvoicePromotion {
+  type: "offer" | "coupon";
+  id: string;
+  name: string;
+  code: string | null;
+  amount: number;
+}
+
+export interface PromotionRedemption {
+  id: string;
+  promotionType: "offer" | "coupon";
+  promotionId: string;
+  code: string | null;
+  name: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  orderId: string;
+  customerId: string | null;
+  customerName: string | null;
+  customerPhone: string | null;
+  amount: string;
+  createdAt: Date;
+}
+
+export const insertPromotionRedemptionSchema = z.object({
+  promotionType: z.enum(["offer", "coupon"]),
+  promotionId: z.string(),
+  code: z.string().nullable(),
+  name: z.string(),
+  invoiceId: z.string(),
+  invoiceNumber: z.string(),
+  orderId: z.string(),
+  customerId: z.string().nullable(),
+  customerName: z.string().nullable(),
+  customerPhone: z.string().nullable(),
+  amount: z.string(),
+});
+
+export type InsertPromotionRedemption = z.infer<typeof insertPromotionRedemptionSchema>;
+
 // Reservation types
 export interface Reservation {
   id: string;
@@ -423,6 +1294,121 @@ export const insertInventoryUsageSchema = z.object({
 
 export type InsertInventoryUsage = z.infer<typeof insertInventoryUsageSchema>;
 
+// Stock ledger - one entry per change to an item's stock, which is never edited afterwards.
+// currentStock on the item is the balance after its latest entry.
+export const stockMovementTypes = ["opening", "sale", "return", "purchase", "wastage", "usage", "adjustment"] as const;
+export type StockMovementType = typeof stockMovementTypes[number];
+
+export const stockReferenceTypes = ["order", "credit_note", "purchase_order", "wastage", "usage", "stock_take"] as const;
+export type StockReferenceType = typeof stockReferenceTypes[number];
+
+export interface StockMovement {
+  id: string;
+  inventoryItemId: string;
+  itemName: string;
+  type: StockMovementType;
+  // Signed change in the item's unit: positive adds stock, negative takes it away
+  quantity: string;
+  unit: string;
+  // What was entered, when it was in another unit (a PO line in boxes for an item counted in pcs)
+  enteredQuantity: string | null;
+  enteredUnit: string | null;
+  balanceBefore: string;
+  balanceAfter: string;
+  referenceType: StockReferenceType | null;
+  referenceId: string | null;
+  by: string | null;
+  byName: string | null;
+  notes: string | null;
+  createdAt: Date;
+}
+
+export const insertStockMovementSchema = z.object({
+  inventoryItemId: z.string(),
+  type: z.enum(stockMovementTypes),
+  quantity: z.string(),
+  enteredQuantity: z.string().nullable().optional(),
+  enteredUnit: z.string().nullable().optional(),
+  referenceType: z.enum(stockReferenceTypes).nullable().optional(),
+  referenceId: z.string().nullable().optional(),
+  by: z.string().nullable().optional(),
+  byName: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+
+// Who moved the stock and, where the caller knows it better than storage does, why
+export type StockMovementSource = Pick<InsertStockMovement, "by" | "byName" | "referenceType" | "referenceId" | "notes">;
+
+// Stock taken off for a paid order. One per order, so a retried checkout cannot deduct twice;
+// failed ones (and ones stuck pending) make up the reconciliation list until they are retried.
+export const stockDeductionStatuses = ["pending", "done", "failed"] as const;
+export type StockDeductionStatus = typeof stockDeductionStatuses[number];
+
+export interface StockDeduction {
+  id: string;
+  orderId: string;
+  status: StockDeductionStatus;
+  // Times the deduction has been started, by checkout or a retry
+  attempts: number;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Stock take - a physical count against a snapshot of the stock figures taken when it started
+export const stockTakeStatuses = ["counting", "posted", "cancelled"] as const;
+export type StockTakeStatus = typeof stockTakeStatuses[number];
+
+export interface StockTakeLine {
+  inventoryItemId: string;
+  itemName: string;
+  category: string;
+  unit: string;
+  // currentStock when the count started
+  theoretical: string;
+  // Null until someone has counted the item
+  counted: string | null;
+  costPerUnit: string;
+}
+
+export interface StockTake {
+  id: string;
+  status: StockTakeStatus;
+  // Categories being counted; empty for a full count
+  categories: string[];
+  lines: StockTakeLine[];
+  notes: string | null;
+  startedBy: string | null;
+  startedByName: string | null;
+  startedAt: Date;
+  postedBy: string | null;
+  postedByName: string | null;
+  postedAt: Date | null;
+}
+
+export type InsertStockTake = Omit<StockTake, "id">;
+
+export const startStockTakeSchema = z.object({
+  categories: z.array(z.string()).default([]),
+  notes: z.string().trim().max(200).nullable().optional(),
+});
+
+export type StartStockTake = z.infer<typeof startStockTakeSchema>;
+
+export const stockTakeCountsSchema = z.object({
+  counts: z.array(
+    z.object({
+      inventoryItemId: z.string(),
+      // Null clears a count entered by mistake
+      counted: z.string().regex(/^\d+(\.\d+)?$/, "Counts must be a number of zero or more").nullable(),
+    }),
+  ),
+});
+
+export type StockTakeCounts = z.infer<typeof stockTakeCountsSchema>;
+
 // Category-specific units mapping
 export const categoryUnits: Record<string, string[]> = {
   "Vegetables & Produce": ["kg", "g", "pcs", "bunch", "box"],
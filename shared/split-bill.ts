@@ -0,0 +1,108 @@
+import type { TaxProfile } from "./schema";
+import { calculateBill, type BillBreakdown, type BillLine } from "./billing";
+
+// Who is paying in an item-wise split
+export interface SplitGuest {
+  guest: number;
+  name?: string | null;
+  paymentMode: string;
+}
+
+// Guests sharing one order item pay for it in equal parts
+export interface SplitAssignment {
+  orderItemId: string;
+  guests: number[];
+}
+
+export interface GuestShareLine {
+  // Position of the order item in the order's item list
+  index: number;
+  // Part of the line this guest pays for, 1 when they have it to themselves
+  share: number;
+}
+
+export interface GuestBill {
+  guest: SplitGuest;
+  lines: GuestShareLine[];
+  bill: BillBreakdown;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Which part of which line each guest pays for. Every line has to be
+ * assigned to someone, and every guest has to end up with something, so the
+ * shares always add back up to the whole order.
+ */
+export function assignShares(
+  orderItemIds: string[],
+  guests: SplitGuest[],
+  assignments: SplitAssignment[],
+): { ok: true; shares: Map<number, GuestShareLine[]> } | { ok: false; error: string } {
+  const guestNumbers = new Set(guests.map((guest) => guest.guest));
+  if (guestNumbers.size !== guests.length) {
+    return { ok: false, error: "Each guest can only be listed once" };
+  }
+
+  const shares = new Map<number, GuestShareLine[]>(guests.map((guest) => [guest.guest, []]));
+  const assigned = new Set<string>();
+  for (const assignment of assignments) {
+    const index = orderItemIds.indexOf(assignment.orderItemId);
+    if (index === -1) {
+      return { ok: false, error: "An assigned item is not on this order" };
+    }
+    if (assigned.has(assignment.orderItemId)) {
+      return { ok: false, error: "Each item can only be assigned once; list every guest sharing it together" };
+    }
+    const sharing = Array.from(new Set(assignment.guests));
+    if (sharing.length === 0 || sharing.some((guest) => !guestNumbers.has(guest))) {
+      return { ok: false, error: "Items must be assigned to guests on the bill" };
+    }
+    assigned.add(assignment.orderItemId);
+    sharing.forEach((guest) => shares.get(guest)!.push({ index, share: 1 / sharing.length }));
+  }
+
+  if (assigned.size !== orderItemIds.length) {
+    return { ok: false, error: `${orderItemIds.length - assigned.size} item(s) have not been assigned to a guest` };
+  }
+  const empty = guests.find((guest) => shares.get(guest.guest)!.length === 0);
+  if (empty) {
+    return { ok: false, error: `Guest ${empty.guest} has nothing assigned` };
+  }
+  return { ok: true, shares };
+}
+
+/**
+ * Prices each guest's part of an order. Discounts and offers are worked out
+ * once on the whole order, so nobody loses a combo deal by splitting, and each
+ * guest carries their share of them as a flat discount on the line. Tax is
+ * then charged per guest on what they actually pay, which keeps every
+ * sub-invoice a correct tax invoice on its own. Each one is rounded to whole
+ * rupees, so together they can differ from the order total by the round-off.
+ */
+export function calculateGuestBills(
+  lines: BillLine[],
+  whole: BillBreakdown,
+  profiles: TaxProfile[],
+  guests: SplitGuest[],
+  shares: Map<number, GuestShareLine[]>,
+): GuestBill[] {
+  return guests.map((guest) => {
+    const guestLines = shares.get(guest.guest) ?? [];
+    const bill = calculateBill(
+      guestLines.map(({ index, share }) => {
+        const line = lines[index];
+        const taken = whole.itemDiscounts[index] + whole.promotionDiscounts[index] + whole.orderDiscountShares[index];
+        return {
+          price: line.price * share,
+          quantity: line.quantity,
+          category: line.category,
+          taxProfileId: line.taxProfileId,
+          discount: taken > 0 ? { type: "flat" as const, value: round2(taken * share) } : null,
+        };
+      }),
+      profiles,
+    );
+    return { guest, lines: guestLines, bill };
+  });
+}
@@ -0,0 +1,63 @@
+import type { KitchenStation, MenuItem, OrderItem, OrderItemComponent } from "./schema";
+
+// Stands in for "no station" in URLs and filters; those lines go to the main kitchen
+export const MAIN_KITCHEN = "main";
+
+export const stationKey = (stationId: string | null | undefined) => stationId ?? MAIN_KITCHEN;
+
+export function stationName(stationId: string | null | undefined, stations: Pick<KitchenStation, "id" | "name">[]): string {
+  return stations.find((station) => station.id === stationId)?.name ?? "Main Kitchen";
+}
+
+// Same precedence as tax profiles: the item's own station, then its category's
+export function resolveStation(
+  menuItem: Pick<MenuItem, "stationId" | "category">,
+  stations: KitchenStation[],
+): KitchenStation | undefined {
+  if (menuItem.stationId) {
+    const assigned = stations.find((station) => station.id === menuItem.stationId);
+    if (assigned) {
+      return assigned;
+    }
+  }
+  return stations.find((station) => station.categories.includes(menuItem.category));
+}
+
+export interface StationLine<T extends Pick<OrderItem, "stationId" | "components"> = OrderItem> {
+  item: T;
+  // For a combo, only the components made at this station
+  components: OrderItemComponent[];
+}
+
+/**
+ * The lines of an order one station has to make. A combo is routed by its
+ * components, so it shows up at every station that makes part of it.
+ */
+export function linesForStation<T extends Pick<OrderItem, "stationId" | "components">>(
+  items: T[],
+  key: string,
+): StationLine<T>[] {
+  return items.flatMap((item) => {
+    const components = item.components ?? [];
+    if (components.length === 0) {
+      return stationKey(item.stationId) === key ? [{ item, components }] : [];
+    }
+    const here = components.filter((component) => stationKey(component.stationId) === key);
+    return here.length > 0 ? [{ item, components: here }] : [];
+  });
+}
+
+// Station keys an order's lines go to, in first-seen order
+export function stationKeysFor(items: Pick<OrderItem, "stationId" | "components">[]): string[] {
+  const keys = new Set<string>();
+  for (const item of items) {
+    const components = item.components ?? [];
+    if (components.length === 0) {
+      keys.add(stationKey(item.stationId));
+    }
+    for (const component of components) {
+      keys.add(stationKey(component.stationId));
+    }
+  }
+  return Array.from(keys);
+}
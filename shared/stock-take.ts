@@ -0,0 +1,100 @@
+import type { StockMovement, StockMovementType, StockTake, StockTakeLine } from "./schema";
+
+// Movements that count as stock being used up; returns put stock back against them
+const USAGE_TYPES: StockMovementType[] = ["sale", "return", "usage", "wastage"];
+
+export interface LineVariance {
+  // Counted less theoretical: negative is stock missing, positive is stock found
+  variance: number;
+  // The variance at the item's cost per unit
+  value: number;
+}
+
+export interface StockTakeVarianceLine {
+  inventoryItemId: string;
+  itemName: string;
+  category: string;
+  unit: string;
+  theoretical: number;
+  counted: number | null;
+  variance: number | null;
+  value: number | null;
+  // Used over the period according to sales, usage logs and wastage
+  theoreticalUsage: number;
+  // Theoretical usage plus whatever the count says went missing
+  actualUsage: number | null;
+}
+
+export interface StockTakeVariance {
+  stockTakeId: string;
+  // Snapshot of the last posted count before this one, or null when this is the first
+  from: string | null;
+  to: string;
+  lines: StockTakeVarianceLine[];
+  counted: number;
+  uncounted: number;
+  shortageValue: number;
+  surplusValue: number;
+  netValue: number;
+}
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function lineVariance(line: StockTakeLine): LineVariance | null {
+  if (line.counted === null) {
+    return null;
+  }
+  const variance = round(parseFloat(line.counted) - parseFloat(line.theoretical));
+  return { variance, value: round2(variance * parseFloat(line.costPerUnit)) };
+}
+
+/**
+ * Variance for each line of a count, with usage over the period since the
+ * previous posted count. `movements` can cover any span; only those between
+ * `from` and the snapshot are used.
+ */
+export function buildStockTakeVariance(stockTake: StockTake, movements: StockMovement[], from: Date | null): StockTakeVariance {
+  const to = new Date(stockTake.startedAt).getTime();
+  const start = from ? from.getTime() : -Infinity;
+
+  const used = new Map<string, number>();
+  for (const movement of movements) {
+    const at = new Date(movement.createdAt).getTime();
+    if (at < start || at >= to || !USAGE_TYPES.includes(movement.type)) continue;
+    used.set(movement.inventoryItemId, (used.get(movement.inventoryItemId) ?? 0) - parseFloat(movement.quantity));
+  }
+
+  const lines = stockTake.lines.map((line): StockTakeVarianceLine => {
+    const variance = lineVariance(line);
+    const theoreticalUsage = round(used.get(line.inventoryItemId) ?? 0);
+    return {
+      inventoryItemId: line.inventoryItemId,
+      itemName: line.itemName,
+      category: line.category,
+      unit: line.unit,
+      theoretical: parseFloat(line.theoretical),
+      counted: line.counted === null ? null : parseFloat(line.counted),
+      variance: variance?.variance ?? null,
+      value: variance?.value ?? null,
+      theoreticalUsage,
+      actualUsage: variance ? round(theoreticalUsage - variance.variance) : null,
+    };
+  });
+
+  const values = lines.flatMap((line) => (line.value === null ? [] : [line.value]));
+  const shortageValue = round2(values.filter((value) => value < 0).reduce((sum, value) => sum - value, 0));
+  const surplusValue = round2(values.filter((value) => value > 0).reduce((sum, value) => sum + value, 0));
+
+  return {
+    stockTakeId: stockTake.id,
+    from: from ? from.toISOString() : null,
+    to: new Date(stockTake.startedAt).toISOString(),
+    lines,
+    counted: values.length,
+    uncounted: lines.length - values.length,
+    shortageValue,
+    surplusValue,
+    netValue: round2(surplusValue - shortageValue),
+  };
+}
@@ -0,0 +1,110 @@
+import type { TaxProfile, TaxBreakdownLine } from "./schema";
+
+// Pure tax calculation shared by the billing routes and the POS cart, so the
+// figure a cashier sees is the figure that ends up on the invoice.
+
+export interface TaxableLine {
+  price: number;
+  quantity: number;
+  category?: string | null;
+  taxProfileId?: string | null;
+}
+
+export interface TaxCalculation {
+  subtotal: number;
+  taxTotal: number;
+  chargeTotal: number;
+  total: number;
+  breakdown: TaxBreakdownLine[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Item profile wins over a category profile, which wins over the default.
+ */
+export function resolveTaxProfile(
+  line: Pick<TaxableLine, "category" | "taxProfileId">,
+  profiles: TaxProfile[],
+): TaxProfile | undefined {
+  if (line.taxProfileId) {
+    const assigned = profiles.find((profile) => profile.id === line.taxProfileId);
+    if (assigned) {
+      return assigned;
+    }
+  }
+  if (line.category) {
+    const byCategory = profiles.find((profile) => profile.categories.includes(line.category!));
+    if (byCategory) {
+      return byCategory;
+    }
+  }
+  return profiles.find((profile) => profile.isDefault);
+}
+
+export function calculateTax(lines: TaxableLine[], profiles: TaxProfile[]): TaxCalculation {
+  const buckets = new Map<string, TaxBreakdownLine>();
+  let subtotal = 0;
+
+  for (const line of lines) {
+    const gross = line.price * line.quantity;
+    const profile = resolveTaxProfile(line, profiles);
+    const components = profile?.components ?? [];
+
+    // Inclusive prices already contain the tax components; back them out to get the net
+    const includedRate = profile?.inclusive
+      ? components.filter((c) => c.kind === "tax").reduce((sum, c) => sum + c.rate, 0)
+      : 0;
+    const net = gross / (1 + includedRate / 100);
+    subtotal += net;
+
+    for (const component of components) {
+      const key = `${component.kind}:${component.code}:${component.rate}`;
+      const bucket = buckets.get(key) ?? {
+        code: component.code,
+        name: component.name,
+        rate: component.rate,
+        kind: component.kind,
+        taxableAmount: 0,
+        amount: 0,
+      };
+      bucket.taxableAmount += net;
+      buckets.set(key, bucket);
+    }
+  }
+
+  const breakdown = Array.from(buckets.values())
+    .map((bucket) => ({
+      ...bucket,
+      taxableAmount: round2(bucket.taxableAmount),
+      amount: round2((bucket.taxableAmount * bucket.rate) / 100),
+    }))
+    .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === "tax" ? -1 : 1));
+
+  const taxTotal = round2(breakdown.filter((b) => b.kind === "tax").reduce((sum, b) => sum + b.amount, 0));
+  const chargeTotal = round2(breakdown.filter((b) => b.kind === "charge").reduce((sum, b) => sum + b.amount, 0));
+  const roundedSubtotal = round2(subtotal);
+
+  return {
+    subtotal: roundedSubtotal,
+    taxTotal,
+    chargeTotal,
+    total: round2(roundedSubtotal + taxTotal + chargeTotal),
+    breakdown,
+  };
+}
+
+export function formatTaxLabel(line: Pick<TaxBreakdownLine, "name" | "rate">): string {
+  return `${line.name} (${line.rate}%)`;
+}
+
+export function parseTaxBreakdown(json: string | null | undefined): TaxBreakdownLine[] {
+  if (!json) {
+    return [];
+  }
+  try {
+    return JSON.parse(json) as TaxBreakdownLine[];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,112 @@
+import { standardUnits, type InventoryItem, type PackSize, type UnitDimension } from "./schema";
+
+export type UnitConversion = { ok: true; quantity: number } | { ok: false; error: string };
+
+// Spellings seen in recipes and supplier bills for the standard units
+const UNIT_ALIASES: Record<string, string> = {
+  gm: "g",
+  gms: "g",
+  gram: "g",
+  grams: "g",
+  kgs: "kg",
+  lbs: "lb",
+  l: "L",
+  ltr: "L",
+  litre: "L",
+  liter: "L",
+  pc: "pcs",
+  piece: "pcs",
+  pieces: "pcs",
+  nos: "pcs",
+};
+
+const canonical = (unit: string) => {
+  const trimmed = unit.trim();
+  return standardUnits[trimmed] ? trimmed : UNIT_ALIASES[trimmed.toLowerCase()] ?? trimmed;
+};
+
+interface ResolvedUnit {
+  dimension: UnitDimension;
+  // Size of one of the unit in g, ml or pcs
+  factor: number;
+}
+
+function resolveUnit(unit: string, packSizes: PackSize[]): ResolvedUnit | null {
+  const name = canonical(unit);
+  const standard = standardUnits[name];
+  if (standard) {
+    return standard;
+  }
+  // Pack sizes are only ever given in a standard unit, so this cannot loop
+  const pack = packSizes.find((size) => size.unit.toLowerCase() === name.toLowerCase());
+  const inner = pack ? standardUnits[canonical(pack.of)] : undefined;
+  return pack && inner ? { dimension: inner.dimension, factor: pack.quantity * inner.factor } : null;
+}
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+/**
+ * Converts a quantity between two units using the standard units and the
+ * item's own pack sizes. The same unit on both sides always converts, so
+ * items whose unit is neither standard nor a pack keep working as long as
+ * everything about them is counted in that unit.
+ */
+export function convertQuantity(quantity: number, from: string, to: string, packSizes: PackSize[] = []): UnitConversion {
+  if (canonical(from) === canonical(to)) {
+    return { ok: true, quantity };
+  }
+  const source = resolveUnit(from, packSizes);
+  const target = resolveUnit(to, packSizes);
+  if (!source) {
+    return { ok: false, error: `Unknown unit "${from}"; add a pack size for it` };
+  }
+  if (!target) {
+    return { ok: false, error: `Unknown unit "${to}"; add a pack size for it` };
+  }
+  if (source.dimension !== target.dimension) {
+    return { ok: false, error: `Cannot convert ${from} (${source.dimension}) to ${to} (${target.dimension})` };
+  }
+  return { ok: true, quantity: round((quantity * source.factor) / target.factor) };
+}
+
+type StockItem = Pick<InventoryItem, "name" | "unit"> & { packSizes?: PackSize[] };
+
+// A quantity in any unit, as the item's stock unit
+export function toStockUnit(quantity: number, unit: string, item: StockItem): UnitConversion {
+  const converted = convertQuantity(quantity, unit, item.unit, item.packSizes ?? []);
+  return converted.ok ? converted : { ok: false, error: `${item.name}: ${converted.error}` };
+}
+
+// Every unit a quantity of the item can be given in: its own, the standard units of the same kind and its packs
+export function unitsFor(item: StockItem): string[] {
+  const packSizes = item.packSizes ?? [];
+  const own = resolveUnit(item.unit, packSizes);
+  const units = [item.unit];
+  if (!own) {
+    return units;
+  }
+  for (const unit of Object.keys(standardUnits).concat(packSizes.map((size) => size.unit))) {
+    if (!units.includes(unit) && resolveUnit(unit, packSizes)?.dimension === own.dimension) {
+      units.push(unit);
+    }
+  }
+  return units;
+}
+
+// Null when the item's unit and pack sizes describe it consistently
+export function checkPackSizes(unit: string, packSizes: PackSize[]): string | null {
+  const seen = new Set<string>();
+  for (const size of packSizes) {
+    const name = size.unit.trim().toLowerCase();
+    if (standardUnits[canonical(size.unit)]) {
+      return `${size.unit} is a standard unit and cannot be given a pack size`;
+    }
+    if (seen.has(name)) {
+      return `${size.unit} has more than one pack size`;
+    }
+    seen.add(name);
+  }
+  const own = resolveUnit(unit, packSizes);
+  const mixed = own && packSizes.find((size) => resolveUnit(size.unit, packSizes)!.dimension !== own.dimension);
+  return mixed ? `A ${mixed.unit} of ${mixed.of} cannot be counted in ${unit}` : null;
+}
@@ -0,0 +1,112 @@
+import { compReasons, voidReasons, type ItemAdjustment, type ItemAdjustmentKind } from "./schema";
+
+// Voids and comps over a group of adjustments; amounts are what the lines were worth
+export interface AdjustmentTotals {
+  voids: number;
+  voidAmount: number;
+  // Voids of lines the kitchen already had, which may have been cooked
+  voidsAfterKot: number;
+  comps: number;
+  compAmount: number;
+  // Adjustments that needed a manager's PIN
+  approved: number;
+}
+
+export interface StaffAdjustments extends AdjustmentTotals {
+  userId: string;
+  name: string;
+}
+
+export interface DayAdjustments extends AdjustmentTotals {
+  // YYYY-MM-DD in the server's local time
+  day: string;
+}
+
+export interface ReasonAdjustments {
+  kind: ItemAdjustmentKind;
+  reasonCode: string;
+  label: string;
+  count: number;
+  amount: number;
+}
+
+export interface VoidReport {
+  from: string;
+  to: string;
+  overall: AdjustmentTotals;
+  byStaff: StaffAdjustments[];
+  byDay: DayAdjustments[];
+  byReason: ReasonAdjustments[];
+  adjustments: ItemAdjustment[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function adjustmentReasonLabel(kind: ItemAdjustmentKind, reasonCode: string): string {
+  const reasons: Record<string, string> = kind === "void" ? voidReasons : compReasons;
+  return reasons[reasonCode] ?? reasonCode;
+}
+
+function dayOf(date: Date | string): string {
+  const local = new Date(date);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`;
+}
+
+function totalsOf(adjustments: ItemAdjustment[]): AdjustmentTotals {
+  const totals: AdjustmentTotals = { voids: 0, voidAmount: 0, voidsAfterKot: 0, comps: 0, compAmount: 0, approved: 0 };
+  for (const adjustment of adjustments) {
+    const amount = parseFloat(adjustment.amount);
+    if (adjustment.kind === "void") {
+      totals.voids++;
+      totals.voidAmount += amount;
+      totals.voidsAfterKot += adjustment.afterKot ? 1 : 0;
+    } else {
+      totals.comps++;
+      totals.compAmount += amount;
+    }
+    totals.approved += adjustment.approvedBy ? 1 : 0;
+  }
+  return { ...totals, voidAmount: round2(totals.voidAmount), compAmount: round2(totals.compAmount) };
+}
+
+function groupBy<K>(adjustments: ItemAdjustment[], keyOf: (adjustment: ItemAdjustment) => K): Array<[K, ItemAdjustment[]]> {
+  const groups = new Map<K, ItemAdjustment[]>();
+  for (const adjustment of adjustments) {
+    const key = keyOf(adjustment);
+    groups.set(key, [...(groups.get(key) ?? []), adjustment]);
+  }
+  return Array.from(groups.entries());
+}
+
+const valueOf = (totals: AdjustmentTotals) => totals.voidAmount + totals.compAmount;
+
+/**
+ * Voids and comps per staff member, per day and per reason. Staff are
+ * credited with what they keyed in themselves; the approving manager shows
+ * on the individual adjustment.
+ */
+export function buildVoidReport(adjustments: ItemAdjustment[], { from, to }: { from: Date; to: Date }): VoidReport {
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    overall: totalsOf(adjustments),
+    byStaff: groupBy(adjustments, (adjustment) => adjustment.by)
+      .map(([userId, group]) => ({ userId, name: group[group.length - 1].byName, ...totalsOf(group) }))
+      .sort((a, b) => valueOf(b) - valueOf(a)),
+    byDay: groupBy(adjustments, (adjustment) => dayOf(adjustment.createdAt))
+      .map(([day, group]) => ({ day, ...totalsOf(group) }))
+      .sort((a, b) => a.day.localeCompare(b.day)),
+    byReason: groupBy(adjustments, (adjustment) => `${adjustment.kind}:${adjustment.reasonCode}`)
+      .map(([, group]) => ({
+        kind: group[0].kind,
+        reasonCode: group[0].reasonCode,
+        label: adjustmentReasonLabel(group[0].kind, group[0].reasonCode),
+        count: group.length,
+        amount: round2(group.reduce((total, adjustment) => total + parseFloat(adjustment.amount), 0)),
+      }))
+      .sort((a, b) => b.amount - a.amount),
+    // Newest first, for the list under the totals
+    adjustments: [...adjustments].reverse(),
+  };
+}